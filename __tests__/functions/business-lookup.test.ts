@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import googleTextSearch from '../fixtures/platforms/google-text-search.json'
+import yelpBusinessSearch from '../fixtures/platforms/yelp-business-search.json'
+import tripAdvisorLocationSearch from '../fixtures/platforms/tripadvisor-location-search.json'
+import tripAdvisorLocationDetails from '../fixtures/platforms/tripadvisor-location-details.json'
+import { googleAdapter } from '../../supabase/functions/_shared/platforms/google'
+import { yelpAdapter } from '../../supabase/functions/_shared/platforms/yelp'
+import { facebookAdapter } from '../../supabase/functions/_shared/platforms/facebook'
+import { tripAdvisorAdapter } from '../../supabase/functions/_shared/platforms/tripadvisor'
+import {
+  registerAdapter,
+  searchPlatformBusinesses,
+  validatePlatformBusinessIds,
+} from '../../supabase/functions/_shared/platforms/registry'
+import { PlatformAuthError } from '../../supabase/functions/_shared/platforms/errors'
+
+// Serves recorded platform responses and records the URLs requested
+const fixtureFetch = (route: (url: URL) => { status?: number; body: unknown }, requests: URL[] = []) =>
+  (async (input: RequestInfo | URL) => {
+    const url = new URL(input.toString())
+    requests.push(url)
+    const { status = 200, body } = route(url)
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }) as typeof fetch
+
+describe('Business Lookup Tests', () => {
+  describe('Adapter search', () => {
+    test('should search Google Places by name and address', async () => {
+      const requests: URL[] = []
+      const candidates = await googleAdapter.searchBusinesses(
+        { name: 'Blue Door Bakery', address: '214 Grand St, Brooklyn' },
+        { apiKey: 'google-key', fetch: fixtureFetch(() => ({ body: googleTextSearch }), requests) }
+      )
+
+      expect(requests[0].pathname).toBe('/maps/api/place/textsearch/json')
+      expect(requests[0].searchParams.get('query')).toBe('Blue Door Bakery, 214 Grand St, Brooklyn')
+      expect(candidates).toHaveLength(2)
+      expect(candidates[0]).toEqual({
+        platform: 'google',
+        platform_business_id: 'ChIJ7cv00DxZwokRGnV4lG2Xa1Q',
+        name: 'Blue Door Bakery',
+        address: '214 Grand St, Brooklyn, NY 11211, United States',
+        url: 'https://www.google.com/maps/place/?q=place_id:ChIJ7cv00DxZwokRGnV4lG2Xa1Q',
+        rating: 4.6,
+        review_count: 812,
+      })
+    })
+
+    test('should join Yelp display addresses', async () => {
+      const candidates = await yelpAdapter.searchBusinesses(
+        { name: 'Blue Door Bakery', address: 'Brooklyn, NY' },
+        { apiKey: 'yelp-key', fetch: fixtureFetch(() => ({ body: yelpBusinessSearch })) }
+      )
+
+      expect(candidates).toEqual([expect.objectContaining({
+        platform_business_id: 'blue-door-bakery-brooklyn',
+        address: '214 Grand St, Brooklyn, NY 11211',
+        review_count: 356,
+      })])
+    })
+
+    test('should not call Yelp without an address', async () => {
+      const requests: URL[] = []
+      const candidates = await yelpAdapter.searchBusinesses(
+        { name: 'Blue Door Bakery' },
+        { apiKey: 'yelp-key', fetch: fixtureFetch(() => ({ body: yelpBusinessSearch }), requests) }
+      )
+
+      expect(candidates).toEqual([])
+      expect(requests).toHaveLength(0)
+    })
+
+    test('should read Tripadvisor numbers sent as strings', async () => {
+      const candidate = await tripAdvisorAdapter.lookupBusiness('23081514', {
+        apiKey: 'ta-key',
+        fetch: fixtureFetch(() => ({ body: tripAdvisorLocationDetails })),
+      })
+
+      expect(candidate).toMatchObject({ platform_business_id: '23081514', rating: 4.5, review_count: 41 })
+
+      const [searched] = await tripAdvisorAdapter.searchBusinesses(
+        { name: 'Blue Door Bakery' },
+        { apiKey: 'ta-key', fetch: fixtureFetch(() => ({ body: tripAdvisorLocationSearch })) }
+      )
+      expect(searched).toMatchObject({ address: '214 Grand St, Brooklyn, NY 11211', rating: null })
+    })
+  })
+
+  describe('ID lookup', () => {
+    test('should return null for IDs the platform does not know', async () => {
+      const notFound = fixtureFetch(() => ({ status: 404, body: { error: { code: 'BUSINESS_NOT_FOUND' } } }))
+
+      await expect(yelpAdapter.lookupBusiness('no-such-biz', { apiKey: 'yelp-key', fetch: notFound })).resolves.toBeNull()
+      await expect(googleAdapter.lookupBusiness('bad-id', {
+        apiKey: 'google-key',
+        fetch: fixtureFetch(() => ({ body: { status: 'NOT_FOUND' } })),
+      })).resolves.toBeNull()
+    })
+
+    test('should still raise credential errors', async () => {
+      const lookup = facebookAdapter.lookupBusiness('104823371297516', {
+        apiKey: 'expired',
+        fetch: fixtureFetch(() => ({
+          status: 400,
+          body: { error: { message: 'Session has expired', type: 'OAuthException', code: 190 } },
+        })),
+      })
+
+      await expect(lookup).rejects.toBeInstanceOf(PlatformAuthError)
+    })
+  })
+
+  describe('Registry helpers', () => {
+    const candidate = {
+      platform: 'google' as const,
+      platform_business_id: 'place-1',
+      name: 'Blue Door Bakery',
+      address: '214 Grand St',
+      url: null,
+      rating: 4.6,
+      review_count: 812,
+    }
+
+    beforeEach(() => {
+      // Platform lookups are swapped out through the adapter registry
+      registerAdapter({ ...googleAdapter, searchBusinesses: async () => [candidate], lookupBusiness: async () => candidate })
+      registerAdapter({ ...yelpAdapter, searchBusinesses: async () => { throw new Error('YELP_API_KEY is not set') } })
+      registerAdapter({ ...facebookAdapter, searchBusinesses: async () => [], lookupBusiness: async () => null })
+      registerAdapter({ ...tripAdvisorAdapter, searchBusinesses: async () => [] })
+    })
+
+    afterEach(() => {
+      registerAdapter(googleAdapter)
+      registerAdapter(yelpAdapter)
+      registerAdapter(facebookAdapter)
+      registerAdapter(tripAdvisorAdapter)
+    })
+
+    test('should report a failing platform without failing the search', async () => {
+      const results = await searchPlatformBusinesses({ name: 'Blue Door Bakery' }, () => ({ apiKey: '' }))
+
+      expect(results.map(result => result.platform)).toEqual(['google', 'yelp', 'facebook', 'tripadvisor'])
+      expect(results[0].candidates).toEqual([candidate])
+      expect(results[1]).toMatchObject({ candidates: [], error: 'YELP_API_KEY is not set' })
+      expect(results[2].error).toBeNull()
+    })
+
+    test('should validate each chosen ID', async () => {
+      const validations = await validatePlatformBusinessIds(
+        { google: ' place-1 ', facebook: 'missing-page', yelp: '', myspace: 'tom' },
+        () => ({ apiKey: 'key' })
+      )
+
+      expect(validations).toEqual([
+        { platform: 'google', platform_business_id: 'place-1', valid: true, candidate, error: null },
+        expect.objectContaining({ platform: 'facebook', valid: false, error: 'Facebook has no listing with this ID' }),
+        expect.objectContaining({ platform: 'myspace', valid: false, error: 'Unsupported platform: myspace' }),
+      ])
+    })
+  })
+})
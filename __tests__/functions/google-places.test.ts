@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http'
+import { AddressInfo } from 'net'
+import { googleAdapter } from '../../supabase/functions/_shared/platforms/google'
+import { fetchNormalizedReviews } from '../../supabase/functions/_shared/platforms/registry'
+import {
+  PlatformAuthError,
+  PlatformRateLimitError,
+} from '../../supabase/functions/_shared/platforms/errors'
+
+describe('Google Places Adapter Tests', () => {
+  let server: http.Server
+  let baseUrl: string
+  let responses: Record<string, any>
+  let requests: URL[]
+  // Places whose requests get an HTTP 429 instead of a body
+  let throttled: Set<string>
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost')
+      requests.push(url)
+      const key = url.searchParams.get('pagetoken') || url.searchParams.get('place_id')!
+      if (throttled.has(key)) {
+        res.writeHead(429, { 'Retry-After': '3' })
+        res.end()
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(responses[key]))
+    })
+    await new Promise<void>(resolve => server.listen(0, resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    responses = {}
+    requests = []
+    throttled = new Set()
+  })
+
+  const fetchGoogleReviews = (placeId: string, config: { apiKey: string; baseUrl: string }) =>
+    fetchNormalizedReviews(googleAdapter, placeId, config)
+
+  const review = (contributor: string, time: number) => ({
+    author_name: `Reviewer ${contributor}`,
+    author_url: `https://www.google.com/maps/contrib/${contributor}/reviews`,
+    profile_photo_url: `https://lh3.googleusercontent.com/${contributor}`,
+    rating: 4,
+    text: 'Friendly staff and quick service.',
+    time,
+  })
+
+  test('should map reviews to stable platform IDs', async () => {
+    responses['place-1'] = {
+      status: 'OK',
+      result: { url: 'https://maps.google.com/?cid=1', reviews: [review('111', 1700000000)] },
+    }
+
+    const first = await fetchGoogleReviews('place-1', { apiKey: 'test-key', baseUrl })
+    const second = await fetchGoogleReviews('place-1', { apiKey: 'test-key', baseUrl })
+
+    expect(first).toHaveLength(1)
+    expect(first[0]).toEqual({
+      platform_review_id: 'place-1:111:1700000000',
+      reviewer_name: 'Reviewer 111',
+      reviewer_avatar: 'https://lh3.googleusercontent.com/111',
+      rating: 4,
+      review_text: 'Friendly staff and quick service.',
+      review_date: new Date(1700000000 * 1000).toISOString(),
+      review_url: 'https://www.google.com/maps/contrib/111/reviews',
+    })
+    expect(second[0].platform_review_id).toBe(first[0].platform_review_id)
+    expect(requests[0].searchParams.get('key')).toBe('test-key')
+  })
+
+  test('should follow next_page_token until exhausted', async () => {
+    responses['place-2'] = {
+      status: 'OK',
+      next_page_token: 'page-2',
+      result: { reviews: [review('1', 1700000001)] },
+    }
+    responses['page-2'] = {
+      status: 'OK',
+      result: { reviews: [review('2', 1700000002)] },
+    }
+
+    const reviews = await fetchGoogleReviews('place-2', { apiKey: 'test-key', baseUrl })
+
+    expect(reviews.map(r => r.platform_review_id)).toEqual([
+      'place-2:1:1700000001',
+      'place-2:2:1700000002',
+    ])
+    expect(requests).toHaveLength(2)
+  })
+
+  test('should return no reviews for ZERO_RESULTS', async () => {
+    responses['place-3'] = { status: 'ZERO_RESULTS' }
+
+    await expect(fetchGoogleReviews('place-3', { apiKey: 'test-key', baseUrl })).resolves.toEqual([])
+  })
+
+  test('should surface API error statuses as typed errors', async () => {
+    responses['place-4'] = { status: 'REQUEST_DENIED', error_message: 'API key invalid' }
+    responses['place-5'] = { status: 'OVER_QUERY_LIMIT', error_message: 'Quota exceeded' }
+
+    const denied = await fetchGoogleReviews('place-4', { apiKey: 'test-key', baseUrl }).catch(e => e)
+    const limited = await fetchGoogleReviews('place-5', { apiKey: 'test-key', baseUrl }).catch(e => e)
+
+    expect(denied).toBeInstanceOf(PlatformAuthError)
+    expect(denied.retryable).toBe(false)
+    expect(limited).toBeInstanceOf(PlatformRateLimitError)
+    expect(limited.retryable).toBe(true)
+  })
+
+  test('should raise PlatformRateLimitError with Retry-After for HTTP 429', async () => {
+    throttled.add('place-6')
+    const waits: number[] = []
+
+    const error = await fetchNormalizedReviews(googleAdapter, 'place-6', {
+      apiKey: 'test-key',
+      baseUrl,
+      http: { retry: { maxAttempts: 2 }, sleep: async ms => { waits.push(ms) } },
+    }).catch(e => e)
+
+    expect(error).toBeInstanceOf(PlatformRateLimitError)
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 3000, retryable: true })
+    expect(requests).toHaveLength(2)
+    expect(waits).toEqual([3000])
+  })
+})
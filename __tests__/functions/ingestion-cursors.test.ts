@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import facebookPage1 from '../fixtures/platforms/facebook-ratings-page-1.json'
+import facebookPage2 from '../fixtures/platforms/facebook-ratings-page-2.json'
+import { facebookAdapter } from '../../supabase/functions/_shared/platforms/facebook'
+import { fetchNormalizedReviews, iterateReviewPages } from '../../supabase/functions/_shared/platforms/registry'
+import { advanceCursor, isNewerThanCursor, rewindCursor } from '../../supabase/functions/_shared/platforms/cursor'
+
+describe('Ingestion Cursor Tests', () => {
+  const review = (platform_review_id: string, review_date: string) => ({
+    platform_review_id,
+    reviewer_name: 'Test',
+    rating: 5,
+    review_text: '',
+    review_date,
+    review_url: '',
+  })
+
+  // Records requested URLs so tests can assert how far paging went
+  const recordingFetch = () => {
+    const requests: URL[] = []
+    const fetchImpl = (async (input: RequestInfo | URL) => {
+      const url = new URL(input.toString())
+      requests.push(url)
+      const body = url.searchParams.get('after') ? facebookPage2 : facebookPage1
+      return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } })
+    }) as typeof fetch
+    return { requests, fetchImpl }
+  }
+
+  test('should treat reviews at the cursor timestamp as new unless they are the cursor review', () => {
+    const cursor = { review_date: '2024-06-03T09:05:12.000Z', platform_review_id: 'a' }
+
+    expect(isNewerThanCursor(review('b', '2024-06-04T00:00:00.000Z'), cursor)).toBe(true)
+    expect(isNewerThanCursor(review('b', '2024-06-03T09:05:12.000Z'), cursor)).toBe(true)
+    expect(isNewerThanCursor(review('a', '2024-06-03T09:05:12.000Z'), cursor)).toBe(false)
+    expect(isNewerThanCursor(review('c', '2024-01-01T00:00:00.000Z'), cursor)).toBe(false)
+  })
+
+  test('should only move the cursor forward', () => {
+    const cursor = { review_date: '2024-06-03T09:05:12.000Z', platform_review_id: 'a' }
+
+    expect(advanceCursor(cursor, [review('old', '2023-01-01T00:00:00.000Z')])).toBe(cursor)
+    expect(advanceCursor(cursor, [review('new', '2024-07-01T00:00:00.000Z')])).toEqual({
+      review_date: '2024-07-01T00:00:00.000Z',
+      platform_review_id: 'new',
+    })
+    expect(advanceCursor(null, [])).toBeNull()
+  })
+
+  test('should rewind the cursor by the reconcile window', () => {
+    const cursor = { review_date: '2024-06-03T09:05:12.000Z', platform_review_id: 'a' }
+
+    expect(rewindCursor(cursor, 14)).toEqual({ review_date: '2024-05-20T09:05:12.000Z', platform_review_id: null })
+    expect(isNewerThanCursor(review('a', '2024-06-03T09:05:12.000Z'), rewindCursor(cursor, 14)!)).toBe(true)
+    expect(rewindCursor(cursor, 0)).toBe(cursor)
+    expect(rewindCursor(null, 14)).toBeNull()
+  })
+
+  test('should stop paging once an incremental fetch reaches the cursor', async () => {
+    const { requests, fetchImpl } = recordingFetch()
+
+    const reviews = await fetchNormalizedReviews(
+      facebookAdapter,
+      '104823371297516',
+      { apiKey: 'page-token', fetch: fetchImpl },
+      { since: { review_date: '2024-06-03T09:05:12.000Z', platform_review_id: '1071998345527019' } }
+    )
+
+    expect(reviews.map(r => r.platform_review_id)).toEqual(['1078245519912834'])
+    expect(requests).toHaveLength(1)
+  })
+
+  test('should resume a backfill from a saved page cursor', async () => {
+    const { requests, fetchImpl } = recordingFetch()
+    const pages = []
+
+    for await (const page of iterateReviewPages(
+      facebookAdapter,
+      '104823371297516',
+      { apiKey: 'page-token', fetch: fetchImpl },
+      'QVFIUnNEUWxLeHRvY0g1'
+    )) {
+      pages.push(page)
+    }
+
+    expect(requests.map(url => url.searchParams.get('after'))).toEqual(['QVFIUnNEUWxLeHRvY0g1'])
+    expect(pages).toHaveLength(1)
+    expect(pages[0].pageCursor).toBe('QVFIUnNEUWxLeHRvY0g1')
+    expect(pages[0].nextPageCursor).toBeNull()
+    expect(pages[0].reviews[0].review_date).toBe('2017-11-20T14:40:00.000Z')
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import facebookPage1 from '../fixtures/platforms/facebook-ratings-page-1.json'
+import facebookPage2 from '../fixtures/platforms/facebook-ratings-page-2.json'
+import facebookTokenError from '../fixtures/platforms/facebook-error-token.json'
+import tripAdvisorReviews from '../fixtures/platforms/tripadvisor-reviews.json'
+import { facebookAdapter } from '../../supabase/functions/_shared/platforms/facebook'
+import { tripAdvisorAdapter } from '../../supabase/functions/_shared/platforms/tripadvisor'
+import { fetchNormalizedReviews, getAdapter } from '../../supabase/functions/_shared/platforms/registry'
+import { PlatformAuthError } from '../../supabase/functions/_shared/platforms/errors'
+
+// Serves recorded platform responses so the adapters run without network access
+const fixtureFetch = (route: (url: URL) => { status?: number; body: unknown }) =>
+  (async (input: RequestInfo | URL) => {
+    const { status = 200, body } = route(new URL(input.toString()))
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }) as typeof fetch
+
+describe('Platform Adapter Fixture Tests', () => {
+  test('should register every supported platform', () => {
+    expect(getAdapter('facebook')).toBe(facebookAdapter)
+    expect(getAdapter('tripadvisor')).toBe(tripAdvisorAdapter)
+    expect(getAdapter('myspace')).toBeUndefined()
+  })
+
+  describe('Facebook Pages', () => {
+    test('should page through ratings and normalize recommendations', async () => {
+      const reviews = await fetchNormalizedReviews(facebookAdapter, '104823371297516', {
+        apiKey: 'page-token',
+        fetch: fixtureFetch(url =>
+          url.searchParams.get('after') ? { body: facebookPage2 } : { body: facebookPage1 }
+        ),
+      })
+
+      expect(reviews).toHaveLength(3)
+      expect(reviews.map(r => r.rating)).toEqual([5, 1, 4])
+      expect(reviews[0]).toMatchObject({
+        platform_review_id: '1078245519912834',
+        reviewer_name: 'Priya Raman',
+        review_date: '2024-06-12T18:22:41.000Z',
+        review_url: 'https://www.facebook.com/1078245519912834',
+      })
+      expect(reviews[1].reviewer_name).toBe('Facebook user')
+      expect(reviews[2].platform_review_id).toBe(
+        '104823371297516:10155201937221980:2017-11-20T14:40:00+0000'
+      )
+    })
+
+    test('should raise PlatformAuthError for expired tokens', async () => {
+      const request = fetchNormalizedReviews(facebookAdapter, '104823371297516', {
+        apiKey: 'expired',
+        fetch: fixtureFetch(() => ({ status: 400, body: facebookTokenError })),
+      })
+
+      await expect(request).rejects.toBeInstanceOf(PlatformAuthError)
+    })
+  })
+
+  describe('Tripadvisor', () => {
+    test('should normalize bubble ratings and titles', async () => {
+      const reviews = await fetchNormalizedReviews(tripAdvisorAdapter, '2440523', {
+        apiKey: 'ta-key',
+        fetch: fixtureFetch(() => ({ body: tripAdvisorReviews })),
+      })
+
+      expect(reviews).toHaveLength(2)
+      expect(reviews.map(r => r.rating)).toEqual([5, 3])
+      expect(reviews[0]).toMatchObject({
+        platform_review_id: '951423876',
+        reviewer_name: 'wanderlust_jo',
+        review_text: 'Perfect weekend stay\n\nFriendly front desk, spotless rooms and a great breakfast.',
+        review_date: '2024-05-28T14:12:09.000Z',
+      })
+    })
+
+    test('should ask for the configured review language, or leave the default', async () => {
+      const languages: Array<string | null> = []
+      const fetchImpl = fixtureFetch(url => {
+        languages.push(url.searchParams.get('language'))
+        return { body: tripAdvisorReviews }
+      })
+
+      await fetchNormalizedReviews(tripAdvisorAdapter, '2440523', { apiKey: 'ta-key', fetch: fetchImpl, language: 'es' })
+      await fetchNormalizedReviews(tripAdvisorAdapter, '2440523', { apiKey: 'ta-key', fetch: fetchImpl })
+
+      expect(languages).toEqual(['es', null])
+    })
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import { backoffDelayMs, DEFAULT_RETRY_POLICY, platformFetch } from '../../supabase/functions/_shared/platforms/http'
+import { createPostgresRateLimiter } from '../../supabase/functions/_shared/platforms/rate-limiter'
+import { PlatformApiError, PlatformRateLimitError } from '../../supabase/functions/_shared/platforms/errors'
+import type { DatabaseClient } from '../../supabase/functions/_shared/supabase'
+
+describe('Platform HTTP Layer Tests', () => {
+  // Replies with the queued statuses in order, repeating the last one
+  const scriptedFetch = (statuses: Array<number | Error>, headers: Record<string, string> = {}) => {
+    const calls: string[] = []
+    const fetchImpl = (async (input: RequestInfo | URL) => {
+      calls.push(input.toString())
+      const next = statuses[Math.min(calls.length, statuses.length) - 1]
+      if (next instanceof Error) throw next
+      return new Response(JSON.stringify({ ok: next < 400 }), { status: next, headers })
+    }) as typeof fetch
+    return { calls, fetchImpl }
+  }
+
+  const recordSleeps = () => {
+    const waits: number[] = []
+    return { waits, sleep: async (ms: number) => { waits.push(ms) } }
+  }
+
+  test('should cap exponential backoff at maxDelayMs', () => {
+    expect(backoffDelayMs(1, DEFAULT_RETRY_POLICY, () => 1)).toBe(500)
+    expect(backoffDelayMs(3, DEFAULT_RETRY_POLICY, () => 1)).toBe(2000)
+    expect(backoffDelayMs(20, DEFAULT_RETRY_POLICY, () => 1)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs)
+    expect(backoffDelayMs(3, DEFAULT_RETRY_POLICY, () => 0)).toBe(0)
+  })
+
+  test('should retry 503 responses with backoff until one succeeds', async () => {
+    const { calls, fetchImpl } = scriptedFetch([503, 502, 200])
+    const { waits, sleep } = recordSleeps()
+
+    const response = await platformFetch('yelp', 'https://api.test/reviews', {}, {
+      fetch: fetchImpl,
+      http: { sleep, random: () => 1 },
+    })
+
+    expect(response.status).toBe(200)
+    expect(calls).toHaveLength(3)
+    expect(waits).toEqual([500, 1000])
+  })
+
+  test('should return a 429 whose Retry-After exceeds the backoff cap without waiting', async () => {
+    const { calls, fetchImpl } = scriptedFetch([429], { 'Retry-After': '3600' })
+    const { waits, sleep } = recordSleeps()
+
+    const response = await platformFetch('yelp', 'https://api.test/reviews', {}, { fetch: fetchImpl, http: { sleep } })
+
+    expect(response.status).toBe(429)
+    expect(calls).toHaveLength(1)
+    expect(waits).toEqual([])
+  })
+
+  test('should wait for a Retry-After within the backoff cap before retrying', async () => {
+    const { calls, fetchImpl } = scriptedFetch([429, 200], { 'Retry-After': '2' })
+    const { waits, sleep } = recordSleeps()
+
+    const response = await platformFetch('yelp', 'https://api.test/reviews', {}, { fetch: fetchImpl, http: { sleep } })
+
+    expect(response.status).toBe(200)
+    expect(calls).toHaveLength(2)
+    expect(waits).toEqual([2000])
+  })
+
+  test('should retry network failures along with transient server errors', async () => {
+    const { calls, fetchImpl } = scriptedFetch([new TypeError('fetch failed'), 503, 200])
+    const { sleep } = recordSleeps()
+
+    const response = await platformFetch('google', 'https://maps.test/place', {}, { fetch: fetchImpl, http: { sleep } })
+
+    expect(response.status).toBe(200)
+    expect(calls).toHaveLength(3)
+  })
+
+  test('should not retry client errors', async () => {
+    const { calls, fetchImpl } = scriptedFetch([404])
+
+    const response = await platformFetch('google', 'https://api.test/place', {}, { fetch: fetchImpl })
+
+    expect(response.status).toBe(404)
+    expect(calls).toHaveLength(1)
+  })
+
+  test('should raise a retryable network_error once attempts run out', async () => {
+    const { calls, fetchImpl } = scriptedFetch([new TypeError('connection reset')])
+    const { sleep } = recordSleeps()
+
+    const error = await platformFetch('facebook', 'https://graph.test/ratings', {}, {
+      fetch: fetchImpl,
+      http: { sleep, retry: { maxAttempts: 2 } },
+    }).catch(e => e)
+
+    expect(error).toBeInstanceOf(PlatformApiError)
+    expect(error).toMatchObject({ code: 'network_error', retryable: true })
+    expect(calls).toHaveLength(2)
+  })
+
+  test('should take a rate limit token before every attempt', async () => {
+    const { fetchImpl } = scriptedFetch([503, 200])
+    const acquired: string[] = []
+
+    await platformFetch('tripadvisor', 'https://api.test/reviews', {}, {
+      fetch: fetchImpl,
+      http: { sleep: async () => {}, rateLimiter: { acquire: async platform => { acquired.push(platform) } } },
+    })
+
+    expect(acquired).toEqual(['tripadvisor', 'tripadvisor'])
+  })
+
+  describe('Postgres token bucket', () => {
+    const fakeSupabase = (replies: Array<{ data?: number; error?: unknown }>) => {
+      const calls: unknown[] = []
+      return {
+        calls,
+        rpc: async (name: string, args: unknown) => {
+          calls.push({ name, args })
+          return { data: null, error: null, ...replies[Math.min(calls.length, replies.length) - 1] }
+        },
+      } as unknown as DatabaseClient & { calls: unknown[] }
+    }
+
+    test('should wait for the bucket to refill', async () => {
+      const supabase = fakeSupabase([{ data: 250 }, { data: 0 }])
+      const { waits, sleep } = recordSleeps()
+
+      await createPostgresRateLimiter(supabase, { sleep }).acquire('yelp')
+
+      expect(waits).toEqual([250])
+      expect(supabase.calls).toEqual([
+        { name: 'take_platform_token', args: { p_platform: 'yelp' } },
+        { name: 'take_platform_token', args: { p_platform: 'yelp' } },
+      ])
+    })
+
+    test('should give up once the wait would exceed maxWaitMs', async () => {
+      const supabase = fakeSupabase([{ data: 15000 }])
+      const { sleep } = recordSleeps()
+
+      const error = await createPostgresRateLimiter(supabase, { sleep, maxWaitMs: 20000 }).acquire('yelp').catch(e => e)
+
+      expect(error).toBeInstanceOf(PlatformRateLimitError)
+      expect(error.retryAfterMs).toBe(15000)
+    })
+
+    test('should fail open when the quota table is unreachable', async () => {
+      const supabase = fakeSupabase([{ error: { message: 'connection refused' } }])
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(createPostgresRateLimiter(supabase).acquire('google')).resolves.toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ImportParseError,
+  missingRequiredFields,
+  parseCsv,
+  parseImportFile,
+  suggestColumnMapping,
+  validateImportRecords,
+} from '../../supabase/functions/_shared/review-import'
+
+describe('Review Import Tests', () => {
+  const now = Date.parse('2025-08-14T12:00:00Z')
+
+  test('should parse quoted CSV fields, CRLF line endings and a BOM', () => {
+    const csv = '\uFEFFStars,Comment\r\n5,"Loved it, truly"\r\n2,"Said ""meh""\nthen left"\r\n\r\n'
+
+    expect(parseCsv(csv)).toEqual([
+      ['Stars', 'Comment'],
+      ['5', 'Loved it, truly'],
+      ['2', 'Said "meh"\nthen left'],
+    ])
+  })
+
+  test('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('rating,text\n5,"oops')).toThrow(ImportParseError)
+  })
+
+  test('should read JSON arrays and { reviews } wrappers', () => {
+    const rows = [{ rating: 5, date: '2025-01-01' }, { rating: 4, text: 'Good' }]
+
+    expect(parseImportFile(JSON.stringify(rows), 'json')).toEqual({ columns: ['rating', 'date', 'text'], records: rows })
+    expect(parseImportFile(JSON.stringify({ reviews: rows }), 'json').records).toEqual(rows)
+    expect(() => parseImportFile('{"rating": 5}', 'json')).toThrow(ImportParseError)
+  })
+
+  test('should suggest a mapping from common export headers', () => {
+    const mapping = suggestColumnMapping(['Review ID', 'Author Name', 'Stars', 'Comment', 'Created At', 'Extra'])
+
+    expect(mapping).toEqual({
+      platform_review_id: 'Review ID',
+      reviewer_name: 'Author Name',
+      rating: 'Stars',
+      review_text: 'Comment',
+      review_date: 'Created At',
+    })
+    expect(missingRequiredFields({ rating: 'Stars' })).toEqual(['review_date'])
+  })
+
+  test('should report every problem in a row', async () => {
+    const { records } = parseImportFile(
+      'stars,date,url\n6,not a date,ftp://example.com\n4 stars,2030-01-01,\n3,2025-08-01,',
+      'csv'
+    )
+
+    const results = await validateImportRecords(records, { rating: 'stars', review_date: 'date', review_url: 'url' }, now)
+
+    expect(results[0]).toEqual({
+      row: 1,
+      review: null,
+      errors: [
+        'Rating must be a whole number from 1 to 5, got "6"',
+        'Review date "not a date" is not a recognizable date',
+        'review_url must be an http(s) URL',
+      ],
+    })
+    expect(results[1].errors).toEqual(['Review date "2030-01-01" is in the future'])
+    expect(results[2].review).toMatchObject({ rating: 3, reviewer_name: 'Anonymous', review_url: null })
+  })
+
+  test('should derive stable IDs for rows without one', async () => {
+    const records = [{ rating: '5/5', date: '2025-08-01T10:00:00Z', text: 'Great' }]
+    const mapping = { rating: 'rating', review_date: 'date', review_text: 'text' }
+
+    const [first] = await validateImportRecords(records, mapping, now)
+    const [second] = await validateImportRecords(records, mapping, now)
+
+    expect(first.review?.rating).toBe(5)
+    expect(first.review?.platform_review_id).toMatch(/^import-[0-9a-f]{32}$/)
+    expect(second.review?.platform_review_id).toBe(first.review?.platform_review_id)
+  })
+})
@@ -0,0 +1,33 @@
+/**
+ * @jest-environment node
+ */
+import {
+  failedReviewJobUpdate,
+  REVIEW_JOB_BASE_DELAY_MS,
+  REVIEW_JOB_MAX_DELAY_MS,
+  reviewJobRetryDelayMs,
+} from '../../supabase/functions/_shared/review-jobs'
+
+describe('Review Job Queue Tests', () => {
+  const now = new Date('2024-06-01T12:00:00.000Z')
+
+  test('should back off exponentially with jitter', () => {
+    expect(reviewJobRetryDelayMs(1, () => 0)).toBe(REVIEW_JOB_BASE_DELAY_MS / 2)
+    expect(reviewJobRetryDelayMs(1, () => 1)).toBe(REVIEW_JOB_BASE_DELAY_MS)
+    expect(reviewJobRetryDelayMs(3, () => 1)).toBe(REVIEW_JOB_BASE_DELAY_MS * 4)
+    expect(reviewJobRetryDelayMs(20, () => 1)).toBe(REVIEW_JOB_MAX_DELAY_MS)
+  })
+
+  test('should schedule a retry while attempts remain', () => {
+    const update = failedReviewJobUpdate({ attempts: 2, max_attempts: 5 }, 'HTTP 503', { now, random: () => 1 })
+
+    expect(update).toMatchObject({ status: 'pending', last_error: 'HTTP 503', locked_by: null })
+    expect(update.run_after).toBe(new Date(now.getTime() + REVIEW_JOB_BASE_DELAY_MS * 2).toISOString())
+  })
+
+  test('should dead-letter exhausted and permanent failures', () => {
+    expect(failedReviewJobUpdate({ attempts: 5, max_attempts: 5 }, 'HTTP 503', { now }).status).toBe('dead')
+    expect(failedReviewJobUpdate({ attempts: 1, max_attempts: 5 }, 'Bad input', { now, permanent: true }))
+      .toEqual({ status: 'dead', last_error: 'Bad input', locked_at: null, locked_by: null })
+  })
+})
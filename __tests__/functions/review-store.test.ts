@@ -0,0 +1,209 @@
+/**
+ * @jest-environment node
+ */
+import { markMissingReviewsRemoved, reviewContentHash, storeReviews } from '../../supabase/functions/_shared/review-store'
+import type { DatabaseClient } from '../../supabase/functions/_shared/supabase'
+
+describe('Review Store Tests', () => {
+  const review = (id: string, overrides: Record<string, unknown> = {}) => ({
+    platform_review_id: id,
+    reviewer_name: 'Test',
+    rating: 4,
+    review_text: 'Fine',
+    review_date: '2024-06-01T00:00:00.000Z',
+    review_url: 'https://example.com',
+    ...overrides,
+  })
+
+  // In-memory stand-in for the PostgREST calls storeReviews makes. Upserts with
+  // ignoreDuplicates only return created rows, like ON CONFLICT DO NOTHING.
+  const fakeSupabase = (rows: any[] = [], failChunk?: number) => {
+    const reviews = new Map<string, any>(rows.map(row => [row.platform_review_id, row]))
+    const calls = { inserts: [] as number[], rewrites: [] as string[], seen: [] as string[], revisions: [] as any[], deletes: [] as string[] }
+    let nextId = rows.length
+
+    const client = {
+      from: (table: string) => ({
+        upsert: (batch: any[], options: { ignoreDuplicates?: boolean }) => ({
+          select: async () => {
+            if (!options.ignoreDuplicates) {
+              calls.rewrites.push(...batch.map(row => row.platform_review_id))
+              batch.forEach(row => reviews.set(row.platform_review_id, { ...reviews.get(row.platform_review_id), ...row }))
+              return { data: batch.map(row => reviews.get(row.platform_review_id)), error: null }
+            }
+            calls.inserts.push(batch.length)
+            if (calls.inserts.length === failChunk) {
+              return { data: null, error: { message: 'boom' } }
+            }
+            const created = batch
+              .filter(row => !reviews.has(row.platform_review_id))
+              .map(row => ({ ...row, id: `review-${nextId++}` }))
+            created.forEach(row => reviews.set(row.platform_review_id, row))
+            return { data: created, error: null }
+          },
+        }),
+        select: () => {
+          const query = {
+            eq: () => query,
+            in: async (_column: string, ids: string[]) => ({
+              data: ids.filter(id => reviews.has(id)).map(id => reviews.get(id)),
+              error: null,
+            }),
+          }
+          return query
+        },
+        update: (values: Record<string, unknown>) => ({
+          in: async (_column: string, ids: string[]) => {
+            calls.seen.push(...ids)
+            reviews.forEach((row, key) => {
+              if (ids.includes(row.id)) reviews.set(key, { ...row, ...values })
+            })
+            return { error: null }
+          },
+        }),
+        insert: async (batch: any[]) => {
+          calls.revisions.push(...batch)
+          return { error: null }
+        },
+        delete: () => ({
+          in: async () => {
+            calls.deletes.push(table)
+            return { error: null }
+          },
+        }),
+      }),
+    }
+    return { client: client as unknown as DatabaseClient, calls, reviews }
+  }
+
+  test('should split reviews into created and already stored', async () => {
+    const existing = { ...review('b'), id: 'stored-b', content_hash: await reviewContentHash(review('b')) }
+    const { client, calls } = fakeSupabase([existing])
+
+    const result = await storeReviews(client, 'biz-1', 'yelp', [review('a'), review('b'), review('c'), review('a')], { chunkSize: 2 })
+
+    expect(calls.inserts).toEqual([2, 1])
+    expect(result.inserted.map(row => row.platform_review_id)).toEqual(['a', 'c'])
+    expect(result.existing.sort()).toEqual(['a', 'b'])
+    expect(result.updated).toHaveLength(0)
+    expect(result.failed).toBe(0)
+    expect(result.inserted[0]).toMatchObject({ business_id: 'biz-1', platform: 'yelp', processing_status: 'pending' })
+  })
+
+  test('should count a failed chunk and keep going', async () => {
+    const { client } = fakeSupabase([], 1)
+
+    const result = await storeReviews(client, 'biz-1', 'yelp', [review('a'), review('b'), review('c')], { chunkSize: 2 })
+
+    expect(result.failed).toBe(2)
+    expect(result.inserted.map(row => row.platform_review_id)).toEqual(['c'])
+  })
+
+  test('should keep the prior version of an edited review and requeue analysis', async () => {
+    const stored = {
+      ...review('a'),
+      id: 'stored-a',
+      content_hash: null,
+      is_processed: true,
+      processing_status: 'completed',
+    }
+    const { client, calls, reviews } = fakeSupabase([stored])
+
+    const result = await storeReviews(client, 'biz-1', 'yelp', [review('a', { rating: 1, review_text: 'Changed my mind' })])
+
+    expect(result.updated.map(row => row.id)).toEqual(['stored-a'])
+    expect(calls.revisions).toEqual([
+      { review_id: 'stored-a', rating: 4, review_text: 'Fine', content_hash: await reviewContentHash(stored) },
+    ])
+    expect(calls.deletes.sort()).toEqual(['review_tags', 'sentiment_analysis'])
+    expect(reviews.get('a')).toMatchObject({
+      rating: 1,
+      review_text: 'Changed my mind',
+      is_processed: false,
+      processing_status: 'pending',
+      is_removed: false,
+    })
+  })
+
+  test('should leave unchanged reviews processed', async () => {
+    const stored = { ...review('a'), id: 'stored-a', content_hash: null, is_processed: true, processing_status: 'completed' }
+    const { client, calls, reviews } = fakeSupabase([stored])
+
+    const result = await storeReviews(client, 'biz-1', 'yelp', [review('a')])
+
+    expect(result.updated).toHaveLength(0)
+    expect(calls.revisions).toHaveLength(0)
+    expect(reviews.get('a')).toMatchObject({ processing_status: 'completed', content_hash: await reviewContentHash(stored) })
+  })
+
+  test('should only mark unchanged reviews as seen', async () => {
+    const stored = {
+      ...review('a'),
+      id: 'stored-a',
+      content_hash: await reviewContentHash(review('a')),
+      is_removed: false,
+      last_seen_at: '2024-01-01T00:00:00.000Z',
+    }
+    const { client, calls, reviews } = fakeSupabase([stored])
+
+    await storeReviews(client, 'biz-1', 'yelp', [review('a')])
+
+    expect(calls.rewrites).toEqual([])
+    expect(calls.seen).toEqual(['stored-a'])
+    expect(reviews.get('a').last_seen_at).not.toBe('2024-01-01T00:00:00.000Z')
+  })
+
+  test('should not rewrite an edited review when clearing its old analysis fails', async () => {
+    const stored = { ...review('a'), id: 'stored-a', content_hash: await reviewContentHash(review('a')) }
+    const { client, calls } = fakeSupabase([stored])
+    const from = client.from.bind(client)
+    const failingDeletes = {
+      from: (table: string) => table === 'review_tags'
+        ? { delete: () => ({ in: async () => ({ error: { message: 'boom' } }) }) }
+        : from(table as 'reviews'),
+    } as unknown as DatabaseClient
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await storeReviews(failingDeletes, 'biz-1', 'yelp', [review('a', { rating: 1 })])
+
+    expect(result.updated).toEqual([])
+    expect(calls.rewrites).toEqual([])
+    expect(calls.revisions).toEqual([])
+    expect(console.error).toHaveBeenCalledWith('Error reconciling stored reviews:', { message: 'boom' })
+  })
+
+  test('should tag imported rows and leave stored reviews untouched', async () => {
+    const stored = { ...review('a'), id: 'stored-a', content_hash: null }
+    const { client, calls, reviews } = fakeSupabase([stored])
+
+    const result = await storeReviews(
+      client,
+      'biz-1',
+      'other',
+      [review('a', { rating: 1 }), review('b')],
+      { importId: 'import-1', reconcile: false }
+    )
+
+    expect(result.inserted).toEqual([expect.objectContaining({ platform_review_id: 'b', import_id: 'import-1' })])
+    expect(result.existing).toEqual(['a'])
+    expect(calls.revisions).toHaveLength(0)
+    expect(reviews.get('a')).toMatchObject({ rating: 4, content_hash: null })
+  })
+
+  test('should only flag unseen reviews that came from the platform as removed', async () => {
+    const filters: unknown[][] = []
+    const query = {
+      eq: (...args: unknown[]) => { filters.push(['eq', ...args]); return query },
+      is: (...args: unknown[]) => { filters.push(['is', ...args]); return query },
+      lt: (...args: unknown[]) => { filters.push(['lt', ...args]); return query },
+      select: async () => ({ data: [{ id: 'gone' }], error: null }),
+    }
+    const client = { from: () => ({ update: () => query }) } as unknown as DatabaseClient
+
+    const removed = await markMissingReviewsRemoved(client, 'biz-1', 'facebook', '2024-06-01T00:00:00.000Z')
+
+    expect(removed).toBe(1)
+    expect(filters).toContainEqual(['is', 'import_id', null])
+    expect(filters).toContainEqual(['lt', 'last_seen_at', '2024-06-01T00:00:00.000Z'])
+  })
+})
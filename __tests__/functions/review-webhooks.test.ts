@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import {
+  reviewDataFromWebhook,
+  signWebhookBody,
+  verifyWebhookSignature,
+  WEBHOOK_TOLERANCE_MS,
+  type ReviewWebhookPayload,
+} from '../../supabase/functions/_shared/webhooks'
+
+describe('Review Webhook Tests', () => {
+  const secret = 'whsec_test'
+  const now = Date.parse('2025-08-14T12:00:00Z')
+  const timestamp = String(now / 1000)
+  const body = JSON.stringify({ platform: 'yelp', business_id: 'test-cafe', review_id: 'r-1' })
+
+  test('should accept a body signed with the source secret', async () => {
+    const signature = `sha256=${await signWebhookBody(secret, timestamp, body)}`
+
+    await expect(verifyWebhookSignature(secret, { signature, timestamp, body }, now)).resolves.toBe(true)
+  })
+
+  test('should reject a tampered body or a different secret', async () => {
+    const signature = await signWebhookBody(secret, timestamp, body)
+
+    await expect(verifyWebhookSignature(secret, { signature, timestamp, body: body + ' ' }, now)).resolves.toBe(false)
+    await expect(verifyWebhookSignature('other', { signature, timestamp, body }, now)).resolves.toBe(false)
+  })
+
+  test('should reject stale timestamps, missing headers and unset secrets', async () => {
+    const signature = await signWebhookBody(secret, timestamp, body)
+
+    await expect(
+      verifyWebhookSignature(secret, { signature, timestamp, body }, now + WEBHOOK_TOLERANCE_MS + 1000)
+    ).resolves.toBe(false)
+    await expect(verifyWebhookSignature(secret, { signature: null, timestamp, body }, now)).resolves.toBe(false)
+    await expect(verifyWebhookSignature(secret, { signature, timestamp: null, body }, now)).resolves.toBe(false)
+    await expect(verifyWebhookSignature('', { signature, timestamp, body }, now)).resolves.toBe(false)
+  })
+
+  test('should map a pushed review into ReviewData', () => {
+    const payload: ReviewWebhookPayload = {
+      platform: 'yelp',
+      business_id: 'test-cafe',
+      review_id: 'yelp-review-9',
+      review_data: {
+        text: 'Great espresso',
+        rating: 5,
+        date: '2025-08-14T09:30:00-04:00',
+      },
+    }
+
+    expect(reviewDataFromWebhook(payload, 'Yelp')).toEqual({
+      platform_review_id: 'yelp-review-9',
+      reviewer_name: 'Yelp user',
+      reviewer_avatar: undefined,
+      rating: 5,
+      review_text: 'Great espresso',
+      review_date: '2025-08-14T13:30:00.000Z',
+      review_url: null,
+    })
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import {
+  isFetchDue,
+  nextFetchDue,
+  runWithConcurrency,
+} from '../../supabase/functions/_shared/scheduling'
+
+describe('Review Scheduling Tests', () => {
+  const now = new Date('2024-06-01T12:00:00Z')
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString()
+
+  describe('Monitoring Frequency Tests', () => {
+    test('should always be due when never fetched', () => {
+      expect(isFetchDue(null, 'weekly', now)).toBe(true)
+      expect(nextFetchDue(null, 'weekly')).toBeNull()
+    })
+
+    test('should honor each monitoring_frequency window', () => {
+      expect(isFetchDue(hoursAgo(2), 'hourly', now)).toBe(true)
+      expect(isFetchDue(hoursAgo(2), 'daily', now)).toBe(false)
+      expect(isFetchDue(hoursAgo(25), 'daily', now)).toBe(true)
+      expect(isFetchDue(hoursAgo(25), 'weekly', now)).toBe(false)
+      expect(isFetchDue(hoursAgo(24 * 7), 'weekly', now)).toBe(true)
+    })
+
+    test('should fall back to daily for unknown frequencies', () => {
+      expect(isFetchDue(hoursAgo(12), null, now)).toBe(false)
+      expect(isFetchDue(hoursAgo(24), 'monthly', now)).toBe(true)
+    })
+  })
+
+  describe('Concurrency Limit Tests', () => {
+    test('should never exceed the concurrency limit', async () => {
+      let inFlight = 0
+      let peak = 0
+
+      const results = await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+        inFlight++
+        peak = Math.max(peak, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        inFlight--
+        return item * 2
+      })
+
+      expect(peak).toBe(3)
+      expect(results.map(r => (r as PromiseFulfilledResult<number>).value)).toEqual([2, 4, 6, 8, 10, 12, 14])
+    })
+
+    test('should keep going when a worker fails', async () => {
+      const results = await runWithConcurrency(['ok', 'fail', 'ok'], 2, async item => {
+        if (item === 'fail') throw new Error('boom')
+        return item
+      })
+
+      expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled'])
+    })
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import { analyzeAspects, lexiconProvider, splitClauses } from '../../supabase/functions/_shared/sentiment/lexicon'
+import { parseSentimentReply } from '../../supabase/functions/_shared/sentiment/openai'
+import { buildReviewTags } from '../../supabase/functions/_shared/sentiment/tags'
+import { DEFAULT_TOPICS } from '../../supabase/functions/_shared/sentiment/topics'
+
+describe('Aspect Sentiment Tests', () => {
+  test('should split reviews at sentence ends, commas and "but"', () => {
+    expect(splitClauses('Great food, rude staff. The coffee was fine but slow!')).toEqual([
+      'Great food',
+      'rude staff',
+      'The coffee was fine',
+      'slow',
+    ])
+  })
+
+  test('should judge each topic by the clauses that mention it', () => {
+    expect(analyzeAspects('Great food, rude staff.', DEFAULT_TOPICS)).toEqual({
+      positive_aspects: ['food'],
+      negative_aspects: ['service'],
+    })
+    expect(analyzeAspects('The coffee was excellent but the prices are overpriced.', DEFAULT_TOPICS)).toEqual({
+      positive_aspects: ['coffee'],
+      negative_aspects: ['price'],
+    })
+  })
+
+  test('should leave topics mentioned without an opinion out of both lists', async () => {
+    const result = await lexiconProvider.analyze('We found parking nearby. The food was delicious.', { apiKey: '' }, DEFAULT_TOPICS, 'en')
+
+    expect(result.key_topics).toEqual(expect.arrayContaining(['food', 'location']))
+    expect(result.positive_aspects).toEqual(['food'])
+    expect(result.negative_aspects).toEqual([])
+  })
+
+  test('should keep model aspects to the reply topics and out of both lists at once', () => {
+    const reply = parseSentimentReply(JSON.stringify({
+      overall_sentiment: 'neutral',
+      sentiment_score: 0,
+      key_topics: ['food', 'service'],
+      positive_aspects: ['food', 'parking'],
+      negative_aspects: ['service', 'food'],
+    }), DEFAULT_TOPICS)
+
+    expect(reply.positive_aspects).toEqual(['food'])
+    expect(reply.negative_aspects).toEqual(['service'])
+  })
+
+  test("should tag each topic by its own aspect rather than the review's overall sentiment", async () => {
+    const result = await lexiconProvider.analyze('Great food, great coffee, great music, rude staff.', { apiKey: '' }, DEFAULT_TOPICS, 'en')
+
+    expect(result.overall_sentiment).toBe('positive')
+    expect(buildReviewTags('review-1', result, DEFAULT_TOPICS)).toEqual([
+      { review_id: 'review-1', tag_name: 'poor service', tag_category: 'staff', confidence_score: result.confidence_score },
+      { review_id: 'review-1', tag_name: 'quality food', tag_category: 'product', confidence_score: result.confidence_score },
+      { review_id: 'review-1', tag_name: 'good atmosphere', tag_category: 'ambiance', confidence_score: result.confidence_score },
+    ])
+  })
+
+  test('should tag topics without an opinion by name', () => {
+    const tags = buildReviewTags('review-1', {
+      overall_sentiment: 'positive',
+      sentiment_score: 0.6,
+      confidence_score: 0.8,
+      key_topics: ['price', 'location'],
+      positive_aspects: [],
+      negative_aspects: [],
+      key_phrases: [],
+      analysis_metadata: {},
+    }, DEFAULT_TOPICS)
+
+    expect(tags.map(tag => [tag.tag_name, tag.tag_category])).toEqual([['price', 'value'], ['location', 'other']])
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import labeledReviews from '../fixtures/sentiment/labeled-reviews.json'
+import multilingualReviews from '../fixtures/sentiment/labeled-reviews-multilingual.json'
+import { detectLanguage, type ReviewLanguage } from '../../supabase/functions/_shared/sentiment/language'
+import { labelFor, lexiconProvider, scoreSentiment, splitClauses, tokenize } from '../../supabase/functions/_shared/sentiment/lexicon'
+import { analyzeWithFallback } from '../../supabase/functions/_shared/sentiment/registry'
+import { DEFAULT_TOPICS } from '../../supabase/functions/_shared/sentiment/topics'
+
+// Share of labeled-reviews-multilingual.json each language's lexicon must
+// label correctly, and share of all fixtures whose language must be detected
+const MIN_ACCURACY = 0.9
+const MIN_DETECTION_ACCURACY = 0.95
+
+describe('Multilingual Sentiment Tests', () => {
+  const reviews = multilingualReviews as Array<{ language: ReviewLanguage; text: string; expected: string }>
+  const compound = (text: string, language: ReviewLanguage) => scoreSentiment(text, language).compound
+
+  test('should detect the language from stopwords, sentiment words and letters', () => {
+    expect(detectLanguage('The staff were friendly and the food was great.')).toBe('en')
+    expect(detectLanguage('El personal fue muy amable y la comida estaba rica.')).toBe('es')
+    expect(detectLanguage("C'était délicieux, merci à l'équipe.")).toBe('fr')
+    expect(detectLanguage('Das Essen war lecker und der Service schnell.')).toBe('de')
+    expect(detectLanguage('¡Excelente!')).toBe('es')
+    expect(detectLanguage('10/10 👍')).toBeNull()
+  })
+
+  test(`should detect at least ${MIN_DETECTION_ACCURACY * 100}% of the fixtures' languages`, () => {
+    const fixtures = [
+      ...labeledReviews.map(({ text }) => ({ text, language: 'en' })),
+      ...reviews,
+    ]
+    const misses = fixtures.filter(({ text, language }) => detectLanguage(text) !== language)
+    const accuracy = 1 - misses.length / fixtures.length
+
+    // Below the threshold, the failure lists every misdetected review
+    expect(accuracy >= MIN_DETECTION_ACCURACY ? [] : misses).toEqual([])
+  })
+
+  test('should read French elisions and negations around the verb', () => {
+    expect(tokenize("Je n'ai pas aimé l'accueil.", 'fr').map(token => token.word)).toEqual([
+      'je', 'n', 'ai', 'pas', 'aime', 'l', 'accueil',
+    ])
+    expect(compound('Je ne recommande pas ce restaurant.', 'fr')).toBeLessThan(0)
+    expect(compound("Ce n'est pas mal.", 'fr')).toBeGreaterThan(0)
+    expect(compound('Personnel peu aimable.', 'fr')).toBeLessThan(0)
+  })
+
+  test('should ignore accents in Spanish and French but not in German', () => {
+    expect(compound('La comida estaba increible.', 'es')).toBe(compound('La comida estaba increíble.', 'es'))
+    expect(compound('Le repas était délicieux.', 'fr')).toBe(compound('Le repas etait delicieux.', 'fr'))
+    // "schon" means "already"; only "schön" is praise
+    expect(compound('Es war schon spät.', 'de')).toBe(0)
+    expect(compound('Es war schön.', 'de')).toBeGreaterThan(0)
+  })
+
+  test("should weight and split clauses on each language's word for but", () => {
+    expect(compound('La comida es rica pero el servicio es lento.', 'es')).toBeLessThan(0)
+    expect(compound('Le service est lent mais le dessert est excellent.', 'fr')).toBeGreaterThan(0)
+    expect(splitClauses('Das Essen ist gut aber der Service ist langsam', 'de')).toEqual([
+      'Das Essen ist gut',
+      'der Service ist langsam',
+    ])
+  })
+
+  test(`should label at least ${MIN_ACCURACY * 100}% of each language's fixtures correctly`, () => {
+    const languages = Array.from(new Set(reviews.map(review => review.language)))
+
+    languages.forEach(language => {
+      const fixtures = reviews.filter(review => review.language === language)
+      const misses = fixtures.filter(({ text, expected }) => labelFor(compound(text, language)) !== expected)
+      const accuracy = 1 - misses.length / fixtures.length
+
+      // Below the threshold, the failure lists every mislabeled review, each with its language
+      expect(accuracy >= MIN_ACCURACY ? [] : misses).toEqual([])
+    })
+  })
+
+  test('should score with the lexicon of the language detected and record it', async () => {
+    const text = 'El camarero fue muy grosero y la comida estaba fría.'
+
+    // The English lexicon knows none of these words
+    expect(compound(text, 'en')).toBe(0)
+
+    const result = await analyzeWithFallback(text, [lexiconProvider], () => ({ apiKey: '' }), DEFAULT_TOPICS, detectLanguage(text))
+    expect(result.overall_sentiment).toBe('negative')
+    expect(result.analysis_metadata).toMatchObject({ language: 'es', provider: 'lexicon' })
+
+    const undetected = await analyzeWithFallback('👍', [lexiconProvider], () => ({ apiKey: '' }), DEFAULT_TOPICS, null)
+    expect(undetected.overall_sentiment).toBe('neutral')
+    expect(undetected.analysis_metadata.language).toBeNull()
+  })
+})
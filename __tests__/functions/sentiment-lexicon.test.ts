@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import labeledReviews from '../fixtures/sentiment/labeled-reviews.json'
+import holdoutReviews from '../fixtures/sentiment/labeled-reviews-holdout.json'
+import { labelFor, scoreSentiment, tokenize } from '../../supabase/functions/_shared/sentiment/lexicon'
+
+// Share of labeled-reviews.json the lexicon must label correctly. Raise it as
+// the lexicon improves; a change that drops below it needs a closer look.
+const MIN_ACCURACY = 0.9
+
+// labeled-reviews-holdout.json was written without looking at the lexicon, so
+// it shows how the lexicon does on wording it was not tuned for. It labeled
+// 20% of them correctly when they were added; this only catches it getting worse.
+const MIN_HOLDOUT_ACCURACY = 0.15
+
+describe('Lexicon Sentiment Scoring Tests', () => {
+  const compound = (text: string) => scoreSentiment(text).compound
+
+  test('should only match whole words', () => {
+    expect(compound('They handed me a badge, goodness.')).toBe(0)
+    expect(compound('The food was good.')).toBeGreaterThan(0)
+    expect(tokenize('Cold brew, please!').map(token => token.word)).toEqual(['cold brew', 'please'])
+    expect(compound('Their cold brew is smooth.')).toBe(0)
+    expect(compound('My soup was cold.')).toBeLessThan(0)
+  })
+
+  test('should flip words inside a negation window', () => {
+    expect(compound('The food was not good.')).toBeLessThan(0)
+    expect(compound('The dessert was never disappointing.')).toBeGreaterThan(0)
+    expect(compound("The staff weren't helpful.")).toBeLessThan(0)
+    // Not across a comma
+    expect(compound('Would not return, waste of money.')).toBeLessThan(0)
+  })
+
+  test('should strengthen intensified words and soften diminished ones', () => {
+    expect(compound('The staff were very friendly.')).toBeGreaterThan(compound('The staff were friendly.'))
+    expect(compound('Extremely rude staff.')).toBeLessThan(compound('Rude staff.'))
+    expect(compound('The staff were kind of friendly.')).toBeLessThan(compound('The staff were friendly.'))
+  })
+
+  test('should weight the clause after "but" over the one before it', () => {
+    expect(compound('The food was great but the service was awful.')).toBeLessThan(0)
+    expect(compound('The service was awful but the food was great.')).toBeGreaterThan(0)
+  })
+
+  test('should amplify exclamation marks and capitalized words', () => {
+    expect(compound('The staff were friendly!!!')).toBeGreaterThan(compound('The staff were friendly.'))
+    expect(compound('The staff were FRIENDLY.')).toBeGreaterThan(compound('The staff were friendly.'))
+    // All-caps text is shouting throughout, so nothing stands out
+    expect(compound('THE STAFF WERE FRIENDLY.')).toBeCloseTo(compound('The staff were friendly.'))
+  })
+
+  test('should keep scores within -1 and 1 and label them', () => {
+    const gushing = compound('BEST, BEST, BEST!!! Absolutely amazing, truly wonderful and perfect!!')
+
+    expect(gushing).toBeLessThanOrEqual(1)
+    expect(labelFor(gushing)).toBe('positive')
+    expect(labelFor(compound('They close at 9pm.'))).toBe('neutral')
+  })
+
+  test(`should label at least ${MIN_ACCURACY * 100}% of the labeled fixtures correctly`, () => {
+    const misses = labeledReviews.filter(({ text, expected }) => labelFor(compound(text)) !== expected)
+    const accuracy = 1 - misses.length / labeledReviews.length
+
+    // Below the threshold, the failure lists every mislabeled review
+    expect(accuracy >= MIN_ACCURACY ? [] : misses).toEqual([])
+  })
+
+  test(`should label at least ${MIN_HOLDOUT_ACCURACY * 100}% of the held-out fixtures correctly`, () => {
+    const misses = holdoutReviews.filter(({ text, expected }) => labelFor(compound(text)) !== expected)
+    const accuracy = 1 - misses.length / holdoutReviews.length
+
+    expect(accuracy >= MIN_HOLDOUT_ACCURACY ? [] : misses).toEqual([])
+  })
+})
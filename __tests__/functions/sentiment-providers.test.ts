@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http'
+import { AddressInfo } from 'net'
+import { lexiconProvider } from '../../supabase/functions/_shared/sentiment/lexicon'
+import { openAiProvider, parseSentimentReply } from '../../supabase/functions/_shared/sentiment/openai'
+import {
+  analyzeWithFallback,
+  providerConfigFromEnv,
+  selectProviders,
+} from '../../supabase/functions/_shared/sentiment/registry'
+import { SentimentProviderError } from '../../supabase/functions/_shared/sentiment/errors'
+import { DEFAULT_TOPICS } from '../../supabase/functions/_shared/sentiment/topics'
+import type { SentimentProvider } from '../../supabase/functions/_shared/sentiment/types'
+
+describe('Sentiment Provider Tests', () => {
+  let server: http.Server
+  let baseUrl: string
+  // `hang` leaves the request unanswered, like an endpoint that stopped responding
+  let reply: { status: number; body: unknown; hang?: boolean }
+  let requests: Array<{ url: string; headers: http.IncomingHttpHeaders; body: any }>
+
+  // A stand-in for the chat completions endpoint
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = ''
+      req.on('data', chunk => { raw += chunk })
+      req.on('end', () => {
+        requests.push({ url: req.url!, headers: req.headers, body: JSON.parse(raw) })
+        if (reply.hang) return
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(reply.body))
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+  })
+
+  afterAll(async () => {
+    server.closeAllConnections()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+    reply = { status: 200, body: {} }
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const completion = (content: object) => ({
+    model: 'mock-model',
+    choices: [{ message: { content: JSON.stringify(content) } }],
+    usage: { prompt_tokens: 120, completion_tokens: 40 },
+  })
+
+  const env = (values: Record<string, string>) => (name: string) => values[name]
+
+  test('should return the same lexicon result for the same text', async () => {
+    const text = 'Great coffee and friendly staff, but the parking was bad.'
+
+    const first = await lexiconProvider.analyze(text, { apiKey: '' }, DEFAULT_TOPICS, 'en')
+    const second = await lexiconProvider.analyze(text, { apiKey: '' }, DEFAULT_TOPICS, 'en')
+
+    expect(second).toEqual(first)
+    expect(first.overall_sentiment).toBe('negative')
+    expect(first.key_topics).toEqual(expect.arrayContaining(['coffee', 'service', 'location']))
+    expect(first.analysis_metadata).toMatchObject({ positive_words_found: 2, negative_words_found: 1 })
+  })
+
+  test('should send the review to a configurable chat completions endpoint', async () => {
+    reply.body = completion({
+      overall_sentiment: 'negative',
+      sentiment_score: -0.8,
+      confidence_score: 0.9,
+      key_topics: ['service', 'weather'],
+      key_phrases: ['waited forty minutes'],
+    })
+
+    const result = await openAiProvider.analyze('We waited forty minutes for cold food.', {
+      apiKey: 'test-key',
+      baseUrl,
+      model: 'mock-model',
+    }, DEFAULT_TOPICS, 'en')
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0].url).toBe('/v1/chat/completions')
+    expect(requests[0].headers.authorization).toBe('Bearer test-key')
+    expect(requests[0].body).toMatchObject({ model: 'mock-model', temperature: 0 })
+    expect(requests[0].body.messages[1]).toEqual({ role: 'user', content: 'We waited forty minutes for cold food.' })
+    expect(result).toMatchObject({
+      overall_sentiment: 'negative',
+      sentiment_score: -0.8,
+      confidence_score: 0.9,
+      // Topics outside the known list are dropped
+      key_topics: ['service'],
+      key_phrases: ['waited forty minutes'],
+      analysis_metadata: { model_version: 'mock-model', prompt_tokens: 120, completion_tokens: 40 },
+    })
+  })
+
+  test('should map failed and unusable completions to SentimentProviderError', async () => {
+    const analyze = () => openAiProvider.analyze('Fine.', { apiKey: 'test-key', baseUrl }, DEFAULT_TOPICS, 'en')
+
+    reply = { status: 401, body: { error: { message: 'Invalid API key' } } }
+    await expect(analyze()).rejects.toMatchObject({ code: 'unauthorized', status: 401, retryable: false })
+
+    reply = { status: 429, body: {} }
+    await expect(analyze()).rejects.toMatchObject({ code: 'rate_limited', retryable: true })
+
+    reply = { status: 200, body: completion({ overall_sentiment: 'ecstatic', sentiment_score: 1 }) }
+    await expect(analyze()).rejects.toMatchObject({ code: 'invalid_response' })
+
+    await expect(openAiProvider.analyze('Fine.', { apiKey: '' }, DEFAULT_TOPICS, 'en')).rejects.toMatchObject({ code: 'not_configured' })
+    expect(() => parseSentimentReply('not json', DEFAULT_TOPICS)).toThrow(SentimentProviderError)
+  })
+
+  test('should prefer the business provider, then SENTIMENT_PROVIDER, and always end with the lexicon', () => {
+    const names = (chain: SentimentProvider[]) => chain.map(provider => provider.name)
+
+    expect(names(selectProviders(null, env({})))).toEqual(['lexicon'])
+    expect(names(selectProviders(null, env({ SENTIMENT_PROVIDER: 'openai' })))).toEqual(['openai', 'lexicon'])
+    expect(names(selectProviders('lexicon', env({ SENTIMENT_PROVIDER: 'openai' })))).toEqual(['lexicon'])
+    expect(names(selectProviders('openai', env({ SENTIMENT_PROVIDER: 'comprehend' })))).toEqual(['openai', 'lexicon'])
+    expect(names(selectProviders(null, env({ SENTIMENT_PROVIDER: 'comprehend' })))).toEqual(['lexicon'])
+  })
+
+  test('should fall back to the next provider when the primary one errors', async () => {
+    reply = { status: 503, body: {} }
+    const chain = selectProviders('openai', env({}))
+    const configFor = (provider: SentimentProvider) =>
+      providerConfigFromEnv(provider, env({ OPENAI_API_KEY: 'test-key', OPENAI_BASE_URL: baseUrl }))
+
+    const result = await analyzeWithFallback('The staff were friendly.', chain, configFor, DEFAULT_TOPICS, 'en')
+
+    expect(requests).toHaveLength(1)
+    expect(result.overall_sentiment).toBe('positive')
+    expect(result.analysis_metadata).toMatchObject({
+      language: 'en',
+      provider: 'lexicon',
+      fallback_from: [{ provider: 'openai', error: expect.stringContaining('HTTP 503') }],
+    })
+
+    reply = { status: 200, body: completion({ overall_sentiment: 'neutral', sentiment_score: 0 }) }
+    const primary = await analyzeWithFallback('The staff were friendly.', chain, configFor, DEFAULT_TOPICS, 'en')
+    expect(primary.analysis_metadata.provider).toBe('openai')
+    expect(primary.analysis_metadata).not.toHaveProperty('fallback_from')
+  })
+
+  test('should give up on a hung endpoint and fall back', async () => {
+    reply = { status: 200, body: {}, hang: true }
+    const chain = selectProviders('openai', env({}))
+    const configFor = (provider: SentimentProvider) => ({
+      ...providerConfigFromEnv(provider, env({ OPENAI_BASE_URL: baseUrl })),
+      timeoutMs: 50,
+    })
+
+    const result = await analyzeWithFallback('The staff were friendly.', chain, configFor, DEFAULT_TOPICS, 'en')
+
+    expect(result.analysis_metadata).toMatchObject({
+      provider: 'lexicon',
+      fallback_from: [{ provider: 'openai', error: expect.stringContaining('timed out after 50 ms') }],
+    })
+    await expect(openAiProvider.analyze('Hi', configFor(openAiProvider), DEFAULT_TOPICS, 'en'))
+      .rejects.toMatchObject({ code: 'timeout', retryable: true })
+  })
+
+  test('should throw the last error when every provider fails', async () => {
+    const failing: SentimentProvider = {
+      name: 'openai',
+      displayName: 'Failing',
+      analyze: () => Promise.reject(new SentimentProviderError('openai', 'http_error', 'down')),
+    }
+
+    await expect(analyzeWithFallback('Hi', [failing], () => ({ apiKey: '' }), DEFAULT_TOPICS, 'en')).rejects.toThrow('down')
+  })
+})
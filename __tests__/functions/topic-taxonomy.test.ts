@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import path from 'path'
+import { lexiconProvider } from '../../supabase/functions/_shared/sentiment/lexicon'
+import { parseSentimentReply, systemPrompt } from '../../supabase/functions/_shared/sentiment/openai'
+import { buildReviewTags } from '../../supabase/functions/_shared/sentiment/tags'
+import { loadTopicDefinitions } from '../../supabase/functions/_shared/sentiment/taxonomy'
+import {
+  DEFAULT_TOPICS,
+  extractKeyTopics,
+  resolveTopicName,
+  type TopicDefinition,
+} from '../../supabase/functions/_shared/sentiment/topics'
+import type { DatabaseClient } from '../../supabase/functions/_shared/supabase'
+
+describe('Topic Taxonomy Tests', () => {
+  const dental: TopicDefinition[] = [
+    { name: 'staff', keywords: ['receptionist', 'hygienist'], synonyms: ['service'], tag_category: 'staff', positive_tag: 'friendly staff', negative_tag: 'unfriendly staff' },
+    { name: 'billing', keywords: ['bill', 'insurance'], synonyms: ['price'], tag_category: 'value', positive_tag: null, negative_tag: 'billing issues' },
+    { name: 'treatment', keywords: ['filling', 'root canal'], synonyms: [], tag_category: 'product', positive_tag: 'good treatment', negative_tag: null },
+  ]
+
+  // Stand-in for the topic_definitions query loadTopicDefinitions makes
+  const fakeSupabase = (rows: Array<TopicDefinition & { business_id: string | null; industry: string | null }>) => {
+    const calls: string[] = []
+    const client = {
+      from: () => ({
+        select: () => ({
+          or: (filter: string) => {
+            calls.push(filter)
+            return {
+              order: async () => ({
+                data: rows.filter(row => filter.includes(`business_id.eq.${row.business_id}`) || filter.includes(`industry.eq.${row.industry}`)),
+                error: null,
+              }),
+            }
+          },
+        }),
+      }),
+    }
+    return { client: client as unknown as DatabaseClient, calls }
+  }
+
+  test('should match keywords as whole words with common endings', () => {
+    expect(extractKeyTopics('We waited an hour.', DEFAULT_TOPICS)).toEqual(['speed'])
+    expect(extractKeyTopics('Sometimes I come here.', DEFAULT_TOPICS)).toEqual([])
+    expect(extractKeyTopics('They needed a root canal and new fillings.', dental)).toEqual(['treatment'])
+    expect(extractKeyTopics('The hygienists were lovely.', dental)).toEqual(['staff'])
+  })
+
+  test("should analyze and tag reviews with the business's own topics", async () => {
+    const text = 'The hygienist was friendly, but the insurance bill was terrible.'
+
+    const result = await lexiconProvider.analyze(text, { apiKey: '' }, dental, 'en')
+
+    expect(result.key_topics).toEqual(['staff', 'billing'])
+    expect(result.positive_aspects).toEqual(['staff'])
+    expect(result.negative_aspects).toEqual(['billing'])
+    expect(buildReviewTags('review-1', result, dental).map(tag => [tag.tag_name, tag.tag_category])).toEqual([
+      ['friendly staff', 'staff'],
+      ['billing issues', 'value'],
+    ])
+  })
+
+  test('should map model topics onto the taxonomy by name or synonym', () => {
+    expect(resolveTopicName('Price', dental)).toBe('billing')
+    expect(resolveTopicName('parking', dental)).toBeNull()
+
+    const reply = parseSentimentReply(JSON.stringify({
+      overall_sentiment: 'positive',
+      sentiment_score: 0.7,
+      key_topics: ['service', 'treatment', 'parking'],
+      positive_aspects: ['service'],
+    }), dental)
+
+    expect(reply.key_topics).toEqual(['staff', 'treatment'])
+    expect(reply.positive_aspects).toEqual(['staff'])
+    expect(systemPrompt(dental)).toContain('"treatment" (filling, root canal)')
+  })
+
+  test("should prefer the business's topics over its industry preset", async () => {
+    const preset = { ...dental[0], name: 'preset staff', business_id: null, industry: 'dental' }
+    const own = { ...dental[1], business_id: 'business-1', industry: null }
+
+    const { client, calls } = fakeSupabase([preset, own])
+    const topics = await loadTopicDefinitions(client, { id: 'business-1', industry: 'dental' })
+
+    expect(calls).toEqual(['business_id.eq.business-1,industry.eq.dental'])
+    expect(topics.map(topic => topic.name)).toEqual(['billing'])
+  })
+
+  test('should fall back to the industry preset, then the restaurant preset, then DEFAULT_TOPICS', async () => {
+    const dentalPreset = { ...dental[0], business_id: null, industry: 'dental' }
+    const restaurantPreset = { ...DEFAULT_TOPICS[0], business_id: null, industry: 'restaurant' }
+
+    const { client, calls } = fakeSupabase([dentalPreset, restaurantPreset])
+
+    expect(await loadTopicDefinitions(client, { id: 'business-1', industry: 'dental' })).toEqual([dentalPreset])
+    expect(await loadTopicDefinitions(client, { id: 'business-1', industry: null })).toEqual([restaurantPreset])
+    expect(calls[1]).toBe('business_id.eq.business-1,industry.eq.restaurant')
+    expect(await loadTopicDefinitions(fakeSupabase([]).client, { id: 'business-1', industry: 'hotel' })).toBe(DEFAULT_TOPICS)
+  })
+
+  test('should keep DEFAULT_TOPICS in step with the restaurant preset migrations', () => {
+    const migrations = path.join(process.cwd(), 'supabase/migrations')
+    const migration = (name: string) => fs.readFileSync(path.join(migrations, name), 'utf8')
+    const sql = migration('20250821000000_topic_definitions.sql')
+    const multilingual = migration('20250825000000_multilingual_topic_keywords.sql')
+    const array = (literal: string) => literal.slice(1, -1).split(',').filter(Boolean)
+    const nullable = (literal: string) => literal === 'NULL' ? null : literal.slice(1, -1)
+    const restaurant = Array.from(
+      sql.matchAll(/\('restaurant', '([^']+)', '(\{[^}]*\})', '(\{[^}]*\})', '(\w+)', ('[^']*'|NULL), ('[^']*'|NULL)\)/g),
+      ([, name, keywords, synonyms, category, positive, negative]) => ({
+        name,
+        keywords: array(keywords),
+        synonyms: array(synonyms),
+        tag_category: category,
+        positive_tag: nullable(positive),
+        negative_tag: nullable(negative),
+      })
+    )
+
+    // 20250825000000 appends keywords to the presets
+    const appended = Array.from(multilingual.matchAll(/\('restaurant', '([^']+)', '(\{[^}]*\})'::TEXT\[\]\)/g))
+    appended.forEach(([, name, keywords]) => {
+      restaurant.find(topic => topic.name === name)?.keywords.push(...array(keywords))
+    })
+
+    expect(restaurant).toEqual(DEFAULT_TOPICS)
+    expect(appended.map(([, name]) => name)).toEqual(DEFAULT_TOPICS.map(topic => topic.name))
+    // A new migration that changes the presets has to be read here as well
+    expect(fs.readdirSync(migrations).filter(name => migration(name).includes('topic_definitions'))).toEqual([
+      '20250821000000_topic_definitions.sql',
+      '20250825000000_multilingual_topic_keywords.sql',
+    ])
+  })
+
+  test('should find the topics and aspects of Spanish, French and German reviews', async () => {
+    const result = await lexiconProvider.analyze(
+      'La comida estaba deliciosa pero el camarero fue muy grosero.', { apiKey: '' }, DEFAULT_TOPICS, 'es'
+    )
+
+    expect(result.key_topics).toEqual(['service', 'food'])
+    expect(result.positive_aspects).toEqual(['food'])
+    expect(result.negative_aspects).toEqual(['service'])
+    expect(extractKeyTopics("L'accueil était chaleureux et l'addition raisonnable.", DEFAULT_TOPICS)).toEqual(['service'])
+    expect(extractKeyTopics('Die Bedienung war nett, aber die Preise sind zu hoch.', DEFAULT_TOPICS)).toEqual(['service', 'price'])
+    // Accents are ignored, as reviewers often leave them out
+    expect(extractKeyTopics('Muy buena atencion y precios justos.', DEFAULT_TOPICS)).toEqual(['service', 'price'])
+  })
+})
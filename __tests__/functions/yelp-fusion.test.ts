@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http'
+import { AddressInfo } from 'net'
+import { yelpAdapter, yelpTimeToIso } from '../../supabase/functions/_shared/platforms/yelp'
+import { fetchNormalizedReviews } from '../../supabase/functions/_shared/platforms/registry'
+import type { AdapterConfig } from '../../supabase/functions/_shared/platforms/types'
+import {
+  PlatformAuthError,
+  PlatformRateLimitError,
+} from '../../supabase/functions/_shared/platforms/errors'
+
+describe('Yelp Fusion Adapter Tests', () => {
+  let server: http.Server
+  let baseUrl: string
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => handler(req, res))
+    await new Promise<void>(resolve => server.listen(0, resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  const fetchYelpReviews = (yelpBusinessId: string, config: AdapterConfig) =>
+    fetchNormalizedReviews(yelpAdapter, yelpBusinessId, config)
+
+  const respond = (res: http.ServerResponse, status: number, body: any, headers = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+    res.end(JSON.stringify(body))
+  }
+
+  test('should map Yelp reviews including user image and URL', async () => {
+    let authorization: string | undefined
+    handler = (req, res) => {
+      authorization = req.headers.authorization
+      respond(res, 200, {
+        total: 1,
+        reviews: [
+          {
+            id: 'xAG4O7l-t1ubbwVAlPnDKg',
+            url: 'https://www.yelp.com/biz/test-cafe?hrid=xAG4O7l-t1ubbwVAlPnDKg',
+            text: 'Great coffee, slow line.',
+            rating: 4,
+            time_created: '2024-07-01 09:30:00',
+            user: {
+              id: 'W8UK02IDdRS2GL_66fuq6w',
+              profile_url: 'https://www.yelp.com/user_details?userid=W8UK02IDdRS2GL_66fuq6w',
+              image_url: 'https://s3-media3.fl.yelpcdn.com/photo/avatar.jpg',
+              name: 'Ella A.',
+            },
+          },
+        ],
+      })
+    }
+
+    const reviews = await fetchYelpReviews('test-cafe', { apiKey: 'yelp-key', baseUrl })
+
+    expect(authorization).toBe('Bearer yelp-key')
+    expect(reviews).toEqual([
+      {
+        platform_review_id: 'xAG4O7l-t1ubbwVAlPnDKg',
+        reviewer_name: 'Ella A.',
+        reviewer_avatar: 'https://s3-media3.fl.yelpcdn.com/photo/avatar.jpg',
+        rating: 4,
+        review_text: 'Great coffee, slow line.',
+        review_date: '2024-07-01T16:30:00.000Z',
+        review_url: 'https://www.yelp.com/biz/test-cafe?hrid=xAG4O7l-t1ubbwVAlPnDKg',
+      },
+    ])
+  })
+
+  test('should convert Pacific timestamps across DST', () => {
+    expect(yelpTimeToIso('2024-01-15 10:00:00')).toBe('2024-01-15T18:00:00.000Z')
+    expect(yelpTimeToIso('2024-07-15 10:00:00')).toBe('2024-07-15T17:00:00.000Z')
+  })
+
+  test('should raise PlatformAuthError on 401', async () => {
+    handler = (_req, res) =>
+      respond(res, 401, { error: { code: 'TOKEN_INVALID', description: 'Invalid access token' } })
+
+    await expect(fetchYelpReviews('test-cafe', { apiKey: 'bad', baseUrl })).rejects.toBeInstanceOf(
+      PlatformAuthError
+    )
+  })
+
+  test('should retry a 429 after Retry-After before raising PlatformRateLimitError', async () => {
+    let requests = 0
+    const waits: number[] = []
+    handler = (_req, res) => {
+      requests++
+      respond(
+        res,
+        429,
+        { error: { code: 'TOO_MANY_REQUESTS_PER_SECOND', description: 'Slow down' } },
+        { 'Retry-After': '2' }
+      )
+    }
+
+    const error = await fetchYelpReviews('test-cafe', {
+      apiKey: 'yelp-key',
+      baseUrl,
+      http: { retry: { maxAttempts: 3 }, sleep: async ms => { waits.push(ms) } },
+    }).catch(e => e)
+
+    expect(error).toBeInstanceOf(PlatformRateLimitError)
+    expect(error.retryAfterMs).toBe(2000)
+    expect(requests).toBe(3)
+    expect(waits).toEqual([2000, 2000])
+  })
+})
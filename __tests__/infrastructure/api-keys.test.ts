@@ -1,4 +1,9 @@
-import { supabase } from '@/lib/supabase'
+import { createHash } from 'crypto'
+import { requireSupabase } from '@/lib/supabase'
+import type { ApiKeyUpdate } from '@/database-types'
+
+// Runs against a live project; fails here when Supabase is not configured
+const supabase = requireSupabase()
 
 // Mock external API services
 jest.mock('axios', () => ({
@@ -46,6 +51,7 @@ describe('API Key Validation and External Service Tests', () => {
         user_id: testUser.id,
         name: 'Test API Key',
         permissions: ['read:reviews', 'write:reviews'],
+        key_hash: createHash('sha256').update('test-key').digest('hex'),
         expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
         status: 'active'
       }
@@ -58,11 +64,11 @@ describe('API Key Validation and External Service Tests', () => {
 
       expect(error).toBeNull()
       expect(data).toBeDefined()
-      expect(data.user_id).toBe(testUser.id)
-      expect(data.name).toBe(apiKeyData.name)
-      expect(data.permissions).toEqual(apiKeyData.permissions)
-      expect(data.key_hash).toBeDefined() // Should be hashed
-      expect(data.key_hash).not.toBe('test-key') // Should not store plain text
+      expect(data?.user_id).toBe(testUser.id)
+      expect(data?.name).toBe(apiKeyData.name)
+      expect(data?.permissions).toEqual(apiKeyData.permissions)
+      expect(data?.key_hash).toBeDefined() // Should be hashed
+      expect(data?.key_hash).not.toBe('test-key') // Should not store plain text
 
       testApiKey = data
     })
@@ -77,8 +83,8 @@ describe('API Key Validation and External Service Tests', () => {
 
       expect(error).toBeNull()
       expect(data).toBeDefined()
-      expect(data.permissions).toContain('read:reviews')
-      expect(data.permissions).toContain('write:reviews')
+      expect(data?.permissions).toContain('read:reviews')
+      expect(data?.permissions).toContain('write:reviews')
     })
 
     test('should handle expired API keys', async () => {
@@ -86,6 +92,7 @@ describe('API Key Validation and External Service Tests', () => {
         user_id: testUser.id,
         name: 'Expired API Key',
         permissions: ['read:reviews'],
+        key_hash: createHash('sha256').update('expired-key').digest('hex'),
         expires_at: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(), // 1 day ago
         status: 'active'
       }
@@ -107,21 +114,21 @@ describe('API Key Validation and External Service Tests', () => {
         .eq('status', 'active')
         .gt('expires_at', new Date().toISOString())
 
-      const expiredKey = activeKeys?.find(key => key.id === data.id)
+      const expiredKey = activeKeys?.find(key => key.id === data?.id)
       expect(expiredKey).toBeUndefined()
     })
 
     test('should revoke API key', async () => {
       const { data, error } = await supabase
         .from('api_keys')
-        .update({ status: 'revoked' })
+        .update({ status: 'revoked' } as ApiKeyUpdate)
         .eq('id', testApiKey.id)
         .select()
         .single()
 
       expect(error).toBeNull()
       expect(data).toBeDefined()
-      expect(data.status).toBe('revoked')
+      expect(data).toMatchObject({ status: 'revoked' })
     })
 
     test('should track API key usage', async () => {
@@ -135,8 +142,8 @@ describe('API Key Validation and External Service Tests', () => {
 
       expect(error).toBeNull()
       expect(data).toBeDefined()
-      expect(data.last_used_at).toBeDefined()
-      expect(data.usage_count).toBeGreaterThanOrEqual(0)
+      expect(data?.last_used_at).toBeDefined()
+      expect(data?.usage_count).toBeGreaterThanOrEqual(0)
     })
   })
 
@@ -1,5 +1,9 @@
-import { supabase } from '@/lib/supabase'
-import { Database } from '@/database-types'
+import { createClient } from '@supabase/supabase-js'
+import { requireSupabase } from '@/lib/supabase'
+import { BusinessInsert, BusinessUpdate, ReviewUpdate } from '@/database-types'
+
+// Runs against a live project; fails here when Supabase is not configured
+const supabase = requireSupabase()
 
 // Test data types
 type TestUser = {
@@ -11,17 +15,14 @@ type TestUser = {
 type TestBusiness = {
   id: string
   name: string
-  platform_identifiers: {
-    google_place_id?: string
-    yelp_business_id?: string
-    facebook_page_id?: string
-    tripadvisor_id?: string
-  }
+  google_place_id: string
+  yelp_business_id: string
 }
 
 type TestReview = {
   id: string
   business_id: string
+  platform_review_id: string
   platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
   review_text: string
   rating: number
@@ -46,15 +47,14 @@ describe('Database Infrastructure Tests', () => {
     testBusiness = {
       id: `test-business-${Date.now()}`,
       name: 'Test Business',
-      platform_identifiers: {
-        google_place_id: 'test-google-id',
-        yelp_business_id: 'test-yelp-id'
-      }
+      google_place_id: 'test-google-id',
+      yelp_business_id: 'test-yelp-id'
     }
 
     testReview = {
       id: `test-review-${Date.now()}`,
       business_id: testBusiness.id,
+      platform_review_id: `test-platform-review-${Date.now()}`,
       platform: 'google',
       review_text: 'This is a test review for testing purposes.',
       rating: 4,
@@ -157,16 +157,17 @@ describe('Database Infrastructure Tests', () => {
           .insert({
             id: testBusiness.id,
             name: testBusiness.name,
-            platform_identifiers: testBusiness.platform_identifiers,
-            status: 'active'
+            google_place_id: testBusiness.google_place_id,
+            yelp_business_id: testBusiness.yelp_business_id
           })
           .select()
           .single()
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.name).toBe(testBusiness.name)
-        expect(data.platform_identifiers).toEqual(testBusiness.platform_identifiers)
+        expect(data?.name).toBe(testBusiness.name)
+        expect(data?.google_place_id).toBe(testBusiness.google_place_id)
+        expect(data?.yelp_business_id).toBe(testBusiness.yelp_business_id)
       })
 
       test('should read business by ID', async () => {
@@ -178,7 +179,7 @@ describe('Database Infrastructure Tests', () => {
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.id).toBe(testBusiness.id)
+        expect(data?.id).toBe(testBusiness.id)
       })
 
       test('should update business information', async () => {
@@ -192,7 +193,7 @@ describe('Database Infrastructure Tests', () => {
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.name).toBe(updatedName)
+        expect(data?.name).toBe(updatedName)
       })
 
       test('should list user businesses', async () => {
@@ -209,14 +210,14 @@ describe('Database Infrastructure Tests', () => {
       test('should soft delete business', async () => {
         const { data, error } = await supabase
           .from('businesses')
-          .update({ status: 'deleted' })
+          .update({ status: 'deleted' } as BusinessUpdate)
           .eq('id', testBusiness.id)
           .select()
           .single()
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.status).toBe('deleted')
+        expect(data).toMatchObject({ status: 'deleted' })
       })
     })
 
@@ -227,20 +228,20 @@ describe('Database Infrastructure Tests', () => {
           .insert({
             id: testReview.id,
             business_id: testReview.business_id,
+            platform_review_id: testReview.platform_review_id,
             platform: testReview.platform,
             review_text: testReview.review_text,
             rating: testReview.rating,
             reviewer_name: testReview.reviewer_name,
-            review_date: testReview.review_date,
-            status: 'active'
+            review_date: testReview.review_date
           })
           .select()
           .single()
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.review_text).toBe(testReview.review_text)
-        expect(data.rating).toBe(testReview.rating)
+        expect(data?.review_text).toBe(testReview.review_text)
+        expect(data?.rating).toBe(testReview.rating)
       })
 
       test('should read review by ID', async () => {
@@ -252,20 +253,20 @@ describe('Database Infrastructure Tests', () => {
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.id).toBe(testReview.id)
+        expect(data?.id).toBe(testReview.id)
       })
 
       test('should update review status', async () => {
         const { data, error } = await supabase
           .from('reviews')
-          .update({ status: 'flagged' })
+          .update({ status: 'flagged' } as ReviewUpdate)
           .eq('id', testReview.id)
           .select()
           .single()
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.status).toBe('flagged')
+        expect(data).toMatchObject({ status: 'flagged' })
       })
 
       test('should list business reviews', async () => {
@@ -297,11 +298,10 @@ describe('Database Infrastructure Tests', () => {
       test('should create sentiment analysis record', async () => {
         const sentimentData = {
           review_id: testReview.id,
+          overall_sentiment: 'positive' as const,
           sentiment_score: 0.8,
-          sentiment_label: 'positive',
           confidence_score: 0.95,
-          aspects: ['service', 'quality'],
-          status: 'active'
+          positive_aspects: ['service', 'quality']
         }
 
         const { data, error } = await supabase
@@ -312,8 +312,8 @@ describe('Database Infrastructure Tests', () => {
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.sentiment_score).toBe(sentimentData.sentiment_score)
-        expect(data.sentiment_label).toBe(sentimentData.sentiment_label)
+        expect(data?.sentiment_score).toBe(sentimentData.sentiment_score)
+        expect(data?.overall_sentiment).toBe(sentimentData.overall_sentiment)
       })
 
       test('should read sentiment analysis by review ID', async () => {
@@ -325,7 +325,7 @@ describe('Database Infrastructure Tests', () => {
 
         expect(error).toBeNull()
         expect(data).toBeDefined()
-        expect(data.review_id).toBe(testReview.id)
+        expect(data?.review_id).toBe(testReview.id)
       })
     })
   })
@@ -435,7 +435,8 @@ describe('Database Infrastructure Tests', () => {
     test('should handle missing required fields', async () => {
       const { data, error } = await supabase
         .from('businesses')
-        .insert({})
+        // The types require name; the database has to reject it too
+        .insert({} as BusinessInsert)
         .select()
 
       expect(error).toBeDefined()
@@ -448,8 +449,7 @@ describe('Database Infrastructure Tests', () => {
         .from('businesses')
         .insert({
           id: testBusiness.id,
-          name: 'Duplicate Business',
-          status: 'active'
+          name: 'Duplicate Business'
         })
         .select()
 
@@ -463,6 +463,7 @@ describe('Database Infrastructure Tests', () => {
         .insert({
           id: 'test-review-fk-violation',
           business_id: 'non-existent-business-id',
+          platform_review_id: 'test-platform-review-fk-violation',
           platform: 'google',
           review_text: 'Test review',
           rating: 4,
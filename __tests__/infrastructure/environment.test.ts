@@ -51,8 +51,8 @@ describe('Environment Variable and Security Tests', () => {
       // Supabase keys are typically base64 encoded and have specific lengths
       expect(anonKey).toMatch(/^[A-Za-z0-9+/=]+$/)
       expect(serviceKey).toMatch(/^[A-Za-z0-9+/=]+$/)
-      expect(anonKey.length).toBeGreaterThan(100)
-      expect(serviceKey.length).toBeGreaterThan(100)
+      expect(anonKey?.length).toBeGreaterThan(100)
+      expect(serviceKey?.length).toBeGreaterThan(100)
     })
 
     test('should validate app URL format', () => {
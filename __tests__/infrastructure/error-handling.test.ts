@@ -1,4 +1,13 @@
-import { supabase } from '@/lib/supabase'
+import { requireSupabase } from '@/lib/supabase'
+import type { BusinessInsert, ReviewInsert } from '@/database-types'
+import { platformFetch } from '../../supabase/functions/_shared/platforms/http'
+
+// Runs against a live project; fails here when Supabase is not configured
+const supabase = requireSupabase()
+
+// jsdom has no Response, so platformFetch gets only the fields it reads
+const platformResponse = (status: number, headers: Record<string, string> = {}) =>
+  ({ status, ok: status < 400, headers: { get: (name: string) => headers[name] ?? null } }) as unknown as Response
 
 describe('Error Handling and Edge Case Tests', () => {
   let testUser: any
@@ -40,7 +49,8 @@ describe('Error Handling and Edge Case Tests', () => {
     test('should handle missing required fields', async () => {
       const { data, error } = await supabase
         .from('businesses')
-        .insert({})
+        // The types require name; the database has to reject it too
+        .insert({} as BusinessInsert)
         .select()
 
       expect(error).toBeDefined()
@@ -52,9 +62,7 @@ describe('Error Handling and Edge Case Tests', () => {
       // First, create a business
       const businessData = {
         id: `duplicate-test-${Date.now()}`,
-        name: 'Duplicate Test Business',
-        platform_identifiers: {},
-        status: 'active'
+        name: 'Duplicate Test Business'
       }
 
       await supabase.from('businesses').insert(businessData)
@@ -78,6 +86,7 @@ describe('Error Handling and Edge Case Tests', () => {
         .from('reviews')
         .insert({
           id: 'fk-violation-test',
+          platform_review_id: 'fk-violation-test',
           business_id: 'non-existent-business-id',
           platform: 'google',
           review_text: 'Test review',
@@ -97,13 +106,14 @@ describe('Error Handling and Edge Case Tests', () => {
         .from('reviews')
         .insert({
           id: 'constraint-test',
+          platform_review_id: 'constraint-test',
           business_id: 'test-business-id',
           platform: 'invalid-platform', // Invalid enum value
           review_text: 'Test review',
           rating: 10, // Invalid rating (should be 1-5)
           reviewer_name: 'Test',
           review_date: new Date().toISOString()
-        })
+        } as unknown as ReviewInsert)
         .select()
 
       expect(error).toBeDefined()
@@ -115,13 +125,14 @@ describe('Error Handling and Edge Case Tests', () => {
         .from('reviews')
         .insert({
           id: 'type-test',
+          platform_review_id: 'type-test',
           business_id: 'test-business-id',
           platform: 'google',
           review_text: 'Test review',
           rating: 'not-a-number', // Should be number
           reviewer_name: 'Test',
           review_date: 'invalid-date' // Should be ISO date string
-        })
+        } as unknown as ReviewInsert)
         .select()
 
       expect(error).toBeDefined()
@@ -413,6 +424,7 @@ describe('Error Handling and Edge Case Tests', () => {
         .from('reviews')
         .insert({
           id: 'long-text-test',
+          platform_review_id: 'long-text-test',
           business_id: 'test-business-id',
           platform: 'google',
           review_text: longText,
@@ -437,6 +449,7 @@ describe('Error Handling and Edge Case Tests', () => {
         .from('reviews')
         .insert({
           id: 'special-chars-test',
+          platform_review_id: 'special-chars-test',
           business_id: 'test-business-id',
           platform: 'google',
           review_text: `Review with special chars: ${specialChars}`,
@@ -457,6 +470,7 @@ describe('Error Handling and Edge Case Tests', () => {
         .from('reviews')
         .insert({
           id: 'unicode-test',
+          platform_review_id: 'unicode-test',
           business_id: 'test-business-id',
           platform: 'google',
           review_text: unicodeText,
@@ -478,13 +492,13 @@ describe('Error Handling and Edge Case Tests', () => {
           name: 'Test Business',
           platform_identifiers: {},
           status: 'active'
-        })
+        } as BusinessInsert)
         .select()
         .single()
 
       expect(error).toBeNull()
       expect(data).toBeDefined()
-      expect(data.platform_identifiers).toEqual({})
+      expect(data).toMatchObject({ platform_identifiers: {} })
     })
 
     test('should handle null values appropriately', async () => {
@@ -492,6 +506,7 @@ describe('Error Handling and Edge Case Tests', () => {
         .from('reviews')
         .insert({
           id: 'null-test',
+          platform_review_id: 'null-test',
           business_id: 'test-business-id',
           platform: 'google',
           review_text: null, // This should fail if review_text is required
@@ -531,6 +546,7 @@ describe('Error Handling and Edge Case Tests', () => {
           .from('reviews')
           .insert({
             id: `concurrent-test-${Date.now()}-${i}`,
+            platform_review_id: `concurrent-test-${Date.now()}-${i}`,
             business_id: 'test-business-id',
             platform: 'google',
             review_text: `Concurrent review ${i}`,
@@ -548,9 +564,38 @@ describe('Error Handling and Edge Case Tests', () => {
         expect(result.error === null || result.error !== null).toBe(true)
       })
     })
+    test('should wait for a platform Retry-After before retrying', async () => {
+      const waits: number[] = []
+      const mockFetch = jest.fn()
+        .mockResolvedValueOnce(platformResponse(429, { 'Retry-After': '2' }))
+        .mockResolvedValue(platformResponse(200))
+
+      const response = await platformFetch('yelp', 'https://api.yelp.test/reviews', {}, {
+        fetch: mockFetch,
+        http: { sleep: async ms => { waits.push(ms) } }
+      })
+
+      expect(response.status).toBe(200)
+      expect(waits).toEqual([2000])
+    })
   })
 
   describe('Recovery and Fallback Tests', () => {
+    test('should retry transient platform API failures', async () => {
+      const mockFetch = jest.fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(platformResponse(503))
+        .mockResolvedValue(platformResponse(200))
+
+      const response = await platformFetch('google', 'https://maps.test/place', {}, {
+        fetch: mockFetch,
+        http: { sleep: async () => {} }
+      })
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
     test('should implement retry logic for transient failures', async () => {
       const mockRetryFunction = async (operation: () => Promise<any>, maxRetries = 3) => {
         let lastError
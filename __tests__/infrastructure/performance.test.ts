@@ -1,4 +1,9 @@
-import { supabase } from '@/lib/supabase'
+import { requireSupabase } from '@/lib/supabase'
+import type { ReviewInsert, ReviewUpdate } from '@/database-types'
+import { storeReviews } from '../../supabase/functions/_shared/review-store'
+
+// Runs against a live project; fails here when Supabase is not configured
+const supabase = requireSupabase()
 
 describe('Performance Tests', () => {
   let testUser: any
@@ -35,11 +40,8 @@ describe('Performance Tests', () => {
       const business = {
         id: `perf-business-${Date.now()}-${i}`,
         name: `Performance Test Business ${i}`,
-        platform_identifiers: {
-          google_place_id: `test-google-${i}`,
-          yelp_business_id: `test-yelp-${i}`
-        },
-        status: 'active'
+        google_place_id: `test-google-${i}`,
+        yelp_business_id: `test-yelp-${i}`
       }
 
       const { data: businessData } = await supabase
@@ -56,15 +58,16 @@ describe('Performance Tests', () => {
     // Create test reviews for each business
     for (const business of testBusinesses) {
       for (let i = 0; i < 20; i++) {
-        const review = {
-          id: `perf-review-${Date.now()}-${business.id}-${i}`,
+        const reviewId = `perf-review-${Date.now()}-${business.id}-${i}`
+        const review: ReviewInsert = {
+          id: reviewId,
           business_id: business.id,
+          platform_review_id: reviewId,
           platform: i % 2 === 0 ? 'google' : 'yelp',
           review_text: `Performance test review ${i} for business ${business.name}. This is a longer review text to test performance with realistic data.`,
           rating: Math.floor(Math.random() * 5) + 1,
           reviewer_name: `Reviewer ${i}`,
-          review_date: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString(),
-          status: 'active'
+          review_date: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000).toISOString()
         }
 
         const { data: reviewData } = await supabase
@@ -97,7 +100,7 @@ describe('Performance Tests', () => {
       expect(data).toBeDefined()
       expect(Array.isArray(data)).toBe(true)
       expect(queryTime).toBeLessThan(1000) // Should complete within 1 second
-      expect(data.length).toBeGreaterThan(0)
+      expect(data?.length).toBeGreaterThan(0)
     })
 
     test('should perform fast review listing with pagination', async () => {
@@ -118,7 +121,7 @@ describe('Performance Tests', () => {
       expect(data).toBeDefined()
       expect(Array.isArray(data)).toBe(true)
       expect(queryTime).toBeLessThan(500) // Should complete within 500ms
-      expect(data.length).toBeLessThanOrEqual(pageSize)
+      expect(data?.length).toBeLessThanOrEqual(pageSize)
     })
 
     test('should perform fast text search queries', async () => {
@@ -166,9 +169,8 @@ describe('Performance Tests', () => {
       
       const { data, error } = await supabase
         .from('reviews')
-        .select('rating, count')
+        .select('rating, count()')
         .eq('business_id', testBusinesses[0].id)
-        .group('rating')
 
       const endTime = Date.now()
       const queryTime = endTime - startTime
@@ -396,15 +398,15 @@ describe('Performance Tests', () => {
 
   describe('Write Performance Tests', () => {
     test('should perform fast bulk inserts', async () => {
-      const bulkReviews = Array.from({ length: 100 }, (_, i) => ({
+      const bulkReviews = Array.from({ length: 100 }, (_, i): ReviewInsert => ({
         id: `bulk-review-${Date.now()}-${i}`,
         business_id: testBusinesses[0].id,
+        platform_review_id: `bulk-review-${Date.now()}-${i}`,
         platform: 'google',
         review_text: `Bulk test review ${i}`,
         rating: Math.floor(Math.random() * 5) + 1,
         reviewer_name: `Bulk Reviewer ${i}`,
-        review_date: new Date().toISOString(),
-        status: 'active'
+        review_date: new Date().toISOString()
       }))
 
       const startTime = Date.now()
@@ -420,7 +422,7 @@ describe('Performance Tests', () => {
       expect(error).toBeNull()
       expect(data).toBeDefined()
       expect(Array.isArray(data)).toBe(true)
-      expect(data.length).toBe(100)
+      expect(data?.length).toBe(100)
       expect(insertTime).toBeLessThan(3000) // Should complete within 3 seconds
     })
 
@@ -429,7 +431,7 @@ describe('Performance Tests', () => {
       
       const { data, error } = await supabase
         .from('reviews')
-        .update({ status: 'updated' })
+        .update({ status: 'updated' } as ReviewUpdate)
         .eq('business_id', testBusinesses[0].id)
         .eq('status', 'active')
         .select()
@@ -481,6 +483,46 @@ describe('Performance Tests', () => {
     })
   })
 
+  describe('Review Import Performance Tests', () => {
+    const importSize = 5000
+    const importedReviews = Array.from({ length: importSize }, (_, i) => ({
+      platform_review_id: `perf-import-${i}`,
+      reviewer_name: `Import Reviewer ${i}`,
+      rating: (i % 5) + 1,
+      review_text: `Imported review ${i}. This is a longer review text to test performance with realistic data.`,
+      review_date: new Date(Date.now() - i * 60 * 60 * 1000).toISOString(),
+      review_url: `https://www.yelp.com/biz/perf-test?hrid=perf-import-${i}`
+    }))
+
+    test('should import 5k reviews with batched upserts', async () => {
+      const startTime = Date.now()
+
+      const result = await storeReviews(supabase, testBusinesses[0].id, 'yelp', importedReviews)
+
+      const endTime = Date.now()
+      const importTime = endTime - startTime
+
+      expect(result.failed).toBe(0)
+      expect(result.inserted).toHaveLength(importSize)
+      expect(result.existing).toHaveLength(0)
+      expect(importTime).toBeLessThan(15000) // Should complete within 15 seconds
+    })
+
+    test('should report already stored reviews on re-import', async () => {
+      const startTime = Date.now()
+
+      const result = await storeReviews(supabase, testBusinesses[0].id, 'yelp', importedReviews)
+
+      const endTime = Date.now()
+      const importTime = endTime - startTime
+
+      expect(result.failed).toBe(0)
+      expect(result.inserted).toHaveLength(0)
+      expect(result.existing).toHaveLength(importSize)
+      expect(importTime).toBeLessThan(10000) // Should complete within 10 seconds
+    })
+  })
+
   afterAll(async () => {
     // Cleanup test data
     try {
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+import path from 'path'
+import {
+  parseMigrations,
+  renderDatabase,
+  splitStatements,
+  sqlTypeToTs,
+  staleOutputs,
+  updateDatabaseTypes,
+} from '../../scripts/generate-db-types'
+
+describe('Database Type Generator Tests', () => {
+  const table = (sql: string[], name: string) => parseMigrations(sql).tables.get(name)!
+
+  test('should keep dollar-quoted function bodies in one statement', () => {
+    const sql = `CREATE FUNCTION f() RETURNS INTEGER AS $$ SELECT 1; $$ LANGUAGE sql;\nSELECT ';';`
+
+    expect(splitStatements(sql)).toHaveLength(2)
+  })
+
+  test('should map Postgres types to TypeScript', () => {
+    expect(sqlTypeToTs('TIMESTAMP WITH TIME ZONE')).toBe('string')
+    expect(sqlTypeToTs('DECIMAL(3,2)')).toBe('number')
+    expect(sqlTypeToTs('TEXT[]')).toBe('string[]')
+    expect(sqlTypeToTs('JSONB')).toBe('Json')
+  })
+
+  test('should type columns by nullability, defaults and CHECK IN constraints', () => {
+    const reviews = table([`
+      CREATE TABLE public.reviews (
+        id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+        platform TEXT NOT NULL CHECK (platform IN ('google', 'yelp')),
+        rating INTEGER NOT NULL,
+        review_text TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+    `], 'reviews')
+
+    expect(reviews.columns).toEqual([
+      { name: 'id', tsType: 'string', nullable: false, hasDefault: true },
+      { name: 'platform', tsType: 'string', nullable: false, hasDefault: false },
+      { name: 'rating', tsType: 'number', nullable: false, hasDefault: false },
+      { name: 'review_text', tsType: 'string', nullable: true, hasDefault: false },
+      { name: 'created_at', tsType: 'string', nullable: true, hasDefault: true },
+    ])
+    expect(renderDatabase(parseMigrations([`
+      CREATE TABLE public.reviews (platform TEXT NOT NULL CHECK (platform IN ('google', 'yelp')));
+    `]))).toContain("platform: 'google' | 'yelp'")
+  })
+
+  test('should follow later migrations that alter columns and replace constraints', () => {
+    const database = renderDatabase(parseMigrations([
+      `CREATE TABLE public.reviews (
+        id UUID PRIMARY KEY,
+        platform TEXT NOT NULL CHECK (platform IN ('google', 'yelp')),
+        legacy TEXT
+      );`,
+      `ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_platform_check;
+       ALTER TABLE public.reviews ADD CONSTRAINT reviews_platform_check CHECK (platform IN ('google', 'yelp', 'other'));
+       ALTER TABLE public.reviews DROP COLUMN legacy;
+       ALTER TABLE public.reviews ADD COLUMN business_id UUID REFERENCES public.businesses(id) ON DELETE CASCADE;`,
+    ]))
+
+    expect(database).toContain("platform: 'google' | 'yelp' | 'other'")
+    expect(database).not.toContain('legacy')
+    expect(database).toContain("foreignKeyName: 'reviews_business_id_fkey'")
+  })
+
+  test('should type views from their source tables and functions from their signatures', () => {
+    const schema = parseMigrations([
+      `CREATE TABLE public.reviews (id UUID PRIMARY KEY, rating INTEGER NOT NULL);`,
+      `CREATE OR REPLACE VIEW public.review_stats WITH (security_invoker = true) AS
+         SELECT r.id, COUNT(*) AS total, AVG(r.rating) AS average_rating FROM public.reviews r GROUP BY r.id;`,
+      `CREATE OR REPLACE FUNCTION public.review_count(p_days INTEGER DEFAULT 7)
+         RETURNS TABLE (total BIGINT) LANGUAGE sql STABLE AS $$ SELECT COUNT(*) FROM public.reviews $$;`,
+    ])
+
+    expect(schema.views.get('review_stats')!.columns).toEqual([
+      { name: 'id', tsType: 'string | null' },
+      { name: 'total', tsType: 'number | null' },
+      { name: 'average_rating', tsType: 'number | null' },
+    ])
+    expect(schema.functions.get('review_count')).toEqual({
+      name: 'review_count',
+      args: [{ name: 'p_days', tsType: 'number', optional: true }],
+      returns: '{\n  total: number\n}[]',
+    })
+  })
+
+  test('should only replace the marked block of database-types.ts', () => {
+    const current = 'header\n// @generated-start\nold\n// @generated-end\nexport type Alias = string\n'
+
+    const updated = updateDatabaseTypes(current, 'export interface Database {}')
+
+    expect(updated.startsWith('header\n// @generated-start\n')).toBe(true)
+    expect(updated).toContain('export interface Database {}\n// @generated-end\nexport type Alias = string')
+    expect(updated).not.toContain('old')
+    expect(() => updateDatabaseTypes('no markers', '')).toThrow('markers')
+  })
+
+  // Same check as `npm run db:types:check`
+  test('should have committed types that match supabase/migrations', () => {
+    const stale = staleOutputs().map(({ file }) => path.relative(process.cwd(), file))
+
+    expect(stale).toEqual([])
+  })
+})
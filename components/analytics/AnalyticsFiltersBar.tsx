@@ -0,0 +1,103 @@
+import React from 'react'
+import { useBusinessGroups, useBusinessSummaries } from '@/hooks/useBusinessGroups'
+import { cn, getLanguageName } from '@/lib/utils'
+import { AnalyticsBucket, AnalyticsFilters, ReviewLanguage } from '@/database-types'
+
+interface AnalyticsFiltersBarProps {
+  filters: AnalyticsFilters
+  onChange: (filters: AnalyticsFilters) => void
+}
+
+const buckets: Array<{ value: AnalyticsBucket; label: string }> = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+]
+
+const languages: ReviewLanguage[] = ['en', 'es', 'fr', 'de']
+
+const inputClass = 'rounded-md border-gray-300 text-sm'
+
+export const AnalyticsFiltersBar: React.FC<AnalyticsFiltersBarProps> = ({ filters, onChange }) => {
+  const { data: businesses } = useBusinessSummaries()
+  const { data: groups } = useBusinessGroups()
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-center gap-3">
+      <select
+        value={filters.business_id ?? ''}
+        onChange={(event) => onChange({ ...filters, business_id: event.target.value || undefined })}
+        className={inputClass}
+      >
+        <option value="">All businesses</option>
+        {businesses?.map(business => (
+          <option key={business.id} value={business.id ?? ''}>{business.name}</option>
+        ))}
+      </select>
+
+      {!!groups?.length && (
+        <select
+          value={filters.group_id ?? ''}
+          onChange={(event) => onChange({ ...filters, group_id: event.target.value || undefined })}
+          disabled={!!filters.business_id}
+          className={inputClass}
+        >
+          <option value="">All brands</option>
+          {groups.map(group => (
+            <option key={group.id} value={group.id}>{group.name}</option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value={filters.language ?? ''}
+        onChange={(event) => onChange({ ...filters, language: (event.target.value || undefined) as ReviewLanguage | undefined })}
+        className={inputClass}
+      >
+        <option value="">All languages</option>
+        {languages.map(language => (
+          <option key={language} value={language}>{getLanguageName(language)}</option>
+        ))}
+      </select>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        From
+        <input
+          type="date"
+          value={filters.date_from}
+          max={filters.date_to}
+          required
+          onChange={(event) => event.target.value && onChange({ ...filters, date_from: event.target.value })}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        To
+        <input
+          type="date"
+          value={filters.date_to}
+          min={filters.date_from}
+          required
+          onChange={(event) => event.target.value && onChange({ ...filters, date_to: event.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="inline-flex rounded-md border border-gray-300 text-sm md:ml-auto">
+        {buckets.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange({ ...filters, bucket: value })}
+            className={cn(
+              'px-3 py-1.5 first:rounded-l-md last:rounded-r-md',
+              filters.bucket === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
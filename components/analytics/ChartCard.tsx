@@ -0,0 +1,37 @@
+import React from 'react'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+interface ChartCardProps {
+  title: string
+  description?: string
+  isLoading: boolean
+  error: Error | null
+  isEmpty: boolean
+  children: React.ReactNode
+}
+
+const CHART_HEIGHT = 'h-72'
+
+// Card with the loading, error and empty states every analytics chart shares
+export const ChartCard: React.FC<ChartCardProps> = ({ title, description, isLoading, error, isEmpty, children }) => (
+  <div className="bg-white rounded-lg shadow p-6">
+    <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+    {description && <p className="mt-1 text-sm text-gray-500">{description}</p>}
+
+    <div className={`mt-4 ${CHART_HEIGHT}`}>
+      {isLoading ? (
+        <div className="flex h-full items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">Failed to load this chart. Please try again.</p>
+      ) : isEmpty ? (
+        <div className="flex h-full items-center justify-center text-sm text-gray-500">
+          No reviews in this period.
+        </div>
+      ) : (
+        children
+      )}
+    </div>
+  </div>
+)
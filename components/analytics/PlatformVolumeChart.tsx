@@ -0,0 +1,49 @@
+import React from 'react'
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { usePlatformVolume } from '@/hooks/useAnalytics'
+import { ChartCard } from '@/components/analytics/ChartCard'
+import { formatBucket } from '@/lib/analytics'
+import { getPlatformName } from '@/lib/utils'
+import { AnalyticsFilters, ReviewPlatform } from '@/database-types'
+
+interface PlatformVolumeChartProps {
+  filters: AnalyticsFilters
+}
+
+const platformColors: Record<ReviewPlatform, string> = {
+  google: '#4285f4',
+  yelp: '#d32323',
+  facebook: '#1877f2',
+  tripadvisor: '#34e0a1',
+  other: '#9ca3af',
+}
+
+export const PlatformVolumeChart: React.FC<PlatformVolumeChartProps> = ({ filters }) => {
+  const { data: points, isLoading, error } = usePlatformVolume(filters)
+  // Only stack the platforms that actually had reviews in the range
+  const platforms = (Object.keys(platformColors) as ReviewPlatform[])
+    .filter(platform => points?.some(point => point[platform]))
+
+  return (
+    <ChartCard
+      title="Review Volume by Platform"
+      description="Reviews posted in each period"
+      isLoading={isLoading}
+      error={error}
+      isEmpty={platforms.length === 0}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="bucket" tickFormatter={(bucket) => formatBucket(bucket, filters.bucket)} fontSize={12} />
+          <YAxis allowDecimals={false} fontSize={12} />
+          <Tooltip labelFormatter={(bucket) => formatBucket(String(bucket), filters.bucket)} />
+          <Legend />
+          {platforms.map(platform => (
+            <Bar key={platform} dataKey={platform} name={getPlatformName(platform)} stackId="platforms" fill={platformColors[platform]} />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  )
+}
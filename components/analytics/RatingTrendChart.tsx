@@ -0,0 +1,42 @@
+import React from 'react'
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useRatingTrend } from '@/hooks/useAnalytics'
+import { ChartCard } from '@/components/analytics/ChartCard'
+import { formatBucket } from '@/lib/analytics'
+import { AnalyticsFilters } from '@/database-types'
+
+interface RatingTrendChartProps {
+  filters: AnalyticsFilters
+}
+
+export const RatingTrendChart: React.FC<RatingTrendChartProps> = ({ filters }) => {
+  const { data, isLoading, error } = useRatingTrend(filters)
+  const points = data?.map(point => ({
+    ...point,
+    average_rating: point.average_rating === null ? null : Number(point.average_rating),
+  }))
+
+  return (
+    <ChartCard
+      title="Rating Over Time"
+      description="Average star rating of the reviews posted in each period"
+      isLoading={isLoading}
+      error={error}
+      isEmpty={!points?.some(point => point.review_count > 0)}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="bucket" tickFormatter={(bucket) => formatBucket(bucket, filters.bucket)} fontSize={12} />
+          <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} fontSize={12} />
+          <Tooltip
+            labelFormatter={(bucket) => formatBucket(String(bucket), filters.bucket)}
+            formatter={(value) => [Number(value).toFixed(2), 'Average rating']}
+          />
+          {/* Periods without reviews have no average; the line skips them */}
+          <Line type="monotone" dataKey="average_rating" stroke="#2563eb" strokeWidth={2} dot={false} connectNulls />
+        </LineChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  )
+}
@@ -0,0 +1,43 @@
+import React from 'react'
+import { Area, AreaChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useSentimentTrend } from '@/hooks/useAnalytics'
+import { ChartCard } from '@/components/analytics/ChartCard'
+import { formatBucket } from '@/lib/analytics'
+import { AnalyticsFilters } from '@/database-types'
+
+interface SentimentTrendChartProps {
+  filters: AnalyticsFilters
+}
+
+const series = [
+  { key: 'positive_count', name: 'Positive', color: '#22c55e' },
+  { key: 'neutral_count', name: 'Neutral', color: '#9ca3af' },
+  { key: 'negative_count', name: 'Negative', color: '#ef4444' },
+] as const
+
+export const SentimentTrendChart: React.FC<SentimentTrendChartProps> = ({ filters }) => {
+  const { data: points, isLoading, error } = useSentimentTrend(filters)
+
+  return (
+    <ChartCard
+      title="Sentiment Over Time"
+      description="Analyzed reviews in each period, by their latest sentiment"
+      isLoading={isLoading}
+      error={error}
+      isEmpty={!points?.some(point => point.positive_count + point.neutral_count + point.negative_count > 0)}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="bucket" tickFormatter={(bucket) => formatBucket(bucket, filters.bucket)} fontSize={12} />
+          <YAxis allowDecimals={false} fontSize={12} />
+          <Tooltip labelFormatter={(bucket) => formatBucket(String(bucket), filters.bucket)} />
+          <Legend />
+          {series.map(({ key, name, color }) => (
+            <Area key={key} type="monotone" dataKey={key} name={name} stackId="sentiment" stroke={color} fill={color} fillOpacity={0.4} />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  )
+}
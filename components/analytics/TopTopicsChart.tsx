@@ -0,0 +1,50 @@
+import React from 'react'
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useTopTopics } from '@/hooks/useAnalytics'
+import { ChartCard } from '@/components/analytics/ChartCard'
+import { AnalyticsFilters, TopicMention } from '@/database-types'
+
+interface TopTopicsChartProps {
+  filters: AnalyticsFilters
+}
+
+const TopicBars: React.FC<{ title: string; mentions: TopicMention[]; color: string }> = ({ title, mentions, color }) => (
+  <div className="flex h-full flex-col">
+    <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+    {mentions.length === 0 ? (
+      <p className="mt-2 text-sm text-gray-500">No topics found.</p>
+    ) : (
+      <div className="min-h-0 flex-1">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={mentions} layout="vertical" margin={{ left: 16 }}>
+            <XAxis type="number" allowDecimals={false} fontSize={12} />
+            <YAxis type="category" dataKey="topic" width={110} fontSize={12} />
+            <Tooltip formatter={(value) => [value, 'Mentions']} />
+            <Bar dataKey="mention_count" fill={color} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    )}
+  </div>
+)
+
+// Topics counted from sentiment_analysis.positive_aspects and negative_aspects, so a
+// complaint in an otherwise happy review counts as a complaint
+export const TopTopicsChart: React.FC<TopTopicsChartProps> = ({ filters }) => {
+  const { data, isLoading, error } = useTopTopics(filters)
+
+  return (
+    <ChartCard
+      title="Top Topics"
+      description="What reviewers praise most, and what they criticize most"
+      isLoading={isLoading}
+      error={error}
+      isEmpty={!data?.positive.length && !data?.negative.length}
+    >
+      <div className="grid h-full grid-cols-1 md:grid-cols-2 gap-6">
+        <TopicBars title="Praised" mentions={data?.positive ?? []} color="#22c55e" />
+        <TopicBars title="Criticized" mentions={data?.negative ?? []} color="#ef4444" />
+      </div>
+    </ChartCard>
+  )
+}
@@ -80,10 +80,6 @@ export const AdminRoute: React.FC<Omit<ProtectedRouteProps, 'requiredRoles'>> =
   <ProtectedRoute {...props} requiredRoles={['admin']} />
 )
 
-export const ManagerRoute: React.FC<Omit<ProtectedRouteProps, 'requiredRoles'>> = (props) => (
-  <ProtectedRoute {...props} requiredRoles={['admin', 'manager']} />
-)
-
 export const UserRoute: React.FC<Omit<ProtectedRouteProps, 'requiredRoles'>> = (props) => (
-  <ProtectedRoute {...props} requiredRoles={['admin', 'manager', 'user']} />
+  <ProtectedRoute {...props} requiredRoles={['admin', 'business_owner']} />
 ) 
\ No newline at end of file
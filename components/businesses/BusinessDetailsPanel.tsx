@@ -0,0 +1,281 @@
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import toast from 'react-hot-toast'
+import { BusinessEdit, useDeleteBusiness, useSetBusinessMonitoring, useUpdateBusiness } from '@/hooks/useBusinesses'
+import { useIngestionRuns } from '@/hooks/useIngestionRuns'
+import { platformIdColumns } from '@/hooks/useBusinessOnboarding'
+import { DEFAULT_INDUSTRY, industryLabels } from '@/hooks/useTopicDefinitions'
+import { Button } from '@/components/ui/Button'
+import { cn, formatDateTime, formatRelativeTime, getLanguageName, getPlatformName } from '@/lib/utils'
+import { Business, Industry, Platform, ReviewLanguage, SentimentProviderName } from '@/database-types'
+
+interface BusinessDetailsPanelProps {
+  business: Business
+}
+
+const contactFields: Array<{ field: 'name' | 'address' | 'phone' | 'website'; label: string }> = [
+  { field: 'name', label: 'Name' },
+  { field: 'address', label: 'Address' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'website', label: 'Website' },
+]
+
+// Matches the providers registered in supabase/functions/_shared/sentiment
+const sentimentProviders: Record<SentimentProviderName, string> = {
+  lexicon: 'Local lexicon',
+  openai: 'OpenAI-compatible LLM',
+}
+
+const reviewLanguages: ReviewLanguage[] = ['en', 'es', 'fr', 'de']
+
+const editableOf = (business: Business): BusinessEdit => ({
+  name: business.name,
+  address: business.address,
+  phone: business.phone,
+  website: business.website,
+  google_place_id: business.google_place_id,
+  yelp_business_id: business.yelp_business_id,
+  facebook_page_id: business.facebook_page_id,
+  tripadvisor_location_id: business.tripadvisor_location_id,
+  monitoring_frequency: business.monitoring_frequency,
+  sentiment_provider: business.sentiment_provider,
+  industry: business.industry,
+  review_language: business.review_language,
+})
+
+// Platforms, fetch status and the edit/delete actions. The writes run as the
+// signed-in user, so RLS rejects them for anyone but the owner.
+export const BusinessDetailsPanel: React.FC<BusinessDetailsPanelProps> = ({ business }) => {
+  const router = useRouter()
+  const [editing, setEditing] = useState(false)
+  const [form, setForm] = useState<BusinessEdit>(() => editableOf(business))
+  const { data: runs } = useIngestionRuns(business.id, 1)
+  const updateBusiness = useUpdateBusiness(business.id)
+  const setMonitoring = useSetBusinessMonitoring()
+  const deleteBusiness = useDeleteBusiness()
+  const latestRun = runs?.[0]
+
+  const startEditing = () => {
+    setForm(editableOf(business))
+    setEditing(true)
+  }
+
+  const setField = (field: keyof BusinessEdit, value: string) => {
+    // Blank optional fields are stored as null rather than empty strings
+    setForm({ ...form, [field]: field === 'name' ? value : value.trim() ? value : null })
+  }
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!form.name.trim()) return
+
+    updateBusiness.mutate({ ...form, name: form.name.trim() }, {
+      onSuccess: () => {
+        setEditing(false)
+        toast.success('Business updated')
+      },
+      onError: (error) => toast.error(error.message),
+    })
+  }
+
+  const handleMonitoring = () => {
+    const enabled = !business.is_monitoring_enabled
+    setMonitoring.mutate({ ids: [business.id], enabled }, {
+      onSuccess: () => toast.success(enabled ? 'Monitoring enabled' : 'Monitoring paused'),
+      onError: () => toast.error('Failed to update monitoring'),
+    })
+  }
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${business.name} and all of its reviews? This cannot be undone.`)) {
+      return
+    }
+
+    deleteBusiness.mutate(business.id, {
+      onSuccess: () => {
+        toast.success('Business deleted')
+        router.push('/businesses')
+      },
+      onError: (error) => toast.error(error.message),
+    })
+  }
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Edit Business</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {contactFields.map(({ field, label }) => (
+            <label key={field} className="text-sm text-gray-700">
+              {label}
+              <input
+                type="text"
+                value={form[field] ?? ''}
+                onChange={(event) => setField(field, event.target.value)}
+                required={field === 'name'}
+                className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+              />
+            </label>
+          ))}
+          {(Object.keys(platformIdColumns) as Platform[]).map(platform => (
+            <label key={platform} className="text-sm text-gray-700">
+              {getPlatformName(platform)} ID
+              <input
+                type="text"
+                value={form[platformIdColumns[platform]] ?? ''}
+                onChange={(event) => setField(platformIdColumns[platform], event.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+              />
+            </label>
+          ))}
+          <label className="text-sm text-gray-700">
+            Fetch frequency
+            <select
+              value={form.monitoring_frequency ?? 'daily'}
+              onChange={(event) => setField('monitoring_frequency', event.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+            >
+              <option value="hourly">Hourly</option>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Sentiment analysis
+            <select
+              value={form.sentiment_provider ?? ''}
+              onChange={(event) => setField('sentiment_provider', event.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+            >
+              <option value="">Platform default</option>
+              {(Object.keys(sentimentProviders) as SentimentProviderName[]).map(provider => (
+                <option key={provider} value={provider}>{sentimentProviders[provider]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Industry
+            <select
+              value={form.industry ?? ''}
+              onChange={(event) => setField('industry', event.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+            >
+              <option value="">Not set ({industryLabels[DEFAULT_INDUSTRY].toLowerCase()} topics)</option>
+              {(Object.keys(industryLabels) as Industry[]).map(industry => (
+                <option key={industry} value={industry}>{industryLabels[industry]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            Tripadvisor review language
+            <select
+              value={form.review_language ?? ''}
+              onChange={(event) => setField('review_language', event.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+            >
+              <option value="">Platform default (English)</option>
+              {reviewLanguages.map(language => (
+                <option key={language} value={language}>{getLanguageName(language)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="ghost" onClick={() => setEditing(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!form.name.trim() || updateBusiness.isPending}>
+            {updateBusiness.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </form>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Details</h2>
+        <div className="flex space-x-2">
+          <Button size="sm" variant="outline" onClick={handleMonitoring} disabled={setMonitoring.isPending}>
+            {business.is_monitoring_enabled ? 'Pause monitoring' : 'Enable monitoring'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={startEditing}>
+            Edit
+          </Button>
+          <Button size="sm" variant="destructive" onClick={handleDelete} disabled={deleteBusiness.isPending}>
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div>
+          <dt className="text-gray-500">Address</dt>
+          <dd className="text-gray-900">{business.address || '–'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Monitoring</dt>
+          <dd className="text-gray-900">
+            {business.is_monitoring_enabled ? `On, ${business.monitoring_frequency}` : 'Paused'}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Last fetch</dt>
+          <dd className="text-gray-900">
+            {business.last_review_fetch ? (
+              <span title={formatDateTime(business.last_review_fetch)}>{formatRelativeTime(business.last_review_fetch)}</span>
+            ) : 'Never'}
+            {latestRun && (
+              <span
+                className={cn(
+                  'ml-2 inline-flex rounded-full px-2 py-0.5 text-xs font-medium',
+                  latestRun.status === 'failed' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+                )}
+              >
+                {latestRun.platform} {latestRun.status}
+              </span>
+            )}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Contact</dt>
+          <dd className="text-gray-900">{[business.phone, business.website].filter(Boolean).join(' · ') || '–'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Sentiment analysis</dt>
+          <dd className="text-gray-900">
+            {business.sentiment_provider ? sentimentProviders[business.sentiment_provider] : 'Platform default'}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Review topics</dt>
+          <dd className="text-gray-900">
+            {business.industry ? industryLabels[business.industry] : 'Industry not set'}
+            <Link href={`/businesses/${business.id}/topics`} className="ml-2 text-blue-600 hover:text-blue-700">
+              Edit topics
+            </Link>
+          </dd>
+        </div>
+      </dl>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Platforms</h3>
+        <ul className="divide-y divide-gray-100 text-sm">
+          {(Object.keys(platformIdColumns) as Platform[]).map(platform => {
+            const platformId = business[platformIdColumns[platform]]
+            return (
+              <li key={platform} className="flex items-center justify-between py-2">
+                <span className="text-gray-700">{getPlatformName(platform)}</span>
+                <span className={platformId ? 'font-mono text-gray-900' : 'text-gray-400'}>
+                  {platformId ?? 'Not linked'}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import React, { useState } from 'react'
+import toast from 'react-hot-toast'
+import { useAssignBusinessGroup, useBusinessGroups, useCreateBusinessGroup } from '@/hooks/useBusinessGroups'
+import { Button } from '@/components/ui/Button'
+import { Business } from '@/database-types'
+
+interface BusinessGroupPanelProps {
+  business: Business
+}
+
+// Puts a location under a brand, creating the brand on the way if needed
+export const BusinessGroupPanel: React.FC<BusinessGroupPanelProps> = ({ business }) => {
+  const { data: groups } = useBusinessGroups()
+  const assignGroup = useAssignBusinessGroup(business.id)
+  const createGroup = useCreateBusinessGroup()
+  const [newGroupName, setNewGroupName] = useState('')
+
+  const handleAssign = (groupId: string | null) => {
+    assignGroup.mutate(groupId, {
+      onSuccess: () => toast.success(groupId ? 'Location added to brand' : 'Location removed from brand'),
+      onError: () => toast.error('Failed to update brand'),
+    })
+  }
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault()
+    const name = newGroupName.trim()
+    if (!name || !business.user_id) return
+
+    createGroup.mutate({ user_id: business.user_id, name }, {
+      onSuccess: (group) => {
+        setNewGroupName('')
+        handleAssign(group.id)
+      },
+      onError: () => toast.error('Failed to create brand'),
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Brand</h2>
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <select
+          value={business.group_id ?? ''}
+          onChange={(event) => handleAssign(event.target.value || null)}
+          disabled={assignGroup.isPending}
+          className="rounded-md border-gray-300 text-sm md:w-64"
+        >
+          <option value="">Not part of a brand</option>
+          {groups?.map(group => (
+            <option key={group.id} value={group.id}>{group.name}</option>
+          ))}
+        </select>
+
+        <form onSubmit={handleCreate} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newGroupName}
+            onChange={(event) => setNewGroupName(event.target.value)}
+            placeholder="New brand name"
+            className="rounded-md border-gray-300 text-sm"
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={!newGroupName.trim() || createGroup.isPending}>
+            Create
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { useBusinessList, useSetBusinessMonitoring } from '@/hooks/useBusinesses'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { cn, formatRelativeTime, getPlatformName } from '@/lib/utils'
+import { BusinessFilters, BusinessSort, BusinessSortColumn } from '@/database-types'
+
+type StatusFilter = 'all' | 'active' | 'paused'
+
+// Highest rated, most reviewed and most recent first; names A-Z
+const sortOptions: Array<{ value: BusinessSortColumn; label: string; ascending: boolean }> = [
+  { value: 'name', label: 'Name', ascending: true },
+  { value: 'average_rating', label: 'Rating', ascending: false },
+  { value: 'total_reviews', label: 'Review count', ascending: false },
+  { value: 'latest_review_date', label: 'Latest review', ascending: false },
+]
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const formatRating = (rating: number | null) => (rating === null ? '–' : Number(rating).toFixed(1))
+
+export const BusinessList: React.FC = () => {
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [status, setStatus] = useState<StatusFilter>('all')
+  const [sort, setSort] = useState<BusinessSort>({ column: 'name', ascending: true })
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  const filters: BusinessFilters = {
+    search: search || undefined,
+    is_active: status === 'all' ? undefined : status === 'active',
+  }
+  const { data: businesses, isLoading, error } = useBusinessList(filters, sort)
+  const setMonitoring = useSetBusinessMonitoring()
+
+  // Drop selections that the current filters no longer show
+  const visibleIds = (businesses ?? []).map(business => business.id).filter((id): id is string => !!id)
+  const selectedIds = visibleIds.filter(id => selected.has(id))
+  const allSelected = visibleIds.length > 0 && selectedIds.length === visibleIds.length
+
+  const toggle = (id: string) => {
+    const next = new Set(selected)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setSelected(next)
+  }
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(visibleIds))
+  }
+
+  const handleSort = (column: BusinessSortColumn) => {
+    const option = sortOptions.find(candidate => candidate.value === column)!
+    setSort({ column, ascending: option.ascending })
+  }
+
+  const handleBulkMonitoring = (enabled: boolean) => {
+    setMonitoring.mutate({ ids: selectedIds, enabled }, {
+      onSuccess: (count) => {
+        setSelected(new Set())
+        toast.success(`Monitoring ${enabled ? 'enabled' : 'paused'} for ${count} business${count === 1 ? '' : 'es'}`)
+      },
+      onError: () => toast.error('Failed to update monitoring'),
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          placeholder="Search businesses"
+          className="rounded-md border-gray-300 text-sm md:w-72"
+        />
+        <select
+          value={status}
+          onChange={(event) => setStatus(event.target.value as StatusFilter)}
+          className="rounded-md border-gray-300 text-sm"
+        >
+          <option value="all">All businesses</option>
+          <option value="active">Monitoring on</option>
+          <option value="paused">Monitoring paused</option>
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Sort by
+          <select
+            value={sort.column}
+            onChange={(event) => handleSort(event.target.value as BusinessSortColumn)}
+            className="rounded-md border-gray-300 text-sm"
+          >
+            {sortOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => setSort({ ...sort, ascending: !sort.ascending })}
+          className="text-sm text-blue-600 hover:text-blue-700"
+        >
+          {sort.ascending ? 'Ascending' : 'Descending'}
+        </button>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="flex items-center justify-between rounded-md bg-blue-50 px-4 py-2 text-sm">
+          <span className="text-blue-900">{selectedIds.length} selected</span>
+          <div className="flex space-x-2">
+            <Button size="sm" variant="outline" onClick={() => handleBulkMonitoring(true)} disabled={setMonitoring.isPending}>
+              Enable monitoring
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleBulkMonitoring(false)} disabled={setMonitoring.isPending}>
+              Pause monitoring
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">Failed to load businesses.</p>
+      )}
+
+      {!isLoading && !error && businesses?.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">
+          {search || status !== 'all' ? 'No businesses match these filters.' : 'No businesses yet. Add one to start monitoring reviews.'}
+        </p>
+      )}
+
+      {businesses && businesses.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all businesses" />
+                </th>
+                <th className="py-2 pr-4 font-medium">Business</th>
+                <th className="py-2 pr-4 font-medium">Platforms</th>
+                <th className="py-2 pr-4 font-medium">Rating</th>
+                <th className="py-2 pr-4 font-medium">Reviews</th>
+                <th className="py-2 pr-4 font-medium">Latest Review</th>
+                <th className="py-2 pr-4 font-medium">Last Fetch</th>
+                <th className="py-2 font-medium">Monitoring</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {businesses.map(business => (
+                <tr key={business.id}>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="checkbox"
+                      checked={!!business.id && selected.has(business.id)}
+                      onChange={() => business.id && toggle(business.id)}
+                      aria-label={`Select ${business.name}`}
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <Link href={`/businesses/${business.id}`} className="font-medium text-blue-600 hover:text-blue-700">
+                      {business.name}
+                    </Link>
+                    {business.address && <p className="text-gray-500">{business.address}</p>}
+                    {business.group_name && <p className="text-xs text-gray-400">{business.group_name}</p>}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">
+                    {business.platforms?.length
+                      ? business.platforms.map(getPlatformName).join(', ')
+                      : '–'}
+                  </td>
+                  <td className="py-2 pr-4">{formatRating(business.average_rating)}</td>
+                  <td className="py-2 pr-4">{business.total_reviews ?? 0}</td>
+                  <td className="py-2 pr-4 text-gray-500">
+                    {business.latest_review_date ? formatRelativeTime(business.latest_review_date) : '–'}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-500">
+                    {business.last_review_fetch ? formatRelativeTime(business.last_review_fetch) : 'Never'}
+                  </td>
+                  <td className="py-2">
+                    <span
+                      className={cn(
+                        'inline-flex rounded-full px-2 py-0.5 text-xs font-medium',
+                        business.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      )}
+                    >
+                      {business.is_active ? 'On' : 'Paused'}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
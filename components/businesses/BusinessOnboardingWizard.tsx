@@ -0,0 +1,299 @@
+import React, { useState } from 'react'
+import { useRouter } from 'next/router'
+import toast from 'react-hot-toast'
+import {
+  PlatformIdValidation,
+  PlatformIds,
+  PlatformSearchResult,
+  useCreateBusiness,
+  usePlatformBusinessSearch,
+  useValidatePlatformIds,
+} from '@/hooks/useBusinessOnboarding'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { Platform } from '@/database-types'
+
+interface BusinessOnboardingWizardProps {
+  userId: string
+}
+
+interface BusinessDetails {
+  name: string
+  address: string
+  phone: string
+  website: string
+}
+
+// Per platform: a candidate's ID, MANUAL_ENTRY, or '' to leave the platform unlinked
+type PlatformChoices = Partial<Record<Platform, string>>
+
+const MANUAL_ENTRY = 'manual'
+
+const idLabels: Record<Platform, string> = {
+  google: 'Google Place ID',
+  yelp: 'Yelp business ID',
+  facebook: 'Facebook Page ID',
+  tripadvisor: 'Tripadvisor location ID',
+}
+
+const emptyDetails: BusinessDetails = { name: '', address: '', phone: '', website: '' }
+
+export const BusinessOnboardingWizard: React.FC<BusinessOnboardingWizardProps> = ({ userId }) => {
+  const router = useRouter()
+  const [details, setDetails] = useState<BusinessDetails>(emptyDetails)
+  const [results, setResults] = useState<PlatformSearchResult[] | null>(null)
+  const [choices, setChoices] = useState<PlatformChoices>({})
+  const [manualIds, setManualIds] = useState<PlatformIds>({})
+  const [validations, setValidations] = useState<PlatformIdValidation[] | null>(null)
+  const search = usePlatformBusinessSearch()
+  const validate = useValidatePlatformIds()
+  const createBusiness = useCreateBusiness()
+
+  const chosenIds = (): PlatformIds => {
+    const ids: PlatformIds = {}
+    for (const [platform, choice] of Object.entries(choices) as Array<[Platform, string]>) {
+      const id = choice === MANUAL_ENTRY ? manualIds[platform]?.trim() : choice
+      if (id) ids[platform] = id
+    }
+    return ids
+  }
+
+  const updateDetail = (field: keyof BusinessDetails) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setDetails({ ...details, [field]: event.target.value })
+  }
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!details.name.trim()) return
+
+    search.mutate({ name: details.name.trim(), address: details.address.trim() || undefined }, {
+      onSuccess: (data) => {
+        setResults(data)
+        setValidations(null)
+        // Preselect the best match wherever a platform found one
+        setChoices(Object.fromEntries(data.map(result => [result.platform, result.candidates[0]?.platform_business_id ?? ''])))
+      },
+      onError: (error) => toast.error(error.message),
+    })
+  }
+
+  const handleChoice = (platform: Platform, choice: string) => {
+    setChoices({ ...choices, [platform]: choice })
+    setValidations(null)
+  }
+
+  const handleValidate = () => {
+    const ids = chosenIds()
+    if (Object.keys(ids).length === 0) {
+      setValidations([])
+      return
+    }
+
+    validate.mutate(ids, {
+      onSuccess: (data) => {
+        setValidations(data)
+        if (data.some(validation => !validation.valid)) {
+          toast.error('Some platform IDs could not be confirmed')
+        }
+      },
+      onError: (error) => toast.error(error.message),
+    })
+  }
+
+  const handleCreate = () => {
+    createBusiness.mutate({
+      user_id: userId,
+      name: details.name.trim(),
+      address: details.address.trim(),
+      phone: details.phone.trim(),
+      website: details.website.trim(),
+      platformIds: chosenIds(),
+    }, {
+      onSuccess: ({ business, backfills }) => {
+        const failed = backfills.filter(backfill => backfill.error)
+        if (failed.length > 0) {
+          toast.error(`Could not start the backfill for ${failed.map(backfill => backfill.platform).join(', ')}`)
+        }
+        toast.success(backfills.length > 0 ? 'Business added; importing review history' : 'Business added')
+        router.push(`/businesses/${business.id}`)
+      },
+      onError: () => toast.error('Failed to create business'),
+    })
+  }
+
+  const validationFor = (platform: Platform) => validations?.find(validation => validation.platform === platform)
+  const allValid = !!validations && validations.every(validation => validation.valid)
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSearch} className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">1. Business details</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="text-sm text-gray-700">
+            Name <span className="text-red-600">*</span>
+            <input
+              type="text"
+              value={details.name}
+              onChange={updateDetail('name')}
+              required
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Address
+            <input
+              type="text"
+              value={details.address}
+              onChange={updateDetail('address')}
+              placeholder="Street, city"
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Phone
+            <input
+              type="tel"
+              value={details.phone}
+              onChange={updateDetail('phone')}
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Website
+            <input
+              type="url"
+              value={details.website}
+              onChange={updateDetail('website')}
+              className="mt-1 block w-full rounded-md border-gray-300 text-sm"
+            />
+          </label>
+        </div>
+        <p className="text-sm text-gray-500">
+          Include the address so listings of other businesses with the same name are ruled out. Yelp only searches with an address.
+        </p>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={!details.name.trim() || search.isPending}>
+            {search.isPending ? 'Searching...' : 'Find listings'}
+          </Button>
+        </div>
+      </form>
+
+      {search.isPending && !results && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {results && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          <h2 className="text-lg font-semibold text-gray-900">2. Confirm listings</h2>
+          {results.map(result => {
+            const choice = choices[result.platform] ?? ''
+            const validation = validationFor(result.platform)
+
+            return (
+              <fieldset key={result.platform} className="space-y-2">
+                <legend className="text-sm font-medium text-gray-900">{result.displayName}</legend>
+                {result.error && (
+                  <p className="text-sm text-yellow-700">Search unavailable: {result.error}</p>
+                )}
+                {!result.error && result.candidates.length === 0 && (
+                  <p className="text-sm text-gray-500">No matching listings found.</p>
+                )}
+
+                {result.candidates.map(candidate => (
+                  <label key={candidate.platform_business_id} className="flex items-start gap-3 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name={result.platform}
+                      checked={choice === candidate.platform_business_id}
+                      onChange={() => handleChoice(result.platform, candidate.platform_business_id)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-900">{candidate.name}</span>
+                      {candidate.address && <span className="block text-gray-500">{candidate.address}</span>}
+                      <span className="block text-gray-500">
+                        {[
+                          candidate.rating !== null && `${candidate.rating} stars`,
+                          candidate.review_count !== null && `${candidate.review_count} reviews`,
+                        ].filter(Boolean).join(' · ')}
+                        {candidate.url && (
+                          <a href={candidate.url} target="_blank" rel="noreferrer" className="ml-2 text-blue-600 hover:text-blue-700">
+                            View listing
+                          </a>
+                        )}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name={result.platform}
+                    checked={choice === MANUAL_ENTRY}
+                    onChange={() => handleChoice(result.platform, MANUAL_ENTRY)}
+                  />
+                  Enter the {idLabels[result.platform]}
+                </label>
+                {choice === MANUAL_ENTRY && (
+                  <input
+                    type="text"
+                    value={manualIds[result.platform] ?? ''}
+                    onChange={(event) => {
+                      setManualIds({ ...manualIds, [result.platform]: event.target.value })
+                      setValidations(null)
+                    }}
+                    placeholder={idLabels[result.platform]}
+                    className="ml-7 block w-full md:w-96 rounded-md border-gray-300 text-sm"
+                  />
+                )}
+
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name={result.platform}
+                    checked={choice === ''}
+                    onChange={() => handleChoice(result.platform, '')}
+                  />
+                  Don&apos;t link {result.displayName}
+                </label>
+
+                {validation && (
+                  <p className={validation.valid ? 'text-sm text-green-700' : 'text-sm text-red-600'}>
+                    {validation.valid
+                      ? `Confirmed: ${validation.candidate?.name}${validation.candidate?.address ? `, ${validation.candidate.address}` : ''}`
+                      : validation.error}
+                  </p>
+                )}
+              </fieldset>
+            )
+          })}
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handleValidate} disabled={validate.isPending}>
+              {validate.isPending ? 'Checking...' : 'Check IDs'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {validations && allValid && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">3. Add business</h2>
+          <p className="text-sm text-gray-600">
+            {validations.length > 0
+              ? `${details.name} will be monitored on ${validations.length} platform${validations.length === 1 ? '' : 's'}. Its full review history is imported in the background.`
+              : `${details.name} has no linked platforms yet. Link one later or import reviews from a file.`}
+          </p>
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={createBusiness.isPending}>
+              {createBusiness.isPending ? 'Adding...' : 'Add business'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import React from 'react'
+import { useIngestionRuns } from '@/hooks/useIngestionRuns'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { formatDateTime, formatRelativeTime } from '@/lib/utils'
+import { IngestionRun, IngestionRunStatus } from '@/database-types'
+
+interface IngestionHistoryPanelProps {
+  businessId: string
+}
+
+const statusClasses: Record<IngestionRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-700',
+}
+
+const errorMessage = (run: IngestionRun): string | null => {
+  if (!run.error || typeof run.error !== 'object' || Array.isArray(run.error)) {
+    return null
+  }
+  const message = run.error.message
+  return typeof message === 'string' ? message : JSON.stringify(run.error)
+}
+
+export const IngestionHistoryPanel: React.FC<IngestionHistoryPanelProps> = ({ businessId }) => {
+  const { data: runs, isLoading, error } = useIngestionRuns(businessId)
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Fetch History</h2>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">Failed to load fetch history.</p>
+      )}
+
+      {!isLoading && !error && runs?.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">
+          No fetches have run for this business yet.
+        </p>
+      )}
+
+      {runs && runs.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Started</th>
+                <th className="py-2 pr-4 font-medium">Platform</th>
+                <th className="py-2 pr-4 font-medium">Trigger</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 pr-4 font-medium text-right">Fetched</th>
+                <th className="py-2 pr-4 font-medium text-right">New</th>
+                <th className="py-2 pr-4 font-medium text-right">Updated</th>
+                <th className="py-2 pr-4 font-medium text-right">Removed</th>
+                <th className="py-2 pr-4 font-medium text-right">Skipped</th>
+                <th className="py-2 pr-4 font-medium text-right">Failed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {runs.map((run) => (
+                <React.Fragment key={run.id}>
+                  <tr>
+                    <td className="py-2 pr-4 text-gray-900" title={run.started_at ? formatDateTime(run.started_at) : undefined}>
+                      {run.started_at ? formatRelativeTime(run.started_at) : '–'}
+                    </td>
+                    <td className="py-2 pr-4 capitalize text-gray-700">{run.platform}</td>
+                    <td className="py-2 pr-4 capitalize text-gray-700">
+                      {run.trigger_source}
+                      {run.mode === 'backfill' && <span className="ml-1 text-xs text-gray-500">(backfill)</span>}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${statusClasses[run.status]}`}>
+                        {run.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{run.reviews_fetched}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{run.reviews_inserted}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{run.reviews_updated}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{run.reviews_removed}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{run.reviews_skipped}</td>
+                    <td className="py-2 pr-4 text-right text-gray-700">{run.reviews_failed}</td>
+                  </tr>
+                  {errorMessage(run) && (
+                    <tr>
+                      <td colSpan={10} className="pb-3 pr-4 text-xs text-red-600">
+                        {errorMessage(run)}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
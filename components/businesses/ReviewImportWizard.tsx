@@ -0,0 +1,290 @@
+import React, { useState } from 'react'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import {
+  ColumnMapping,
+  ImportField,
+  ImportFormat,
+  ImportPreview,
+  ImportRequest,
+  ImportResult,
+  useCommitReviewImport,
+  usePreviewReviewImport,
+} from '@/hooks/useReviewImports'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { formatDateTime, truncateText } from '@/lib/utils'
+import { ReviewPlatform } from '@/database-types'
+
+interface ReviewImportWizardProps {
+  businessId: string
+}
+
+const fieldLabels: Record<ImportField, string> = {
+  rating: 'Rating (1-5)',
+  review_date: 'Review date',
+  review_text: 'Review text',
+  reviewer_name: 'Reviewer name',
+  platform_review_id: 'Review ID',
+  review_url: 'Review URL',
+  reviewer_avatar: 'Reviewer avatar URL',
+}
+
+const requiredFields: ImportField[] = ['rating', 'review_date']
+
+const platformOptions: Array<{ value: ReviewPlatform; label: string }> = [
+  { value: 'other', label: 'Other source' },
+  { value: 'google', label: 'Google' },
+  { value: 'yelp', label: 'Yelp' },
+  { value: 'facebook', label: 'Facebook' },
+  { value: 'tripadvisor', label: 'Tripadvisor' },
+]
+
+const formatOf = (fileName: string): ImportFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  return extension === 'csv' || extension === 'json' ? extension : null
+}
+
+export const ReviewImportWizard: React.FC<ReviewImportWizardProps> = ({ businessId }) => {
+  const [file, setFile] = useState<{ name: string; format: ImportFormat; content: string } | null>(null)
+  const [platform, setPlatform] = useState<ReviewPlatform>('other')
+  const [mapping, setMapping] = useState<ColumnMapping | undefined>()
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const previewImport = usePreviewReviewImport()
+  const commitImport = useCommitReviewImport(businessId)
+
+  const request = (overrides: Partial<ImportRequest> = {}): ImportRequest | null =>
+    file && {
+      businessId,
+      format: file.format,
+      content: file.content,
+      fileName: file.name,
+      mapping,
+      platform,
+      ...overrides,
+    }
+
+  const runPreview = (next: ImportRequest | null) => {
+    if (!next) return
+    previewImport.mutate(next, {
+      onSuccess: (data) => {
+        setPreview(data)
+        setMapping(data.mapping)
+      },
+      onError: (error) => {
+        setPreview(null)
+        toast.error(error.message)
+      },
+    })
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    if (!selected) return
+
+    const format = formatOf(selected.name)
+    if (!format) {
+      toast.error('Choose a .csv or .json file')
+      return
+    }
+
+    const content = await selected.text()
+    setFile({ name: selected.name, format, content })
+    setMapping(undefined)
+    setResult(null)
+    // Let the server guess the mapping from the headers
+    runPreview({ businessId, format, content, fileName: selected.name, platform })
+  }
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    const next = { ...mapping }
+    if (column) {
+      next[field] = column
+    } else {
+      delete next[field]
+    }
+    setMapping(next)
+    runPreview(request({ mapping: next }))
+  }
+
+  const handleImport = () => {
+    const next = request()
+    if (!next) return
+
+    commitImport.mutate(next, {
+      onSuccess: (data) => {
+        setResult(data)
+        toast.success(`Imported ${data.rows_inserted} reviews`)
+      },
+      onError: (error) => toast.error(error.message),
+    })
+  }
+
+  if (result) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Import complete</h2>
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Imported</dt>
+            <dd className="text-2xl font-semibold text-gray-900">{result.rows_inserted}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Already stored</dt>
+            <dd className="text-2xl font-semibold text-gray-900">{result.rows_duplicate}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Invalid</dt>
+            <dd className="text-2xl font-semibold text-gray-900">{result.rows_invalid}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Queued for analysis</dt>
+            <dd className="text-2xl font-semibold text-gray-900">{result.analysis_queued}</dd>
+          </div>
+        </dl>
+        <p className="text-sm text-gray-600">
+          If anything looks wrong, roll the import back from the business page.
+        </p>
+        <Link href={`/businesses/${businessId}`} className="text-sm font-medium text-blue-600 hover:text-blue-700">
+          Back to business
+        </Link>
+      </div>
+    )
+  }
+
+  const canImport = !!preview && preview.missing_fields.length === 0 && preview.rows_valid > 0
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">1. Choose a file</h2>
+        <p className="text-sm text-gray-600">
+          Upload a CSV with a header row, or a JSON array of review objects. Up to 5,000 reviews per file.
+        </p>
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <input
+            type="file"
+            accept=".csv,.json"
+            onChange={handleFileChange}
+            className="text-sm text-gray-700"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Source
+            <select
+              value={platform}
+              onChange={(event) => setPlatform(event.target.value as ReviewPlatform)}
+              className="rounded-md border-gray-300 text-sm"
+            >
+              {platformOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {previewImport.isPending && !preview && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {preview && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">2. Map columns</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(Object.keys(fieldLabels) as ImportField[]).map(field => (
+              <label key={field} className="flex items-center justify-between gap-4 text-sm text-gray-700">
+                <span>
+                  {fieldLabels[field]}
+                  {requiredFields.includes(field) && <span className="text-red-600"> *</span>}
+                </span>
+                <select
+                  value={mapping?.[field] ?? ''}
+                  onChange={(event) => handleMappingChange(field, event.target.value)}
+                  className="w-48 rounded-md border-gray-300 text-sm"
+                >
+                  <option value="">Not mapped</option>
+                  {preview.columns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          {preview.missing_fields.length > 0 && (
+            <p className="text-sm text-red-600">
+              Map a column to {preview.missing_fields.map(field => fieldLabels[field]).join(' and ')} to continue.
+            </p>
+          )}
+        </div>
+      )}
+
+      {preview && preview.missing_fields.length === 0 && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">3. Review and import</h2>
+            <div className="flex space-x-4 text-sm text-gray-600">
+              <span>{preview.rows_total} rows</span>
+              <span className="text-green-700">{preview.rows_valid} valid</span>
+              <span className={preview.rows_invalid > 0 ? 'text-red-600 font-medium' : undefined}>
+                {preview.rows_invalid} with errors
+              </span>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Row</th>
+                  <th className="py-2 pr-4 font-medium">Rating</th>
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Reviewer</th>
+                  <th className="py-2 font-medium">Text</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {preview.preview.map(row => (
+                  <tr key={row.row} className={row.review ? undefined : 'bg-red-50'}>
+                    <td className="py-2 pr-4 text-gray-500">{row.row}</td>
+                    {row.review ? (
+                      <>
+                        <td className="py-2 pr-4">{row.review.rating}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(row.review.review_date)}</td>
+                        <td className="py-2 pr-4">{row.review.reviewer_name}</td>
+                        <td className="py-2 text-gray-700">{truncateText(row.review.review_text, 80)}</td>
+                      </>
+                    ) : (
+                      <td colSpan={4} className="py-2 text-red-600">{row.errors.join('; ')}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {preview.errors.length > 0 && (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-red-600">
+                {preview.rows_invalid} rows will be skipped
+              </summary>
+              <ul className="mt-2 space-y-1 text-gray-700">
+                {preview.errors.map(({ row, errors }) => (
+                  <li key={row}>Row {row}: {errors.join('; ')}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleImport} disabled={!canImport || commitImport.isPending || previewImport.isPending}>
+              {commitImport.isPending ? 'Importing...' : `Import ${preview.rows_valid} reviews`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import React from 'react'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { useReviewImports, useRollbackReviewImport } from '@/hooks/useReviewImports'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { formatDateTime, formatRelativeTime } from '@/lib/utils'
+import { ReviewImport, ReviewImportStatus } from '@/database-types'
+
+interface ReviewImportsPanelProps {
+  businessId: string
+}
+
+const statusClasses: Record<ReviewImportStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  completed_with_errors: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+  rolled_back: 'bg-gray-100 text-gray-700',
+}
+
+const canRollBack = (reviewImport: ReviewImport) =>
+  reviewImport.status === 'completed' || reviewImport.status === 'completed_with_errors'
+
+export const ReviewImportsPanel: React.FC<ReviewImportsPanelProps> = ({ businessId }) => {
+  const { data: imports, isLoading, error } = useReviewImports(businessId)
+  const rollback = useRollbackReviewImport(businessId)
+
+  const handleRollback = (reviewImport: ReviewImport) => {
+    if (!window.confirm(`Delete the ${reviewImport.rows_inserted} reviews created by this import?`)) {
+      return
+    }
+
+    rollback.mutate(reviewImport.id, {
+      onSuccess: (removed) => toast.success(`Removed ${removed} imported reviews`),
+      onError: () => toast.error('Failed to roll back import'),
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Imports</h2>
+        <Link
+          href={`/businesses/${businessId}/import`}
+          className="text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          Import reviews
+        </Link>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">Failed to load imports.</p>
+      )}
+
+      {!isLoading && !error && imports?.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">
+          No reviews have been imported from files.
+        </p>
+      )}
+
+      {imports && imports.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {imports.map((reviewImport) => (
+            <li key={reviewImport.id} className="flex items-start justify-between py-3">
+              <div className="min-w-0 pr-4">
+                <p className="text-sm font-medium text-gray-900">
+                  {reviewImport.file_name ?? `${reviewImport.format.toUpperCase()} import`}
+                  <span
+                    className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[reviewImport.status]}`}
+                  >
+                    {reviewImport.status.replace(/_/g, ' ')}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500" title={reviewImport.created_at ? formatDateTime(reviewImport.created_at) : undefined}>
+                  {reviewImport.created_at ? formatRelativeTime(reviewImport.created_at) : 'Earlier'}: {reviewImport.rows_inserted} imported,{' '}
+                  {reviewImport.rows_duplicate} already stored, {reviewImport.rows_invalid} invalid
+                  {reviewImport.status === 'rolled_back' && `, ${reviewImport.rows_rolled_back} removed`}
+                </p>
+              </div>
+              {canRollBack(reviewImport) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRollback(reviewImport)}
+                  disabled={rollback.isPending}
+                >
+                  Roll back
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
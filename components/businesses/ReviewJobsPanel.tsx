@@ -0,0 +1,87 @@
+import React from 'react'
+import toast from 'react-hot-toast'
+import { useDeadReviewJobs, useRetryReviewJob, useReviewJobCounts } from '@/hooks/useReviewJobs'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { formatDateTime, formatRelativeTime } from '@/lib/utils'
+
+interface ReviewJobsPanelProps {
+  businessId: string
+}
+
+export const ReviewJobsPanel: React.FC<ReviewJobsPanelProps> = ({ businessId }) => {
+  const { data: counts } = useReviewJobCounts(businessId)
+  const { data: deadJobs, isLoading, error } = useDeadReviewJobs(businessId)
+  const retryJob = useRetryReviewJob(businessId)
+
+  const handleRetry = (jobId: string) => {
+    retryJob.mutate(jobId, {
+      onSuccess: () => toast.success('Job queued for another attempt'),
+      onError: () => toast.error('Failed to retry job'),
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Analysis Queue</h2>
+        {counts && (
+          <div className="flex space-x-4 text-sm text-gray-600">
+            <span>{counts.pending} pending</span>
+            <span>{counts.processing} processing</span>
+            <span className={counts.dead > 0 ? 'text-red-600 font-medium' : undefined}>
+              {counts.dead} failed
+            </span>
+          </div>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">Failed to load the analysis queue.</p>
+      )}
+
+      {!isLoading && !error && deadJobs?.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-8">
+          No reviews are stuck in the analysis queue.
+        </p>
+      )}
+
+      {deadJobs && deadJobs.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {deadJobs.map((job) => (
+            <li key={job.id} className="flex items-start justify-between py-3">
+              <div className="min-w-0 pr-4">
+                <p className="text-sm font-medium text-gray-900">
+                  {job.reviews?.reviewer_name ?? 'Unknown reviewer'}
+                  {job.reviews && (
+                    <span className="ml-2 text-xs capitalize text-gray-500">{job.reviews.platform}</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500" title={job.updated_at ? formatDateTime(job.updated_at) : undefined}>
+                  Gave up{job.updated_at && ` ${formatRelativeTime(job.updated_at)}`} after {job.attempts} of {job.max_attempts} attempts
+                </p>
+                {job.last_error && (
+                  <p className="mt-1 text-xs text-red-600 break-words">{job.last_error}</p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRetry(job.id)}
+                disabled={retryJob.isPending}
+              >
+                Retry
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+import React, { useState } from 'react'
+import toast from 'react-hot-toast'
+import {
+  TopicFields,
+  industryLabels,
+  useCustomizeTopics,
+  useDeleteTopicDefinition,
+  useResetTopics,
+  useSaveTopicDefinition,
+  useTopicTaxonomy,
+} from '@/hooks/useTopicDefinitions'
+import { Button } from '@/components/ui/Button'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { Business, ReviewTagCategory, TopicDefinition } from '@/database-types'
+
+interface TopicTaxonomyEditorProps {
+  business: Business
+}
+
+const tagCategories: ReviewTagCategory[] = ['service', 'product', 'ambiance', 'staff', 'value', 'other']
+
+const emptyTopic: TopicFields = {
+  name: '',
+  keywords: [],
+  synonyms: [],
+  tag_category: 'other',
+  positive_tag: null,
+  negative_tag: null,
+}
+
+// Comma-separated in the form, deduplicated lowercase arrays in the database
+const parseList = (value: string) =>
+  Array.from(new Set(value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)))
+
+interface TopicFormProps {
+  initial: TopicFields
+  submitLabel: string
+  saving: boolean
+  onSubmit: (fields: TopicFields) => void
+  onCancel?: () => void
+}
+
+const TopicForm: React.FC<TopicFormProps> = ({ initial, submitLabel, saving, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initial.name)
+  const [keywords, setKeywords] = useState(initial.keywords.join(', '))
+  const [synonyms, setSynonyms] = useState(initial.synonyms.join(', '))
+  const [category, setCategory] = useState<ReviewTagCategory>(initial.tag_category)
+  const [positiveTag, setPositiveTag] = useState(initial.positive_tag ?? '')
+  const [negativeTag, setNegativeTag] = useState(initial.negative_tag ?? '')
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) return
+
+    onSubmit({
+      name: name.trim().toLowerCase(),
+      keywords: parseList(keywords),
+      synonyms: parseList(synonyms),
+      tag_category: category,
+      positive_tag: positiveTag.trim() || null,
+      negative_tag: negativeTag.trim() || null,
+    })
+  }
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 text-sm'
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-3 py-3">
+      <label className="text-sm text-gray-700">
+        Topic
+        <input type="text" value={name} onChange={(event) => setName(event.target.value)} required className={inputClass} />
+      </label>
+      <label className="text-sm text-gray-700 md:col-span-2">
+        Keywords
+        <input
+          type="text"
+          value={keywords}
+          onChange={(event) => setKeywords(event.target.value)}
+          placeholder="hygienist, receptionist, front desk"
+          className={inputClass}
+        />
+      </label>
+      <label className="text-sm text-gray-700">
+        Synonyms
+        <input type="text" value={synonyms} onChange={(event) => setSynonyms(event.target.value)} className={inputClass} />
+      </label>
+      <label className="text-sm text-gray-700">
+        Tag category
+        <select
+          value={category}
+          onChange={(event) => setCategory(event.target.value as ReviewTagCategory)}
+          className={inputClass}
+        >
+          {tagCategories.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-sm text-gray-700">
+          Praised tag
+          <input type="text" value={positiveTag} onChange={(event) => setPositiveTag(event.target.value)} className={inputClass} />
+        </label>
+        <label className="text-sm text-gray-700">
+          Criticized tag
+          <input type="text" value={negativeTag} onChange={(event) => setNegativeTag(event.target.value)} className={inputClass} />
+        </label>
+      </div>
+      <div className="md:col-span-3 flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={!name.trim() || saving}>
+          {saving ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+const TopicSummary: React.FC<{ topic: TopicDefinition }> = ({ topic }) => (
+  <div className="min-w-0">
+    <p className="text-sm font-medium text-gray-900">
+      {topic.name}
+      <span className="ml-2 inline-flex rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+        {topic.tag_category}
+      </span>
+    </p>
+    <p className="mt-1 text-sm text-gray-500 truncate">
+      {[...topic.keywords, ...topic.synonyms].join(', ') || 'No keywords'}
+    </p>
+    {(topic.positive_tag || topic.negative_tag) && (
+      <p className="mt-1 text-xs text-gray-500">
+        Tags: {topic.positive_tag ?? topic.name} / {topic.negative_tag ?? topic.name}
+      </p>
+    )}
+  </div>
+)
+
+// The topics analyze-sentiment looks for in this business's reviews. Until the
+// owner customizes them, the industry preset applies and is shown read-only.
+export const TopicTaxonomyEditor: React.FC<TopicTaxonomyEditorProps> = ({ business }) => {
+  const { data: taxonomy, isLoading, error } = useTopicTaxonomy(business)
+  const saveTopic = useSaveTopicDefinition(business.id)
+  const deleteTopic = useDeleteTopicDefinition(business.id)
+  const customize = useCustomizeTopics(business.id)
+  const reset = useResetTopics(business.id)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [adding, setAdding] = useState(false)
+
+  const handleSave = (fields: TopicFields, id?: string) => {
+    saveTopic.mutate({ ...fields, id }, {
+      onSuccess: () => {
+        setEditingId(null)
+        setAdding(false)
+        toast.success(id ? 'Topic updated' : 'Topic added')
+      },
+      onError: (saveError) => toast.error(saveError.message),
+    })
+  }
+
+  const handleDelete = (topic: TopicDefinition) => {
+    if (!window.confirm(`Stop looking for "${topic.name}" in new reviews?`)) {
+      return
+    }
+
+    deleteTopic.mutate(topic.id, {
+      onSuccess: () => toast.success('Topic removed'),
+      onError: () => toast.error('Failed to remove topic'),
+    })
+  }
+
+  const handleCustomize = () => {
+    customize.mutate(taxonomy?.topics ?? [], {
+      onSuccess: () => toast.success('Preset copied; edit the topics below'),
+      onError: () => toast.error('Failed to copy the preset'),
+    })
+  }
+
+  const handleReset = () => {
+    if (!window.confirm('Delete all custom topics and go back to the industry preset?')) {
+      return
+    }
+
+    reset.mutate(undefined, {
+      onSuccess: () => toast.success('Industry preset restored'),
+      onError: () => toast.error('Failed to restore the preset'),
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (error || !taxonomy) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <p className="text-sm text-red-600">Failed to load topics.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Review Topics</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            {taxonomy.isCustom
+              ? 'Custom topics for this business.'
+              : `The ${industryLabels[taxonomy.industry]} preset. Change the industry in the business details.`}
+            {' '}Changes apply to reviews analyzed from now on.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {taxonomy.isCustom ? (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setAdding(true)} disabled={adding}>
+                Add topic
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleReset} disabled={reset.isPending}>
+                Reset to preset
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" onClick={handleCustomize} disabled={customize.isPending}>
+              {customize.isPending ? 'Copying...' : 'Customize'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {adding && (
+        <div className="border-t border-gray-200">
+          <TopicForm
+            initial={emptyTopic}
+            submitLabel="Add topic"
+            saving={saveTopic.isPending}
+            onSubmit={(fields) => handleSave(fields)}
+            onCancel={() => setAdding(false)}
+          />
+        </div>
+      )}
+
+      {taxonomy.topics.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">
+          No topics defined, so reviews are analyzed with the built-in restaurant topics.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border-t border-gray-200">
+          {taxonomy.topics.map(topic => (
+            <li key={topic.id}>
+              {editingId === topic.id ? (
+                <TopicForm
+                  initial={topic}
+                  submitLabel="Save"
+                  saving={saveTopic.isPending}
+                  onSubmit={(fields) => handleSave(fields, topic.id)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex items-start justify-between py-3">
+                  <TopicSummary topic={topic} />
+                  {taxonomy.isCustom && (
+                    <div className="flex space-x-2 pl-4">
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(topic.id)}>
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(topic)} disabled={deleteTopic.isPending}>
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
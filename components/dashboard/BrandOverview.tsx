@@ -0,0 +1,130 @@
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useBusinessGroupSummaries, useBusinessSummaries } from '@/hooks/useBusinessGroups'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { cn, formatRelativeTime } from '@/lib/utils'
+
+type BrandView = 'brand' | 'locations'
+
+const formatRating = (rating: number | null) => (rating === null ? '–' : Number(rating).toFixed(1))
+
+// Brand-wide rollup with a switch to the brand's individual locations.
+// Renders nothing until the user has created a brand.
+export const BrandOverview: React.FC = () => {
+  const { data: groups, isLoading } = useBusinessGroupSummaries()
+  const [selectedGroupId, setSelectedGroupId] = useState<string>()
+  const [view, setView] = useState<BrandView>('brand')
+
+  const group = groups?.find(candidate => candidate.id === selectedGroupId) ?? groups?.[0]
+  const { data: locations, isLoading: locationsLoading } = useBusinessSummaries(
+    { group_id: group?.id ?? undefined },
+    view === 'locations' && !!group?.id
+  )
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  if (!group) {
+    return null
+  }
+
+  const stats = [
+    { label: 'Locations', value: group.location_count ?? 0 },
+    { label: 'Total Reviews', value: group.total_reviews ?? 0 },
+    { label: 'Average Rating', value: formatRating(group.average_rating) },
+    { label: 'Ratings of 3 or Less', value: group.low_rating_count ?? 0 },
+    { label: 'Negative Sentiment', value: group.negative_sentiment_count ?? 0 },
+  ]
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold text-gray-900">Brand</h2>
+          <select
+            value={group.id ?? ''}
+            onChange={(event) => setSelectedGroupId(event.target.value)}
+            className="rounded-md border-gray-300 text-sm"
+          >
+            {groups?.map(candidate => (
+              <option key={candidate.id} value={candidate.id ?? ''}>{candidate.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="inline-flex rounded-md border border-gray-300 text-sm">
+          {(['brand', 'locations'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setView(option)}
+              className={cn(
+                'px-3 py-1.5 first:rounded-l-md last:rounded-r-md',
+                view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              {option === 'brand' ? 'Brand-wide' : 'Per location'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'brand' ? (
+        <dl className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {stats.map(stat => (
+            <div key={stat.label}>
+              <dt className="text-sm font-medium text-gray-500">{stat.label}</dt>
+              <dd className="text-2xl font-semibold text-gray-900">{stat.value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : locationsLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : locations?.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">
+          No locations belong to this brand yet.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Location</th>
+                <th className="py-2 pr-4 font-medium">Reviews</th>
+                <th className="py-2 pr-4 font-medium">Average</th>
+                <th className="py-2 pr-4 font-medium">Ratings of 3 or Less</th>
+                <th className="py-2 pr-4 font-medium">Negative</th>
+                <th className="py-2 font-medium">Latest Review</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {locations?.map(location => (
+                <tr key={location.id}>
+                  <td className="py-2 pr-4">
+                    <Link href={`/businesses/${location.id}`} className="font-medium text-blue-600 hover:text-blue-700">
+                      {location.name}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4">{location.total_reviews ?? 0}</td>
+                  <td className="py-2 pr-4">{formatRating(location.average_rating)}</td>
+                  <td className="py-2 pr-4">{location.low_rating_count ?? 0}</td>
+                  <td className="py-2 pr-4">{location.negative_sentiment_count ?? 0}</td>
+                  <td className="py-2 text-gray-500">
+                    {location.latest_review_date ? formatRelativeTime(location.latest_review_date) : '–'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,19 @@
 import React from 'react'
+import Link from 'next/link'
 import { useAuth } from '@/hooks/useAuth'
+import { useDashboardMetrics } from '@/hooks/useDashboard'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { BrandOverview } from '@/components/dashboard/BrandOverview'
+import { MetricsBreakdown } from '@/components/dashboard/MetricsBreakdown'
+import { RecentActivity } from '@/components/dashboard/RecentActivity'
+import { RECENT_REVIEW_DAYS } from '@/lib/dashboard'
 
 export const DashboardOverview: React.FC = () => {
   const { user, profile, loading } = useAuth()
+  const { data: metrics, isLoading: metricsLoading } = useDashboardMetrics(!!profile)
+
+  // Dashes while loading, so a zero is never shown for data that is still on its way
+  const stat = (value: number | undefined) => (metricsLoading || value === undefined ? '–' : value.toLocaleString())
 
   if (loading) {
     return (
@@ -51,7 +61,7 @@ export const DashboardOverview: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Businesses</p>
-              <p className="text-2xl font-semibold text-gray-900">0</p>
+              <p className="text-2xl font-semibold text-gray-900">{stat(metrics?.totalBusinesses)}</p>
             </div>
           </div>
         </div>
@@ -67,7 +77,7 @@ export const DashboardOverview: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Reviews</p>
-              <p className="text-2xl font-semibold text-gray-900">0</p>
+              <p className="text-2xl font-semibold text-gray-900">{stat(metrics?.totalReviews)}</p>
             </div>
           </div>
         </div>
@@ -82,8 +92,8 @@ export const DashboardOverview: React.FC = () => {
               </div>
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Recent Reviews</p>
-              <p className="text-2xl font-semibold text-gray-900">0</p>
+              <p className="text-sm font-medium text-gray-500">Reviews, Last {RECENT_REVIEW_DAYS} Days</p>
+              <p className="text-2xl font-semibold text-gray-900">{stat(metrics?.recentReviewsCount)}</p>
             </div>
           </div>
         </div>
@@ -98,23 +108,29 @@ export const DashboardOverview: React.FC = () => {
               </div>
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Alerts</p>
-              <p className="text-2xl font-semibold text-gray-900">0</p>
+              <p className="text-sm font-medium text-gray-500">Negative Reviews</p>
+              <p className="text-2xl font-semibold text-gray-900">{stat(metrics?.negativeReviewsCount)}</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Rating, sentiment and platform split */}
+      {metrics && metrics.totalReviews > 0 && <MetricsBreakdown metrics={metrics} />}
+
+      {/* Brand-wide and per-location metrics */}
+      <BrandOverview />
+
       {/* Quick Actions */}
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h2>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <button className="flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700">
+          <Link href="/businesses/new" className="flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700">
             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
             </svg>
             Add Business
-          </button>
+          </Link>
           
           <button className="flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50">
             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -134,18 +150,7 @@ export const DashboardOverview: React.FC = () => {
       </div>
 
       {/* Recent Activity */}
-      <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h2>
-        <div className="text-center py-8">
-          <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-          </svg>
-          <h3 className="mt-2 text-sm font-medium text-gray-900">No activity yet</h3>
-          <p className="mt-1 text-sm text-gray-500">
-            Get started by adding your first business to monitor reviews.
-          </p>
-        </div>
-      </div>
+      <RecentActivity />
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,86 @@
+import React from 'react'
+import { sentimentClasses } from '@/components/reviews/ReviewInboxList'
+import { cn, formatPercentage, getPlatformName } from '@/lib/utils'
+import { DashboardMetrics, ReviewPlatform, Sentiment } from '@/database-types'
+
+interface MetricsBreakdownProps {
+  metrics: DashboardMetrics
+}
+
+const sentimentBars: Record<Sentiment, string> = {
+  positive: 'bg-green-500',
+  neutral: 'bg-gray-400',
+  negative: 'bg-red-500',
+}
+
+const share = (count: number, total: number) => (total === 0 ? 0 : count / total)
+
+// Average rating plus the sentiment and platform split behind the headline counts
+export const MetricsBreakdown: React.FC<MetricsBreakdownProps> = ({ metrics }) => {
+  const analyzed = Object.values(metrics.sentimentDistribution).reduce((sum, count) => sum + count, 0)
+  const platforms = (Object.entries(metrics.platformDistribution) as Array<[ReviewPlatform, number]>)
+    .filter(([, count]) => count > 0)
+    .sort(([, a], [, b]) => b - a)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Average Rating</h2>
+        <p className="text-4xl font-semibold text-gray-900">
+          {metrics.averageRating.toFixed(1)}
+          <span className="ml-1 text-lg text-gray-500">/ 5</span>
+        </p>
+        <p className="mt-2 text-sm text-gray-500">
+          Across {metrics.totalReviews.toLocaleString()} reviews
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Sentiment</h2>
+        {analyzed === 0 ? (
+          <p className="text-sm text-gray-500">No reviews have been analyzed yet.</p>
+        ) : (
+          <ul className="space-y-3 text-sm">
+            {(['positive', 'neutral', 'negative'] as Sentiment[]).map(sentiment => {
+              const count = metrics.sentimentDistribution[sentiment]
+              return (
+                <li key={sentiment}>
+                  <div className="flex items-center justify-between">
+                    <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium capitalize', sentimentClasses[sentiment])}>
+                      {sentiment}
+                    </span>
+                    <span className="text-gray-700">
+                      {count.toLocaleString()} · {formatPercentage(share(count, analyzed))}
+                    </span>
+                  </div>
+                  <div className="mt-1 h-2 rounded-full bg-gray-100">
+                    <div className={cn('h-2 rounded-full', sentimentBars[sentiment])} style={{ width: formatPercentage(share(count, analyzed)) }} />
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Platforms</h2>
+        <ul className="space-y-3 text-sm">
+          {platforms.map(([platform, count]) => (
+            <li key={platform}>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700">{getPlatformName(platform)}</span>
+                <span className="text-gray-700">
+                  {count.toLocaleString()} · {formatPercentage(share(count, metrics.totalReviews))}
+                </span>
+              </div>
+              <div className="mt-1 h-2 rounded-full bg-gray-100">
+                <div className="h-2 rounded-full bg-blue-500" style={{ width: formatPercentage(share(count, metrics.totalReviews)) }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import React from 'react'
+import Link from 'next/link'
+import { useRecentActivity } from '@/hooks/useDashboard'
+import { sentimentClasses } from '@/components/reviews/ReviewInboxList'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { cn, formatRelativeTime, getPlatformName, truncateText } from '@/lib/utils'
+
+// Newest reviews across every business; each one opens in the reviews inbox
+export const RecentActivity: React.FC = () => {
+  const { data: reviews, isLoading, error } = useRecentActivity()
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Recent Activity</h2>
+        {!!reviews?.length && (
+          <Link href="/reviews" className="text-sm text-blue-600 hover:text-blue-700">
+            View all reviews
+          </Link>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">Failed to load recent activity.</p>
+      ) : !reviews?.length ? (
+        <div className="text-center py-8">
+          <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No activity yet</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Get started by adding your first business to monitor reviews.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {reviews.map(review => (
+            <li key={review.id}>
+              <Link href={`/reviews?review=${review.id}`} className="block py-3 hover:bg-gray-50">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-900">
+                    <span className="font-medium">{review.business_name}</span>
+                    <span className="text-gray-500"> · {review.rating} stars on {getPlatformName(review.platform ?? 'other')}</span>
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {review.overall_sentiment && (
+                      <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium capitalize', sentimentClasses[review.overall_sentiment])}>
+                        {review.overall_sentiment}
+                      </span>
+                    )}
+                    {review.review_date && (
+                      <span className="text-gray-500">{formatRelativeTime(review.review_date)}</span>
+                    )}
+                  </div>
+                </div>
+                {review.review_text && (
+                  <p className="mt-1 text-sm text-gray-600">{truncateText(review.review_text, 160)}</p>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+import React, { Fragment } from 'react'
+import Link from 'next/link'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { latestSentiment, useReviewDetail } from '@/hooks/useReviews'
+import { sentimentClasses } from '@/components/reviews/ReviewInboxList'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { cn, formatDateTime, getLanguageName, getPlatformName } from '@/lib/utils'
+
+interface ReviewDetailDrawerProps {
+  reviewId?: string
+  onClose: () => void
+}
+
+const ChipList: React.FC<{ title: string; items: string[] | null | undefined }> = ({ title, items }) => (
+  <div>
+    <h3 className="text-sm font-medium text-gray-900">{title}</h3>
+    {items?.length ? (
+      <ul className="mt-2 flex flex-wrap gap-2">
+        {items.map(item => (
+          <li key={item} className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">{item}</li>
+        ))}
+      </ul>
+    ) : (
+      <p className="mt-1 text-sm text-gray-500">None found</p>
+    )}
+  </div>
+)
+
+export const ReviewDetailDrawer: React.FC<ReviewDetailDrawerProps> = ({ reviewId, onClose }) => {
+  const { data: review, isLoading, error } = useReviewDetail(reviewId)
+  const sentiment = review ? latestSentiment(review) : null
+
+  return (
+    <Transition.Root show={!!reviewId} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="transition-opacity ease-linear duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="transition-opacity ease-linear duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-900/40" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 flex justify-end">
+          <Transition.Child
+            as={Fragment}
+            enter="transition ease-in-out duration-200 transform"
+            enterFrom="translate-x-full"
+            enterTo="translate-x-0"
+            leave="transition ease-in-out duration-200 transform"
+            leaveFrom="translate-x-0"
+            leaveTo="translate-x-full"
+          >
+            <Dialog.Panel className="flex w-full max-w-lg flex-col overflow-y-auto bg-white shadow-xl">
+              <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                <Dialog.Title className="text-lg font-semibold text-gray-900">Review</Dialog.Title>
+                <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                  <span className="sr-only">Close</span>
+                  <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+                </button>
+              </div>
+
+              <div className="flex-1 space-y-6 px-6 py-4">
+                {isLoading && (
+                  <div className="flex items-center justify-center py-8">
+                    <LoadingSpinner />
+                  </div>
+                )}
+
+                {(error || (!isLoading && !review)) && (
+                  <p className="text-sm text-red-600">Failed to load this review.</p>
+                )}
+
+                {review && (
+                  <>
+                    <div className="space-y-1 text-sm">
+                      <p className="font-medium text-gray-900">{review.reviewer_name || 'Anonymous'}</p>
+                      <p className="text-gray-500">
+                        {review.rating} of 5 on {getPlatformName(review.platform)} · {formatDateTime(review.review_date)}
+                        {review.language && ` · ${getLanguageName(review.language)}`}
+                        {review.edited_at && ' · edited'}
+                      </p>
+                      {review.business && (
+                        <Link href={`/businesses/${review.business_id}`} className="text-blue-600 hover:text-blue-700">
+                          {review.business.name}
+                        </Link>
+                      )}
+                    </div>
+
+                    <p className="whitespace-pre-line text-sm text-gray-800">
+                      {review.review_text || <span className="italic text-gray-400">The reviewer left a rating without text.</span>}
+                    </p>
+
+                    {review.review_url && (
+                      <a href={review.review_url} target="_blank" rel="noreferrer" className="text-sm text-blue-600 hover:text-blue-700">
+                        View on {getPlatformName(review.platform)}
+                      </a>
+                    )}
+
+                    <div className="space-y-4 border-t border-gray-200 pt-4">
+                      <h3 className="text-sm font-medium text-gray-900">Sentiment</h3>
+                      {sentiment ? (
+                        <dl className="grid grid-cols-3 gap-4 text-sm">
+                          <div>
+                            <dt className="text-gray-500">Overall</dt>
+                            <dd>
+                              <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium capitalize', sentimentClasses[sentiment.overall_sentiment])}>
+                                {sentiment.overall_sentiment}
+                              </span>
+                            </dd>
+                          </div>
+                          <div>
+                            <dt className="text-gray-500">Score</dt>
+                            <dd className="text-gray-900">{Number(sentiment.sentiment_score).toFixed(2)}</dd>
+                          </div>
+                          <div>
+                            <dt className="text-gray-500">Confidence</dt>
+                            <dd className="text-gray-900">
+                              {sentiment.confidence_score === null ? '–' : `${Math.round(Number(sentiment.confidence_score) * 100)}%`}
+                            </dd>
+                          </div>
+                        </dl>
+                      ) : (
+                        <p className="text-sm text-gray-500">
+                          {review.processing_status === 'failed' ? 'Analysis failed for this review.' : 'Not analyzed yet.'}
+                        </p>
+                      )}
+
+                      <ChipList title="Key phrases" items={sentiment?.key_phrases} />
+                      <ChipList title="Topics" items={sentiment?.key_topics} />
+                      <ChipList title="Praised" items={sentiment?.positive_aspects} />
+                      <ChipList title="Criticized" items={sentiment?.negative_aspects} />
+                      <ChipList
+                        title="Tags"
+                        items={review.tags.map(tag => (tag.tag_category ? `${tag.tag_name} (${tag.tag_category})` : tag.tag_name))}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            </Dialog.Panel>
+          </Transition.Child>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  )
+}
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react'
+import { useBusinessGroups, useBusinessSummaries } from '@/hooks/useBusinessGroups'
+import { getLanguageName, getPlatformName } from '@/lib/utils'
+import { ReviewFilters, ReviewLanguage, ReviewPlatform, ReviewProcessingStatus, Sentiment } from '@/database-types'
+
+interface ReviewFiltersBarProps {
+  filters: ReviewFilters
+  onChange: (filters: ReviewFilters) => void
+}
+
+const platforms: ReviewPlatform[] = ['google', 'yelp', 'facebook', 'tripadvisor', 'other']
+const sentiments: Sentiment[] = ['positive', 'neutral', 'negative']
+const languages: ReviewLanguage[] = ['en', 'es', 'fr', 'de']
+const statuses: Array<{ value: ReviewProcessingStatus; label: string }> = [
+  { value: 'pending', label: 'Awaiting analysis' },
+  { value: 'processing', label: 'Analyzing' },
+  { value: 'completed', label: 'Analyzed' },
+  { value: 'failed', label: 'Analysis failed' },
+]
+
+const SEARCH_DEBOUNCE_MS = 400
+
+const selectClass = 'rounded-md border-gray-300 text-sm'
+
+export const ReviewFiltersBar: React.FC<ReviewFiltersBarProps> = ({ filters, onChange }) => {
+  const { data: businesses } = useBusinessSummaries()
+  const { data: groups } = useBusinessGroups()
+  const [searchInput, setSearchInput] = useState(filters.search ?? '')
+
+  // Follow the URL when it changes underneath us, e.g. on back navigation
+  useEffect(() => {
+    setSearchInput(current => (current.trim() === (filters.search ?? '') ? current : filters.search ?? ''))
+  }, [filters.search])
+
+  useEffect(() => {
+    const search = searchInput.trim() || undefined
+    if (search === filters.search) return
+
+    const timeout = setTimeout(() => onChange({ ...filters, search }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput, filters, onChange])
+
+  const update = <K extends keyof ReviewFilters>(key: K, value: ReviewFilters[K] | '') => {
+    onChange({ ...filters, [key]: value === '' ? undefined : value })
+  }
+
+  const hasFilters = Object.values(filters).some(value => value !== undefined)
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <input
+        type="search"
+        value={searchInput}
+        onChange={(event) => setSearchInput(event.target.value)}
+        placeholder='Search review text, e.g. "cold coffee" -price'
+        className="w-full rounded-md border-gray-300 text-sm"
+      />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={filters.business_id ?? ''}
+          onChange={(event) => update('business_id', event.target.value)}
+          className={selectClass}
+        >
+          <option value="">All businesses</option>
+          {businesses?.map(business => (
+            <option key={business.id} value={business.id ?? ''}>{business.name}</option>
+          ))}
+        </select>
+
+        {!!groups?.length && (
+          <select
+            value={filters.group_id ?? ''}
+            onChange={(event) => update('group_id', event.target.value)}
+            disabled={!!filters.business_id}
+            className={selectClass}
+          >
+            <option value="">All brands</option>
+            {groups.map(group => (
+              <option key={group.id} value={group.id}>{group.name}</option>
+            ))}
+          </select>
+        )}
+
+        <select
+          value={filters.platform ?? ''}
+          onChange={(event) => update('platform', event.target.value as ReviewPlatform | '')}
+          className={selectClass}
+        >
+          <option value="">All platforms</option>
+          {platforms.map(platform => (
+            <option key={platform} value={platform}>{getPlatformName(platform)}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.rating ?? ''}
+          onChange={(event) => update('rating', event.target.value ? Number(event.target.value) : '')}
+          className={selectClass}
+        >
+          <option value="">Any rating</option>
+          {[5, 4, 3, 2, 1].map(rating => (
+            <option key={rating} value={rating}>{rating} star{rating === 1 ? '' : 's'}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.sentiment ?? ''}
+          onChange={(event) => update('sentiment', event.target.value as Sentiment | '')}
+          className={selectClass}
+        >
+          <option value="">Any sentiment</option>
+          {sentiments.map(sentiment => (
+            <option key={sentiment} value={sentiment} className="capitalize">{sentiment}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.language ?? ''}
+          onChange={(event) => update('language', event.target.value as ReviewLanguage | '')}
+          className={selectClass}
+        >
+          <option value="">Any language</option>
+          {languages.map(language => (
+            <option key={language} value={language}>{getLanguageName(language)}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.status ?? ''}
+          onChange={(event) => update('status', event.target.value as ReviewProcessingStatus | '')}
+          className={selectClass}
+        >
+          <option value="">Any status</option>
+          {statuses.map(status => (
+            <option key={status.value} value={status.value}>{status.label}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={filters.date_from ?? ''}
+            max={filters.date_to}
+            onChange={(event) => update('date_from', event.target.value)}
+            className={selectClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={filters.date_to ?? ''}
+            min={filters.date_from}
+            onChange={(event) => update('date_to', event.target.value)}
+            className={selectClass}
+          />
+        </label>
+
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
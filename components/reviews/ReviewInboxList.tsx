@@ -0,0 +1,110 @@
+import React from 'react'
+import { FixedSizeList, ListChildComponentProps } from 'react-window'
+import { useInView } from 'react-intersection-observer'
+import { InboxReview, latestSentiment } from '@/hooks/useReviews'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { cn, formatRelativeTime, getPlatformName, truncateText } from '@/lib/utils'
+import { Sentiment } from '@/database-types'
+
+interface ReviewInboxListProps {
+  reviews: InboxReview[]
+  selectedId?: string
+  onSelect: (review: InboxReview) => void
+  hasNextPage: boolean
+  isFetchingNextPage: boolean
+  fetchNextPage: () => void
+}
+
+interface RowData extends ReviewInboxListProps {
+  loadMoreRef: (node?: Element | null) => void
+}
+
+const ROW_HEIGHT = 112
+const LIST_HEIGHT = 672
+
+export const sentimentClasses: Record<Sentiment, string> = {
+  positive: 'bg-green-100 text-green-800',
+  neutral: 'bg-gray-100 text-gray-700',
+  negative: 'bg-red-100 text-red-800',
+}
+
+const Stars: React.FC<{ rating: number }> = ({ rating }) => (
+  <span className="text-yellow-500" aria-label={`${rating} out of 5 stars`}>
+    {'★'.repeat(rating)}
+    <span className="text-gray-300">{'★'.repeat(5 - rating)}</span>
+  </span>
+)
+
+const ReviewRow: React.FC<ListChildComponentProps<RowData>> = ({ index, style, data }) => {
+  // The row after the last review is the loader; seeing it asks for the next page
+  if (index === data.reviews.length) {
+    return (
+      <div style={style} ref={data.loadMoreRef} className="flex items-center justify-center">
+        {data.isFetchingNextPage && <LoadingSpinner />}
+      </div>
+    )
+  }
+
+  const review = data.reviews[index]
+  const sentiment = latestSentiment(review)
+
+  return (
+    <div style={style} className="border-b border-gray-100">
+      <button
+        type="button"
+        onClick={() => data.onSelect(review)}
+        className={cn(
+          'h-full w-full px-4 py-3 text-left hover:bg-gray-50',
+          data.selectedId === review.id && 'bg-blue-50'
+        )}
+      >
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Stars rating={review.rating} />
+            <span className="font-medium text-gray-900">{review.reviewer_name || 'Anonymous'}</span>
+            <span className="text-gray-500">
+              {getPlatformName(review.platform)} · {review.business?.name}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {sentiment && (
+              <span className={cn('rounded-full px-2 py-0.5 text-xs font-medium capitalize', sentimentClasses[sentiment.overall_sentiment])}>
+                {sentiment.overall_sentiment}
+              </span>
+            )}
+            <span className="text-gray-500">{formatRelativeTime(review.review_date)}</span>
+          </div>
+        </div>
+        <p className="mt-2 text-sm text-gray-700 line-clamp-2">
+          {review.review_text ? truncateText(review.review_text, 240) : <span className="italic text-gray-400">Rating only</span>}
+        </p>
+      </button>
+    </div>
+  )
+}
+
+// Windowed so only the visible rows are in the DOM, however many pages are loaded
+export const ReviewInboxList: React.FC<ReviewInboxListProps> = (props) => {
+  const { ref: loadMoreRef } = useInView({
+    onChange: (inView) => {
+      if (inView && props.hasNextPage && !props.isFetchingNextPage) {
+        props.fetchNextPage()
+      }
+    },
+  })
+
+  const itemCount = props.reviews.length + (props.hasNextPage ? 1 : 0)
+
+  return (
+    <FixedSizeList<RowData>
+      height={Math.min(LIST_HEIGHT, itemCount * ROW_HEIGHT)}
+      width="100%"
+      itemCount={itemCount}
+      itemSize={ROW_HEIGHT}
+      itemData={{ ...props, loadMoreRef }}
+      itemKey={(index, data) => data.reviews[index]?.id ?? 'load-more'}
+    >
+      {ReviewRow}
+    </FixedSizeList>
+  )
+}
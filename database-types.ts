@@ -11,372 +11,935 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
+// @generated-start
+// Generated by scripts/generate-db-types.ts from supabase/migrations.
+// Do not edit by hand: add a migration and run `npm run db:types`.
 export interface Database {
   public: {
     Tables: {
-      users: {
+      api_keys: {
         Row: {
           id: string
-          email: string
-          full_name: string
-          avatar_url: string | null
-          role: 'user' | 'admin' | 'manager'
-          is_active: boolean
-          last_login_at: string | null
-          created_at: string
-          updated_at: string
+          user_id: string | null
+          name: string
+          key_hash: string
+          permissions: string[] | null
+          is_active: boolean | null
+          last_used_at: string | null
+          expires_at: string | null
+          created_at: string | null
         }
         Insert: {
           id?: string
-          email: string
-          full_name: string
-          avatar_url?: string | null
-          role?: 'user' | 'admin' | 'manager'
-          is_active?: boolean
-          last_login_at?: string | null
-          created_at?: string
-          updated_at?: string
+          user_id?: string | null
+          name: string
+          key_hash: string
+          permissions?: string[] | null
+          is_active?: boolean | null
+          last_used_at?: string | null
+          expires_at?: string | null
+          created_at?: string | null
         }
         Update: {
           id?: string
-          email?: string
-          full_name?: string
-          avatar_url?: string | null
-          role?: 'user' | 'admin' | 'manager'
-          is_active?: boolean
-          last_login_at?: string | null
-          created_at?: string
-          updated_at?: string
+          user_id?: string | null
+          name?: string
+          key_hash?: string
+          permissions?: string[] | null
+          is_active?: boolean | null
+          last_used_at?: string | null
+          expires_at?: string | null
+          created_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'api_keys_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
       }
-      businesses: {
+      business_groups: {
         Row: {
           id: string
           user_id: string
           name: string
+          description: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'business_groups_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      businesses: {
+        Row: {
+          id: string
+          user_id: string | null
+          name: string
+          description: string | null
           address: string | null
           phone: string | null
           website: string | null
           google_place_id: string | null
           yelp_business_id: string | null
+          is_monitoring_enabled: boolean | null
+          monitoring_frequency: 'hourly' | 'daily' | 'weekly' | null
+          last_review_fetch: string | null
+          created_at: string | null
+          updated_at: string | null
           facebook_page_id: string | null
-          is_active: boolean
-          monitor_google: boolean
-          monitor_yelp: boolean
-          monitor_facebook: boolean
-          rating_threshold: number
-          review_count_threshold: number
-          industry: string | null
-          timezone: string
-          created_at: string
-          updated_at: string
+          tripadvisor_location_id: string | null
+          group_id: string | null
+          sentiment_provider: 'lexicon' | 'openai' | null
+          industry: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          review_language: 'en' | 'es' | 'fr' | 'de' | null
+          last_fetch_attempt_at: string | null
         }
         Insert: {
           id?: string
-          user_id: string
+          user_id?: string | null
           name: string
+          description?: string | null
           address?: string | null
           phone?: string | null
           website?: string | null
           google_place_id?: string | null
           yelp_business_id?: string | null
+          is_monitoring_enabled?: boolean | null
+          monitoring_frequency?: 'hourly' | 'daily' | 'weekly' | null
+          last_review_fetch?: string | null
+          created_at?: string | null
+          updated_at?: string | null
           facebook_page_id?: string | null
-          is_active?: boolean
-          monitor_google?: boolean
-          monitor_yelp?: boolean
-          monitor_facebook?: boolean
-          rating_threshold?: number
-          review_count_threshold?: number
-          industry?: string | null
-          timezone?: string
-          created_at?: string
-          updated_at?: string
+          tripadvisor_location_id?: string | null
+          group_id?: string | null
+          sentiment_provider?: 'lexicon' | 'openai' | null
+          industry?: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          review_language?: 'en' | 'es' | 'fr' | 'de' | null
+          last_fetch_attempt_at?: string | null
         }
         Update: {
           id?: string
-          user_id?: string
+          user_id?: string | null
           name?: string
+          description?: string | null
           address?: string | null
           phone?: string | null
           website?: string | null
           google_place_id?: string | null
           yelp_business_id?: string | null
+          is_monitoring_enabled?: boolean | null
+          monitoring_frequency?: 'hourly' | 'daily' | 'weekly' | null
+          last_review_fetch?: string | null
+          created_at?: string | null
+          updated_at?: string | null
           facebook_page_id?: string | null
-          is_active?: boolean
-          monitor_google?: boolean
-          monitor_yelp?: boolean
-          monitor_facebook?: boolean
-          rating_threshold?: number
-          review_count_threshold?: number
-          industry?: string | null
-          timezone?: string
-          created_at?: string
-          updated_at?: string
+          tripadvisor_location_id?: string | null
+          group_id?: string | null
+          sentiment_provider?: 'lexicon' | 'openai' | null
+          industry?: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          review_language?: 'en' | 'es' | 'fr' | 'de' | null
+          last_fetch_attempt_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'businesses_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'businesses_group_id_fkey'
+            columns: ['group_id']
+            isOneToOne: false
+            referencedRelation: 'business_groups'
+            referencedColumns: ['id']
+          }
+        ]
       }
-      reviews: {
+      email_notifications: {
+        Row: {
+          id: string
+          user_id: string | null
+          business_id: string | null
+          notification_type: 'new_review' | 'sentiment_alert' | 'weekly_summary' | 'monthly_report'
+          subject: string
+          content: string
+          is_sent: boolean | null
+          sent_at: string | null
+          error_message: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          business_id?: string | null
+          notification_type: 'new_review' | 'sentiment_alert' | 'weekly_summary' | 'monthly_report'
+          subject: string
+          content: string
+          is_sent?: boolean | null
+          sent_at?: string | null
+          error_message?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          business_id?: string | null
+          notification_type?: 'new_review' | 'sentiment_alert' | 'weekly_summary' | 'monthly_report'
+          subject?: string
+          content?: string
+          is_sent?: boolean | null
+          sent_at?: string | null
+          error_message?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'email_notifications_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'email_notifications_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      ingestion_cursors: {
         Row: {
           id: string
           business_id: string
-          review_text: string
-          rating: number
-          review_date: string
           platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
-          platform_review_id: string | null
-          platform_user_name: string | null
-          platform_user_avatar: string | null
-          status: 'pending' | 'processed' | 'flagged' | 'error'
-          is_verified: boolean
-          language: string
-          helpful_votes: number
-          created_at: string
-          updated_at: string
+          last_review_date: string | null
+          last_review_id: string | null
+          backfill_status: 'not_started' | 'running' | 'completed' | 'failed'
+          backfill_page_cursor: string | null
+          backfill_pages_fetched: number | null
+          backfill_reviews_fetched: number | null
+          backfill_started_at: string | null
+          backfill_completed_at: string | null
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
           business_id: string
-          review_text: string
-          rating: number
-          review_date: string
           platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
-          platform_review_id?: string | null
-          platform_user_name?: string | null
-          platform_user_avatar?: string | null
-          status?: 'pending' | 'processed' | 'flagged' | 'error'
-          is_verified?: boolean
-          language?: string
-          helpful_votes?: number
-          created_at?: string
-          updated_at?: string
+          last_review_date?: string | null
+          last_review_id?: string | null
+          backfill_status?: 'not_started' | 'running' | 'completed' | 'failed'
+          backfill_page_cursor?: string | null
+          backfill_pages_fetched?: number | null
+          backfill_reviews_fetched?: number | null
+          backfill_started_at?: string | null
+          backfill_completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
           business_id?: string
-          review_text?: string
-          rating?: number
-          review_date?: string
           platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
-          platform_review_id?: string | null
-          platform_user_name?: string | null
-          platform_user_avatar?: string | null
-          status?: 'pending' | 'processed' | 'flagged' | 'error'
-          is_verified?: boolean
-          language?: string
-          helpful_votes?: number
-          created_at?: string
-          updated_at?: string
+          last_review_date?: string | null
+          last_review_id?: string | null
+          backfill_status?: 'not_started' | 'running' | 'completed' | 'failed'
+          backfill_page_cursor?: string | null
+          backfill_pages_fetched?: number | null
+          backfill_reviews_fetched?: number | null
+          backfill_started_at?: string | null
+          backfill_completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'ingestion_cursors_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
       }
-      sentiment_analysis: {
+      ingestion_runs: {
         Row: {
           id: string
-          review_id: string
-          overall_sentiment: 'positive' | 'negative' | 'neutral'
-          sentiment_score: number
-          positive_aspects: string[] | null
-          negative_aspects: string[] | null
-          key_phrases: string[] | null
-          model_version: string | null
-          confidence_score: number | null
-          processed_at: string
-          processing_time_ms: number | null
-          created_at: string
+          business_id: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          trigger_source: 'manual' | 'scheduler' | 'webhook' | 'import'
+          status: 'running' | 'succeeded' | 'failed' | 'skipped'
+          started_at: string | null
+          finished_at: string | null
+          reviews_fetched: number | null
+          reviews_inserted: number | null
+          reviews_skipped: number | null
+          reviews_failed: number | null
+          error: Json | null
+          created_at: string | null
+          mode: 'incremental' | 'backfill'
+          reviews_updated: number | null
+          reviews_removed: number | null
         }
         Insert: {
           id?: string
-          review_id: string
-          overall_sentiment: 'positive' | 'negative' | 'neutral'
-          sentiment_score: number
-          positive_aspects?: string[] | null
-          negative_aspects?: string[] | null
-          key_phrases?: string[] | null
-          model_version?: string | null
-          confidence_score?: number | null
-          processed_at?: string
-          processing_time_ms?: number | null
-          created_at?: string
+          business_id?: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          trigger_source?: 'manual' | 'scheduler' | 'webhook' | 'import'
+          status?: 'running' | 'succeeded' | 'failed' | 'skipped'
+          started_at?: string | null
+          finished_at?: string | null
+          reviews_fetched?: number | null
+          reviews_inserted?: number | null
+          reviews_skipped?: number | null
+          reviews_failed?: number | null
+          error?: Json | null
+          created_at?: string | null
+          mode?: 'incremental' | 'backfill'
+          reviews_updated?: number | null
+          reviews_removed?: number | null
         }
         Update: {
           id?: string
-          review_id?: string
-          overall_sentiment?: 'positive' | 'negative' | 'neutral'
-          sentiment_score?: number
-          positive_aspects?: string[] | null
-          negative_aspects?: string[] | null
-          key_phrases?: string[] | null
-          model_version?: string | null
-          confidence_score?: number | null
-          processed_at?: string
-          processing_time_ms?: number | null
-          created_at?: string
+          business_id?: string | null
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          trigger_source?: 'manual' | 'scheduler' | 'webhook' | 'import'
+          status?: 'running' | 'succeeded' | 'failed' | 'skipped'
+          started_at?: string | null
+          finished_at?: string | null
+          reviews_fetched?: number | null
+          reviews_inserted?: number | null
+          reviews_skipped?: number | null
+          reviews_failed?: number | null
+          error?: Json | null
+          created_at?: string | null
+          mode?: 'incremental' | 'backfill'
+          reviews_updated?: number | null
+          reviews_removed?: number | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'ingestion_runs_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
       }
-      email_notifications: {
+      platform_rate_limits: {
+        Row: {
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          capacity: number
+          refill_per_second: number
+          tokens: number
+          refilled_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          capacity: number
+          refill_per_second: number
+          tokens: number
+          refilled_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          capacity?: number
+          refill_per_second?: number
+          tokens?: number
+          refilled_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      review_imports: {
         Row: {
           id: string
-          user_id: string
-          business_id: string | null
-          subject: string
-          body: string
-          notification_type: 'new_review' | 'low_rating' | 'sentiment_alert' | 'weekly_summary' | 'system'
-          status: 'pending' | 'sent' | 'failed' | 'bounced'
-          sent_at: string | null
-          error_message: string | null
-          created_at: string
+          business_id: string
+          user_id: string | null
+          file_name: string | null
+          format: 'csv' | 'json'
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          column_mapping: Record<string, string>
+          status: 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'rolled_back'
+          rows_total: number | null
+          rows_inserted: number | null
+          rows_duplicate: number | null
+          rows_invalid: number | null
+          rows_failed: number | null
+          rows_rolled_back: number | null
+          errors: Array<{ row: number; errors: string[] }>
+          created_at: string | null
+          completed_at: string | null
+          rolled_back_at: string | null
         }
         Insert: {
           id?: string
-          user_id: string
-          business_id?: string | null
-          subject: string
-          body: string
-          notification_type: 'new_review' | 'low_rating' | 'sentiment_alert' | 'weekly_summary' | 'system'
-          status?: 'pending' | 'sent' | 'failed' | 'bounced'
-          sent_at?: string | null
-          error_message?: string | null
-          created_at?: string
+          business_id: string
+          user_id?: string | null
+          file_name?: string | null
+          format: 'csv' | 'json'
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          column_mapping?: Record<string, string>
+          status?: 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'rolled_back'
+          rows_total?: number | null
+          rows_inserted?: number | null
+          rows_duplicate?: number | null
+          rows_invalid?: number | null
+          rows_failed?: number | null
+          rows_rolled_back?: number | null
+          errors?: Array<{ row: number; errors: string[] }>
+          created_at?: string | null
+          completed_at?: string | null
+          rolled_back_at?: string | null
         }
         Update: {
           id?: string
-          user_id?: string
-          business_id?: string | null
-          subject?: string
-          body?: string
-          notification_type?: 'new_review' | 'low_rating' | 'sentiment_alert' | 'weekly_summary' | 'system'
-          status?: 'pending' | 'sent' | 'failed' | 'bounced'
-          sent_at?: string | null
-          error_message?: string | null
-          created_at?: string
+          business_id?: string
+          user_id?: string | null
+          file_name?: string | null
+          format?: 'csv' | 'json'
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          column_mapping?: Record<string, string>
+          status?: 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'rolled_back'
+          rows_total?: number | null
+          rows_inserted?: number | null
+          rows_duplicate?: number | null
+          rows_invalid?: number | null
+          rows_failed?: number | null
+          rows_rolled_back?: number | null
+          errors?: Array<{ row: number; errors: string[] }>
+          created_at?: string | null
+          completed_at?: string | null
+          rolled_back_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'review_imports_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'review_imports_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
       }
-      user_preferences: {
+      review_jobs: {
         Row: {
           id: string
-          user_id: string
-          email_notifications_enabled: boolean
-          daily_digest_enabled: boolean
-          weekly_summary_enabled: boolean
-          low_rating_alerts: boolean
-          sentiment_alerts: boolean
-          new_review_alerts: boolean
-          rating_alert_threshold: number
-          sentiment_threshold: number
-          timezone: string
-          quiet_hours_start: string
-          quiet_hours_end: string
-          created_at: string
-          updated_at: string
+          review_id: string
+          business_id: string
+          job_type: 'analyze_sentiment'
+          status: 'pending' | 'processing' | 'succeeded' | 'dead'
+          attempts: number
+          max_attempts: number
+          run_after: string | null
+          locked_at: string | null
+          locked_by: string | null
+          last_error: string | null
+          completed_at: string | null
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
-          user_id: string
-          email_notifications_enabled?: boolean
-          daily_digest_enabled?: boolean
-          weekly_summary_enabled?: boolean
-          low_rating_alerts?: boolean
-          new_review_alerts?: boolean
-          sentiment_alerts?: boolean
-          rating_alert_threshold?: number
-          sentiment_threshold?: number
-          timezone?: string
-          quiet_hours_start?: string
-          quiet_hours_end?: string
-          created_at?: string
-          updated_at?: string
+          review_id: string
+          business_id: string
+          job_type?: 'analyze_sentiment'
+          status?: 'pending' | 'processing' | 'succeeded' | 'dead'
+          attempts?: number
+          max_attempts?: number
+          run_after?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          last_error?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
-          user_id?: string
-          email_notifications_enabled?: boolean
-          daily_digest_enabled?: boolean
-          weekly_summary_enabled?: boolean
-          low_rating_alerts?: boolean
-          sentiment_alerts?: boolean
-          new_review_alerts?: boolean
-          rating_alert_threshold?: number
-          sentiment_threshold?: number
-          timezone?: string
-          quiet_hours_start?: string
-          quiet_hours_end?: string
-          created_at?: string
-          updated_at?: string
+          review_id?: string
+          business_id?: string
+          job_type?: 'analyze_sentiment'
+          status?: 'pending' | 'processing' | 'succeeded' | 'dead'
+          attempts?: number
+          max_attempts?: number
+          run_after?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          last_error?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'review_jobs_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'review_jobs_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
       }
-      review_tags: {
+      review_revisions: {
         Row: {
           id: string
           review_id: string
+          rating: number
+          review_text: string | null
+          content_hash: string
+          replaced_at: string | null
+        }
+        Insert: {
+          id?: string
+          review_id: string
+          rating: number
+          review_text?: string | null
+          content_hash: string
+          replaced_at?: string | null
+        }
+        Update: {
+          id?: string
+          review_id?: string
+          rating?: number
+          review_text?: string | null
+          content_hash?: string
+          replaced_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'review_revisions_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      review_tags: {
+        Row: {
+          id: string
+          review_id: string | null
           tag_name: string
-          tag_category: string
+          tag_category: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other' | null
           confidence_score: number | null
-          created_at: string
+          created_at: string | null
         }
         Insert: {
           id?: string
-          review_id: string
+          review_id?: string | null
           tag_name: string
-          tag_category?: string
+          tag_category?: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other' | null
           confidence_score?: number | null
-          created_at?: string
+          created_at?: string | null
         }
         Update: {
           id?: string
-          review_id?: string
+          review_id?: string | null
           tag_name?: string
-          tag_category?: string
+          tag_category?: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other' | null
           confidence_score?: number | null
-          created_at?: string
+          created_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'review_tags_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          }
+        ]
       }
-      api_keys: {
+      reviews: {
         Row: {
           id: string
-          user_id: string
+          business_id: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          platform_review_id: string
+          reviewer_name: string | null
+          reviewer_avatar: string | null
+          rating: number
+          review_text: string | null
+          review_date: string
+          review_url: string | null
+          is_processed: boolean | null
+          processing_status: 'pending' | 'processing' | 'completed' | 'failed' | null
+          created_at: string | null
+          updated_at: string | null
+          content_hash: string | null
+          edited_at: string | null
+          last_seen_at: string | null
+          is_removed: boolean
+          removed_at: string | null
+          import_id: string | null
+          language: 'en' | 'es' | 'fr' | 'de' | null
+        }
+        Insert: {
+          id?: string
+          business_id?: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          platform_review_id: string
+          reviewer_name?: string | null
+          reviewer_avatar?: string | null
+          rating: number
+          review_text?: string | null
+          review_date: string
+          review_url?: string | null
+          is_processed?: boolean | null
+          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | null
+          created_at?: string | null
+          updated_at?: string | null
+          content_hash?: string | null
+          edited_at?: string | null
+          last_seen_at?: string | null
+          is_removed?: boolean
+          removed_at?: string | null
+          import_id?: string | null
+          language?: 'en' | 'es' | 'fr' | 'de' | null
+        }
+        Update: {
+          id?: string
+          business_id?: string | null
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          platform_review_id?: string
+          reviewer_name?: string | null
+          reviewer_avatar?: string | null
+          rating?: number
+          review_text?: string | null
+          review_date?: string
+          review_url?: string | null
+          is_processed?: boolean | null
+          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | null
+          created_at?: string | null
+          updated_at?: string | null
+          content_hash?: string | null
+          edited_at?: string | null
+          last_seen_at?: string | null
+          is_removed?: boolean
+          removed_at?: string | null
+          import_id?: string | null
+          language?: 'en' | 'es' | 'fr' | 'de' | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'reviews_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reviews_import_id_fkey'
+            columns: ['import_id']
+            isOneToOne: false
+            referencedRelation: 'review_imports'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      scheduler_runs: {
+        Row: {
+          id: string
+          trigger_source: 'cron' | 'manual'
+          started_at: string | null
+          finished_at: string | null
+          businesses_due: number | null
+          fetches_started: number | null
+          fetches_succeeded: number | null
+          fetches_failed: number | null
+          error_message: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          trigger_source?: 'cron' | 'manual'
+          started_at?: string | null
+          finished_at?: string | null
+          businesses_due?: number | null
+          fetches_started?: number | null
+          fetches_succeeded?: number | null
+          fetches_failed?: number | null
+          error_message?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          trigger_source?: 'cron' | 'manual'
+          started_at?: string | null
+          finished_at?: string | null
+          businesses_due?: number | null
+          fetches_started?: number | null
+          fetches_succeeded?: number | null
+          fetches_failed?: number | null
+          error_message?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      sentiment_analysis: {
+        Row: {
+          id: string
+          review_id: string | null
+          overall_sentiment: 'positive' | 'negative' | 'neutral'
+          sentiment_score: number
+          confidence_score: number
+          key_topics: string[] | null
+          key_phrases: string[] | null
+          analysis_metadata: Json | null
+          created_at: string | null
+          positive_aspects: string[] | null
+          negative_aspects: string[] | null
+        }
+        Insert: {
+          id?: string
+          review_id?: string | null
+          overall_sentiment: 'positive' | 'negative' | 'neutral'
+          sentiment_score: number
+          confidence_score: number
+          key_topics?: string[] | null
+          key_phrases?: string[] | null
+          analysis_metadata?: Json | null
+          created_at?: string | null
+          positive_aspects?: string[] | null
+          negative_aspects?: string[] | null
+        }
+        Update: {
+          id?: string
+          review_id?: string | null
+          overall_sentiment?: 'positive' | 'negative' | 'neutral'
+          sentiment_score?: number
+          confidence_score?: number
+          key_topics?: string[] | null
+          key_phrases?: string[] | null
+          analysis_metadata?: Json | null
+          created_at?: string | null
+          positive_aspects?: string[] | null
+          negative_aspects?: string[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'sentiment_analysis_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      topic_definitions: {
+        Row: {
+          id: string
+          business_id: string | null
+          industry: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
           name: string
-          key_hash: string
-          permissions: string[]
-          is_active: boolean
-          last_used_at: string | null
-          expires_at: string | null
-          created_at: string
+          keywords: string[]
+          synonyms: string[]
+          tag_category: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other'
+          positive_tag: string | null
+          negative_tag: string | null
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
-          user_id: string
+          business_id?: string | null
+          industry?: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
           name: string
-          key_hash: string
-          permissions?: string[]
-          is_active?: boolean
-          last_used_at?: string | null
-          expires_at?: string | null
-          created_at?: string
+          keywords?: string[]
+          synonyms?: string[]
+          tag_category?: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other'
+          positive_tag?: string | null
+          negative_tag?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
-          user_id?: string
+          business_id?: string | null
+          industry?: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
           name?: string
-          key_hash?: string
-          permissions?: string[]
-          is_active?: boolean
-          last_used_at?: string | null
-          expires_at?: string | null
-          created_at?: string
+          keywords?: string[]
+          synonyms?: string[]
+          tag_category?: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other'
+          positive_tag?: string | null
+          negative_tag?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'topic_definitions_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      user_preferences: {
+        Row: {
+          id: string
+          user_id: string | null
+          email_notifications_enabled: boolean | null
+          notification_frequency: 'immediate' | 'hourly' | 'daily' | 'weekly' | null
+          sentiment_threshold: number | null
+          timezone: string | null
+          language: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          email_notifications_enabled?: boolean | null
+          notification_frequency?: 'immediate' | 'hourly' | 'daily' | 'weekly' | null
+          sentiment_threshold?: number | null
+          timezone?: string | null
+          language?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          email_notifications_enabled?: boolean | null
+          notification_frequency?: 'immediate' | 'hourly' | 'daily' | 'weekly' | null
+          sentiment_threshold?: number | null
+          timezone?: string | null
+          language?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'user_preferences_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: true
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      users: {
+        Row: {
+          id: string
+          auth_user_id: string | null
+          full_name: string
+          email: string
+          avatar_url: string | null
+          role: 'admin' | 'business_owner'
+          is_active: boolean | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          auth_user_id?: string | null
+          full_name: string
+          email: string
+          avatar_url?: string | null
+          role?: 'admin' | 'business_owner'
+          is_active?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          auth_user_id?: string | null
+          full_name?: string
+          email?: string
+          avatar_url?: string | null
+          role?: 'admin' | 'business_owner'
+          is_active?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
       }
     }
     Views: {
+      business_group_summary: {
+        Row: {
+          id: string | null
+          name: string | null
+          user_id: string | null
+          location_count: number | null
+          active_location_count: number | null
+          total_reviews: number | null
+          average_rating: number | null
+          low_rating_count: number | null
+          negative_sentiment_count: number | null
+          latest_review_date: string | null
+        }
+        Relationships: []
+      }
       business_summary: {
         Row: {
           id: string | null
           name: string | null
           user_id: string | null
           is_active: boolean | null
+          group_id: string | null
+          group_name: string | null
           total_reviews: number | null
           average_rating: number | null
           low_rating_count: number | null
           negative_sentiment_count: number | null
           latest_review_date: string | null
+          address: string | null
+          last_review_fetch: string | null
+          platforms: Array<'google' | 'yelp' | 'facebook' | 'tripadvisor'> | null
         }
+        Relationships: []
       }
       recent_reviews_with_sentiment: {
         Row: {
@@ -386,21 +949,183 @@ export interface Database {
           review_text: string | null
           rating: number | null
           review_date: string | null
-          platform: string | null
-          overall_sentiment: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other' | null
+          overall_sentiment: 'positive' | 'negative' | 'neutral' | null
           sentiment_score: number | null
           confidence_score: number | null
         }
+        Relationships: []
       }
     }
     Functions: {
-      [_ in never]: never
+      analytics_buckets: {
+        Args: {
+          p_bucket: string
+          p_date_from: string
+          p_date_to: string
+        }
+        Returns: {
+          bucket: string
+        }[]
+      }
+      analytics_reviews: {
+        Args: {
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_language?: string
+        }
+        Returns: {
+          review_id: string
+          platform: string
+          rating: number
+          review_date: string
+          overall_sentiment: string
+          key_topics: string[]
+          positive_aspects: string[]
+          negative_aspects: string[]
+        }[]
+      }
+      businesses_due_for_fetch: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database['public']['Tables']['businesses']['Row'][]
+      }
+      claim_review_jobs: {
+        Args: {
+          p_worker: string
+          p_limit?: number
+          p_lock_timeout?: string
+        }
+        Returns: Database['public']['Tables']['review_jobs']['Row'][]
+      }
+      dispatch_review_fetch: {
+        Args: {
+          p_business_id: string
+          p_platform: string
+          p_mode?: string
+        }
+        Returns: number
+      }
+      enqueue_review_jobs: {
+        Args: {
+          p_review_ids: string[]
+          p_job_type?: string
+        }
+        Returns: number
+      }
+      get_dashboard_metrics: {
+        Args: {
+          p_recent_days?: number
+        }
+        Returns: {
+          total_businesses: number
+          total_reviews: number
+          average_rating: number
+          recent_reviews_count: number
+          positive_count: number
+          neutral_count: number
+          negative_count: number
+          platform_counts: { [platform: string]: number }
+        }[]
+      }
+      invoke_review_job_worker: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      invoke_review_scheduler: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      retry_review_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: undefined
+      }
+      review_platform_volume: {
+        Args: {
+          p_bucket: string
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_language?: string
+        }
+        Returns: {
+          bucket: string
+          platform: string
+          review_count: number
+        }[]
+      }
+      review_rating_trend: {
+        Args: {
+          p_bucket: string
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_language?: string
+        }
+        Returns: {
+          bucket: string
+          review_count: number
+          average_rating: number
+        }[]
+      }
+      review_sentiment_trend: {
+        Args: {
+          p_bucket: string
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_language?: string
+        }
+        Returns: {
+          bucket: string
+          positive_count: number
+          neutral_count: number
+          negative_count: number
+        }[]
+      }
+      review_top_topics: {
+        Args: {
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_limit?: number
+          p_language?: string
+        }
+        Returns: {
+          sentiment: string
+          topic: string
+          mention_count: number
+        }[]
+      }
+      rollback_review_import: {
+        Args: {
+          p_import_id: string
+        }
+        Returns: number
+      }
+      take_platform_token: {
+        Args: {
+          p_platform: string
+          p_cost?: number
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
     }
   }
 }
+// @generated-end
 
 // =====================================================
 // Type Aliases for Common Patterns
@@ -414,6 +1139,10 @@ export type Business = Database['public']['Tables']['businesses']['Row']
 export type BusinessInsert = Database['public']['Tables']['businesses']['Insert']
 export type BusinessUpdate = Database['public']['Tables']['businesses']['Update']
 
+export type BusinessGroup = Database['public']['Tables']['business_groups']['Row']
+export type BusinessGroupInsert = Database['public']['Tables']['business_groups']['Insert']
+export type BusinessGroupUpdate = Database['public']['Tables']['business_groups']['Update']
+
 export type Review = Database['public']['Tables']['reviews']['Row']
 export type ReviewInsert = Database['public']['Tables']['reviews']['Insert']
 export type ReviewUpdate = Database['public']['Tables']['reviews']['Update']
@@ -438,19 +1167,66 @@ export type ApiKey = Database['public']['Tables']['api_keys']['Row']
 export type ApiKeyInsert = Database['public']['Tables']['api_keys']['Insert']
 export type ApiKeyUpdate = Database['public']['Tables']['api_keys']['Update']
 
+export type SchedulerRun = Database['public']['Tables']['scheduler_runs']['Row']
+export type SchedulerRunInsert = Database['public']['Tables']['scheduler_runs']['Insert']
+export type SchedulerRunUpdate = Database['public']['Tables']['scheduler_runs']['Update']
+
+export type IngestionRun = Database['public']['Tables']['ingestion_runs']['Row']
+export type IngestionRunInsert = Database['public']['Tables']['ingestion_runs']['Insert']
+export type IngestionRunUpdate = Database['public']['Tables']['ingestion_runs']['Update']
+export type IngestionCursor = Database['public']['Tables']['ingestion_cursors']['Row']
+export type IngestionCursorInsert = Database['public']['Tables']['ingestion_cursors']['Insert']
+export type IngestionCursorUpdate = Database['public']['Tables']['ingestion_cursors']['Update']
+export type ReviewRevision = Database['public']['Tables']['review_revisions']['Row']
+export type ReviewRevisionInsert = Database['public']['Tables']['review_revisions']['Insert']
+export type ReviewRevisionUpdate = Database['public']['Tables']['review_revisions']['Update']
+export type ReviewJob = Database['public']['Tables']['review_jobs']['Row']
+export type ReviewJobInsert = Database['public']['Tables']['review_jobs']['Insert']
+export type ReviewJobUpdate = Database['public']['Tables']['review_jobs']['Update']
+export type PlatformRateLimit = Database['public']['Tables']['platform_rate_limits']['Row']
+export type PlatformRateLimitInsert = Database['public']['Tables']['platform_rate_limits']['Insert']
+export type PlatformRateLimitUpdate = Database['public']['Tables']['platform_rate_limits']['Update']
+export type ReviewImport = Database['public']['Tables']['review_imports']['Row']
+export type ReviewImportInsert = Database['public']['Tables']['review_imports']['Insert']
+export type ReviewImportUpdate = Database['public']['Tables']['review_imports']['Update']
+export type TopicDefinition = Database['public']['Tables']['topic_definitions']['Row']
+export type TopicDefinitionInsert = Database['public']['Tables']['topic_definitions']['Insert']
+export type TopicDefinitionUpdate = Database['public']['Tables']['topic_definitions']['Update']
+
 export type BusinessSummary = Database['public']['Views']['business_summary']['Row']
+export type BusinessGroupSummary = Database['public']['Views']['business_group_summary']['Row']
 export type RecentReviewWithSentiment = Database['public']['Views']['recent_reviews_with_sentiment']['Row']
+export type DashboardMetricsRow = Database['public']['Functions']['get_dashboard_metrics']['Returns'][number]
+export type RatingTrendPoint = Database['public']['Functions']['review_rating_trend']['Returns'][number]
+export type PlatformVolumeRow = Database['public']['Functions']['review_platform_volume']['Returns'][number]
+export type SentimentTrendPoint = Database['public']['Functions']['review_sentiment_trend']['Returns'][number]
+export type TopicMention = Database['public']['Functions']['review_top_topics']['Returns'][number]
 
 // =====================================================
 // Utility Types
 // =====================================================
 
 export type Platform = 'google' | 'yelp' | 'facebook' | 'tripadvisor'
-export type UserRole = 'user' | 'admin' | 'manager'
-export type ReviewStatus = 'pending' | 'processed' | 'flagged' | 'error'
+export type UserRole = User['role']
+// reviews.processing_status, advanced by the sentiment analysis queue
+export type ReviewProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed'
 export type Sentiment = 'positive' | 'negative' | 'neutral'
-export type NotificationType = 'new_review' | 'low_rating' | 'sentiment_alert' | 'weekly_summary' | 'system'
-export type NotificationStatus = 'pending' | 'sent' | 'failed' | 'bounced'
+export type NotificationType = EmailNotification['notification_type']
+export type MonitoringFrequency = 'hourly' | 'daily' | 'weekly'
+export type SentimentProviderName = NonNullable<Business['sentiment_provider']>
+// Picks a business's topic preset; see topic_definitions
+export type Industry = NonNullable<Business['industry']>
+export type ReviewTagCategory = TopicDefinition['tag_category']
+// Detected when the review is analyzed; null before that or when the text gives no clue
+export type ReviewLanguage = NonNullable<Review['language']>
+export type IngestionMode = 'incremental' | 'backfill'
+export type BackfillStatus = 'not_started' | 'running' | 'completed' | 'failed'
+export type ReviewJobStatus = 'pending' | 'processing' | 'succeeded' | 'dead'
+export type ReviewImportStatus = 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'rolled_back'
+// Imported reviews may come from sources without an adapter
+export type ReviewPlatform = Platform | 'other'
+export type IngestionTriggerSource = 'manual' | 'scheduler' | 'webhook' | 'import'
+export type IngestionRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped'
 
 // =====================================================
 // Extended Types for Business Logic
@@ -503,27 +1279,53 @@ export interface PaginatedResponse<T> {
 
 export interface ReviewFilters {
   business_id?: string
-  platform?: Platform
+  // Every location of a brand; ignored when business_id is set
+  group_id?: string
+  platform?: ReviewPlatform
   rating?: number
-  status?: ReviewStatus
+  status?: ReviewProcessingStatus
   date_from?: string
   date_to?: string
   sentiment?: Sentiment
+  language?: ReviewLanguage
   search?: string
 }
 
+// Buckets for the analytics trend functions (date_trunc units)
+export type AnalyticsBucket = 'day' | 'week' | 'month'
+
+export interface AnalyticsFilters {
+  // Inclusive YYYY-MM-DD dates, in UTC
+  date_from: string
+  date_to: string
+  bucket: AnalyticsBucket
+  business_id?: string
+  // Every location of a brand; ignored when business_id is set
+  group_id?: string
+  language?: ReviewLanguage
+}
+
 export interface BusinessFilters {
   user_id?: string
+  // A brand's locations, or null for businesses outside any brand
+  group_id?: string | null
   is_active?: boolean
   industry?: string
   search?: string
 }
 
+export type BusinessSortColumn = 'name' | 'average_rating' | 'total_reviews' | 'latest_review_date'
+
+export interface BusinessSort {
+  column: BusinessSortColumn
+  ascending: boolean
+}
+
 export interface NotificationFilters {
   user_id?: string
   business_id?: string
   type?: NotificationType
-  status?: NotificationStatus
+  is_sent?: boolean
   date_from?: string
   date_to?: string
 }
@@ -543,7 +1345,7 @@ export interface DashboardMetrics {
     negative: number
     neutral: number
   }
-  platformDistribution: Record<Platform, number>
+  platformDistribution: Record<ReviewPlatform, number>
 }
 
 export interface BusinessDashboardData {
@@ -576,6 +1378,7 @@ export interface PlatformWebhookPayload {
     date: string
     user_name?: string
     user_avatar?: string
+    url?: string
   }
 }
 
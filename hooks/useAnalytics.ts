@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { fetchPlatformVolume, fetchRatingTrend, fetchSentimentTrend, fetchTopTopics } from '@/lib/analytics'
+import { AnalyticsFilters } from '@/database-types'
+
+export const useRatingTrend = (filters: AnalyticsFilters) => {
+  return useQuery({
+    queryKey: ['analytics', 'rating-trend', filters],
+    enabled: !!supabase,
+    queryFn: () => fetchRatingTrend(filters),
+  })
+}
+
+export const usePlatformVolume = (filters: AnalyticsFilters) => {
+  return useQuery({
+    queryKey: ['analytics', 'platform-volume', filters],
+    enabled: !!supabase,
+    queryFn: () => fetchPlatformVolume(filters),
+  })
+}
+
+export const useSentimentTrend = (filters: AnalyticsFilters) => {
+  return useQuery({
+    queryKey: ['analytics', 'sentiment-trend', filters],
+    enabled: !!supabase,
+    queryFn: () => fetchSentimentTrend(filters),
+  })
+}
+
+// Topics are not bucketed, so the bucket is left out of the key
+export const useTopTopics = (filters: AnalyticsFilters, limit = 10) => {
+  const { date_from, date_to, business_id, group_id, language } = filters
+
+  return useQuery({
+    queryKey: ['analytics', 'top-topics', { date_from, date_to, business_id, group_id, language }, limit],
+    enabled: !!supabase,
+    queryFn: () => fetchTopTopics(filters, limit),
+  })
+}
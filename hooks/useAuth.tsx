@@ -126,7 +126,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             id: data.user.id,
             email: data.user.email!,
             full_name: fullName,
-            role: 'user'
+            role: 'business_owner'
           })
 
         if (profileError) {
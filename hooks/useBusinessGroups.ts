@@ -0,0 +1,81 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { requireSupabase, supabase } from '@/lib/supabase'
+import { listAllBusinesses, unwrap, updateBusiness } from '@/lib/data'
+import { BusinessFilters, BusinessGroup, BusinessGroupSummary, BusinessSummary } from '@/database-types'
+
+export const useBusinessGroups = () => {
+  return useQuery({
+    queryKey: ['business-groups'],
+    enabled: !!supabase,
+    queryFn: async (): Promise<BusinessGroup[]> => {
+      const { data, error } = await requireSupabase()
+        .from('business_groups')
+        .select('*')
+        .order('name')
+
+      if (error) throw error
+      return data ?? []
+    },
+  })
+}
+
+// Brand-wide rollups, one row per group
+export const useBusinessGroupSummaries = () => {
+  return useQuery({
+    queryKey: ['business-groups', 'summary'],
+    enabled: !!supabase,
+    queryFn: async (): Promise<BusinessGroupSummary[]> => {
+      const { data, error } = await requireSupabase()
+        .from('business_group_summary')
+        .select('*')
+        .order('name')
+
+      if (error) throw error
+      return data ?? []
+    },
+  })
+}
+
+export const useBusinessSummaries = (filters: BusinessFilters = {}, enabled = true) => {
+  return useQuery({
+    queryKey: ['business-summary', filters],
+    enabled: enabled && !!supabase,
+    queryFn: async (): Promise<BusinessSummary[]> => (await unwrap(listAllBusinesses(filters))) ?? [],
+  })
+}
+
+export const useCreateBusinessGroup = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (group: { user_id: string; name: string }): Promise<BusinessGroup> => {
+      const { data, error } = await requireSupabase()
+        .from('business_groups')
+        .insert(group)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['business-groups'] })
+    },
+  })
+}
+
+// Moves a location into a brand, or out of every brand with null
+export const useAssignBusinessGroup = (businessId: string | undefined) => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (groupId: string | null) => {
+      await unwrap(updateBusiness(businessId!, { group_id: groupId }))
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['business', businessId] })
+      queryClient.invalidateQueries({ queryKey: ['business-groups'] })
+      queryClient.invalidateQueries({ queryKey: ['business-summary'] })
+    },
+  })
+}
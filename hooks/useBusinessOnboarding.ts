@@ -0,0 +1,135 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { requireSupabase } from '@/lib/supabase'
+import { createBusiness, unwrap } from '@/lib/data'
+import { Business, BusinessInsert, Platform } from '@/database-types'
+
+// Column on `businesses` holding each platform's ID, as declared by the adapters
+export const platformIdColumns: Record<Platform, 'google_place_id' | 'yelp_business_id' | 'facebook_page_id' | 'tripadvisor_location_id'> = {
+  google: 'google_place_id',
+  yelp: 'yelp_business_id',
+  facebook: 'facebook_page_id',
+  tripadvisor: 'tripadvisor_location_id',
+}
+
+export type PlatformIds = Partial<Record<Platform, string>>
+
+export interface PlatformBusinessCandidate {
+  platform: Platform
+  platform_business_id: string
+  name: string
+  address: string | null
+  url: string | null
+  rating: number | null
+  review_count: number | null
+}
+
+export interface PlatformSearchResult {
+  platform: Platform
+  displayName: string
+  candidates: PlatformBusinessCandidate[]
+  error: string | null
+}
+
+export interface PlatformIdValidation {
+  platform: Platform
+  platform_business_id: string
+  valid: boolean
+  candidate: PlatformBusinessCandidate | null
+  error: string | null
+}
+
+export interface NewBusiness {
+  user_id: string
+  name: string
+  address?: string
+  phone?: string
+  website?: string
+  group_id?: string | null
+  platformIds: PlatformIds
+}
+
+export interface BackfillStart {
+  platform: Platform
+  error: string | null
+}
+
+export interface CreatedBusiness {
+  business: Business
+  backfills: BackfillStart[]
+}
+
+// The search-platform-businesses function answers bad input with a JSON `error`; surface it
+const invokePlatformSearch = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await requireSupabase().functions.invoke('search-platform-businesses', { body })
+
+  if (error) {
+    const response = await error.context?.json?.().catch(() => null)
+    throw new Error(response?.error ?? error.message)
+  }
+  return data
+}
+
+export const usePlatformBusinessSearch = () => {
+  return useMutation({
+    mutationFn: async (query: { name: string; address?: string }): Promise<PlatformSearchResult[]> => {
+      const { results } = await invokePlatformSearch<{ results: PlatformSearchResult[] }>({
+        action: 'search',
+        ...query,
+      })
+      return results
+    },
+  })
+}
+
+// Looks every chosen ID up on its platform so typos never reach the businesses table
+export const useValidatePlatformIds = () => {
+  return useMutation({
+    mutationFn: async (ids: PlatformIds): Promise<PlatformIdValidation[]> => {
+      const { validations } = await invokePlatformSearch<{ validations: PlatformIdValidation[] }>({
+        action: 'validate',
+        ids,
+      })
+      return validations
+    },
+  })
+}
+
+// Creates the business, then starts a full-history backfill per linked platform.
+// A backfill that fails to start is reported, not fatal: the scheduler's next
+// incremental fetch still picks the platform up.
+export const useCreateBusiness = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ platformIds, ...details }: NewBusiness): Promise<CreatedBusiness> => {
+      const insert: BusinessInsert = {
+        user_id: details.user_id,
+        name: details.name,
+        address: details.address || null,
+        phone: details.phone || null,
+        website: details.website || null,
+        group_id: details.group_id ?? null,
+      }
+      const platforms = (Object.keys(platformIds) as Platform[]).filter(platform => platformIds[platform])
+      for (const platform of platforms) {
+        insert[platformIdColumns[platform]] = platformIds[platform]
+      }
+
+      const business = await unwrap(createBusiness(insert))
+      if (!business) throw new Error('Business was not created')
+
+      const backfills = await Promise.all(platforms.map(async (platform): Promise<BackfillStart> => {
+        const { error: invokeError } = await requireSupabase().functions.invoke('fetch-reviews', {
+          body: { business_id: business.id, platform, mode: 'backfill', trigger_source: 'manual' },
+        })
+        return { platform, error: invokeError ? invokeError.message : null }
+      }))
+
+      return { business, backfills }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['business-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['business-groups'] })
+    },
+  })
+}
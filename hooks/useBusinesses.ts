@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { deleteBusiness, getBusiness, listAllBusinesses, setBusinessMonitoring, unwrap, updateBusiness } from '@/lib/data'
+import { Business, BusinessFilters, BusinessSort, BusinessSummary } from '@/database-types'
+
+// Fields the business page lets the owner edit
+export type BusinessEdit = Pick<
+  Business,
+  | 'name'
+  | 'address'
+  | 'phone'
+  | 'website'
+  | 'google_place_id'
+  | 'yelp_business_id'
+  | 'facebook_page_id'
+  | 'tripadvisor_location_id'
+  | 'monitoring_frequency'
+  | 'sentiment_provider'
+  | 'industry'
+  | 'review_language'
+>
+
+// RLS hides other users' businesses, so a write that matches no row was not allowed
+const NO_ACCESS = 'Business not found or you do not have access to it'
+
+export const useBusinessList = (filters: BusinessFilters, sort: BusinessSort) => {
+  return useQuery({
+    queryKey: ['business-summary', filters, sort],
+    enabled: !!supabase,
+    queryFn: async (): Promise<BusinessSummary[]> => (await unwrap(listAllBusinesses(filters, sort))) ?? [],
+  })
+}
+
+export const useBusiness = (businessId: string | undefined) => {
+  return useQuery({
+    queryKey: ['business', businessId],
+    enabled: !!businessId && !!supabase,
+    queryFn: (): Promise<Business | null> => unwrap(getBusiness(businessId!)),
+  })
+}
+
+// Turns monitoring on or off for several businesses at once; resolves to how many changed
+export const useSetBusinessMonitoring = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ ids, enabled }: { ids: string[]; enabled: boolean }): Promise<number> => {
+      const updated = await unwrap(setBusinessMonitoring(ids, enabled))
+      return updated?.length ?? 0
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['business'] })
+      queryClient.invalidateQueries({ queryKey: ['business-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['business-groups'] })
+    },
+  })
+}
+
+export const useUpdateBusiness = (businessId: string | undefined) => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (updates: Partial<BusinessEdit>): Promise<Business> => {
+      const business = await unwrap(updateBusiness(businessId!, updates))
+      if (!business) throw new Error(NO_ACCESS)
+      return business
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['business', businessId] })
+      queryClient.invalidateQueries({ queryKey: ['business-summary'] })
+    },
+  })
+}
+
+// Deletes the business; its reviews, runs and jobs go with it through ON DELETE CASCADE
+export const useDeleteBusiness = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (businessId: string) => {
+      const deleted = await unwrap(deleteBusiness(businessId))
+      if (!deleted?.length) throw new Error(NO_ACCESS)
+    },
+    onSuccess: (_, businessId) => {
+      queryClient.removeQueries({ queryKey: ['business', businessId] })
+      queryClient.invalidateQueries({ queryKey: ['business-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['business-groups'] })
+    },
+  })
+}
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { fetchDashboardMetrics, fetchRecentActivity } from '@/lib/dashboard'
+
+export const useDashboardMetrics = (enabled = true) => {
+  return useQuery({
+    queryKey: ['dashboard', 'metrics'],
+    enabled: enabled && !!supabase,
+    queryFn: () => fetchDashboardMetrics(),
+  })
+}
+
+export const useRecentActivity = (limit = 10) => {
+  return useQuery({
+    queryKey: ['dashboard', 'activity', limit],
+    enabled: !!supabase,
+    queryFn: () => fetchRecentActivity(limit),
+  })
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query'
+import { requireSupabase, supabase } from '@/lib/supabase'
+import { IngestionRun } from '@/database-types'
+
+export const useIngestionRuns = (businessId: string | undefined, limit = 20) => {
+  return useQuery({
+    queryKey: ['ingestion-runs', businessId, limit],
+    enabled: !!businessId && !!supabase,
+    queryFn: async (): Promise<IngestionRun[]> => {
+      const { data, error } = await requireSupabase()
+        .from('ingestion_runs')
+        .select('*')
+        .eq('business_id', businessId!)
+        .order('started_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return data ?? []
+    },
+  })
+}
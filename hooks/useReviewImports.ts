@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { requireSupabase, supabase } from '@/lib/supabase'
+import { ReviewImport, ReviewPlatform } from '@/database-types'
+
+export type ImportFormat = 'csv' | 'json'
+
+export type ImportField =
+  | 'platform_review_id'
+  | 'reviewer_name'
+  | 'reviewer_avatar'
+  | 'rating'
+  | 'review_text'
+  | 'review_date'
+  | 'review_url'
+
+// Review field -> column name in the uploaded file
+export type ColumnMapping = Partial<Record<ImportField, string>>
+
+export interface ImportRequest {
+  businessId: string
+  format: ImportFormat
+  content: string
+  fileName?: string
+  mapping?: ColumnMapping
+  platform: ReviewPlatform
+}
+
+export interface ImportRowResult {
+  row: number
+  review: {
+    platform_review_id: string
+    reviewer_name: string
+    rating: number
+    review_text: string
+    review_date: string
+  } | null
+  errors: string[]
+}
+
+export interface ImportPreview {
+  columns: string[]
+  mapping: ColumnMapping
+  missing_fields: ImportField[]
+  rows_total: number
+  rows_valid: number
+  rows_invalid: number
+  preview: ImportRowResult[]
+  errors: Array<{ row: number; errors: string[] }>
+}
+
+export interface ImportResult {
+  import_id: string
+  status: ReviewImport['status']
+  rows_total: number
+  rows_invalid: number
+  rows_inserted: number
+  rows_duplicate: number
+  rows_failed: number
+  analysis_queued: number
+}
+
+// The import-reviews function answers bad input with a JSON `error`; surface it
+const invokeImportReviews = async <T>(action: 'preview' | 'commit', request: ImportRequest): Promise<T> => {
+  const { data, error } = await requireSupabase().functions.invoke('import-reviews', {
+    body: {
+      action,
+      business_id: request.businessId,
+      format: request.format,
+      content: request.content,
+      file_name: request.fileName,
+      mapping: request.mapping,
+      platform: request.platform,
+    },
+  })
+
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null)
+    throw new Error(body?.error ?? error.message)
+  }
+  return data
+}
+
+export const useReviewImports = (businessId: string | undefined, limit = 20) => {
+  return useQuery({
+    queryKey: ['review-imports', businessId, limit],
+    enabled: !!businessId && !!supabase,
+    queryFn: async (): Promise<ReviewImport[]> => {
+      const { data, error } = await requireSupabase()
+        .from('review_imports')
+        .select('*')
+        .eq('business_id', businessId!)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return data ?? []
+    },
+  })
+}
+
+// Parses and validates the file server-side without writing anything
+export const usePreviewReviewImport = () => {
+  return useMutation({
+    mutationFn: (request: ImportRequest) => invokeImportReviews<ImportPreview>('preview', request),
+  })
+}
+
+export const useCommitReviewImport = (businessId: string | undefined) => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (request: ImportRequest) => invokeImportReviews<ImportResult>('commit', request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['review-imports', businessId] })
+      queryClient.invalidateQueries({ queryKey: ['review-jobs', businessId] })
+    },
+  })
+}
+
+// Deletes every review the import created in one transaction
+export const useRollbackReviewImport = (businessId: string | undefined) => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (importId: string): Promise<number> => {
+      const { data, error } = await requireSupabase().rpc('rollback_review_import', { p_import_id: importId })
+
+      if (error) throw error
+      return data ?? 0
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['review-imports', businessId] })
+      queryClient.invalidateQueries({ queryKey: ['review-jobs', businessId] })
+    },
+  })
+}
@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { requireSupabase, supabase } from '@/lib/supabase'
+import { ReviewJob, ReviewJobStatus, ReviewPlatform } from '@/database-types'
+
+export type DeadReviewJob = ReviewJob & {
+  reviews: { reviewer_name: string | null; platform: ReviewPlatform; review_date: string } | null
+}
+
+export type ReviewJobCounts = Record<Exclude<ReviewJobStatus, 'succeeded'>, number>
+
+export const useReviewJobCounts = (businessId: string | undefined) => {
+  return useQuery({
+    queryKey: ['review-jobs', businessId, 'counts'],
+    enabled: !!businessId && !!supabase,
+    queryFn: async (): Promise<ReviewJobCounts> => {
+      const statuses = ['pending', 'processing', 'dead'] as const
+      const results = await Promise.all(statuses.map(status =>
+        requireSupabase()
+          .from('review_jobs')
+          .select('id', { count: 'exact', head: true })
+          .eq('business_id', businessId!)
+          .eq('status', status)
+      ))
+
+      const failed = results.find(result => result.error)
+      if (failed) throw failed.error
+
+      return {
+        pending: results[0].count ?? 0,
+        processing: results[1].count ?? 0,
+        dead: results[2].count ?? 0,
+      }
+    },
+  })
+}
+
+export const useDeadReviewJobs = (businessId: string | undefined, limit = 20) => {
+  return useQuery({
+    queryKey: ['review-jobs', businessId, 'dead', limit],
+    enabled: !!businessId && !!supabase,
+    queryFn: async (): Promise<DeadReviewJob[]> => {
+      const { data, error } = await requireSupabase()
+        .from('review_jobs')
+        .select('*, reviews(reviewer_name, platform, review_date)')
+        .eq('business_id', businessId!)
+        .eq('status', 'dead')
+        .order('updated_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return data ?? []
+    },
+  })
+}
+
+// Sends a dead job back to the queue with a fresh set of attempts
+export const useRetryReviewJob = (businessId: string | undefined) => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await requireSupabase().rpc('retry_review_job', { p_job_id: jobId })
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['review-jobs', businessId] })
+    },
+  })
+}
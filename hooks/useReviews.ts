@@ -0,0 +1,76 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { getReview, listReviews, unwrap } from '@/lib/data'
+import { ReviewFilters, ReviewLanguage, ReviewPlatform, ReviewProcessingStatus, Sentiment } from '@/database-types'
+
+export const REVIEW_PAGE_SIZE = 50
+
+interface ReviewSentiment {
+  overall_sentiment: Sentiment
+  sentiment_score: number
+  confidence_score: number | null
+  key_topics: string[] | null
+  positive_aspects: string[] | null
+  negative_aspects: string[] | null
+  key_phrases: string[] | null
+  created_at: string
+}
+
+export interface InboxReview {
+  id: string
+  business_id: string
+  platform: ReviewPlatform
+  reviewer_name: string | null
+  rating: number
+  review_text: string | null
+  review_date: string
+  processing_status: ReviewProcessingStatus
+  business: { name: string } | null
+  // Every analysis run for the review; latestSentiment picks the current one
+  sentiment: ReviewSentiment[]
+}
+
+export interface ReviewDetail extends InboxReview {
+  language: ReviewLanguage | null
+  reviewer_avatar: string | null
+  review_url: string | null
+  edited_at: string | null
+  tags: Array<{ tag_name: string; tag_category: string | null; confidence_score: number | null }>
+}
+
+// Aliased embeds, so they never clash with the !inner embeds reviewFilterSelect adds for filtering
+const INBOX_COLUMNS = [
+  'id, business_id, platform, reviewer_name, rating, review_text, review_date, processing_status',
+  'business:businesses(name)',
+  'sentiment:sentiment_analysis(overall_sentiment, sentiment_score, confidence_score, key_topics, positive_aspects, negative_aspects, key_phrases, created_at)',
+].join(', ')
+
+const DETAIL_COLUMNS = [
+  INBOX_COLUMNS,
+  'language, reviewer_avatar, review_url, edited_at',
+  'tags:review_tags(tag_name, tag_category, confidence_score)',
+].join(', ')
+
+export const latestSentiment = (review: InboxReview): ReviewSentiment | null =>
+  [...(review.sentiment ?? [])].sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null
+
+// Newest reviews first, REVIEW_PAGE_SIZE at a time. Reviews taken down on the platform are left out.
+export const useReviewInbox = (filters: ReviewFilters) => {
+  return useInfiniteQuery({
+    queryKey: ['reviews', 'inbox', filters],
+    enabled: !!supabase,
+    initialPageParam: 1,
+    queryFn: ({ pageParam }): Promise<InboxReview[]> =>
+      unwrap(listReviews<InboxReview>(filters, { page: pageParam, limit: REVIEW_PAGE_SIZE }, INBOX_COLUMNS)),
+    getNextPageParam: (lastPage, pages) =>
+      lastPage.length < REVIEW_PAGE_SIZE ? undefined : pages.length + 1,
+  })
+}
+
+export const useReviewDetail = (reviewId: string | undefined) => {
+  return useQuery({
+    queryKey: ['reviews', 'detail', reviewId],
+    enabled: !!reviewId && !!supabase,
+    queryFn: (): Promise<ReviewDetail | null> => unwrap(getReview<ReviewDetail>(reviewId!, DETAIL_COLUMNS)),
+  })
+}
@@ -0,0 +1,133 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { requireSupabase, supabase } from '@/lib/supabase'
+import { Business, Industry, TopicDefinition } from '@/database-types'
+
+// Mirrors DEFAULT_INDUSTRY in supabase/functions/_shared/sentiment/topics.ts
+export const DEFAULT_INDUSTRY: Industry = 'restaurant'
+
+export const industryLabels: Record<Industry, string> = {
+  restaurant: 'Restaurant or cafe',
+  hotel: 'Hotel',
+  dental: 'Dental clinic',
+  auto_repair: 'Auto repair',
+  retail: 'Retail store',
+}
+
+// The fields an owner edits; scope and timestamps are set here
+export type TopicFields = Pick<
+  TopicDefinition,
+  'name' | 'keywords' | 'synonyms' | 'tag_category' | 'positive_tag' | 'negative_tag'
+>
+
+export interface TopicTaxonomy {
+  topics: TopicDefinition[]
+  // True when the business has its own topics; false when it uses its industry preset
+  isCustom: boolean
+  industry: Industry
+}
+
+// The topics analyze-sentiment uses for this business, resolved the same way
+// as loadTopicDefinitions: its own topics if it has any, else its industry's preset
+export const useTopicTaxonomy = (business: Pick<Business, 'id' | 'industry'> | undefined) => {
+  const industry = business?.industry ?? DEFAULT_INDUSTRY
+
+  return useQuery({
+    queryKey: ['topic-definitions', business?.id, industry],
+    enabled: !!business && !!supabase,
+    queryFn: async (): Promise<TopicTaxonomy> => {
+      const { data, error } = await requireSupabase()
+        .from('topic_definitions')
+        .select('*')
+        .or(`business_id.eq.${business!.id},industry.eq.${industry}`)
+        .order('name')
+
+      if (error) throw error
+      const own = (data ?? []).filter(topic => topic.business_id === business!.id)
+      return {
+        topics: own.length > 0 ? own : (data ?? []).filter(topic => topic.industry === industry),
+        isCustom: own.length > 0,
+        industry,
+      }
+    },
+  })
+}
+
+const useInvalidateTopics = (businessId: string) => {
+  const queryClient = useQueryClient()
+  return () => queryClient.invalidateQueries({ queryKey: ['topic-definitions', businessId] })
+}
+
+// Creates a topic when `id` is absent, otherwise updates it
+export const useSaveTopicDefinition = (businessId: string) => {
+  const invalidate = useInvalidateTopics(businessId)
+
+  return useMutation({
+    mutationFn: async ({ id, ...fields }: TopicFields & { id?: string }): Promise<TopicDefinition> => {
+      const topics = requireSupabase().from('topic_definitions')
+      const { data, error } = id
+        ? await topics.update(fields).eq('id', id).select().single()
+        : await topics.insert({ ...fields, business_id: businessId }).select().single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: invalidate,
+  })
+}
+
+export const useDeleteTopicDefinition = (businessId: string) => {
+  const invalidate = useInvalidateTopics(businessId)
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await requireSupabase()
+        .from('topic_definitions')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: invalidate,
+  })
+}
+
+// Copies the industry preset into the business's own topics, to edit from there
+export const useCustomizeTopics = (businessId: string) => {
+  const invalidate = useInvalidateTopics(businessId)
+
+  return useMutation({
+    mutationFn: async (preset: TopicDefinition[]) => {
+      const { error } = await requireSupabase()
+        .from('topic_definitions')
+        .insert(preset.map(({ name, keywords, synonyms, tag_category, positive_tag, negative_tag }) => ({
+          business_id: businessId,
+          name,
+          keywords,
+          synonyms,
+          tag_category,
+          positive_tag,
+          negative_tag,
+        })))
+
+      if (error) throw error
+    },
+    onSuccess: invalidate,
+  })
+}
+
+// Deletes every topic of the business's own, so its industry preset applies again
+export const useResetTopics = (businessId: string) => {
+  const invalidate = useInvalidateTopics(businessId)
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await requireSupabase()
+        .from('topic_definitions')
+        .delete()
+        .eq('business_id', businessId)
+
+      if (error) throw error
+    },
+    onSuccess: invalidate,
+  })
+}
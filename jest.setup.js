@@ -25,8 +25,8 @@ jest.mock('next/router', () => ({
 }))
 
 // Mock Supabase
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
+jest.mock('@/lib/supabase', () => {
+  const supabase = {
     auth: {
       getUser: jest.fn(),
       getSession: jest.fn(),
@@ -40,11 +40,16 @@ jest.mock('@/lib/supabase', () => ({
       eq: jest.fn().mockReturnThis(),
       single: jest.fn(),
     })),
-  },
-  getCurrentUser: jest.fn(),
-  getSession: jest.fn(),
-  signOut: jest.fn(),
-}))
+  }
+
+  return {
+    supabase,
+    requireSupabase: jest.fn(() => supabase),
+    getCurrentUser: jest.fn(),
+    getSession: jest.fn(),
+    signOut: jest.fn(),
+  }
+})
 
 // Global test utilities
 global.ResizeObserver = jest.fn().mockImplementation(() => ({
@@ -0,0 +1,101 @@
+import { requireSupabase } from '@/lib/supabase'
+import {
+  AnalyticsFilters,
+  PlatformVolumeRow,
+  RatingTrendPoint,
+  ReviewPlatform,
+  SentimentTrendPoint,
+  TopicMention,
+} from '@/database-types'
+
+export const DEFAULT_ANALYTICS_DAYS = 90
+
+// One chart row per bucket, with a review count per platform that had reviews in it
+export type PlatformVolumePoint = { bucket: string } & Partial<Record<ReviewPlatform, number>>
+
+export interface TopTopics {
+  positive: TopicMention[]
+  negative: TopicMention[]
+}
+
+export function defaultAnalyticsFilters(today = new Date()): AnalyticsFilters {
+  const from = new Date(today)
+  from.setUTCDate(from.getUTCDate() - (DEFAULT_ANALYTICS_DAYS - 1))
+
+  return {
+    date_from: from.toISOString().slice(0, 10),
+    date_to: today.toISOString().slice(0, 10),
+    bucket: 'week',
+  }
+}
+
+// The scope arguments every analytics function takes. A business wins over a brand.
+function scopeArgs(filters: AnalyticsFilters) {
+  return {
+    p_date_from: filters.date_from,
+    p_date_to: filters.date_to,
+    ...(filters.business_id
+      ? { p_business_id: filters.business_id }
+      : filters.group_id ? { p_group_id: filters.group_id } : {}),
+    ...(filters.language ? { p_language: filters.language } : {}),
+  }
+}
+
+export async function fetchRatingTrend(filters: AnalyticsFilters): Promise<RatingTrendPoint[]> {
+  const { data, error } = await requireSupabase().rpc('review_rating_trend', { ...scopeArgs(filters), p_bucket: filters.bucket })
+
+  if (error) throw error
+  return data ?? []
+}
+
+export async function fetchPlatformVolume(filters: AnalyticsFilters): Promise<PlatformVolumePoint[]> {
+  const { data, error } = await requireSupabase().rpc('review_platform_volume', { ...scopeArgs(filters), p_bucket: filters.bucket })
+
+  if (error) throw error
+  return toPlatformVolumePoints(data ?? [])
+}
+
+export async function fetchSentimentTrend(filters: AnalyticsFilters): Promise<SentimentTrendPoint[]> {
+  const { data, error } = await requireSupabase().rpc('review_sentiment_trend', { ...scopeArgs(filters), p_bucket: filters.bucket })
+
+  if (error) throw error
+  return data ?? []
+}
+
+export async function fetchTopTopics(filters: AnalyticsFilters, limit = 10): Promise<TopTopics> {
+  const { data, error } = await requireSupabase().rpc('review_top_topics', { ...scopeArgs(filters), p_limit: limit })
+
+  if (error) throw error
+  const mentions: TopicMention[] = data ?? []
+  return {
+    positive: mentions.filter(mention => mention.sentiment === 'positive'),
+    negative: mentions.filter(mention => mention.sentiment === 'negative'),
+  }
+}
+
+// review_platform_volume returns rows ordered by bucket; pivot them into one row per bucket
+export function toPlatformVolumePoints(rows: PlatformVolumeRow[]): PlatformVolumePoint[] {
+  const points: PlatformVolumePoint[] = []
+
+  for (const row of rows) {
+    let point = points[points.length - 1]
+    if (point?.bucket !== row.bucket) {
+      point = { bucket: row.bucket }
+      points.push(point)
+    }
+    if (row.platform) {
+      point[row.platform as ReviewPlatform] = Number(row.review_count)
+    }
+  }
+
+  return points
+}
+
+// Axis label for a bucket start date (YYYY-MM-DD, UTC)
+export function formatBucket(bucket: string, unit: AnalyticsFilters['bucket']): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    ...(unit === 'month' ? { year: 'numeric' } : { day: 'numeric' }),
+  }).format(new Date(`${bucket}T00:00:00Z`))
+}
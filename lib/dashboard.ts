@@ -0,0 +1,46 @@
+import { requireSupabase } from '@/lib/supabase'
+import { DashboardMetrics, DashboardMetricsRow, RecentReviewWithSentiment, ReviewPlatform } from '@/database-types'
+
+// What the dashboard counts as a "recent" review
+export const RECENT_REVIEW_DAYS = 7
+
+const platforms: ReviewPlatform[] = ['google', 'yelp', 'facebook', 'tripadvisor', 'other']
+
+// get_dashboard_metrics returns one snake_case row; platforms without reviews are missing from it
+export function toDashboardMetrics(row: DashboardMetricsRow | undefined): DashboardMetrics {
+  const platformCounts = row?.platform_counts ?? {}
+
+  return {
+    totalBusinesses: Number(row?.total_businesses ?? 0),
+    totalReviews: Number(row?.total_reviews ?? 0),
+    averageRating: Number(row?.average_rating ?? 0),
+    negativeReviewsCount: Number(row?.negative_count ?? 0),
+    recentReviewsCount: Number(row?.recent_reviews_count ?? 0),
+    sentimentDistribution: {
+      positive: Number(row?.positive_count ?? 0),
+      negative: Number(row?.negative_count ?? 0),
+      neutral: Number(row?.neutral_count ?? 0),
+    },
+    platformDistribution: Object.fromEntries(
+      platforms.map(platform => [platform, Number(platformCounts[platform] ?? 0)])
+    ) as Record<ReviewPlatform, number>,
+  }
+}
+
+export async function fetchDashboardMetrics(recentDays = RECENT_REVIEW_DAYS): Promise<DashboardMetrics> {
+  const { data, error } = await requireSupabase().rpc('get_dashboard_metrics', { p_recent_days: recentDays })
+
+  if (error) throw error
+  return toDashboardMetrics((data as DashboardMetricsRow[] | null)?.[0])
+}
+
+export async function fetchRecentActivity(limit = 10): Promise<RecentReviewWithSentiment[]> {
+  const { data, error } = await requireSupabase()
+    .from('recent_reviews_with_sentiment')
+    .select('*')
+    .order('review_date', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return data ?? []
+}
@@ -0,0 +1,33 @@
+import { respond } from '@/lib/data/response'
+import { ApiKey, ApiKeyInsert, ApiResponse } from '@/database-types'
+
+// The hash never leaves the database once stored
+const API_KEY_COLUMNS = 'id, user_id, name, permissions, is_active, last_used_at, expires_at, created_at'
+
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>
+
+export function listApiKeys(userId: string): Promise<ApiResponse<ApiKeySummary[]>> {
+  return respond(client =>
+    client
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+  )
+}
+
+// Callers hash the key themselves; only key_hash is stored
+export function createApiKey(key: ApiKeyInsert): Promise<ApiResponse<ApiKeySummary>> {
+  return respond(client => client.from('api_keys').insert(key).select(API_KEY_COLUMNS).single())
+}
+
+// Keeps the row, so last_used_at stays available for auditing
+export function revokeApiKey(id: string): Promise<ApiResponse<ApiKeySummary>> {
+  return respond(client =>
+    client.from('api_keys').update({ is_active: false }).eq('id', id).select(API_KEY_COLUMNS).single()
+  )
+}
+
+export function deleteApiKey(id: string): Promise<ApiResponse<null>> {
+  return respond(client => client.from('api_keys').delete().eq('id', id))
+}
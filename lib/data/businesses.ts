@@ -0,0 +1,62 @@
+import { applyBusinessFilters, applyBusinessSort } from '@/lib/filters'
+import { PageRequest, respond, respondPage } from '@/lib/data/response'
+import {
+  ApiResponse,
+  Business,
+  BusinessFilters,
+  BusinessInsert,
+  BusinessSort,
+  BusinessSummary,
+  BusinessUpdate,
+  PaginatedResponse,
+} from '@/database-types'
+
+const DEFAULT_SORT: BusinessSort = { column: 'name', ascending: true }
+
+export function listBusinesses(
+  filters: BusinessFilters = {},
+  sort: BusinessSort = DEFAULT_SORT,
+  page: PageRequest = {}
+): Promise<PaginatedResponse<BusinessSummary>> {
+  return respondPage(page, (client, from, to) => {
+    const query = applyBusinessFilters(client.from('business_summary').select('*', { count: 'exact' }), filters)
+    return applyBusinessSort(query, sort).range(from, to)
+  })
+}
+
+// Every business matching the filters, for lists that show them all at once
+export function listAllBusinesses(
+  filters: BusinessFilters = {},
+  sort: BusinessSort = DEFAULT_SORT
+): Promise<ApiResponse<BusinessSummary[]>> {
+  return respond(client =>
+    applyBusinessSort(applyBusinessFilters(client.from('business_summary').select('*'), filters), sort)
+  )
+}
+
+// data is null when the business does not exist or belongs to someone else
+export function getBusiness(id: string): Promise<ApiResponse<Business>> {
+  return respond(client => client.from('businesses').select('*').eq('id', id).maybeSingle())
+}
+
+export function createBusiness(business: BusinessInsert): Promise<ApiResponse<Business>> {
+  return respond(client => client.from('businesses').insert(business).select().single())
+}
+
+// data is null when RLS hid the business, so nothing was updated
+export function updateBusiness(id: string, updates: BusinessUpdate): Promise<ApiResponse<Business>> {
+  return respond(client => client.from('businesses').update(updates).eq('id', id).select().maybeSingle())
+}
+
+// data lists the businesses that were updated; RLS leaves out other users'
+export function setBusinessMonitoring(ids: string[], enabled: boolean): Promise<ApiResponse<Array<Pick<Business, 'id'>>>> {
+  return respond(client =>
+    client.from('businesses').update({ is_monitoring_enabled: enabled }).in('id', ids).select('id')
+  )
+}
+
+// Reviews, sentiment and tags go with it (ON DELETE CASCADE). data is empty
+// when RLS hid the business, so nothing was deleted.
+export function deleteBusiness(id: string): Promise<ApiResponse<Array<Pick<Business, 'id'>>>> {
+  return respond(client => client.from('businesses').delete().eq('id', id).select('id'))
+}
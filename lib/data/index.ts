@@ -0,0 +1,11 @@
+// Typed data access over the signed-in user's client. Every function resolves
+// to an ApiResponse or PaginatedResponse instead of throwing, and RLS decides
+// which rows are visible.
+export * from '@/lib/data/response'
+export * from '@/lib/data/businesses'
+export * from '@/lib/data/reviews'
+export * from '@/lib/data/sentiment'
+export * from '@/lib/data/notifications'
+export * from '@/lib/data/preferences'
+export * from '@/lib/data/tags'
+export * from '@/lib/data/apiKeys'
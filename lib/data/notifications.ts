@@ -0,0 +1,33 @@
+import { PageRequest, respondPage } from '@/lib/data/response'
+import { EmailNotification, NotificationFilters, PaginatedResponse } from '@/database-types'
+
+// Newest first. Notifications are written by the edge functions; users can only read theirs.
+export function listNotifications(
+  filters: NotificationFilters = {},
+  page: PageRequest = {}
+): Promise<PaginatedResponse<EmailNotification>> {
+  return respondPage(page, (client, from, to) => {
+    let query = client.from('email_notifications').select('*', { count: 'exact' })
+
+    if (filters.user_id) {
+      query = query.eq('user_id', filters.user_id)
+    }
+    if (filters.business_id) {
+      query = query.eq('business_id', filters.business_id)
+    }
+    if (filters.type) {
+      query = query.eq('notification_type', filters.type)
+    }
+    if (filters.is_sent !== undefined) {
+      query = query.eq('is_sent', filters.is_sent)
+    }
+    if (filters.date_from) {
+      query = query.gte('created_at', filters.date_from)
+    }
+    if (filters.date_to) {
+      query = query.lte('created_at', filters.date_to)
+    }
+
+    return query.order('created_at', { ascending: false }).range(from, to)
+  })
+}
@@ -0,0 +1,14 @@
+import { respond } from '@/lib/data/response'
+import { ApiResponse, UserPreference, UserPreferenceUpdate } from '@/database-types'
+
+// Every user gets a preferences row on sign-up (handle_new_user)
+export function getUserPreferences(userId: string): Promise<ApiResponse<UserPreference>> {
+  return respond(client => client.from('user_preferences').select('*').eq('user_id', userId).maybeSingle())
+}
+
+export function updateUserPreferences(
+  userId: string,
+  updates: Omit<UserPreferenceUpdate, 'id' | 'user_id'>
+): Promise<ApiResponse<UserPreference>> {
+  return respond(client => client.from('user_preferences').update(updates).eq('user_id', userId).select().single())
+}
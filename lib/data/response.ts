@@ -0,0 +1,84 @@
+import { DatabaseClient, requireSupabase } from '@/lib/supabase'
+import { ApiResponse, PaginatedResponse } from '@/database-types'
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+// 1-based page number and rows per page, as PaginatedResponse reports them
+export interface PageRequest {
+  page?: number
+  limit?: number
+}
+
+interface QueryResult<T> {
+  data: T | null
+  error: { message: string } | null
+}
+
+interface CountedQueryResult<T> extends QueryResult<T[]> {
+  count: number | null
+}
+
+export function success<T>(data: T | null): ApiResponse<T> {
+  return { data, error: null, success: true }
+}
+
+export function failure<T>(error: unknown): ApiResponse<T> {
+  return { data: null, error: errorMessage(error), success: false }
+}
+
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message
+  }
+  return String(error)
+}
+
+// For query hooks, which signal failure by throwing: the response's data, or
+// its error as an Error
+export async function unwrap<T>(response: PromiseLike<{ data: T; error: string | null }>): Promise<T> {
+  const { data, error } = await response
+  if (error !== null) throw new Error(error)
+  return data
+}
+
+// Runs one query and folds its result, or a missing client, into an ApiResponse
+export async function respond<T>(
+  run: (client: DatabaseClient) => PromiseLike<QueryResult<T>>
+): Promise<ApiResponse<T>> {
+  try {
+    const { data, error } = await run(requireSupabase())
+    return error ? failure(error) : success(data)
+  } catch (error) {
+    return failure(error)
+  }
+}
+
+// Like respond, for a `count: 'exact'` select that `run` limits to [from, to]
+export async function respondPage<T>(
+  request: PageRequest,
+  run: (client: DatabaseClient, from: number, to: number) => PromiseLike<CountedQueryResult<T>>
+): Promise<PaginatedResponse<T>> {
+  const page = Math.max(1, Math.floor(request.page ?? 1))
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(request.limit ?? DEFAULT_PAGE_SIZE)))
+  const from = (page - 1) * limit
+
+  try {
+    const { data, error, count } = await run(requireSupabase(), from, from + limit - 1)
+    const total = count ?? 0
+
+    return {
+      data: error ? [] : data ?? [],
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      error: error ? error.message : null,
+      success: !error,
+    }
+  } catch (error) {
+    return {
+      data: [],
+      pagination: { page, limit, total: 0, totalPages: 0 },
+      error: errorMessage(error),
+      success: false,
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { applyReviewFilters, reviewFilterSelect } from '@/lib/filters'
+import { PageRequest, respond, respondPage } from '@/lib/data/response'
+import { ApiResponse, PaginatedResponse, Review, ReviewFilters, ReviewUpdate } from '@/database-types'
+
+// Newest first. Reviews taken down on the platform are left out, as in the inbox.
+// `columns` may embed related tables; Row is the shape they select.
+export function listReviews<Row = Review>(
+  filters: ReviewFilters = {},
+  page: PageRequest = {},
+  columns = '*'
+): Promise<PaginatedResponse<Row>> {
+  return respondPage(page, (client, from, to) => {
+    const query = client
+      .from('reviews')
+      .select(reviewFilterSelect(columns, filters), { count: 'exact' })
+      .eq('is_removed', false)
+
+    return applyReviewFilters(query, filters)
+      .order('review_date', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, to)
+      .overrideTypes<Row[], { merge: false }>()
+  })
+}
+
+// data is null when the review does not exist or belongs to someone else's business
+export function getReview<Row = Review>(id: string, columns = '*'): Promise<ApiResponse<Row>> {
+  return respond(client => client.from('reviews').select(columns).eq('id', id).maybeSingle<Row>())
+}
+
+export function updateReview(id: string, updates: ReviewUpdate): Promise<ApiResponse<Review>> {
+  return respond(client => client.from('reviews').update(updates).eq('id', id).select().single())
+}
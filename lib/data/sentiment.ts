@@ -0,0 +1,26 @@
+import { respond } from '@/lib/data/response'
+import { ApiResponse, SentimentAnalysis } from '@/database-types'
+
+// A review keeps every analysis run; the newest one is its current sentiment
+export function getLatestSentiment(reviewId: string): Promise<ApiResponse<SentimentAnalysis>> {
+  return respond(client =>
+    client
+      .from('sentiment_analysis')
+      .select('*')
+      .eq('review_id', reviewId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  )
+}
+
+// Every analysis run for the given reviews, newest first
+export function listSentimentForReviews(reviewIds: string[]): Promise<ApiResponse<SentimentAnalysis[]>> {
+  return respond(client =>
+    client
+      .from('sentiment_analysis')
+      .select('*')
+      .in('review_id', reviewIds)
+      .order('created_at', { ascending: false })
+  )
+}
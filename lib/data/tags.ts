@@ -0,0 +1,17 @@
+import { respond } from '@/lib/data/response'
+import { ApiResponse, ReviewTag } from '@/database-types'
+
+// Tags come from the sentiment pipeline, most confident first
+export function listReviewTags(reviewId: string): Promise<ApiResponse<ReviewTag[]>> {
+  return listTagsForReviews([reviewId])
+}
+
+export function listTagsForReviews(reviewIds: string[]): Promise<ApiResponse<ReviewTag[]>> {
+  return respond(client =>
+    client
+      .from('review_tags')
+      .select('*')
+      .in('review_id', reviewIds)
+      .order('confidence_score', { ascending: false, nullsFirst: false })
+  )
+}
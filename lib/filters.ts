@@ -0,0 +1,183 @@
+import type { ParsedUrlQuery } from 'querystring'
+import type { PostgrestFilterBuilder } from '@supabase/postgrest-js'
+import { BusinessFilters, BusinessSort, Database, ReviewFilters } from '@/database-types'
+
+type PublicSchema = Database['public']
+
+// A filter builder over one table or view, with whatever result its select
+// and embeds resolve to. Filters return `this`, so the helpers below hand the
+// caller's query back with its result type intact.
+type BusinessSummaryQuery<Result, RelationName, Relationships> = PostgrestFilterBuilder<
+  PublicSchema,
+  PublicSchema['Views']['business_summary']['Row'],
+  Result,
+  RelationName,
+  Relationships
+>
+type ReviewQuery<Result, RelationName, Relationships> = PostgrestFilterBuilder<
+  PublicSchema,
+  PublicSchema['Tables']['reviews']['Row'],
+  Result,
+  RelationName,
+  Relationships
+>
+
+const REVIEW_PLATFORMS = ['google', 'yelp', 'facebook', 'tripadvisor', 'other'] as const
+const REVIEW_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const
+const SENTIMENTS = ['positive', 'negative', 'neutral'] as const
+const REVIEW_LANGUAGES = ['en', 'es', 'fr', 'de'] as const
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+// Applies BusinessFilters to a query on the business_summary view.
+// `industry` is not applied: business_summary does not expose it.
+export function applyBusinessFilters<Result, RelationName, Relationships>(
+  query: BusinessSummaryQuery<Result, RelationName, Relationships>,
+  filters: BusinessFilters
+): BusinessSummaryQuery<Result, RelationName, Relationships> {
+  let filtered = query
+
+  if (filters.user_id) {
+    filtered = filtered.eq('user_id', filters.user_id)
+  }
+  if (filters.group_id === null) {
+    filtered = filtered.is('group_id', null)
+  } else if (filters.group_id) {
+    filtered = filtered.eq('group_id', filters.group_id)
+  }
+  if (filters.is_active !== undefined) {
+    filtered = filtered.eq('is_active', filters.is_active)
+  }
+  if (filters.search) {
+    filtered = filtered.ilike('name', `%${filters.search}%`)
+  }
+
+  return filtered
+}
+
+// Businesses without reviews have no rating or latest review; keep them last
+// either way, with name as the tiebreaker so the order is stable
+export function applyBusinessSort<Result, RelationName, Relationships>(
+  query: BusinessSummaryQuery<Result, RelationName, Relationships>,
+  sort: BusinessSort
+): BusinessSummaryQuery<Result, RelationName, Relationships> {
+  let sorted = query.order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+  if (sort.column !== 'name') {
+    sorted = sorted.order('name')
+  }
+
+  return sorted
+}
+
+// Group and sentiment filters match on embedded rows, so the select has to
+// inner-join them: `reviewFilterSelect('*', filters)` adds what is needed.
+export function reviewFilterSelect(columns: string, filters: ReviewFilters): string {
+  const embeds: string[] = []
+
+  if (filters.group_id && !filters.business_id) {
+    embeds.push('businesses!inner(group_id)')
+  }
+  if (filters.sentiment) {
+    embeds.push('sentiment_analysis!inner(overall_sentiment)')
+  }
+
+  return [columns, ...embeds].join(', ')
+}
+
+// Applies ReviewFilters to a query on reviews selected with reviewFilterSelect
+export function applyReviewFilters<Result, RelationName, Relationships>(
+  query: ReviewQuery<Result, RelationName, Relationships>,
+  filters: ReviewFilters
+): ReviewQuery<Result, RelationName, Relationships> {
+  let filtered = query
+
+  if (filters.business_id) {
+    filtered = filtered.eq('business_id', filters.business_id)
+  } else if (filters.group_id) {
+    filtered = filtered.eq('businesses.group_id', filters.group_id)
+  }
+  if (filters.platform) {
+    filtered = filtered.eq('platform', filters.platform)
+  }
+  if (filters.rating) {
+    filtered = filtered.eq('rating', filters.rating)
+  }
+  if (filters.status) {
+    filtered = filtered.eq('processing_status', filters.status)
+  }
+  if (filters.sentiment) {
+    filtered = filtered.eq('sentiment_analysis.overall_sentiment', filters.sentiment)
+  }
+  if (filters.language) {
+    filtered = filtered.eq('language', filters.language)
+  }
+  if (filters.date_from) {
+    filtered = filtered.gte('review_date', filters.date_from)
+  }
+  if (filters.date_to) {
+    // A bare date includes the whole of that day
+    filtered = DATE_ONLY.test(filters.date_to)
+      ? filtered.lt('review_date', nextDay(filters.date_to))
+      : filtered.lte('review_date', filters.date_to)
+  }
+  if (filters.search) {
+    // Same expression as idx_reviews_text_search, so the GIN index serves it
+    filtered = filtered.textSearch('review_text', filters.search, { config: 'english', type: 'websearch' })
+  }
+
+  return filtered
+}
+
+// Reads ReviewFilters from a page's URL query, dropping values that are not valid filters
+export function reviewFiltersFromQuery(query: ParsedUrlQuery): ReviewFilters {
+  const value = (key: string) => {
+    const raw = query[key]
+    const first = Array.isArray(raw) ? raw[0] : raw
+    return first?.trim() || undefined
+  }
+  const oneOf = <T extends string>(options: readonly T[], raw: string | undefined) =>
+    options.find(option => option === raw)
+
+  const filters: ReviewFilters = {
+    business_id: value('business_id'),
+    group_id: value('group_id'),
+    platform: oneOf(REVIEW_PLATFORMS, value('platform')),
+    status: oneOf(REVIEW_STATUSES, value('status')),
+    sentiment: oneOf(SENTIMENTS, value('sentiment')),
+    language: oneOf(REVIEW_LANGUAGES, value('language')),
+    search: value('search'),
+  }
+
+  const rating = Number(value('rating'))
+  if (Number.isInteger(rating) && rating >= 1 && rating <= 5) {
+    filters.rating = rating
+  }
+  for (const key of ['date_from', 'date_to'] as const) {
+    const date = value(key)
+    if (date && DATE_ONLY.test(date)) {
+      filters[key] = date
+    }
+  }
+
+  return withoutEmpty(filters)
+}
+
+// The inverse of reviewFiltersFromQuery, for router.push/replace
+export function reviewFiltersToQuery(filters: ReviewFilters): Record<string, string> {
+  const query: Record<string, string> = {}
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== null && value !== '') {
+      query[key] = String(value)
+    }
+  }
+  return query
+}
+
+function withoutEmpty<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T
+}
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() + 1)
+  return day.toISOString().slice(0, 10)
+}
@@ -1,10 +1,12 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { Database } from '../database-types'
 
+export type DatabaseClient = SupabaseClient<Database>
+
 // Create a lazy-initialized Supabase client
-let supabaseClient: any = null
+let supabaseClient: DatabaseClient | null = null
 
-const getSupabaseClient = () => {
+const getSupabaseClient = (): DatabaseClient | null => {
   if (supabaseClient) {
     return supabaseClient
   }
@@ -35,26 +37,28 @@ const getSupabaseClient = () => {
 // Export the client getter
 export const supabase = getSupabaseClient()
 
-// Auth helper functions
-export const getCurrentUser = async () => {
+// The client for code that only runs once the app is configured, e.g. query
+// functions behind `enabled: !!supabase`
+export const requireSupabase = (): DatabaseClient => {
   const client = getSupabaseClient()
   if (!client) throw new Error('Supabase client not initialized')
-  const { data: { user }, error } = await client.auth.getUser()
+  return client
+}
+
+// Auth helper functions
+export const getCurrentUser = async () => {
+  const { data: { user }, error } = await requireSupabase().auth.getUser()
   if (error) throw error
   return user
 }
 
 export const getSession = async () => {
-  const client = getSupabaseClient()
-  if (!client) throw new Error('Supabase client not initialized')
-  const { data: { session }, error } = await client.auth.getSession()
+  const { data: { session }, error } = await requireSupabase().auth.getSession()
   if (error) throw error
   return session
 }
 
 export const signOut = async () => {
-  const client = getSupabaseClient()
-  if (!client) throw new Error('Supabase client not initialized')
-  const { error } = await client.auth.signOut()
+  const { error } = await requireSupabase().auth.signOut()
   if (error) throw error
-} 
\ No newline at end of file
+}
@@ -114,6 +114,30 @@ export function getInitials(name: string): string {
     .slice(0, 2)
 }
 
+const platformNames: Record<string, string> = {
+  google: 'Google',
+  yelp: 'Yelp',
+  facebook: 'Facebook',
+  tripadvisor: 'Tripadvisor',
+  other: 'Other',
+}
+
+export function getPlatformName(platform: string): string {
+  return platformNames[platform] ?? platform
+}
+
+// The languages analyze-sentiment detects (reviews.language)
+const languageNames: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+}
+
+export function getLanguageName(language: string): string {
+  return languageNames[language] ?? language
+}
+
 export function formatCurrency(amount: number, currency = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
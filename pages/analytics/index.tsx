@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/hooks/useAuth'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { AnalyticsFiltersBar } from '@/components/analytics/AnalyticsFiltersBar'
+import { RatingTrendChart } from '@/components/analytics/RatingTrendChart'
+import { PlatformVolumeChart } from '@/components/analytics/PlatformVolumeChart'
+import { SentimentTrendChart } from '@/components/analytics/SentimentTrendChart'
+import { TopTopicsChart } from '@/components/analytics/TopTopicsChart'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { defaultAnalyticsFilters } from '@/lib/analytics'
+import { AnalyticsFilters } from '@/database-types'
+
+export default function Analytics() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const [filters, setFilters] = useState<AnalyticsFilters>(() => defaultAnalyticsFilters())
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+          <p className="mt-1 text-gray-600">
+            How ratings, review volume and sentiment are trending across your businesses.
+          </p>
+        </div>
+
+        <AnalyticsFiltersBar filters={filters} onChange={setFilters} />
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <RatingTrendChart filters={filters} />
+          <PlatformVolumeChart filters={filters} />
+          <SentimentTrendChart filters={filters} />
+          <TopTopicsChart filters={filters} />
+        </div>
+      </div>
+    </DashboardLayout>
+  )
+}
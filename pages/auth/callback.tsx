@@ -42,7 +42,7 @@ export default function AuthCallback() {
                 email: data.session.user.email!,
                 full_name: data.session.user.user_metadata?.full_name || data.session.user.user_metadata?.name || 'Unknown User',
                 avatar_url: data.session.user.user_metadata?.avatar_url,
-                role: 'user'
+                role: 'business_owner'
               })
 
             if (insertError) {
@@ -0,0 +1,63 @@
+import { useEffect } from 'react'
+import { useRouter } from 'next/router'
+import Link from 'next/link'
+import { useAuth } from '@/hooks/useAuth'
+import { useBusiness } from '@/hooks/useBusinesses'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { BusinessDetailsPanel } from '@/components/businesses/BusinessDetailsPanel'
+import { BusinessGroupPanel } from '@/components/businesses/BusinessGroupPanel'
+import { IngestionHistoryPanel } from '@/components/businesses/IngestionHistoryPanel'
+import { ReviewJobsPanel } from '@/components/businesses/ReviewJobsPanel'
+import { ReviewImportsPanel } from '@/components/businesses/ReviewImportsPanel'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+export default function BusinessDetail() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const businessId = typeof router.query.id === 'string' ? router.query.id : undefined
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth')
+    }
+  }, [user, loading, router])
+
+  const { data: business, isLoading } = useBusiness(user ? businessId : undefined)
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <Link href="/businesses" className="text-sm text-blue-600 hover:text-blue-700">
+            All businesses
+          </Link>
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : (
+            <h1 className="mt-2 text-2xl font-bold text-gray-900">
+              {business?.name ?? 'Business not found'}
+            </h1>
+          )}
+        </div>
+
+        {business && <BusinessDetailsPanel business={business} />}
+        {business && <BusinessGroupPanel business={business} />}
+        {businessId && <IngestionHistoryPanel businessId={businessId} />}
+        {businessId && <ReviewJobsPanel businessId={businessId} />}
+        {businessId && <ReviewImportsPanel businessId={businessId} />}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,49 @@
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/hooks/useAuth'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { ReviewImportWizard } from '@/components/businesses/ReviewImportWizard'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+export default function ImportReviews() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const businessId = typeof router.query.id === 'string' ? router.query.id : undefined
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <Link href={businessId ? `/businesses/${businessId}` : '/'} className="text-sm text-blue-600 hover:text-blue-700">
+            Back to business
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-gray-900">Import Reviews</h1>
+          <p className="mt-1 text-gray-600">
+            Bring in reviews exported from other platforms or older tools.
+          </p>
+        </div>
+
+        {businessId && <ReviewImportWizard businessId={businessId} />}
+      </div>
+    </DashboardLayout>
+  )
+}
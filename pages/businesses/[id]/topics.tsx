@@ -0,0 +1,59 @@
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/hooks/useAuth'
+import { useBusiness } from '@/hooks/useBusinesses'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { TopicTaxonomyEditor } from '@/components/businesses/TopicTaxonomyEditor'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+export default function ReviewTopics() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const businessId = typeof router.query.id === 'string' ? router.query.id : undefined
+  const { data: business, isLoading } = useBusiness(user ? businessId : undefined)
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <Link href={businessId ? `/businesses/${businessId}` : '/'} className="text-sm text-blue-600 hover:text-blue-700">
+            Back to business
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-gray-900">Review Topics</h1>
+          <p className="mt-1 text-gray-600">
+            Choose what sentiment analysis looks for in {business?.name ?? 'this business'}&apos;s reviews and how it tags them.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : business ? (
+          <TopicTaxonomyEditor business={business} />
+        ) : (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-600">Business not found.</div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
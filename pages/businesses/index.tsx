@@ -0,0 +1,53 @@
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/hooks/useAuth'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { BusinessList } from '@/components/businesses/BusinessList'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+export default function Businesses() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Businesses</h1>
+            <p className="mt-1 text-gray-600">
+              Every location you monitor, with its ratings and fetch status.
+            </p>
+          </div>
+          <Link
+            href="/businesses/new"
+            className="px-4 py-2 rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Add Business
+          </Link>
+        </div>
+
+        <BusinessList />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,54 @@
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/hooks/useAuth'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { BusinessOnboardingWizard } from '@/components/businesses/BusinessOnboardingWizard'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+
+export default function NewBusiness() {
+  const { user, profile, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth')
+    }
+  }, [user, loading, router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <Link href="/" className="text-sm text-blue-600 hover:text-blue-700">
+            Back to dashboard
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-gray-900">Add Business</h1>
+          <p className="mt-1 text-gray-600">
+            Find the business on each review platform, confirm the listings and start monitoring.
+          </p>
+        </div>
+
+        {profile ? (
+          <BusinessOnboardingWizard userId={profile.id} />
+        ) : (
+          <div className="flex items-center justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useMemo } from 'react'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/hooks/useAuth'
+import { useReviewInbox } from '@/hooks/useReviews'
+import { DashboardLayout } from '@/components/layout/DashboardLayout'
+import { ReviewFiltersBar } from '@/components/reviews/ReviewFiltersBar'
+import { ReviewInboxList } from '@/components/reviews/ReviewInboxList'
+import { ReviewDetailDrawer } from '@/components/reviews/ReviewDetailDrawer'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { reviewFiltersFromQuery, reviewFiltersToQuery } from '@/lib/filters'
+import { ReviewFilters } from '@/database-types'
+
+export default function Reviews() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth')
+    }
+  }, [user, loading, router])
+
+  // The URL is the source of truth for filters and the open review, so inbox views can be shared
+  const filters = useMemo(() => reviewFiltersFromQuery(router.query), [router.query])
+  const selectedId = typeof router.query.review === 'string' ? router.query.review : undefined
+
+  const { data, isLoading, error, hasNextPage, isFetchingNextPage, fetchNextPage } = useReviewInbox(filters)
+  const reviews = useMemo(() => data?.pages.flat() ?? [], [data])
+
+  const replaceQuery = useCallback((query: Record<string, string>) => {
+    router.replace({ pathname: '/reviews', query }, undefined, { shallow: true })
+  }, [router])
+
+  const handleFiltersChange = useCallback((next: ReviewFilters) => {
+    replaceQuery(reviewFiltersToQuery(next))
+  }, [replaceQuery])
+
+  const selectReview = (reviewId?: string) => {
+    const query = reviewFiltersToQuery(filters)
+    replaceQuery(reviewId ? { ...query, review: reviewId } : query)
+  }
+
+  if (loading || !router.isReady) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h1 className="text-2xl font-bold text-gray-900">Reviews</h1>
+          <p className="mt-1 text-gray-600">
+            Every review across your businesses, newest first.
+          </p>
+        </div>
+
+        <ReviewFiltersBar filters={filters} onChange={handleFiltersChange} />
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <LoadingSpinner />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-sm text-red-600">Failed to load reviews. Please try again.</p>
+          ) : reviews.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No reviews match these filters.</p>
+          ) : (
+            <ReviewInboxList
+              reviews={reviews}
+              selectedId={selectedId}
+              onSelect={(review) => selectReview(review.id)}
+              hasNextPage={hasNextPage}
+              isFetchingNextPage={isFetchingNextPage}
+              fetchNextPage={fetchNextPage}
+            />
+          )}
+        </div>
+      </div>
+
+      <ReviewDetailDrawer reviewId={selectedId} onClose={() => selectReview()} />
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,787 @@
+// Generates the Database type from supabase/migrations, so the types cannot
+// drift from the schema the migrations actually build.
+//
+//   npm run db:types          rewrite the generated block in database-types.ts
+//                             and supabase/functions/_shared/database.ts
+//   npm run db:types:check    exit 1 when either file is out of date
+//
+// The parser understands the DDL this repo writes: CREATE/ALTER/DROP TABLE,
+// CREATE OR REPLACE VIEW and CREATE OR REPLACE FUNCTION. CHECK (col IN (...))
+// constraints become string literal unions. Anything it cannot type throws,
+// naming the statement, rather than guessing.
+import fs from 'fs'
+import path from 'path'
+
+export interface ColumnDef {
+  name: string
+  tsType: string
+  nullable: boolean
+  hasDefault: boolean
+}
+
+export interface RelationshipDef {
+  foreignKeyName: string
+  columns: string[]
+  isOneToOne: boolean
+  referencedRelation: string
+  referencedColumns: string[]
+}
+
+interface CheckDef {
+  column: string
+  values: string[]
+}
+
+export interface TableDef {
+  name: string
+  columns: ColumnDef[]
+  relationships: RelationshipDef[]
+  checks: Map<string, CheckDef>
+  uniqueColumns: Set<string>
+}
+
+export interface ViewDef {
+  name: string
+  columns: Array<{ name: string; tsType: string }>
+}
+
+export interface FunctionDef {
+  name: string
+  args: Array<{ name: string; tsType: string; optional: boolean }>
+  returns: string
+}
+
+export interface Schema {
+  tables: Map<string, TableDef>
+  views: Map<string, ViewDef>
+  functions: Map<string, FunctionDef>
+}
+
+// JSON columns whose shape the application fixes; the schema only knows they are JSON
+const TYPE_OVERRIDES: Record<string, string> = {
+  'review_imports.column_mapping': 'Record<string, string>',
+  'review_imports.errors': 'Array<{ row: number; errors: string[] }>',
+  'business_summary.platforms': "Array<'google' | 'yelp' | 'facebook' | 'tripadvisor'>",
+  'get_dashboard_metrics.platform_counts': '{ [platform: string]: number }',
+}
+
+const GENERATED_START = '// @generated-start'
+const GENERATED_END = '// @generated-end'
+
+const ROOT = path.resolve(__dirname, '..')
+export const MIGRATIONS_DIR = path.join(ROOT, 'supabase/migrations')
+export const DATABASE_TYPES_FILE = path.join(ROOT, 'database-types.ts')
+export const EDGE_DATABASE_TYPES_FILE = path.join(ROOT, 'supabase/functions/_shared/database.ts')
+
+// =====================================================
+// SQL scanning
+// =====================================================
+
+function stripComments(sql: string): string {
+  return sql.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/--[^\n]*/g, ' ')
+}
+
+// Splits on `;` outside quotes and dollar-quoted bodies
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = []
+  let current = ''
+  let i = 0
+
+  while (i < sql.length) {
+    const char = sql[i]
+
+    if (char === "'") {
+      const end = sql.indexOf("'", i + 1)
+      current += sql.slice(i, end + 1)
+      i = end + 1
+      continue
+    }
+
+    if (char === '$') {
+      const tag = sql.slice(i).match(/^\$\w*\$/)?.[0]
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length)
+        current += sql.slice(i, end + tag.length)
+        i = end + tag.length
+        continue
+      }
+    }
+
+    if (char === ';') {
+      if (current.trim()) statements.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+    i++
+  }
+
+  if (current.trim()) statements.push(current.trim())
+  return statements
+}
+
+// Splits on commas that are not inside parentheses, brackets or quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  let inQuote = false
+
+  for (const char of text) {
+    if (char === "'") inQuote = !inQuote
+    if (!inQuote) {
+      if (char === '(' || char === '[') depth++
+      if (char === ')' || char === ']') depth--
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim())
+        current = ''
+        continue
+      }
+    }
+    current += char
+  }
+
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+// Index of the parenthesis closing the one at `open`
+function closingParen(text: string, open: number): number {
+  let depth = 0
+  let inQuote = false
+  for (let i = open; i < text.length; i++) {
+    const char = text[i]
+    if (char === "'") inQuote = !inQuote
+    if (inQuote) continue
+    if (char === '(') depth++
+    if (char === ')' && --depth === 0) return i
+  }
+  throw new Error(`Unbalanced parentheses in: ${text.slice(open, open + 80)}`)
+}
+
+// Index of a keyword at parenthesis depth 0, or -1
+function topLevelKeyword(text: string, keyword: string, from = 0): number {
+  const pattern = new RegExp(`\\b${keyword}\\b`, 'gi')
+  let depth = 0
+  let inQuote = false
+  let checked = from
+
+  pattern.lastIndex = from
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    for (; checked < match.index; checked++) {
+      const char = text[checked]
+      if (char === "'") inQuote = !inQuote
+      if (inQuote) continue
+      if (char === '(') depth++
+      if (char === ')') depth--
+    }
+    if (depth === 0 && !inQuote) return match.index
+  }
+  return -1
+}
+
+const unqualified = (name: string) => name.replace(/^public\./i, '').replace(/"/g, '')
+
+// =====================================================
+// Types
+// =====================================================
+
+export function sqlTypeToTs(sqlType: string): string {
+  const type = sqlType.trim().toLowerCase().replace(/\s+/g, ' ')
+
+  if (type.endsWith('[]')) {
+    const element = sqlTypeToTs(type.slice(0, -2))
+    return /^[\w]+$/.test(element) ? `${element}[]` : `(${element})[]`
+  }
+  if (/^(uuid|text|citext|varchar|character varying|char|character|date|time|timestamp|timestamptz|interval|inet)\b/.test(type)) {
+    return 'string'
+  }
+  if (/^(smallint|integer|int|int2|int4|int8|bigint|numeric|decimal|real|double precision|float4|float8|serial|bigserial)\b/.test(type)) {
+    return 'number'
+  }
+  if (/^(boolean|bool)\b/.test(type)) return 'boolean'
+  if (/^jsonb?\b/.test(type)) return 'Json'
+  if (type === 'void') return 'undefined'
+
+  throw new Error(`No TypeScript type for SQL type ${sqlType}`)
+}
+
+const literalUnion = (values: string[]) => values.map(value => `'${value}'`).join(' | ')
+
+const withNull = (tsType: string) => (/\bnull$/.test(tsType) ? tsType : `${tsType} | null`)
+
+function parseInCheck(expression: string): CheckDef | null {
+  const match = expression.trim().match(/^\(?\s*"?(\w+)"?\s+IN\s*\(([^()]*)\)\s*\)?$/i)
+  if (!match) return null
+
+  const values = splitTopLevel(match[2]).map(value => value.trim())
+  if (!values.every(value => /^'[^']*'$/.test(value))) return null
+
+  return { column: match[1], values: values.map(value => value.slice(1, -1)) }
+}
+
+// =====================================================
+// Tables
+// =====================================================
+
+const COLUMN_CONSTRAINT_KEYWORDS = /\s+(NOT\s+NULL|NULL|DEFAULT|PRIMARY\s+KEY|REFERENCES|CHECK|UNIQUE|CONSTRAINT|GENERATED)\b/i
+
+function parseColumn(table: TableDef, definition: string): ColumnDef {
+  const match = definition.match(/^"?(\w+)"?\s+([\s\S]+)$/)
+  if (!match) throw new Error(`Cannot parse column "${definition}" on ${table.name}`)
+
+  const [, name, rest] = match
+  const constraintStart = rest.search(COLUMN_CONSTRAINT_KEYWORDS)
+  const sqlType = constraintStart === -1 ? rest : rest.slice(0, constraintStart)
+  const constraints = constraintStart === -1 ? '' : rest.slice(constraintStart)
+
+  const isPrimaryKey = /\bPRIMARY\s+KEY\b/i.test(constraints)
+  const isUnique = isPrimaryKey || /\bUNIQUE\b/i.test(constraints)
+  if (isUnique) table.uniqueColumns.add(name)
+
+  const checkIndex = constraints.search(/\bCHECK\s*\(/i)
+  if (checkIndex !== -1) {
+    const open = constraints.indexOf('(', checkIndex)
+    const check = parseInCheck(constraints.slice(open + 1, closingParen(constraints, open)))
+    if (check) table.checks.set(`${table.name}_${name}_check`, check)
+  }
+
+  const reference = constraints.match(/\bREFERENCES\s+([\w."]+)\s*\(\s*"?(\w+)"?\s*\)/i)
+  if (reference && /^public\.|^[^.]+$/i.test(reference[1])) {
+    table.relationships.push({
+      foreignKeyName: `${table.name}_${name}_fkey`,
+      columns: [name],
+      isOneToOne: isUnique,
+      referencedRelation: unqualified(reference[1]),
+      referencedColumns: [reference[2]],
+    })
+  }
+
+  return {
+    name,
+    tsType: sqlTypeToTs(sqlType),
+    nullable: !isPrimaryKey && !/\bNOT\s+NULL\b/i.test(constraints),
+    hasDefault: /\bDEFAULT\b/i.test(constraints) || /serial$/i.test(sqlType.trim()),
+  }
+}
+
+function parseTableConstraint(table: TableDef, definition: string): void {
+  const named = definition.match(/^CONSTRAINT\s+"?(\w+)"?\s+([\s\S]+)$/i)
+  const constraintName = named?.[1]
+  const body = named ? named[2] : definition
+
+  if (/^CHECK\s*\(/i.test(body)) {
+    const open = body.indexOf('(')
+    const check = parseInCheck(body.slice(open + 1, closingParen(body, open)))
+    if (check) table.checks.set(constraintName ?? `${table.name}_${check.column}_check`, check)
+    return
+  }
+
+  const unique = body.match(/^(?:UNIQUE|PRIMARY\s+KEY)\s*\(\s*"?(\w+)"?\s*\)$/i)
+  if (unique) {
+    table.uniqueColumns.add(unique[1])
+    return
+  }
+
+  const foreignKey = body.match(/^FOREIGN\s+KEY\s*\(([^)]*)\)\s*REFERENCES\s+([\w."]+)\s*\(([^)]*)\)/i)
+  if (foreignKey) {
+    const columns = splitTopLevel(foreignKey[1]).map(column => column.replace(/"/g, ''))
+    table.relationships.push({
+      foreignKeyName: constraintName ?? `${table.name}_${columns.join('_')}_fkey`,
+      columns,
+      isOneToOne: false,
+      referencedRelation: unqualified(foreignKey[2]),
+      referencedColumns: splitTopLevel(foreignKey[3]).map(column => column.replace(/"/g, '')),
+    })
+  }
+  // Multi-column UNIQUE and PRIMARY KEY constraints do not change the types
+}
+
+const TABLE_CONSTRAINT = /^(CONSTRAINT|UNIQUE|PRIMARY\s+KEY|CHECK|FOREIGN\s+KEY|EXCLUDE)\b/i
+
+function createTable(schema: Schema, statement: string, name: string): void {
+  const open = statement.indexOf('(')
+  const body = statement.slice(open + 1, closingParen(statement, open))
+  const table: TableDef = { name, columns: [], relationships: [], checks: new Map(), uniqueColumns: new Set() }
+
+  for (const definition of splitTopLevel(body)) {
+    if (TABLE_CONSTRAINT.test(definition)) {
+      parseTableConstraint(table, definition)
+    } else {
+      table.columns.push(parseColumn(table, definition))
+    }
+  }
+
+  schema.tables.set(name, table)
+}
+
+function alterTable(schema: Schema, name: string, actions: string): void {
+  const table = schema.tables.get(name)
+  if (!table) throw new Error(`ALTER TABLE on unknown table ${name}`)
+
+  for (const action of splitTopLevel(actions)) {
+    let match: RegExpMatchArray | null
+
+    if ((match = action.match(/^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i)) && !TABLE_CONSTRAINT.test(match[1])) {
+      const column = parseColumn(table, match[1])
+      table.columns = table.columns.filter(existing => existing.name !== column.name).concat(column)
+    } else if ((match = action.match(/^ADD\s+([\s\S]+)$/i))) {
+      parseTableConstraint(table, match[1])
+    } else if ((match = action.match(/^DROP\s+COLUMN\s+(?:IF\s+EXISTS\s+)?"?(\w+)"?/i))) {
+      const column = match[1]
+      table.columns = table.columns.filter(existing => existing.name !== column)
+      table.relationships = table.relationships.filter(relationship => !relationship.columns.includes(column))
+    } else if ((match = action.match(/^DROP\s+CONSTRAINT\s+(?:IF\s+EXISTS\s+)?"?(\w+)"?/i))) {
+      const constraint = match[1]
+      table.checks.delete(constraint)
+      table.relationships = table.relationships.filter(relationship => relationship.foreignKeyName !== constraint)
+    } else if ((match = action.match(/^RENAME\s+COLUMN\s+"?(\w+)"?\s+TO\s+"?(\w+)"?$/i))) {
+      const column = table.columns.find(existing => existing.name === match![1])
+      if (column) column.name = match[2]
+    } else if ((match = action.match(/^ALTER\s+(?:COLUMN\s+)?"?(\w+)"?\s+([\s\S]+)$/i))) {
+      const column = table.columns.find(existing => existing.name === match![1])
+      if (!column) throw new Error(`ALTER COLUMN on unknown column ${name}.${match[1]}`)
+      const change = match[2]
+      if (/^SET\s+NOT\s+NULL$/i.test(change)) column.nullable = false
+      else if (/^DROP\s+NOT\s+NULL$/i.test(change)) column.nullable = true
+      else if (/^SET\s+DEFAULT\b/i.test(change)) column.hasDefault = true
+      else if (/^DROP\s+DEFAULT$/i.test(change)) column.hasDefault = false
+      else if ((match = change.match(/^(?:SET\s+DATA\s+)?TYPE\s+([\s\S]+?)(?:\s+USING\b[\s\S]*)?$/i))) {
+        column.tsType = sqlTypeToTs(match[1])
+      } else throw new Error(`Unsupported ALTER COLUMN on ${name}: ${action}`)
+    } else if (!/^(ENABLE|DISABLE|FORCE|NO\s+FORCE|OWNER|SET|RESET|REPLICA)\b/i.test(action)) {
+      throw new Error(`Unsupported ALTER TABLE on ${name}: ${action}`)
+    }
+  }
+}
+
+// =====================================================
+// Views
+// =====================================================
+
+interface Relation {
+  columns: Map<string, string>
+}
+
+const FROM_END = ['WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'UNION', 'WINDOW']
+const NOT_AN_ALIAS = /^(ON|LEFT|RIGHT|INNER|OUTER|FULL|CROSS|USING|NATURAL)$/i
+
+function relationColumns(schema: Schema, name: string): Map<string, string> {
+  const table = schema.tables.get(name)
+  if (table) {
+    return new Map(table.columns.map(column => [column.name, columnType(table, column)]))
+  }
+  const view = schema.views.get(name)
+  if (view) return new Map(view.columns.map(column => [column.name, column.tsType]))
+  throw new Error(`Unknown relation ${name}`)
+}
+
+// Splits a FROM clause into one piece per relation, at top-level commas and JOINs
+function splitFromItems(from: string): string[] {
+  const items: string[] = []
+  let depth = 0
+  let inQuote = false
+  let start = 0
+
+  for (let i = 0; i < from.length; i++) {
+    const char = from[i]
+    if (char === "'") inQuote = !inQuote
+    if (inQuote) continue
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (depth !== 0) continue
+
+    const atWord = i === 0 || /\W/.test(from[i - 1])
+    const separator = char === ',' ? ',' : atWord ? from.slice(i).match(/^JOIN\b/i)?.[0] : undefined
+    if (separator) {
+      items.push(from.slice(start, i))
+      start = i + separator.length
+    }
+  }
+
+  items.push(from.slice(start))
+  return items
+}
+
+// Aliases introduced by a FROM clause: tables, views and (LATERAL) subqueries
+function parseFrom(schema: Schema, from: string): Map<string, Relation> {
+  const relations = new Map<string, Relation>()
+
+  for (const item of splitFromItems(from.replace(/^\s*FROM\b/i, ''))) {
+    const source = item.trim().replace(/^LATERAL\s+/i, '')
+
+    if (source.startsWith('(')) {
+      const close = closingParen(source, 0)
+      const alias = source.slice(close + 1).match(/^\s*(?:AS\s+)?(\w+)/i)
+      if (!alias) throw new Error(`Subquery without an alias in FROM: ${source.slice(0, 80)}`)
+      relations.set(alias[1], { columns: resolveSelect(schema, source.slice(1, close)) })
+      continue
+    }
+
+    const table = source.match(/^([\w."]+)(?:\s+(?:AS\s+)?(\w+))?/i)
+    if (!table) throw new Error(`Cannot parse FROM item ${source.slice(0, 80)}`)
+    const name = unqualified(table[1])
+    const alias = table[2] && !NOT_AN_ALIAS.test(table[2]) ? table[2] : name
+    relations.set(alias, { columns: relationColumns(schema, name) })
+  }
+
+  return relations
+}
+
+function expressionType(expression: string, relations: Map<string, Relation>, context: string): string {
+  let expr = expression.trim()
+
+  while (expr.startsWith('(') && closingParen(expr, 0) === expr.length - 1) {
+    expr = expr.slice(1, -1).trim()
+  }
+
+  const cast = expr.match(/^([\s\S]+?)::([\w\s]+(?:\[\])?)$/)
+  if (cast) return sqlTypeToTs(cast[2])
+
+  if (/^'[^']*'$/.test(expr)) return 'string'
+  if (/^-?\d+(\.\d+)?$/.test(expr)) return 'number'
+  if (/^(TRUE|FALSE)$/i.test(expr)) return 'boolean'
+
+  const column = expr.match(/^(?:(\w+)\.)?"?(\w+)"?$/)
+  if (column) {
+    const [, alias, name] = column
+    const candidates = alias ? [relations.get(alias)] : Array.from(relations.values())
+    const match = candidates.find(relation => relation?.columns.has(name))
+    if (match) return match.columns.get(name)!
+    throw new Error(`${context}: unknown column ${expr}`)
+  }
+
+  if (/^CASE\b/i.test(expr)) {
+    const then = expr.match(/\bTHEN\s+([\s\S]+?)\s+(?:WHEN|ELSE|END)\b/i)
+    if (then) return expressionType(then[1], relations, context)
+  }
+
+  if (/^ARRAY\s*\[/i.test(expr)) {
+    const open = expr.indexOf('[')
+    const elements = splitTopLevel(expr.slice(open + 1, expr.lastIndexOf(']')))
+    return `${expressionType(elements[0], relations, context)}[]`
+  }
+
+  const call = expr.match(/^(\w+)\s*\(/)
+  if (call) {
+    const open = expr.indexOf('(')
+    const args = splitTopLevel(expr.slice(open + 1, closingParen(expr, open)).replace(/^DISTINCT\s+/i, ''))
+    switch (call[1].toUpperCase()) {
+      case 'COUNT':
+      case 'SUM':
+      case 'AVG':
+      case 'ROUND':
+      case 'ABS':
+      case 'CEIL':
+      case 'FLOOR':
+      case 'EXTRACT':
+        return 'number'
+      case 'MAX':
+      case 'MIN':
+      case 'COALESCE':
+      case 'NULLIF':
+      case 'ARRAY_REMOVE':
+        return expressionType(args[0], relations, context)
+      case 'ARRAY_AGG':
+        return `${expressionType(args[0], relations, context)}[]`
+      case 'LOWER':
+      case 'UPPER':
+      case 'TRIM':
+      case 'CONCAT':
+      case 'NOW':
+        return 'string'
+      case 'BOOL_OR':
+      case 'BOOL_AND':
+        return 'boolean'
+    }
+  }
+
+  throw new Error(`${context}: cannot infer the type of ${expr}`)
+}
+
+// Column name -> type for a SELECT statement
+function resolveSelect(schema: Schema, select: string): Map<string, string> {
+  const selectStart = topLevelKeyword(select, 'SELECT')
+  const fromStart = topLevelKeyword(select, 'FROM')
+  if (selectStart === -1 || fromStart === -1) throw new Error(`Cannot parse SELECT: ${select.slice(0, 80)}`)
+
+  const fromEnd = FROM_END
+    .map(keyword => topLevelKeyword(select, keyword, fromStart))
+    .filter(index => index !== -1)
+    .reduce((min, index) => Math.min(min, index), select.length)
+
+  const relations = parseFrom(schema, select.slice(fromStart, fromEnd))
+  const columns = new Map<string, string>()
+
+  for (const item of splitTopLevel(select.slice(selectStart + 'SELECT'.length, fromStart))) {
+    const aliased = item.match(/^([\s\S]+?)\s+AS\s+"?(\w+)"?$/i)
+    const expression = aliased ? aliased[1] : item
+    const name = aliased ? aliased[2] : item.match(/(\w+)"?$/)?.[1]
+    if (!name) throw new Error(`Cannot name select item ${item}`)
+    columns.set(name, expressionType(expression, relations, `select item ${name}`))
+  }
+
+  return columns
+}
+
+function createView(schema: Schema, name: string, select: string): void {
+  const columns = resolveSelect(schema, select)
+  schema.views.set(name, {
+    name,
+    // Postgres cannot tell whether a view column is nullable, so every one is
+    columns: Array.from(columns, ([column, tsType]) => ({
+      name: column,
+      tsType: withNull(TYPE_OVERRIDES[`${name}.${column}`] ?? tsType),
+    })),
+  })
+}
+
+// =====================================================
+// Functions
+// =====================================================
+
+function createFunction(schema: Schema, name: string, params: string, returns: string): void {
+  if (/^TRIGGER$/i.test(returns.trim())) return
+
+  const args = splitTopLevel(params).map(param => {
+    const match = param.match(/^(?:(?:IN|INOUT)\s+)?"?(\w+)"?\s+([\s\S]+?)(?:\s+(DEFAULT|=)\s+[\s\S]+)?$/i)
+    if (!match) throw new Error(`Cannot parse parameter "${param}" of ${name}`)
+    return { name: match[1], tsType: sqlTypeToTs(match[2]), optional: !!match[3] }
+  })
+
+  let returnType: string
+  const table = returns.match(/^TABLE\s*\(([\s\S]*)\)$/i)
+  const setOf = returns.match(/^SETOF\s+([\w."]+)$/i)
+  if (table) {
+    const fields = splitTopLevel(table[1]).map(field => {
+      const match = field.match(/^"?(\w+)"?\s+([\s\S]+)$/)
+      if (!match) throw new Error(`Cannot parse result column "${field}" of ${name}`)
+      return `${match[1]}: ${TYPE_OVERRIDES[`${name}.${match[1]}`] ?? sqlTypeToTs(match[2])}`
+    })
+    returnType = `{\n${fields.map(field => `  ${field}`).join('\n')}\n}[]`
+  } else if (setOf) {
+    const relation = unqualified(setOf[1])
+    const kind = schema.tables.has(relation) ? 'Tables' : 'Views'
+    returnType = `Database['public']['${kind}']['${relation}']['Row'][]`
+  } else {
+    returnType = sqlTypeToTs(returns)
+  }
+
+  schema.functions.set(name, { name, args, returns: returnType })
+}
+
+// =====================================================
+// Migrations
+// =====================================================
+
+export function parseMigrations(sqlFiles: string[]): Schema {
+  const schema: Schema = { tables: new Map(), views: new Map(), functions: new Map() }
+
+  for (const sql of sqlFiles) {
+    for (const raw of splitStatements(stripComments(sql))) {
+      const statement = raw.replace(/\s+/g, ' ').trim()
+      let match: RegExpMatchArray | null
+
+      try {
+        if ((match = statement.match(/^CREATE (?:UNLOGGED )?TABLE (?:IF NOT EXISTS )?([\w."]+) \(/i))) {
+          if (isPublic(match[1])) createTable(schema, statement, unqualified(match[1]))
+        } else if ((match = statement.match(/^ALTER TABLE (?:IF EXISTS )?(?:ONLY )?([\w."]+) ([\s\S]+)$/i))) {
+          if (isPublic(match[1])) alterTable(schema, unqualified(match[1]), match[2])
+        } else if ((match = statement.match(/^DROP TABLE (?:IF EXISTS )?([\w.", ]+?)(?: CASCADE| RESTRICT)?$/i))) {
+          match[1].split(',').forEach(name => schema.tables.delete(unqualified(name.trim())))
+        } else if ((match = statement.match(/^CREATE (?:OR REPLACE )?VIEW ([\w."]+) (?:WITH \([^)]*\) )?AS ([\s\S]+)$/i))) {
+          if (isPublic(match[1])) createView(schema, unqualified(match[1]), match[2])
+        } else if ((match = statement.match(/^DROP VIEW (?:IF EXISTS )?([\w."]+)/i))) {
+          schema.views.delete(unqualified(match[1]))
+        } else if ((match = statement.match(/^CREATE (?:OR REPLACE )?FUNCTION ([\w."]+) ?\(/i))) {
+          if (isPublic(match[1])) {
+            const open = statement.indexOf('(')
+            const close = closingParen(statement, open)
+            const returns = statement.slice(close + 1).match(/^ RETURNS ([\s\S]+?) (?:AS|LANGUAGE)\b/i)
+            if (!returns) throw new Error('missing RETURNS')
+            createFunction(schema, unqualified(match[1]), statement.slice(open + 1, close), returns[1])
+          }
+        } else if ((match = statement.match(/^DROP FUNCTION (?:IF EXISTS )?([\w."]+)/i))) {
+          schema.functions.delete(unqualified(match[1]))
+        }
+      } catch (error) {
+        throw new Error(`${(error as Error).message}\n  in: ${statement.slice(0, 120)}`)
+      }
+    }
+  }
+
+  return schema
+}
+
+function isPublic(name: string): boolean {
+  return !name.includes('.') || /^"?public"?\./i.test(name)
+}
+
+export function readMigrations(dir = MIGRATIONS_DIR): string[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .map(file => fs.readFileSync(path.join(dir, file), 'utf8'))
+}
+
+// =====================================================
+// Rendering
+// =====================================================
+
+function columnType(table: TableDef, column: ColumnDef): string {
+  const override = TYPE_OVERRIDES[`${table.name}.${column.name}`]
+  const check = Array.from(table.checks.values()).find(candidate => candidate.column === column.name)
+  const base = override ?? (check && column.tsType === 'string' ? literalUnion(check.values) : column.tsType)
+  return column.nullable ? withNull(base) : base
+}
+
+const indent = (text: string, spaces: number) =>
+  text.split('\n').map(line => (line ? ' '.repeat(spaces) + line : line)).join('\n')
+
+function renderFields(fields: Array<{ name: string; type: string; optional?: boolean }>): string {
+  if (fields.length === 0) return '{\n  [_ in never]: never\n}'
+  return `{\n${fields.map(field => `  ${field.name}${field.optional ? '?' : ''}: ${field.type}`).join('\n')}\n}`
+}
+
+function renderRelationships(relationships: RelationshipDef[]): string {
+  if (relationships.length === 0) return '[]'
+  return `[\n${relationships.map(relationship => indent([
+    '{',
+    `  foreignKeyName: '${relationship.foreignKeyName}'`,
+    `  columns: [${relationship.columns.map(column => `'${column}'`).join(', ')}]`,
+    `  isOneToOne: ${relationship.isOneToOne}`,
+    `  referencedRelation: '${relationship.referencedRelation}'`,
+    `  referencedColumns: [${relationship.referencedColumns.map(column => `'${column}'`).join(', ')}]`,
+    '}',
+  ].join('\n'), 2)).join(',\n')}\n]`
+}
+
+function renderTable(table: TableDef): string {
+  const row = table.columns.map(column => ({ name: column.name, type: columnType(table, column) }))
+  const insert = table.columns.map(column => ({
+    name: column.name,
+    type: columnType(table, column),
+    optional: column.nullable || column.hasDefault,
+  }))
+  const update = row.map(field => ({ ...field, optional: true }))
+
+  return [
+    `${table.name}: {`,
+    indent(`Row: ${renderFields(row)}`, 2),
+    indent(`Insert: ${renderFields(insert)}`, 2),
+    indent(`Update: ${renderFields(update)}`, 2),
+    indent(`Relationships: ${renderRelationships(table.relationships)}`, 2),
+    '}',
+  ].join('\n')
+}
+
+function renderView(view: ViewDef): string {
+  return [
+    `${view.name}: {`,
+    indent(`Row: ${renderFields(view.columns.map(column => ({ name: column.name, type: column.tsType })))}`, 2),
+    indent('Relationships: []', 2),
+    '}',
+  ].join('\n')
+}
+
+function renderFunction(fn: FunctionDef): string {
+  const args = fn.args.length === 0
+    ? 'Record<PropertyKey, never>'
+    : renderFields(fn.args.map(arg => ({ name: arg.name, type: arg.tsType, optional: arg.optional })))
+
+  return [
+    `${fn.name}: {`,
+    indent(`Args: ${args}`, 2),
+    indent(`Returns: ${fn.returns}`, 2),
+    '}',
+  ].join('\n')
+}
+
+function renderSection(name: string, entries: string[]): string {
+  if (entries.length === 0) return `${name}: {\n  [_ in never]: never\n}`
+  return `${name}: {\n${entries.map(entry => indent(entry, 2)).join('\n')}\n}`
+}
+
+export function renderDatabase(schema: Schema): string {
+  const byName = <T extends { name: string }>(items: Iterable<T>) =>
+    Array.from(items).sort((a, b) => a.name.localeCompare(b.name))
+
+  const sections = [
+    renderSection('Tables', byName(schema.tables.values()).map(renderTable)),
+    renderSection('Views', byName(schema.views.values()).map(renderView)),
+    renderSection('Functions', byName(schema.functions.values()).map(renderFunction)),
+    renderSection('Enums', []),
+  ]
+
+  return `export interface Database {\n  public: {\n${sections.map(section => indent(section, 4)).join('\n')}\n  }\n}`
+}
+
+// =====================================================
+// Output files
+// =====================================================
+
+const GENERATED_NOTICE = [
+  '// Generated by scripts/generate-db-types.ts from supabase/migrations.',
+  '// Do not edit by hand: add a migration and run `npm run db:types`.',
+].join('\n')
+
+const JSON_TYPE = `export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]`
+
+// database-types.ts keeps its hand-written aliases; only the marked block is replaced
+export function updateDatabaseTypes(current: string, database: string): string {
+  const start = current.indexOf(GENERATED_START)
+  const end = current.indexOf(GENERATED_END)
+  if (start === -1 || end === -1) {
+    throw new Error(`database-types.ts is missing the ${GENERATED_START} / ${GENERATED_END} markers`)
+  }
+
+  return `${current.slice(0, start)}${GENERATED_START}\n${GENERATED_NOTICE}\n${database}\n${current.slice(end)}`
+}
+
+// The edge functions cannot import from outside supabase/functions, so they get their own copy
+export function renderEdgeDatabaseTypes(database: string): string {
+  return `${GENERATED_NOTICE}\n\n${JSON_TYPE}\n\n${database}\n`
+}
+
+// The generated files whose content on disk differs from what the migrations produce
+export function staleOutputs(): Array<{ file: string; content: string }> {
+  const database = renderDatabase(parseMigrations(readMigrations()))
+
+  const outputs = [
+    { file: DATABASE_TYPES_FILE, content: updateDatabaseTypes(fs.readFileSync(DATABASE_TYPES_FILE, 'utf8'), database) },
+    { file: EDGE_DATABASE_TYPES_FILE, content: renderEdgeDatabaseTypes(database) },
+  ]
+
+  return outputs.filter(({ file, content }) => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== content)
+}
+
+function main() {
+  const check = process.argv.includes('--check')
+  const stale = staleOutputs()
+
+  if (check) {
+    if (stale.length > 0) {
+      console.error(`Database types are out of date with supabase/migrations:\n${stale.map(({ file }) => `  ${path.relative(ROOT, file)}`).join('\n')}`)
+      console.error('Run `npm run db:types` and commit the result.')
+      process.exit(1)
+    }
+    console.log('Database types match the migrations.')
+    return
+  }
+
+  for (const { file, content } of stale) {
+    fs.writeFileSync(file, content)
+    console.log(`Updated ${path.relative(ROOT, file)}`)
+  }
+  if (stale.length === 0) console.log('Database types are already up to date.')
+}
+
+if (require.main === module) {
+  main()
+}
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
-import { Database } from '../database-types'
+import { ApiKeyInsert, Database, EmailNotificationInsert, ReviewInsert, ReviewTagInsert, SentimentAnalysisInsert } from '../database-types'
 
 // Load environment variables
 require('dotenv').config({ path: '.env.local' })
@@ -104,7 +104,7 @@ async function seedDatabase() {
     // Create sample reviews
     console.log('Creating sample reviews...')
     
-    const reviews = [
+    const reviews: ReviewInsert[] = [
       {
         business_id: business1.id,
         platform: 'google',
@@ -113,7 +113,7 @@ async function seedDatabase() {
         reviewer_avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=150&h=150&fit=crop&crop=face',
         rating: 5,
         review_text: 'Amazing coffee and great atmosphere! The baristas are friendly and the pastries are delicious. Highly recommend!',
-        review_date: new Date('2024-01-15T10:30:00Z'),
+        review_date: '2024-01-15T10:30:00Z',
         review_url: 'https://maps.google.com/review/1',
         is_processed: true,
         processing_status: 'completed'
@@ -126,7 +126,7 @@ async function seedDatabase() {
         reviewer_avatar: 'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?w=150&h=150&fit=crop&crop=face',
         rating: 4,
         review_text: 'Good coffee and nice staff. The place is a bit crowded during peak hours, but the quality makes up for it.',
-        review_date: new Date('2024-01-14T14:20:00Z'),
+        review_date: '2024-01-14T14:20:00Z',
         review_url: 'https://www.yelp.com/review/1',
         is_processed: true,
         processing_status: 'completed'
@@ -139,7 +139,7 @@ async function seedDatabase() {
         reviewer_avatar: 'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=150&h=150&fit=crop&crop=face',
         rating: 3,
         review_text: 'The coffee is okay, but the service was slow. The staff seemed overwhelmed during busy times.',
-        review_date: new Date('2024-01-13T09:15:00Z'),
+        review_date: '2024-01-13T09:15:00Z',
         review_url: 'https://maps.google.com/review/2',
         is_processed: true,
         processing_status: 'completed'
@@ -152,7 +152,7 @@ async function seedDatabase() {
         reviewer_avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop&crop=face',
         rating: 5,
         review_text: 'Excellent service and technical expertise! They helped us modernize our entire IT infrastructure. Professional team and great results.',
-        review_date: new Date('2024-01-16T11:45:00Z'),
+        review_date: '2024-01-16T11:45:00Z',
         review_url: 'https://maps.google.com/review/3',
         is_processed: true,
         processing_status: 'completed'
@@ -165,7 +165,7 @@ async function seedDatabase() {
         reviewer_avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150&h=150&fit=crop&crop=face',
         rating: 4,
         review_text: 'Great technical solutions and responsive support. The team is knowledgeable and delivered on time. Would recommend for any business looking to upgrade their tech.',
-        review_date: new Date('2024-01-15T16:30:00Z'),
+        review_date: '2024-01-15T16:30:00Z',
         review_url: 'https://www.yelp.com/review/2',
         is_processed: true,
         processing_status: 'completed'
@@ -182,7 +182,7 @@ async function seedDatabase() {
     // Create sample sentiment analysis
     console.log('Creating sample sentiment analysis...')
     
-    const sentimentAnalysis = [
+    const sentimentAnalysis: SentimentAnalysisInsert[] = [
       {
         review_id: insertedReviews[0].id,
         overall_sentiment: 'positive',
@@ -259,7 +259,7 @@ async function seedDatabase() {
     // Create sample review tags
     console.log('Creating sample review tags...')
     
-    const reviewTags = [
+    const reviewTags: ReviewTagInsert[] = [
       { review_id: insertedReviews[0].id, tag_name: 'friendly staff', tag_category: 'staff', confidence_score: 0.95 },
       { review_id: insertedReviews[0].id, tag_name: 'quality coffee', tag_category: 'product', confidence_score: 0.92 },
       { review_id: insertedReviews[0].id, tag_name: 'good atmosphere', tag_category: 'ambiance', confidence_score: 0.88 },
@@ -282,7 +282,7 @@ async function seedDatabase() {
     // Create sample email notifications
     console.log('Creating sample email notifications...')
     
-    const notifications = [
+    const notifications: EmailNotificationInsert[] = [
       {
         user_id: user1.id,
         business_id: business1.id,
@@ -290,7 +290,7 @@ async function seedDatabase() {
         subject: 'New Review for Downtown Coffee Shop',
         content: 'You received a new 5-star review from Alice Johnson on Google.',
         is_sent: true,
-        sent_at: new Date('2024-01-15T11:00:00Z')
+        sent_at: '2024-01-15T11:00:00Z'
       },
       {
         user_id: user2.id,
@@ -299,7 +299,7 @@ async function seedDatabase() {
         subject: 'Sentiment Alert for Tech Solutions Inc',
         content: 'A new review with positive sentiment was detected for your business.',
         is_sent: true,
-        sent_at: new Date('2024-01-16T12:00:00Z')
+        sent_at: '2024-01-16T12:00:00Z'
       }
     ]
 
@@ -312,14 +312,14 @@ async function seedDatabase() {
     // Create sample API keys
     console.log('Creating sample API keys...')
     
-    const apiKeys = [
+    const apiKeys: ApiKeyInsert[] = [
       {
         user_id: user1.id,
         name: 'Production API Key',
         key_hash: 'hashed_api_key_1',
         permissions: ['read', 'write'],
         is_active: true,
-        expires_at: new Date('2025-01-01T00:00:00Z')
+        expires_at: '2025-01-01T00:00:00Z'
       },
       {
         user_id: user2.id,
@@ -327,7 +327,7 @@ async function seedDatabase() {
         key_hash: 'hashed_api_key_2',
         permissions: ['read'],
         is_active: true,
-        expires_at: new Date('2024-06-01T00:00:00Z')
+        expires_at: '2024-06-01T00:00:00Z'
       }
     ]
 
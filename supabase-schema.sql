@@ -39,6 +39,7 @@ CREATE TABLE businesses (
     google_place_id VARCHAR(255) UNIQUE,
     yelp_business_id VARCHAR(255) UNIQUE,
     facebook_page_id VARCHAR(255),
+    tripadvisor_location_id VARCHAR(255),
     
     -- Monitoring settings
     is_active BOOLEAN DEFAULT true,
@@ -52,6 +53,7 @@ CREATE TABLE businesses (
     
     -- Metadata
     industry VARCHAR(100),
+    review_language VARCHAR(10) CHECK (review_language IN ('en', 'es', 'fr', 'de')),
     timezone VARCHAR(50) DEFAULT 'UTC',
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -81,7 +83,8 @@ CREATE TABLE reviews (
     is_verified BOOLEAN DEFAULT false,
     
     -- Metadata
-    language VARCHAR(10) DEFAULT 'en',
+    -- Detected by analyze-sentiment; null until the review is analyzed
+    language VARCHAR(10) CHECK (language IN ('en', 'es', 'fr', 'de')),
     helpful_votes INTEGER DEFAULT 0,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -211,6 +214,8 @@ CREATE INDEX idx_users_created_at ON users(created_at);
 CREATE INDEX idx_businesses_user_id ON businesses(user_id);
 CREATE INDEX idx_businesses_google_place_id ON businesses(google_place_id);
 CREATE INDEX idx_businesses_yelp_business_id ON businesses(yelp_business_id);
+CREATE INDEX idx_businesses_facebook_page_id ON businesses(facebook_page_id);
+CREATE INDEX idx_businesses_tripadvisor_location_id ON businesses(tripadvisor_location_id);
 CREATE INDEX idx_businesses_is_active ON businesses(is_active);
 CREATE INDEX idx_businesses_name_trgm ON businesses USING gin(name gin_trgm_ops);
 
@@ -452,5 +457,7 @@ COMMENT ON TABLE api_keys IS 'API keys for external integrations';
 
 COMMENT ON COLUMN businesses.google_place_id IS 'Google Places API identifier';
 COMMENT ON COLUMN businesses.yelp_business_id IS 'Yelp Business API identifier';
+COMMENT ON COLUMN businesses.facebook_page_id IS 'Facebook Page identifier for Graph API ratings';
+COMMENT ON COLUMN businesses.tripadvisor_location_id IS 'Tripadvisor Content API location identifier';
 COMMENT ON COLUMN reviews.platform_review_id IS 'Original review ID from the platform';
 COMMENT ON COLUMN sentiment_analysis.sentiment_score IS 'Sentiment score from -1.0 (negative) to 1.0 (positive)'; 
\ No newline at end of file
@@ -0,0 +1,1122 @@
+// Generated by scripts/generate-db-types.ts from supabase/migrations.
+// Do not edit by hand: add a migration and run `npm run db:types`.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export interface Database {
+  public: {
+    Tables: {
+      api_keys: {
+        Row: {
+          id: string
+          user_id: string | null
+          name: string
+          key_hash: string
+          permissions: string[] | null
+          is_active: boolean | null
+          last_used_at: string | null
+          expires_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          name: string
+          key_hash: string
+          permissions?: string[] | null
+          is_active?: boolean | null
+          last_used_at?: string | null
+          expires_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          name?: string
+          key_hash?: string
+          permissions?: string[] | null
+          is_active?: boolean | null
+          last_used_at?: string | null
+          expires_at?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'api_keys_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      business_groups: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'business_groups_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      businesses: {
+        Row: {
+          id: string
+          user_id: string | null
+          name: string
+          description: string | null
+          address: string | null
+          phone: string | null
+          website: string | null
+          google_place_id: string | null
+          yelp_business_id: string | null
+          is_monitoring_enabled: boolean | null
+          monitoring_frequency: 'hourly' | 'daily' | 'weekly' | null
+          last_review_fetch: string | null
+          created_at: string | null
+          updated_at: string | null
+          facebook_page_id: string | null
+          tripadvisor_location_id: string | null
+          group_id: string | null
+          sentiment_provider: 'lexicon' | 'openai' | null
+          industry: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          review_language: 'en' | 'es' | 'fr' | 'de' | null
+          last_fetch_attempt_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          name: string
+          description?: string | null
+          address?: string | null
+          phone?: string | null
+          website?: string | null
+          google_place_id?: string | null
+          yelp_business_id?: string | null
+          is_monitoring_enabled?: boolean | null
+          monitoring_frequency?: 'hourly' | 'daily' | 'weekly' | null
+          last_review_fetch?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          facebook_page_id?: string | null
+          tripadvisor_location_id?: string | null
+          group_id?: string | null
+          sentiment_provider?: 'lexicon' | 'openai' | null
+          industry?: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          review_language?: 'en' | 'es' | 'fr' | 'de' | null
+          last_fetch_attempt_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          name?: string
+          description?: string | null
+          address?: string | null
+          phone?: string | null
+          website?: string | null
+          google_place_id?: string | null
+          yelp_business_id?: string | null
+          is_monitoring_enabled?: boolean | null
+          monitoring_frequency?: 'hourly' | 'daily' | 'weekly' | null
+          last_review_fetch?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+          facebook_page_id?: string | null
+          tripadvisor_location_id?: string | null
+          group_id?: string | null
+          sentiment_provider?: 'lexicon' | 'openai' | null
+          industry?: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          review_language?: 'en' | 'es' | 'fr' | 'de' | null
+          last_fetch_attempt_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'businesses_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'businesses_group_id_fkey'
+            columns: ['group_id']
+            isOneToOne: false
+            referencedRelation: 'business_groups'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      email_notifications: {
+        Row: {
+          id: string
+          user_id: string | null
+          business_id: string | null
+          notification_type: 'new_review' | 'sentiment_alert' | 'weekly_summary' | 'monthly_report'
+          subject: string
+          content: string
+          is_sent: boolean | null
+          sent_at: string | null
+          error_message: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          business_id?: string | null
+          notification_type: 'new_review' | 'sentiment_alert' | 'weekly_summary' | 'monthly_report'
+          subject: string
+          content: string
+          is_sent?: boolean | null
+          sent_at?: string | null
+          error_message?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          business_id?: string | null
+          notification_type?: 'new_review' | 'sentiment_alert' | 'weekly_summary' | 'monthly_report'
+          subject?: string
+          content?: string
+          is_sent?: boolean | null
+          sent_at?: string | null
+          error_message?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'email_notifications_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'email_notifications_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      ingestion_cursors: {
+        Row: {
+          id: string
+          business_id: string
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          last_review_date: string | null
+          last_review_id: string | null
+          backfill_status: 'not_started' | 'running' | 'completed' | 'failed'
+          backfill_page_cursor: string | null
+          backfill_pages_fetched: number | null
+          backfill_reviews_fetched: number | null
+          backfill_started_at: string | null
+          backfill_completed_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          last_review_date?: string | null
+          last_review_id?: string | null
+          backfill_status?: 'not_started' | 'running' | 'completed' | 'failed'
+          backfill_page_cursor?: string | null
+          backfill_pages_fetched?: number | null
+          backfill_reviews_fetched?: number | null
+          backfill_started_at?: string | null
+          backfill_completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          business_id?: string
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          last_review_date?: string | null
+          last_review_id?: string | null
+          backfill_status?: 'not_started' | 'running' | 'completed' | 'failed'
+          backfill_page_cursor?: string | null
+          backfill_pages_fetched?: number | null
+          backfill_reviews_fetched?: number | null
+          backfill_started_at?: string | null
+          backfill_completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'ingestion_cursors_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      ingestion_runs: {
+        Row: {
+          id: string
+          business_id: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          trigger_source: 'manual' | 'scheduler' | 'webhook' | 'import'
+          status: 'running' | 'succeeded' | 'failed' | 'skipped'
+          started_at: string | null
+          finished_at: string | null
+          reviews_fetched: number | null
+          reviews_inserted: number | null
+          reviews_skipped: number | null
+          reviews_failed: number | null
+          error: Json | null
+          created_at: string | null
+          mode: 'incremental' | 'backfill'
+          reviews_updated: number | null
+          reviews_removed: number | null
+        }
+        Insert: {
+          id?: string
+          business_id?: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          trigger_source?: 'manual' | 'scheduler' | 'webhook' | 'import'
+          status?: 'running' | 'succeeded' | 'failed' | 'skipped'
+          started_at?: string | null
+          finished_at?: string | null
+          reviews_fetched?: number | null
+          reviews_inserted?: number | null
+          reviews_skipped?: number | null
+          reviews_failed?: number | null
+          error?: Json | null
+          created_at?: string | null
+          mode?: 'incremental' | 'backfill'
+          reviews_updated?: number | null
+          reviews_removed?: number | null
+        }
+        Update: {
+          id?: string
+          business_id?: string | null
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          trigger_source?: 'manual' | 'scheduler' | 'webhook' | 'import'
+          status?: 'running' | 'succeeded' | 'failed' | 'skipped'
+          started_at?: string | null
+          finished_at?: string | null
+          reviews_fetched?: number | null
+          reviews_inserted?: number | null
+          reviews_skipped?: number | null
+          reviews_failed?: number | null
+          error?: Json | null
+          created_at?: string | null
+          mode?: 'incremental' | 'backfill'
+          reviews_updated?: number | null
+          reviews_removed?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'ingestion_runs_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      platform_rate_limits: {
+        Row: {
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          capacity: number
+          refill_per_second: number
+          tokens: number
+          refilled_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          capacity: number
+          refill_per_second: number
+          tokens: number
+          refilled_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+          capacity?: number
+          refill_per_second?: number
+          tokens?: number
+          refilled_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      review_imports: {
+        Row: {
+          id: string
+          business_id: string
+          user_id: string | null
+          file_name: string | null
+          format: 'csv' | 'json'
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          column_mapping: Record<string, string>
+          status: 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'rolled_back'
+          rows_total: number | null
+          rows_inserted: number | null
+          rows_duplicate: number | null
+          rows_invalid: number | null
+          rows_failed: number | null
+          rows_rolled_back: number | null
+          errors: Array<{ row: number; errors: string[] }>
+          created_at: string | null
+          completed_at: string | null
+          rolled_back_at: string | null
+        }
+        Insert: {
+          id?: string
+          business_id: string
+          user_id?: string | null
+          file_name?: string | null
+          format: 'csv' | 'json'
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          column_mapping?: Record<string, string>
+          status?: 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'rolled_back'
+          rows_total?: number | null
+          rows_inserted?: number | null
+          rows_duplicate?: number | null
+          rows_invalid?: number | null
+          rows_failed?: number | null
+          rows_rolled_back?: number | null
+          errors?: Array<{ row: number; errors: string[] }>
+          created_at?: string | null
+          completed_at?: string | null
+          rolled_back_at?: string | null
+        }
+        Update: {
+          id?: string
+          business_id?: string
+          user_id?: string | null
+          file_name?: string | null
+          format?: 'csv' | 'json'
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          column_mapping?: Record<string, string>
+          status?: 'running' | 'completed' | 'completed_with_errors' | 'failed' | 'rolled_back'
+          rows_total?: number | null
+          rows_inserted?: number | null
+          rows_duplicate?: number | null
+          rows_invalid?: number | null
+          rows_failed?: number | null
+          rows_rolled_back?: number | null
+          errors?: Array<{ row: number; errors: string[] }>
+          created_at?: string | null
+          completed_at?: string | null
+          rolled_back_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'review_imports_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'review_imports_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      review_jobs: {
+        Row: {
+          id: string
+          review_id: string
+          business_id: string
+          job_type: 'analyze_sentiment'
+          status: 'pending' | 'processing' | 'succeeded' | 'dead'
+          attempts: number
+          max_attempts: number
+          run_after: string | null
+          locked_at: string | null
+          locked_by: string | null
+          last_error: string | null
+          completed_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          review_id: string
+          business_id: string
+          job_type?: 'analyze_sentiment'
+          status?: 'pending' | 'processing' | 'succeeded' | 'dead'
+          attempts?: number
+          max_attempts?: number
+          run_after?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          last_error?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          review_id?: string
+          business_id?: string
+          job_type?: 'analyze_sentiment'
+          status?: 'pending' | 'processing' | 'succeeded' | 'dead'
+          attempts?: number
+          max_attempts?: number
+          run_after?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          last_error?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'review_jobs_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'review_jobs_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      review_revisions: {
+        Row: {
+          id: string
+          review_id: string
+          rating: number
+          review_text: string | null
+          content_hash: string
+          replaced_at: string | null
+        }
+        Insert: {
+          id?: string
+          review_id: string
+          rating: number
+          review_text?: string | null
+          content_hash: string
+          replaced_at?: string | null
+        }
+        Update: {
+          id?: string
+          review_id?: string
+          rating?: number
+          review_text?: string | null
+          content_hash?: string
+          replaced_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'review_revisions_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      review_tags: {
+        Row: {
+          id: string
+          review_id: string | null
+          tag_name: string
+          tag_category: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other' | null
+          confidence_score: number | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          review_id?: string | null
+          tag_name: string
+          tag_category?: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other' | null
+          confidence_score?: number | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          review_id?: string | null
+          tag_name?: string
+          tag_category?: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other' | null
+          confidence_score?: number | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'review_tags_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      reviews: {
+        Row: {
+          id: string
+          business_id: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          platform_review_id: string
+          reviewer_name: string | null
+          reviewer_avatar: string | null
+          rating: number
+          review_text: string | null
+          review_date: string
+          review_url: string | null
+          is_processed: boolean | null
+          processing_status: 'pending' | 'processing' | 'completed' | 'failed' | null
+          created_at: string | null
+          updated_at: string | null
+          content_hash: string | null
+          edited_at: string | null
+          last_seen_at: string | null
+          is_removed: boolean
+          removed_at: string | null
+          import_id: string | null
+          language: 'en' | 'es' | 'fr' | 'de' | null
+        }
+        Insert: {
+          id?: string
+          business_id?: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          platform_review_id: string
+          reviewer_name?: string | null
+          reviewer_avatar?: string | null
+          rating: number
+          review_text?: string | null
+          review_date: string
+          review_url?: string | null
+          is_processed?: boolean | null
+          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | null
+          created_at?: string | null
+          updated_at?: string | null
+          content_hash?: string | null
+          edited_at?: string | null
+          last_seen_at?: string | null
+          is_removed?: boolean
+          removed_at?: string | null
+          import_id?: string | null
+          language?: 'en' | 'es' | 'fr' | 'de' | null
+        }
+        Update: {
+          id?: string
+          business_id?: string | null
+          platform?: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other'
+          platform_review_id?: string
+          reviewer_name?: string | null
+          reviewer_avatar?: string | null
+          rating?: number
+          review_text?: string | null
+          review_date?: string
+          review_url?: string | null
+          is_processed?: boolean | null
+          processing_status?: 'pending' | 'processing' | 'completed' | 'failed' | null
+          created_at?: string | null
+          updated_at?: string | null
+          content_hash?: string | null
+          edited_at?: string | null
+          last_seen_at?: string | null
+          is_removed?: boolean
+          removed_at?: string | null
+          import_id?: string | null
+          language?: 'en' | 'es' | 'fr' | 'de' | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'reviews_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reviews_import_id_fkey'
+            columns: ['import_id']
+            isOneToOne: false
+            referencedRelation: 'review_imports'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      scheduler_runs: {
+        Row: {
+          id: string
+          trigger_source: 'cron' | 'manual'
+          started_at: string | null
+          finished_at: string | null
+          businesses_due: number | null
+          fetches_started: number | null
+          fetches_succeeded: number | null
+          fetches_failed: number | null
+          error_message: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          trigger_source?: 'cron' | 'manual'
+          started_at?: string | null
+          finished_at?: string | null
+          businesses_due?: number | null
+          fetches_started?: number | null
+          fetches_succeeded?: number | null
+          fetches_failed?: number | null
+          error_message?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          trigger_source?: 'cron' | 'manual'
+          started_at?: string | null
+          finished_at?: string | null
+          businesses_due?: number | null
+          fetches_started?: number | null
+          fetches_succeeded?: number | null
+          fetches_failed?: number | null
+          error_message?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      sentiment_analysis: {
+        Row: {
+          id: string
+          review_id: string | null
+          overall_sentiment: 'positive' | 'negative' | 'neutral'
+          sentiment_score: number
+          confidence_score: number
+          key_topics: string[] | null
+          key_phrases: string[] | null
+          analysis_metadata: Json | null
+          created_at: string | null
+          positive_aspects: string[] | null
+          negative_aspects: string[] | null
+        }
+        Insert: {
+          id?: string
+          review_id?: string | null
+          overall_sentiment: 'positive' | 'negative' | 'neutral'
+          sentiment_score: number
+          confidence_score: number
+          key_topics?: string[] | null
+          key_phrases?: string[] | null
+          analysis_metadata?: Json | null
+          created_at?: string | null
+          positive_aspects?: string[] | null
+          negative_aspects?: string[] | null
+        }
+        Update: {
+          id?: string
+          review_id?: string | null
+          overall_sentiment?: 'positive' | 'negative' | 'neutral'
+          sentiment_score?: number
+          confidence_score?: number
+          key_topics?: string[] | null
+          key_phrases?: string[] | null
+          analysis_metadata?: Json | null
+          created_at?: string | null
+          positive_aspects?: string[] | null
+          negative_aspects?: string[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'sentiment_analysis_review_id_fkey'
+            columns: ['review_id']
+            isOneToOne: false
+            referencedRelation: 'reviews'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      topic_definitions: {
+        Row: {
+          id: string
+          business_id: string | null
+          industry: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          name: string
+          keywords: string[]
+          synonyms: string[]
+          tag_category: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other'
+          positive_tag: string | null
+          negative_tag: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          business_id?: string | null
+          industry?: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          name: string
+          keywords?: string[]
+          synonyms?: string[]
+          tag_category?: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other'
+          positive_tag?: string | null
+          negative_tag?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          business_id?: string | null
+          industry?: 'restaurant' | 'hotel' | 'dental' | 'auto_repair' | 'retail' | null
+          name?: string
+          keywords?: string[]
+          synonyms?: string[]
+          tag_category?: 'service' | 'product' | 'ambiance' | 'staff' | 'value' | 'other'
+          positive_tag?: string | null
+          negative_tag?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'topic_definitions_business_id_fkey'
+            columns: ['business_id']
+            isOneToOne: false
+            referencedRelation: 'businesses'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      user_preferences: {
+        Row: {
+          id: string
+          user_id: string | null
+          email_notifications_enabled: boolean | null
+          notification_frequency: 'immediate' | 'hourly' | 'daily' | 'weekly' | null
+          sentiment_threshold: number | null
+          timezone: string | null
+          language: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          email_notifications_enabled?: boolean | null
+          notification_frequency?: 'immediate' | 'hourly' | 'daily' | 'weekly' | null
+          sentiment_threshold?: number | null
+          timezone?: string | null
+          language?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          email_notifications_enabled?: boolean | null
+          notification_frequency?: 'immediate' | 'hourly' | 'daily' | 'weekly' | null
+          sentiment_threshold?: number | null
+          timezone?: string | null
+          language?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'user_preferences_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: true
+            referencedRelation: 'users'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      users: {
+        Row: {
+          id: string
+          auth_user_id: string | null
+          full_name: string
+          email: string
+          avatar_url: string | null
+          role: 'admin' | 'business_owner'
+          is_active: boolean | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          auth_user_id?: string | null
+          full_name: string
+          email: string
+          avatar_url?: string | null
+          role?: 'admin' | 'business_owner'
+          is_active?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          auth_user_id?: string | null
+          full_name?: string
+          email?: string
+          avatar_url?: string | null
+          role?: 'admin' | 'business_owner'
+          is_active?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      business_group_summary: {
+        Row: {
+          id: string | null
+          name: string | null
+          user_id: string | null
+          location_count: number | null
+          active_location_count: number | null
+          total_reviews: number | null
+          average_rating: number | null
+          low_rating_count: number | null
+          negative_sentiment_count: number | null
+          latest_review_date: string | null
+        }
+        Relationships: []
+      }
+      business_summary: {
+        Row: {
+          id: string | null
+          name: string | null
+          user_id: string | null
+          is_active: boolean | null
+          group_id: string | null
+          group_name: string | null
+          total_reviews: number | null
+          average_rating: number | null
+          low_rating_count: number | null
+          negative_sentiment_count: number | null
+          latest_review_date: string | null
+          address: string | null
+          last_review_fetch: string | null
+          platforms: Array<'google' | 'yelp' | 'facebook' | 'tripadvisor'> | null
+        }
+        Relationships: []
+      }
+      recent_reviews_with_sentiment: {
+        Row: {
+          id: string | null
+          business_id: string | null
+          business_name: string | null
+          review_text: string | null
+          rating: number | null
+          review_date: string | null
+          platform: 'google' | 'yelp' | 'facebook' | 'tripadvisor' | 'other' | null
+          overall_sentiment: 'positive' | 'negative' | 'neutral' | null
+          sentiment_score: number | null
+          confidence_score: number | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      analytics_buckets: {
+        Args: {
+          p_bucket: string
+          p_date_from: string
+          p_date_to: string
+        }
+        Returns: {
+          bucket: string
+        }[]
+      }
+      analytics_reviews: {
+        Args: {
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_language?: string
+        }
+        Returns: {
+          review_id: string
+          platform: string
+          rating: number
+          review_date: string
+          overall_sentiment: string
+          key_topics: string[]
+          positive_aspects: string[]
+          negative_aspects: string[]
+        }[]
+      }
+      businesses_due_for_fetch: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: Database['public']['Tables']['businesses']['Row'][]
+      }
+      claim_review_jobs: {
+        Args: {
+          p_worker: string
+          p_limit?: number
+          p_lock_timeout?: string
+        }
+        Returns: Database['public']['Tables']['review_jobs']['Row'][]
+      }
+      dispatch_review_fetch: {
+        Args: {
+          p_business_id: string
+          p_platform: string
+          p_mode?: string
+        }
+        Returns: number
+      }
+      enqueue_review_jobs: {
+        Args: {
+          p_review_ids: string[]
+          p_job_type?: string
+        }
+        Returns: number
+      }
+      get_dashboard_metrics: {
+        Args: {
+          p_recent_days?: number
+        }
+        Returns: {
+          total_businesses: number
+          total_reviews: number
+          average_rating: number
+          recent_reviews_count: number
+          positive_count: number
+          neutral_count: number
+          negative_count: number
+          platform_counts: { [platform: string]: number }
+        }[]
+      }
+      invoke_review_job_worker: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      invoke_review_scheduler: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      retry_review_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: undefined
+      }
+      review_platform_volume: {
+        Args: {
+          p_bucket: string
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_language?: string
+        }
+        Returns: {
+          bucket: string
+          platform: string
+          review_count: number
+        }[]
+      }
+      review_rating_trend: {
+        Args: {
+          p_bucket: string
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_language?: string
+        }
+        Returns: {
+          bucket: string
+          review_count: number
+          average_rating: number
+        }[]
+      }
+      review_sentiment_trend: {
+        Args: {
+          p_bucket: string
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_language?: string
+        }
+        Returns: {
+          bucket: string
+          positive_count: number
+          neutral_count: number
+          negative_count: number
+        }[]
+      }
+      review_top_topics: {
+        Args: {
+          p_date_from: string
+          p_date_to: string
+          p_business_id?: string
+          p_group_id?: string
+          p_limit?: number
+          p_language?: string
+        }
+        Returns: {
+          sentiment: string
+          topic: string
+          mention_count: number
+        }[]
+      }
+      rollback_review_import: {
+        Args: {
+          p_import_id: string
+        }
+        Returns: number
+      }
+      take_platform_token: {
+        Args: {
+          p_platform: string
+          p_cost?: number
+        }
+        Returns: number
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+  }
+}
@@ -0,0 +1,20 @@
+// Error raised when an external API (a review platform or a sentiment
+// provider) rejects or fails a request. `retryable` tells callers whether
+// trying again later can succeed.
+export class ExternalApiError extends Error {
+  code: string
+  status: number | null
+  retryable: boolean
+
+  constructor(
+    code: string,
+    message: string,
+    options: { status?: number | null; retryable?: boolean } = {}
+  ) {
+    super(message)
+    this.name = 'ExternalApiError'
+    this.code = code
+    this.status = options.status ?? null
+    this.retryable = options.retryable ?? false
+  }
+}
@@ -0,0 +1,53 @@
+import type { ReviewCursor } from './platforms/cursor.ts'
+import type { Platform } from './platforms/types.ts'
+import type { Database } from './database.ts'
+import type { DatabaseClient } from './supabase.ts'
+
+export type IngestionCursor = Database['public']['Tables']['ingestion_cursors']['Row']
+export type BackfillStatus = IngestionCursor['backfill_status']
+
+export type IngestionCursorPatch = Omit<Database['public']['Tables']['ingestion_cursors']['Update'], 'business_id' | 'platform'>
+
+export async function loadIngestionCursor(
+  supabase: DatabaseClient,
+  businessId: string,
+  platform: Platform
+): Promise<IngestionCursor | null> {
+  const { data, error } = await supabase
+    .from('ingestion_cursors')
+    .select('*')
+    .eq('business_id', businessId)
+    .eq('platform', platform)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+export async function saveIngestionCursor(
+  supabase: DatabaseClient,
+  businessId: string,
+  platform: Platform,
+  patch: IngestionCursorPatch
+): Promise<void> {
+  const { error } = await supabase
+    .from('ingestion_cursors')
+    .upsert({ business_id: businessId, platform, ...patch }, { onConflict: 'business_id,platform' })
+
+  if (error) {
+    throw error
+  }
+}
+
+export function reviewCursorOf(cursor: IngestionCursor | null): ReviewCursor | null {
+  if (!cursor?.last_review_date) return null
+  return { review_date: cursor.last_review_date, platform_review_id: cursor.last_review_id }
+}
+
+export function reviewCursorPatch(cursor: ReviewCursor | null): IngestionCursorPatch {
+  if (!cursor) return {}
+  return { last_review_date: cursor.review_date, last_review_id: cursor.platform_review_id }
+}
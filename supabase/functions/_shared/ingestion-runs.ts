@@ -0,0 +1,77 @@
+import { PlatformApiError } from './platforms/errors.ts'
+import type { Platform } from './platforms/types.ts'
+import type { Json } from './database.ts'
+import type { DatabaseClient } from './supabase.ts'
+
+export type IngestionTriggerSource = 'manual' | 'scheduler' | 'webhook' | 'import'
+export type IngestionRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped'
+export type IngestionMode = 'incremental' | 'backfill'
+
+export interface IngestionCounts {
+  reviews_fetched: number
+  reviews_inserted: number
+  reviews_skipped: number
+  reviews_failed: number
+  reviews_updated: number
+  reviews_removed: number
+}
+
+export async function startIngestionRun(
+  supabase: DatabaseClient,
+  run: { business_id: string; platform: Platform; trigger_source: IngestionTriggerSource; mode?: IngestionMode }
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('ingestion_runs')
+    .insert({ ...run, status: 'running' })
+    .select('id')
+    .single()
+
+  // A missing run log must never block ingestion itself
+  if (error) {
+    console.error('Error recording ingestion run:', error)
+    return null
+  }
+
+  return data.id
+}
+
+export async function finishIngestionRun(
+  supabase: DatabaseClient,
+  runId: string | null,
+  result: { status: IngestionRunStatus; counts?: Partial<IngestionCounts>; error?: unknown }
+): Promise<void> {
+  if (!runId) return
+
+  const { error } = await supabase
+    .from('ingestion_runs')
+    .update({
+      ...result.counts,
+      status: result.status,
+      error: result.error === undefined ? null : ingestionErrorPayload(result.error),
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', runId)
+
+  if (error) {
+    console.error('Error finishing ingestion run:', error)
+  }
+}
+
+export function ingestionErrorPayload(error: unknown): { [key: string]: Json } {
+  if (error instanceof PlatformApiError) {
+    return {
+      name: error.name,
+      message: error.message,
+      platform: error.platform,
+      code: error.code,
+      status: error.status,
+      retryable: error.retryable
+    }
+  }
+
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message }
+  }
+
+  return { message: String(error) }
+}
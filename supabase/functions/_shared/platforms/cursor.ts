@@ -0,0 +1,45 @@
+import type { ReviewData } from './types.ts'
+
+// The newest review already stored for a business on one platform
+export interface ReviewCursor {
+  review_date: string
+  platform_review_id: string | null
+}
+
+// True when a review was published after the cursor. Reviews sharing the
+// cursor's timestamp count as newer unless they are the cursor review itself;
+// the reviews unique constraint drops any that were already stored.
+export function isNewerThanCursor(
+  review: Pick<ReviewData, 'review_date' | 'platform_review_id'>,
+  cursor: ReviewCursor
+): boolean {
+  const reviewTime = Date.parse(review.review_date)
+  const cursorTime = Date.parse(cursor.review_date)
+
+  if (reviewTime !== cursorTime) {
+    return reviewTime > cursorTime
+  }
+  return review.platform_review_id !== cursor.platform_review_id
+}
+
+// Moves the cursor forward to the newest of `reviews`; never moves it back
+export function advanceCursor(cursor: ReviewCursor | null, reviews: ReviewData[]): ReviewCursor | null {
+  let next = cursor
+
+  for (const review of reviews) {
+    if (!next || Date.parse(review.review_date) > Date.parse(next.review_date)) {
+      next = { review_date: review.review_date, platform_review_id: review.platform_review_id }
+    }
+  }
+
+  return next
+}
+
+// A cursor `days` before this one, so an incremental fetch also returns the
+// reviews published just before it and picks up edits made since they were stored
+export function rewindCursor(cursor: ReviewCursor | null, days: number): ReviewCursor | null {
+  if (!cursor || days <= 0) return cursor
+
+  const rewound = Date.parse(cursor.review_date) - days * 24 * 60 * 60 * 1000
+  return { review_date: new Date(rewound).toISOString(), platform_review_id: null }
+}
@@ -0,0 +1,52 @@
+import { ExternalApiError } from '../errors.ts'
+
+// A review platform rejected or failed a request
+export class PlatformApiError extends ExternalApiError {
+  platform: string
+
+  constructor(
+    platform: string,
+    code: string,
+    message: string,
+    options: { status?: number | null; retryable?: boolean } = {}
+  ) {
+    super(code, message, options)
+    this.name = 'PlatformApiError'
+    this.platform = platform
+  }
+}
+
+// The platform rejected our credentials (HTTP 401/403 or an equivalent status).
+export class PlatformAuthError extends PlatformApiError {
+  constructor(platform: string, message: string, status: number | null = null) {
+    super(platform, 'unauthorized', message, { status, retryable: false })
+    this.name = 'PlatformAuthError'
+  }
+}
+
+// The platform throttled us. `retryAfterMs` comes from Retry-After when sent.
+export class PlatformRateLimitError extends PlatformApiError {
+  retryAfterMs: number | null
+
+  constructor(
+    platform: string,
+    message: string,
+    options: { status?: number | null; retryAfterMs?: number | null } = {}
+  ) {
+    super(platform, 'rate_limited', message, { status: options.status, retryable: true })
+    this.name = 'PlatformRateLimitError'
+    this.retryAfterMs = options.retryAfterMs ?? null
+  }
+}
+
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
@@ -0,0 +1,253 @@
+import {
+  PlatformApiError,
+  PlatformAuthError,
+  PlatformRateLimitError,
+  parseRetryAfter,
+} from './errors.ts'
+import { platformFetch } from './http.ts'
+import type {
+  AdapterConfig,
+  PlatformBusinessCandidate,
+  PlatformBusinessQuery,
+  ReviewData,
+  ReviewPage,
+  ReviewSourceAdapter,
+} from './types.ts'
+
+export const FACEBOOK_GRAPH_BASE_URL = 'https://graph.facebook.com/v19.0'
+
+const RATING_FIELDS = [
+  'created_time',
+  'recommendation_type',
+  'rating',
+  'review_text',
+  'reviewer{id,name,picture}',
+  'open_graph_story{id}',
+].join(',')
+
+const PAGE_FIELDS = 'id,name,link,single_line_address,location,overall_star_rating,rating_count'
+const SEARCH_RESULTS = 5
+
+// Graph API error codes that mean the token or permissions are bad
+const AUTH_ERROR_CODES = new Set([10, 102, 190, 200])
+// Graph API error codes for app, user and page level throttling
+const RATE_LIMIT_ERROR_CODES = new Set([4, 17, 32, 613])
+
+export interface FacebookRating {
+  created_time: string
+  recommendation_type?: 'positive' | 'negative'
+  rating?: number
+  review_text?: string
+  reviewer?: {
+    id: string
+    name: string
+    picture?: { data?: { url?: string } }
+  }
+  open_graph_story?: { id: string }
+  page_id: string
+}
+
+interface FacebookRatingsResponse {
+  data: Omit<FacebookRating, 'page_id'>[]
+  paging?: {
+    cursors?: { before?: string; after?: string }
+    next?: string
+  }
+}
+
+export interface FacebookPage {
+  id: string
+  name: string
+  link?: string
+  single_line_address?: string
+  location?: {
+    street?: string
+    city?: string
+    state?: string
+    zip?: string
+    country?: string
+  }
+  overall_star_rating?: number
+  rating_count?: number
+}
+
+interface FacebookPageSearchResponse {
+  data: FacebookPage[]
+}
+
+interface FacebookErrorResponse {
+  error?: {
+    message: string
+    type: string
+    code: number
+  }
+}
+
+// The page cursor is the Graph API `after` cursor; ratings are newest first
+export async function fetchFacebookPageRatingsPage(
+  pageId: string,
+  options: AdapterConfig,
+  after: string | null
+): Promise<ReviewPage<FacebookRating>> {
+  const url = facebookUrl(`/${encodeURIComponent(pageId)}/ratings`, options)
+  url.searchParams.set('fields', RATING_FIELDS)
+  url.searchParams.set('limit', '100')
+  if (after) {
+    url.searchParams.set('after', after)
+  }
+
+  const response = await platformFetch('facebook', url.toString(), {}, options)
+  if (!response.ok) {
+    throw await facebookResponseError(response)
+  }
+
+  const body: FacebookRatingsResponse = await response.json()
+
+  return {
+    reviews: (body.data ?? []).map(rating => ({ ...rating, page_id: pageId })),
+    nextPageCursor: body.paging?.next ? body.paging.cursors?.after ?? null : null,
+  }
+}
+
+// Pages Search needs the app to have Page Public Metadata Access
+export async function searchFacebookPages(
+  query: PlatformBusinessQuery,
+  options: AdapterConfig
+): Promise<PlatformBusinessCandidate[]> {
+  const url = facebookUrl('/pages/search', options)
+  url.searchParams.set('q', [query.name, query.address].filter(Boolean).join(' '))
+  url.searchParams.set('fields', PAGE_FIELDS)
+  url.searchParams.set('limit', String(SEARCH_RESULTS))
+
+  const response = await platformFetch('facebook', url.toString(), {}, options)
+  if (!response.ok) {
+    throw await facebookResponseError(response)
+  }
+
+  const body: FacebookPageSearchResponse = await response.json()
+  return (body.data ?? []).map(facebookCandidate)
+}
+
+export async function lookupFacebookPage(
+  pageId: string,
+  options: AdapterConfig
+): Promise<PlatformBusinessCandidate | null> {
+  const url = facebookUrl(`/${encodeURIComponent(pageId)}`, options)
+  url.searchParams.set('fields', PAGE_FIELDS)
+
+  const response = await platformFetch('facebook', url.toString(), {}, options)
+  if (!response.ok) {
+    const error = await facebookResponseError(response)
+    if (error.code === 'not_found') {
+      return null
+    }
+    throw error
+  }
+
+  return facebookCandidate(await response.json())
+}
+
+export function normalizeFacebookRating(rating: FacebookRating): ReviewData {
+  const storyId = rating.open_graph_story?.id
+
+  return {
+    platform_review_id: storyId ?? `${rating.page_id}:${rating.reviewer?.id ?? 'anonymous'}:${rating.created_time}`,
+    reviewer_name: rating.reviewer?.name || 'Facebook user',
+    reviewer_avatar: rating.reviewer?.picture?.data?.url,
+    rating: facebookRatingValue(rating),
+    review_text: rating.review_text ?? '',
+    review_date: new Date(rating.created_time).toISOString(),
+    review_url: storyId ? `https://www.facebook.com/${storyId}` : `https://www.facebook.com/${rating.page_id}/reviews`,
+  }
+}
+
+// Pages moved from 1-5 stars to yes/no recommendations. Older ratings still
+// carry a star value; recommendations map to the ends of the 1-5 scale.
+export function facebookRatingValue(rating: Pick<FacebookRating, 'rating' | 'recommendation_type'>): number {
+  if (typeof rating.rating === 'number' && rating.rating >= 1) {
+    return Math.min(5, Math.round(rating.rating))
+  }
+  return rating.recommendation_type === 'negative' ? 1 : 5
+}
+
+export const facebookAdapter: ReviewSourceAdapter<FacebookRating> = {
+  platform: 'facebook',
+  displayName: 'Facebook',
+  businessIdColumn: 'facebook_page_id',
+  env: {
+    apiKey: 'FACEBOOK_PAGE_ACCESS_TOKEN',
+    baseUrl: 'FACEBOOK_GRAPH_BASE_URL',
+    webhookSecret: 'FACEBOOK_WEBHOOK_SECRET',
+  },
+  capabilities: {
+    pagination: true,
+    replies: true,
+    newestFirst: true,
+    completeHistory: true,
+  },
+  fetchPage: fetchFacebookPageRatingsPage,
+  normalize: normalizeFacebookRating,
+  searchBusinesses: searchFacebookPages,
+  lookupBusiness: lookupFacebookPage,
+}
+
+function facebookCandidate(page: FacebookPage): PlatformBusinessCandidate {
+  const location = page.location
+  const address = page.single_line_address
+    ?? (location ? [location.street, location.city, location.state, location.zip].filter(Boolean).join(', ') : '')
+
+  return {
+    platform: 'facebook',
+    platform_business_id: page.id,
+    name: page.name,
+    address: address || null,
+    url: page.link ?? `https://www.facebook.com/${page.id}`,
+    rating: page.overall_star_rating ?? null,
+    review_count: page.rating_count ?? null,
+  }
+}
+
+function facebookUrl(path: string, options: AdapterConfig): URL {
+  if (!options.apiKey) {
+    throw new PlatformApiError('facebook', 'missing_api_key', 'FACEBOOK_PAGE_ACCESS_TOKEN is not set')
+  }
+
+  const baseUrl = (options.baseUrl || FACEBOOK_GRAPH_BASE_URL).replace(/\/$/, '')
+  const url = new URL(`${baseUrl}${path}`)
+  url.searchParams.set('access_token', options.apiKey)
+  return url
+}
+
+async function facebookResponseError(response: Response): Promise<PlatformApiError> {
+  let body: FacebookErrorResponse = {}
+  try {
+    body = await response.json()
+  } catch {
+    // Non-JSON error bodies still get mapped from the status code
+  }
+
+  const code = body.error?.code
+  const detail = body.error ? `${body.error.type} ${code}: ${body.error.message}` : `HTTP ${response.status}`
+
+  if (response.status === 401 || (code !== undefined && AUTH_ERROR_CODES.has(code))) {
+    return new PlatformAuthError('facebook', `Facebook page token rejected (${detail})`, response.status)
+  }
+
+  if (response.status === 429 || (code !== undefined && RATE_LIMIT_ERROR_CODES.has(code))) {
+    return new PlatformRateLimitError('facebook', `Facebook Graph API throttled (${detail})`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    })
+  }
+
+  if (response.status === 404 || code === 100) {
+    return new PlatformApiError('facebook', 'not_found', `Facebook page not found (${detail})`, {
+      status: response.status,
+    })
+  }
+
+  return new PlatformApiError('facebook', 'http_error', `Facebook Graph API request failed (${detail})`, {
+    status: response.status,
+    retryable: response.status >= 500,
+  })
+}
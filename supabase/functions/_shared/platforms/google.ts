@@ -0,0 +1,238 @@
+import {
+  PlatformApiError,
+  PlatformAuthError,
+  PlatformRateLimitError,
+  parseRetryAfter,
+} from './errors.ts'
+import { platformFetch } from './http.ts'
+import type {
+  AdapterConfig,
+  PlatformBusinessCandidate,
+  PlatformBusinessQuery,
+  ReviewData,
+  ReviewPage,
+  ReviewSourceAdapter,
+} from './types.ts'
+
+export const GOOGLE_PLACES_BASE_URL = 'https://maps.googleapis.com'
+
+export interface GooglePlaceReview {
+  author_name: string
+  author_url?: string
+  profile_photo_url?: string
+  rating: number
+  text?: string
+  time: number
+  language?: string
+}
+
+// A Place Details review plus the place context needed to normalize it
+export interface GoogleRawReview extends GooglePlaceReview {
+  place_id: string
+  place_url: string
+}
+
+interface GooglePlaceDetailsResponse {
+  status: string
+  error_message?: string
+  next_page_token?: string
+  result?: {
+    url?: string
+    reviews?: GooglePlaceReview[]
+  }
+}
+
+// Listing fields shared by Text Search results and Place Details
+export interface GooglePlace {
+  place_id: string
+  name: string
+  formatted_address?: string
+  url?: string
+  rating?: number
+  user_ratings_total?: number
+}
+
+interface GoogleTextSearchResponse {
+  status: string
+  error_message?: string
+  results?: GooglePlace[]
+}
+
+interface GooglePlaceLookupResponse {
+  status: string
+  error_message?: string
+  result?: GooglePlace
+}
+
+const SEARCH_RESULTS = 5
+
+// Place Details currently returns at most five reviews and no page token,
+// but we still follow `next_page_token` so larger result sets are not cut off
+export async function fetchGooglePlaceReviewPage(
+  placeId: string,
+  options: AdapterConfig,
+  pageToken: string | null
+): Promise<ReviewPage<GoogleRawReview>> {
+  const url = googleUrl('/maps/api/place/details/json', options)
+  url.searchParams.set('place_id', placeId)
+  url.searchParams.set('fields', 'url,reviews')
+  url.searchParams.set('reviews_sort', 'newest')
+  url.searchParams.set('reviews_no_translations', 'true')
+  if (pageToken) {
+    url.searchParams.set('pagetoken', pageToken)
+  }
+
+  const body: GooglePlaceDetailsResponse = await googleJson(url, options)
+
+  if (body.status === 'ZERO_RESULTS') {
+    return { reviews: [], nextPageCursor: null }
+  }
+  if (body.status !== 'OK') {
+    throw googleStatusError(body.status, body.error_message)
+  }
+
+  const placeUrl = body.result?.url ?? `https://www.google.com/maps/place/?q=place_id:${placeId}`
+  return {
+    reviews: (body.result?.reviews ?? []).map(review => ({ ...review, place_id: placeId, place_url: placeUrl })),
+    nextPageCursor: body.next_page_token ?? null,
+  }
+}
+
+export async function searchGooglePlaces(
+  query: PlatformBusinessQuery,
+  options: AdapterConfig
+): Promise<PlatformBusinessCandidate[]> {
+  const url = googleUrl('/maps/api/place/textsearch/json', options)
+  url.searchParams.set('query', [query.name, query.address].filter(Boolean).join(', '))
+
+  const body: GoogleTextSearchResponse = await googleJson(url, options)
+  if (body.status === 'ZERO_RESULTS') {
+    return []
+  }
+  if (body.status !== 'OK') {
+    throw googleStatusError(body.status, body.error_message)
+  }
+
+  return (body.results ?? []).slice(0, SEARCH_RESULTS).map(googleCandidate)
+}
+
+export async function lookupGooglePlace(
+  placeId: string,
+  options: AdapterConfig
+): Promise<PlatformBusinessCandidate | null> {
+  const url = googleUrl('/maps/api/place/details/json', options)
+  url.searchParams.set('place_id', placeId)
+  url.searchParams.set('fields', 'place_id,name,formatted_address,url,rating,user_ratings_total')
+
+  const body: GooglePlaceLookupResponse = await googleJson(url, options)
+  if (body.status === 'NOT_FOUND' || body.status === 'INVALID_REQUEST' || body.status === 'ZERO_RESULTS') {
+    return null
+  }
+  if (body.status !== 'OK' || !body.result) {
+    throw googleStatusError(body.status, body.error_message)
+  }
+
+  return googleCandidate({ ...body.result, place_id: body.result.place_id ?? placeId })
+}
+
+export function normalizeGoogleReview(review: GoogleRawReview): ReviewData {
+  return {
+    platform_review_id: googleReviewId(review.place_id, review),
+    reviewer_name: review.author_name || 'Google user',
+    reviewer_avatar: review.profile_photo_url,
+    rating: Math.round(review.rating),
+    review_text: review.text ?? '',
+    review_date: new Date(review.time * 1000).toISOString(),
+    review_url: review.author_url ?? review.place_url,
+  }
+}
+
+export const googleAdapter: ReviewSourceAdapter<GoogleRawReview> = {
+  platform: 'google',
+  displayName: 'Google',
+  businessIdColumn: 'google_place_id',
+  env: {
+    apiKey: 'GOOGLE_PLACES_API_KEY',
+    baseUrl: 'GOOGLE_PLACES_BASE_URL',
+    webhookSecret: 'GOOGLE_WEBHOOK_SECRET',
+  },
+  capabilities: {
+    pagination: true,
+    replies: false,
+    newestFirst: true,
+    completeHistory: false,
+  },
+  fetchPage: fetchGooglePlaceReviewPage,
+  normalize: normalizeGoogleReview,
+  searchBusinesses: searchGooglePlaces,
+  lookupBusiness: lookupGooglePlace,
+}
+
+function googleCandidate(place: GooglePlace): PlatformBusinessCandidate {
+  return {
+    platform: 'google',
+    platform_business_id: place.place_id,
+    name: place.name,
+    address: place.formatted_address ?? null,
+    url: place.url ?? `https://www.google.com/maps/place/?q=place_id:${place.place_id}`,
+    rating: place.rating ?? null,
+    review_count: place.user_ratings_total ?? null,
+  }
+}
+
+function googleUrl(path: string, options: AdapterConfig): URL {
+  if (!options.apiKey) {
+    throw new PlatformApiError('google', 'missing_api_key', 'GOOGLE_PLACES_API_KEY is not set')
+  }
+
+  const baseUrl = (options.baseUrl || GOOGLE_PLACES_BASE_URL).replace(/\/$/, '')
+  const url = new URL(`${baseUrl}${path}`)
+  url.searchParams.set('key', options.apiKey)
+  return url
+}
+
+async function googleJson<T>(url: URL, options: AdapterConfig): Promise<T> {
+  const response = await platformFetch('google', url.toString(), {}, options)
+  if (response.status === 429) {
+    throw new PlatformRateLimitError('google', 'Google Places rate limit exceeded (HTTP 429)', {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    })
+  }
+  if (!response.ok) {
+    throw new PlatformApiError('google', 'http_error', `Google Places returned HTTP ${response.status}`, {
+      status: response.status,
+      retryable: response.status >= 500,
+    })
+  }
+  return response.json()
+}
+
+// Place Details does not expose review IDs, so we derive one from the
+// contributor ID in author_url plus the publish time. Both are stable
+// between fetches, which keeps the reviews unique constraint effective.
+function googleReviewId(placeId: string, review: GooglePlaceReview): string {
+  const contributor = review.author_url?.match(/contrib\/(\d+)/)?.[1]
+  const author = contributor ?? review.author_name.toLowerCase().replace(/\s+/g, '-')
+  return `${placeId}:${author}:${review.time}`
+}
+
+function googleStatusError(status: string, message?: string): PlatformApiError {
+  const detail = message ? `${status}: ${message}` : status
+
+  switch (status) {
+    case 'REQUEST_DENIED':
+      return new PlatformAuthError('google', `Google Places API key rejected (${detail})`)
+    case 'OVER_QUERY_LIMIT':
+      return new PlatformRateLimitError('google', `Google Places quota exceeded (${detail})`)
+    case 'NOT_FOUND':
+    case 'INVALID_REQUEST':
+      return new PlatformApiError('google', 'not_found', `Google place not found (${detail})`)
+    case 'UNKNOWN_ERROR':
+      return new PlatformApiError('google', 'unknown_error', `Google Places server error (${detail})`, {
+        retryable: true,
+      })
+    default:
+      return new PlatformApiError('google', 'unexpected_status', `Unexpected Google Places status ${detail}`)
+  }
+}
@@ -0,0 +1,89 @@
+import { PlatformApiError, parseRetryAfter } from './errors.ts'
+import type { AdapterConfig, Platform } from './types.ts'
+
+export interface RetryPolicy {
+  // Total tries, including the first request
+  maxAttempts: number
+  baseDelayMs: number
+  // Upper bound for one backoff step and for an honored Retry-After
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30 * 1000,
+}
+
+// Grants permission to make one request to a platform, waiting if needed.
+// See rate-limiter.ts for the Postgres-backed implementation.
+export interface RateLimiter {
+  acquire(platform: Platform): Promise<void>
+}
+
+export interface HttpOptions {
+  retry?: Partial<RetryPolicy>
+  rateLimiter?: RateLimiter | null
+  // Injectable for tests so retries do not wait in real time
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+// Full jitter: anywhere between zero and the exponential step
+export function backoffDelayMs(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(random() * exponential)
+}
+
+// fetch for platform adapters. Takes a rate limiter token before every try and
+// retries 429, 5xx and network failures with exponential backoff. A Retry-After
+// header is honored when it fits within maxDelayMs; a longer one ends retrying
+// so the adapter can surface it as PlatformRateLimitError.retryAfterMs.
+// The last response is returned as-is, leaving error mapping to the adapter.
+export async function platformFetch(
+  platform: Platform,
+  url: string,
+  init: RequestInit,
+  config: Pick<AdapterConfig, 'fetch' | 'http'>
+): Promise<Response> {
+  const http = config.http ?? {}
+  const policy = { ...DEFAULT_RETRY_POLICY, ...http.retry }
+  const doFetch = config.fetch ?? fetch
+  const wait = http.sleep ?? sleep
+  const random = http.random ?? Math.random
+
+  for (let attempt = 1; ; attempt++) {
+    await http.rateLimiter?.acquire(platform)
+
+    let response: Response
+    try {
+      response = await doFetch(url, init)
+    } catch (error) {
+      if (attempt >= policy.maxAttempts) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new PlatformApiError(platform, 'network_error', `Request to ${platform} failed: ${message}`, {
+          retryable: true,
+        })
+      }
+      await wait(backoffDelayMs(attempt, policy, random))
+      continue
+    }
+
+    if (!RETRYABLE_STATUSES.has(response.status) || attempt >= policy.maxAttempts) {
+      return response
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+    if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) {
+      return response
+    }
+
+    // Drain the body so the connection can be reused
+    await response.body?.cancel()
+    await wait(retryAfterMs ?? backoffDelayMs(attempt, policy, random))
+  }
+}
@@ -0,0 +1,47 @@
+import { PlatformRateLimitError } from './errors.ts'
+import { sleep, type RateLimiter } from './http.ts'
+import type { Platform } from './types.ts'
+import type { DatabaseClient } from '../supabase.ts'
+
+export interface PostgresRateLimiterOptions {
+  // Longest a single request may wait for a token before giving up
+  maxWaitMs?: number
+  sleep?: (ms: number) => Promise<void>
+}
+
+// Token buckets live in `platform_rate_limits`, so every function instance and
+// concurrent scheduler fetch draws from the same per-platform quota.
+// `take_platform_token` returns 0 when a token was granted, otherwise the
+// milliseconds until one will be available.
+export function createPostgresRateLimiter(supabase: DatabaseClient, options: PostgresRateLimiterOptions = {}): RateLimiter {
+  const maxWaitMs = options.maxWaitMs ?? 20 * 1000
+  const wait = options.sleep ?? sleep
+
+  return {
+    async acquire(platform: Platform): Promise<void> {
+      let waited = 0
+
+      for (;;) {
+        const { data, error } = await supabase.rpc('take_platform_token', { p_platform: platform })
+
+        // Fail open: an unreachable quota table must not stop ingestion
+        if (error) {
+          console.error(`Error taking ${platform} rate limit token:`, error)
+          return
+        }
+
+        const waitMs = Number(data ?? 0)
+        if (waitMs <= 0) return
+
+        if (waited + waitMs > maxWaitMs) {
+          throw new PlatformRateLimitError(platform, `Local ${platform} request quota exhausted`, {
+            retryAfterMs: waitMs,
+          })
+        }
+
+        await wait(waitMs)
+        waited += waitMs
+      }
+    },
+  }
+}
@@ -0,0 +1,178 @@
+import { facebookAdapter } from './facebook.ts'
+import { googleAdapter } from './google.ts'
+import { tripAdvisorAdapter } from './tripadvisor.ts'
+import { yelpAdapter } from './yelp.ts'
+import { isNewerThanCursor, type ReviewCursor } from './cursor.ts'
+import type {
+  AdapterConfig,
+  Platform,
+  PlatformBusinessCandidate,
+  PlatformBusinessQuery,
+  ReviewData,
+  ReviewSourceAdapter,
+} from './types.ts'
+
+// Page budget for a single routine fetch when the caller sets none
+export const DEFAULT_MAX_PAGES = 5
+
+export interface NormalizedReviewPage {
+  reviews: ReviewData[]
+  // Cursor this page was requested with, null for the first page
+  pageCursor: string | null
+  nextPageCursor: string | null
+}
+
+export interface FetchReviewsOptions {
+  // Only return reviews newer than this; newest-first sources stop paging once they reach it
+  since?: ReviewCursor | null
+  maxPages?: number
+}
+
+// One platform's answer to a business search. A platform that fails sets
+// `error` instead of failing the whole search.
+export interface PlatformSearchResult {
+  platform: Platform
+  displayName: string
+  candidates: PlatformBusinessCandidate[]
+  error: string | null
+}
+
+export interface PlatformIdValidation {
+  platform: string
+  platform_business_id: string
+  valid: boolean
+  // The listing the ID belongs to, for the user to confirm
+  candidate: PlatformBusinessCandidate | null
+  error: string | null
+}
+
+const adapters = new Map<Platform, ReviewSourceAdapter>()
+
+export function registerAdapter<TRaw>(adapter: ReviewSourceAdapter<TRaw>): void {
+  adapters.set(adapter.platform, adapter as ReviewSourceAdapter)
+}
+
+export function getAdapter(platform: string): ReviewSourceAdapter | undefined {
+  return adapters.get(platform as Platform)
+}
+
+export function listAdapters(): ReviewSourceAdapter[] {
+  return Array.from(adapters.values())
+}
+
+// Builds an adapter's config from the environment variables it declares
+export function adapterConfigFromEnv(
+  adapter: ReviewSourceAdapter,
+  getEnv: (name: string) => string | undefined
+): AdapterConfig {
+  return {
+    apiKey: getEnv(adapter.env.apiKey) ?? '',
+    baseUrl: getEnv(adapter.env.baseUrl),
+  }
+}
+
+// Walks an adapter's pages from `startPageCursor` until the last page,
+// normalizing each one. Callers stop early by breaking out of the loop.
+export async function* iterateReviewPages(
+  adapter: ReviewSourceAdapter,
+  platformBusinessId: string,
+  config: AdapterConfig,
+  startPageCursor: string | null = null
+): AsyncGenerator<NormalizedReviewPage> {
+  let pageCursor = startPageCursor
+
+  do {
+    const page = await adapter.fetchPage(platformBusinessId, config, pageCursor)
+    yield {
+      reviews: page.reviews.map(raw => adapter.normalize(raw)),
+      pageCursor,
+      nextPageCursor: page.nextPageCursor,
+    }
+    pageCursor = page.nextPageCursor
+  } while (pageCursor)
+}
+
+export async function fetchNormalizedReviews(
+  adapter: ReviewSourceAdapter,
+  platformBusinessId: string,
+  config: AdapterConfig,
+  options: FetchReviewsOptions = {}
+): Promise<ReviewData[]> {
+  const { since = null, maxPages = DEFAULT_MAX_PAGES } = options
+  const reviews: ReviewData[] = []
+  let pages = 0
+
+  for await (const page of iterateReviewPages(adapter, platformBusinessId, config)) {
+    const newer = since ? page.reviews.filter(review => isNewerThanCursor(review, since)) : page.reviews
+    reviews.push(...newer)
+    pages++
+
+    // Everything past the first page that reaches the cursor is older still
+    const reachedCursor = newer.length < page.reviews.length
+    if ((reachedCursor && adapter.capabilities.newestFirst) || pages >= maxPages) {
+      break
+    }
+  }
+
+  return reviews
+}
+
+// Searches every registered platform at once for listings of one business
+export async function searchPlatformBusinesses(
+  query: PlatformBusinessQuery,
+  configFor: (adapter: ReviewSourceAdapter) => AdapterConfig
+): Promise<PlatformSearchResult[]> {
+  return Promise.all(listAdapters().map(async adapter => {
+    try {
+      const candidates = await adapter.searchBusinesses(query, configFor(adapter))
+      return { platform: adapter.platform, displayName: adapter.displayName, candidates, error: null }
+    } catch (error) {
+      return {
+        platform: adapter.platform,
+        displayName: adapter.displayName,
+        candidates: [],
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }))
+}
+
+// Confirms each platform ID names a real listing before it is saved on a business
+export async function validatePlatformBusinessIds(
+  ids: Partial<Record<string, string>>,
+  configFor: (adapter: ReviewSourceAdapter) => AdapterConfig
+): Promise<PlatformIdValidation[]> {
+  const entries = Object.entries(ids).filter((entry): entry is [string, string] => !!entry[1]?.trim())
+
+  return Promise.all(entries.map(async ([platform, rawId]) => {
+    const platformBusinessId = rawId.trim()
+    const adapter = getAdapter(platform)
+    if (!adapter) {
+      return { platform, platform_business_id: platformBusinessId, valid: false, candidate: null, error: `Unsupported platform: ${platform}` }
+    }
+
+    try {
+      const candidate = await adapter.lookupBusiness(platformBusinessId, configFor(adapter))
+      return {
+        platform,
+        platform_business_id: platformBusinessId,
+        valid: candidate !== null,
+        candidate,
+        error: candidate ? null : `${adapter.displayName} has no listing with this ID`,
+      }
+    } catch (error) {
+      return {
+        platform,
+        platform_business_id: platformBusinessId,
+        valid: false,
+        candidate: null,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }))
+}
+
+registerAdapter(googleAdapter)
+registerAdapter(yelpAdapter)
+registerAdapter(facebookAdapter)
+registerAdapter(tripAdvisorAdapter)
@@ -0,0 +1,244 @@
+import {
+  PlatformApiError,
+  PlatformAuthError,
+  PlatformRateLimitError,
+  parseRetryAfter,
+} from './errors.ts'
+import { platformFetch } from './http.ts'
+import type {
+  AdapterConfig,
+  PlatformBusinessCandidate,
+  PlatformBusinessQuery,
+  ReviewData,
+  ReviewPage,
+  ReviewSourceAdapter,
+} from './types.ts'
+
+export const TRIPADVISOR_CONTENT_BASE_URL = 'https://api.content.tripadvisor.com/api/v1'
+
+const PAGE_SIZE = 5
+
+export interface TripAdvisorReview {
+  id: number
+  location_id: number | string
+  lang?: string
+  published_date: string
+  rating: number
+  url?: string
+  title?: string
+  text?: string
+  user?: {
+    username?: string
+    avatar?: {
+      thumbnail?: string
+      small?: string
+      large?: string
+    }
+  }
+}
+
+interface TripAdvisorReviewsResponse {
+  data: TripAdvisorReview[]
+  paging?: {
+    next?: string | null
+    total_results?: string | number
+  }
+}
+
+// Location Search returns the first fields; Location Details adds the rest
+export interface TripAdvisorLocation {
+  location_id: number | string
+  name: string
+  address_obj?: {
+    address_string?: string
+  }
+  web_url?: string
+  rating?: string | number
+  num_reviews?: string | number
+}
+
+interface TripAdvisorLocationSearchResponse {
+  data: TripAdvisorLocation[]
+}
+
+interface TripAdvisorErrorResponse {
+  error?: {
+    message: string
+    type?: string
+    code?: number
+  }
+  message?: string
+}
+
+// The page cursor is the numeric offset; the Content API lists newest first
+export async function fetchTripAdvisorLocationReviewPage(
+  locationId: string,
+  options: AdapterConfig,
+  pageCursor: string | null
+): Promise<ReviewPage<TripAdvisorReview>> {
+  const offset = Number(pageCursor ?? 0) || 0
+
+  const url = tripAdvisorUrl(`/location/${encodeURIComponent(locationId)}/reviews`, options)
+  url.searchParams.set('limit', String(PAGE_SIZE))
+  url.searchParams.set('offset', String(offset))
+
+  const response = await tripAdvisorGet(url, options)
+  if (!response.ok) {
+    throw await tripAdvisorResponseError(response)
+  }
+
+  const body: TripAdvisorReviewsResponse = await response.json()
+  const reviews = body.data ?? []
+
+  return {
+    reviews,
+    nextPageCursor: reviews.length && body.paging?.next ? String(offset + reviews.length) : null,
+  }
+}
+
+export async function searchTripAdvisorLocations(
+  query: PlatformBusinessQuery,
+  options: AdapterConfig
+): Promise<PlatformBusinessCandidate[]> {
+  const url = tripAdvisorUrl('/location/search', options)
+  url.searchParams.set('searchQuery', query.name)
+  if (query.address) {
+    url.searchParams.set('address', query.address)
+  }
+
+  const response = await tripAdvisorGet(url, options)
+  if (!response.ok) {
+    throw await tripAdvisorResponseError(response)
+  }
+
+  const body: TripAdvisorLocationSearchResponse = await response.json()
+  return (body.data ?? []).map(tripAdvisorCandidate)
+}
+
+export async function lookupTripAdvisorLocation(
+  locationId: string,
+  options: AdapterConfig
+): Promise<PlatformBusinessCandidate | null> {
+  const url = tripAdvisorUrl(`/location/${encodeURIComponent(locationId)}/details`, options)
+
+  const response = await tripAdvisorGet(url, options)
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw await tripAdvisorResponseError(response)
+  }
+
+  return tripAdvisorCandidate(await response.json())
+}
+
+export function normalizeTripAdvisorReview(review: TripAdvisorReview): ReviewData {
+  const text = [review.title, review.text].filter(Boolean).join('\n\n')
+
+  return {
+    platform_review_id: String(review.id),
+    reviewer_name: review.user?.username || 'Tripadvisor member',
+    reviewer_avatar: review.user?.avatar?.small ?? review.user?.avatar?.thumbnail,
+    rating: bubbleRatingToStars(review.rating),
+    review_text: text,
+    review_date: new Date(review.published_date).toISOString(),
+    review_url: review.url ?? `https://www.tripadvisor.com/ShowUserReviews-d${review.location_id}-r${review.id}`,
+  }
+}
+
+// Bubble ratings arrive either as 1-5 or in the "bubble" form of 10-50
+// (45 = four and a half bubbles). The reviews table stores whole 1-5 stars.
+export function bubbleRatingToStars(value: number): number {
+  const stars = value > 5 ? value / 10 : value
+  return Math.min(5, Math.max(1, Math.round(stars)))
+}
+
+export const tripAdvisorAdapter: ReviewSourceAdapter<TripAdvisorReview> = {
+  platform: 'tripadvisor',
+  displayName: 'Tripadvisor',
+  businessIdColumn: 'tripadvisor_location_id',
+  env: {
+    apiKey: 'TRIPADVISOR_API_KEY',
+    baseUrl: 'TRIPADVISOR_API_BASE_URL',
+    webhookSecret: 'TRIPADVISOR_WEBHOOK_SECRET',
+  },
+  capabilities: {
+    pagination: true,
+    replies: false,
+    newestFirst: true,
+    completeHistory: false,
+  },
+  fetchPage: fetchTripAdvisorLocationReviewPage,
+  normalize: normalizeTripAdvisorReview,
+  searchBusinesses: searchTripAdvisorLocations,
+  lookupBusiness: lookupTripAdvisorLocation,
+}
+
+// The Content API sends numbers as strings in location payloads
+function tripAdvisorCandidate(location: TripAdvisorLocation): PlatformBusinessCandidate {
+  const rating = Number(location.rating)
+  const reviewCount = Number(location.num_reviews)
+
+  return {
+    platform: 'tripadvisor',
+    platform_business_id: String(location.location_id),
+    name: location.name,
+    address: location.address_obj?.address_string ?? null,
+    url: location.web_url ?? null,
+    rating: location.rating !== undefined && !Number.isNaN(rating) ? rating : null,
+    review_count: location.num_reviews !== undefined && !Number.isNaN(reviewCount) ? reviewCount : null,
+  }
+}
+
+function tripAdvisorUrl(path: string, options: AdapterConfig): URL {
+  if (!options.apiKey) {
+    throw new PlatformApiError('tripadvisor', 'missing_api_key', 'TRIPADVISOR_API_KEY is not set')
+  }
+
+  const baseUrl = (options.baseUrl || TRIPADVISOR_CONTENT_BASE_URL).replace(/\/$/, '')
+  const url = new URL(`${baseUrl}${path}`)
+  url.searchParams.set('key', options.apiKey)
+  // Reviews and listing text come back in this language only; the API defaults to English
+  if (options.language) {
+    url.searchParams.set('language', options.language)
+  }
+  return url
+}
+
+function tripAdvisorGet(url: URL, options: AdapterConfig): Promise<Response> {
+  return platformFetch('tripadvisor', url.toString(), { headers: { Accept: 'application/json' } }, options)
+}
+
+async function tripAdvisorResponseError(response: Response): Promise<PlatformApiError> {
+  let body: TripAdvisorErrorResponse = {}
+  try {
+    body = await response.json()
+  } catch {
+    // Non-JSON error bodies still get mapped from the status code
+  }
+
+  const message = body.error?.message ?? body.message
+  const detail = message ? `HTTP ${response.status}: ${message}` : `HTTP ${response.status}`
+
+  if (response.status === 401 || response.status === 403) {
+    return new PlatformAuthError('tripadvisor', `Tripadvisor API key rejected (${detail})`, response.status)
+  }
+
+  if (response.status === 429) {
+    return new PlatformRateLimitError('tripadvisor', `Tripadvisor rate limit exceeded (${detail})`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    })
+  }
+
+  if (response.status === 404) {
+    return new PlatformApiError('tripadvisor', 'not_found', `Tripadvisor location not found (${detail})`, {
+      status: response.status,
+    })
+  }
+
+  return new PlatformApiError('tripadvisor', 'http_error', `Tripadvisor request failed (${detail})`, {
+    status: response.status,
+    retryable: response.status >= 500,
+  })
+}
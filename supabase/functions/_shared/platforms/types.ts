@@ -0,0 +1,90 @@
+import type { HttpOptions } from './http.ts'
+
+// Mirrors `Platform` in database-types.ts and the reviews.platform CHECK constraint
+export type Platform = 'google' | 'yelp' | 'facebook' | 'tripadvisor'
+
+// Columns on `businesses` holding a platform's identifier for the business
+export type PlatformIdColumn = 'google_place_id' | 'yelp_business_id' | 'facebook_page_id' | 'tripadvisor_location_id'
+
+// Normalized review shape shared by every platform adapter.
+// Adapters map the platform's own payload into this before anything is stored.
+export interface ReviewData {
+  platform_review_id: string
+  reviewer_name: string
+  reviewer_avatar?: string
+  rating: number
+  review_text: string
+  review_date: string
+  review_url: string | null
+}
+
+export interface AdapterCapabilities {
+  // The platform API can return more than one page of reviews
+  pagination: boolean
+  // The platform API lets the owner post a public reply
+  replies: boolean
+  // Pages come back newest first, so incremental fetches can stop early
+  newestFirst: boolean
+  // Paging reaches every review the platform holds, not just a recent subset.
+  // Only then can reviews missing after a full sync be treated as removed.
+  completeHistory: boolean
+}
+
+export interface AdapterConfig {
+  apiKey: string
+  baseUrl?: string
+  fetch?: typeof fetch
+  // Retry and rate limiting behaviour of platformFetch
+  http?: HttpOptions
+  // Language code for platforms that return reviews in one language per
+  // request; they fall back to their own default without it
+  language?: string
+}
+
+// One page of raw platform reviews. `nextPageCursor` is an opaque token
+// (page token, offset or Graph cursor) and is null on the last page.
+export interface ReviewPage<TRaw> {
+  reviews: TRaw[]
+  nextPageCursor: string | null
+}
+
+// What the onboarding wizard knows about a business before it has platform IDs
+export interface PlatformBusinessQuery {
+  name: string
+  address?: string
+}
+
+// A platform listing that may be the business being onboarded
+export interface PlatformBusinessCandidate {
+  platform: Platform
+  platform_business_id: string
+  name: string
+  address: string | null
+  url: string | null
+  rating: number | null
+  review_count: number | null
+}
+
+// A review source: one module per platform, registered in registry.ts.
+// `fetchPage` returns one page of the platform's raw review objects and
+// `normalize` maps each into ReviewData, so callers never see platform payloads.
+export interface ReviewSourceAdapter<TRaw = unknown> {
+  platform: Platform
+  displayName: string
+  // Column on `businesses` that holds this platform's identifier
+  businessIdColumn: PlatformIdColumn
+  // Environment variables the edge functions read to build AdapterConfig
+  env: {
+    apiKey: string
+    baseUrl: string
+    // Shared secret that signs reviews this platform pushes to receive-review-webhook
+    webhookSecret: string
+  }
+  capabilities: AdapterCapabilities
+  fetchPage(platformBusinessId: string, config: AdapterConfig, pageCursor: string | null): Promise<ReviewPage<TRaw>>
+  normalize(raw: TRaw): ReviewData
+  // Listings matching a name and address, best match first
+  searchBusinesses(query: PlatformBusinessQuery, config: AdapterConfig): Promise<PlatformBusinessCandidate[]>
+  // The listing behind an ID, or null when the platform does not know it
+  lookupBusiness(platformBusinessId: string, config: AdapterConfig): Promise<PlatformBusinessCandidate | null>
+}
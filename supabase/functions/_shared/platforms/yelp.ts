@@ -0,0 +1,237 @@
+import {
+  PlatformApiError,
+  PlatformAuthError,
+  PlatformRateLimitError,
+  parseRetryAfter,
+} from './errors.ts'
+import { platformFetch } from './http.ts'
+import type {
+  AdapterConfig,
+  PlatformBusinessCandidate,
+  PlatformBusinessQuery,
+  ReviewData,
+  ReviewPage,
+  ReviewSourceAdapter,
+} from './types.ts'
+
+export const YELP_FUSION_BASE_URL = 'https://api.yelp.com'
+
+const PAGE_SIZE = 50
+const SEARCH_RESULTS = 5
+
+export interface YelpReview {
+  id: string
+  url: string
+  text: string
+  rating: number
+  time_created: string
+  user: {
+    id: string
+    profile_url?: string
+    image_url?: string | null
+    name: string
+  }
+}
+
+interface YelpReviewsResponse {
+  reviews: YelpReview[]
+  total: number
+}
+
+export interface YelpBusiness {
+  id: string
+  name: string
+  url?: string
+  rating?: number
+  review_count?: number
+  location?: {
+    display_address?: string[]
+  }
+}
+
+interface YelpBusinessSearchResponse {
+  businesses: YelpBusiness[]
+  total: number
+}
+
+interface YelpErrorResponse {
+  error?: {
+    code: string
+    description: string
+  }
+}
+
+// The page cursor is the numeric offset into Yelp's newest-first listing
+export async function fetchYelpBusinessReviewPage(
+  yelpBusinessId: string,
+  options: AdapterConfig,
+  pageCursor: string | null
+): Promise<ReviewPage<YelpReview>> {
+  const offset = Number(pageCursor ?? 0) || 0
+
+  const url = yelpUrl(`/v3/businesses/${encodeURIComponent(yelpBusinessId)}/reviews`, options)
+  url.searchParams.set('limit', String(PAGE_SIZE))
+  url.searchParams.set('offset', String(offset))
+  url.searchParams.set('sort_by', 'newest')
+
+  const response = await yelpGet(url, options)
+  if (!response.ok) {
+    throw await yelpResponseError(response)
+  }
+
+  const body: YelpReviewsResponse = await response.json()
+  const reviews = body.reviews ?? []
+  const nextOffset = offset + reviews.length
+
+  return {
+    reviews,
+    nextPageCursor: reviews.length && nextOffset < body.total ? String(nextOffset) : null,
+  }
+}
+
+// Business Search needs a location, so a query without an address finds nothing
+export async function searchYelpBusinesses(
+  query: PlatformBusinessQuery,
+  options: AdapterConfig
+): Promise<PlatformBusinessCandidate[]> {
+  if (!query.address) {
+    return []
+  }
+
+  const url = yelpUrl('/v3/businesses/search', options)
+  url.searchParams.set('term', query.name)
+  url.searchParams.set('location', query.address)
+  url.searchParams.set('limit', String(SEARCH_RESULTS))
+
+  const response = await yelpGet(url, options)
+  if (!response.ok) {
+    throw await yelpResponseError(response)
+  }
+
+  const body: YelpBusinessSearchResponse = await response.json()
+  return (body.businesses ?? []).map(yelpCandidate)
+}
+
+export async function lookupYelpBusiness(
+  yelpBusinessId: string,
+  options: AdapterConfig
+): Promise<PlatformBusinessCandidate | null> {
+  const url = yelpUrl(`/v3/businesses/${encodeURIComponent(yelpBusinessId)}`, options)
+
+  const response = await yelpGet(url, options)
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw await yelpResponseError(response)
+  }
+
+  return yelpCandidate(await response.json())
+}
+
+export function normalizeYelpReview(review: YelpReview): ReviewData {
+  return {
+    platform_review_id: review.id,
+    reviewer_name: review.user?.name || 'Yelp user',
+    reviewer_avatar: review.user?.image_url ?? undefined,
+    rating: Math.round(review.rating),
+    review_text: review.text ?? '',
+    review_date: yelpTimeToIso(review.time_created),
+    review_url: review.url,
+  }
+}
+
+export const yelpAdapter: ReviewSourceAdapter<YelpReview> = {
+  platform: 'yelp',
+  displayName: 'Yelp',
+  businessIdColumn: 'yelp_business_id',
+  env: {
+    apiKey: 'YELP_API_KEY',
+    baseUrl: 'YELP_API_BASE_URL',
+    webhookSecret: 'YELP_WEBHOOK_SECRET',
+  },
+  capabilities: {
+    pagination: true,
+    replies: false,
+    newestFirst: true,
+    completeHistory: false,
+  },
+  fetchPage: fetchYelpBusinessReviewPage,
+  normalize: normalizeYelpReview,
+  searchBusinesses: searchYelpBusinesses,
+  lookupBusiness: lookupYelpBusiness,
+}
+
+// Yelp reports `time_created` as "YYYY-MM-DD HH:mm:ss" in Pacific time
+// without an offset, so resolve the offset for that instant explicitly.
+export function yelpTimeToIso(value: string): string {
+  const [date, time = '00:00:00'] = value.trim().split(' ')
+  const asUtc = new Date(`${date}T${time}Z`)
+  const pacific = new Date(asUtc.toLocaleString('en-US', { timeZone: 'America/Los_Angeles' }))
+  const utc = new Date(asUtc.toLocaleString('en-US', { timeZone: 'UTC' }))
+  return new Date(asUtc.getTime() + (utc.getTime() - pacific.getTime())).toISOString()
+}
+
+function yelpCandidate(business: YelpBusiness): PlatformBusinessCandidate {
+  return {
+    platform: 'yelp',
+    platform_business_id: business.id,
+    name: business.name,
+    address: business.location?.display_address?.join(', ') || null,
+    url: business.url ?? null,
+    rating: business.rating ?? null,
+    review_count: business.review_count ?? null,
+  }
+}
+
+function yelpUrl(path: string, options: AdapterConfig): URL {
+  if (!options.apiKey) {
+    throw new PlatformApiError('yelp', 'missing_api_key', 'YELP_API_KEY is not set')
+  }
+
+  const baseUrl = (options.baseUrl || YELP_FUSION_BASE_URL).replace(/\/$/, '')
+  return new URL(`${baseUrl}${path}`)
+}
+
+function yelpGet(url: URL, options: AdapterConfig): Promise<Response> {
+  return platformFetch('yelp', url.toString(), {
+    headers: {
+      Authorization: `Bearer ${options.apiKey}`,
+      Accept: 'application/json',
+    },
+  }, options)
+}
+
+async function yelpResponseError(response: Response): Promise<PlatformApiError> {
+  let body: YelpErrorResponse = {}
+  try {
+    body = await response.json()
+  } catch {
+    // Non-JSON error bodies still get mapped from the status code
+  }
+
+  const code = body.error?.code ?? `HTTP_${response.status}`
+  const detail = body.error?.description ? `${code}: ${body.error.description}` : code
+
+  if (response.status === 401 || response.status === 403) {
+    return new PlatformAuthError('yelp', `Yelp Fusion API key rejected (${detail})`, response.status)
+  }
+
+  if (response.status === 429) {
+    return new PlatformRateLimitError('yelp', `Yelp Fusion rate limit exceeded (${detail})`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    })
+  }
+
+  if (response.status === 404) {
+    return new PlatformApiError('yelp', 'not_found', `Yelp business not found (${detail})`, {
+      status: response.status,
+    })
+  }
+
+  return new PlatformApiError('yelp', 'http_error', `Yelp Fusion request failed (${detail})`, {
+    status: response.status,
+    retryable: response.status >= 500,
+  })
+}
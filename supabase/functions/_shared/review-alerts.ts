@@ -0,0 +1,50 @@
+import type { DatabaseClient } from './supabase.ts'
+
+interface AlertBusiness {
+  id: string
+  user_id: string | null
+  name: string
+}
+
+interface AlertReview {
+  reviewer_name: string | null
+  rating: number
+}
+
+// Queues one pending `new_review` email per review for the business owner.
+// Callers decide which reviews are genuinely new; backfilled history and the
+// first sync of a platform never reach this.
+export async function queueNewReviewAlerts(
+  supabase: DatabaseClient,
+  business: AlertBusiness,
+  platformName: string,
+  reviews: AlertReview[]
+): Promise<number> {
+  if (reviews.length === 0 || !business.user_id) return 0
+
+  const { data: preferences } = await supabase
+    .from('user_preferences')
+    .select('email_notifications_enabled')
+    .eq('user_id', business.user_id)
+    .maybeSingle()
+
+  if (preferences?.email_notifications_enabled === false) return 0
+
+  const { error } = await supabase
+    .from('email_notifications')
+    .insert(reviews.map(review => ({
+      user_id: business.user_id,
+      business_id: business.id,
+      notification_type: 'new_review' as const,
+      subject: `New Review for ${business.name}`,
+      content: `You received a new ${review.rating}-star review from ${review.reviewer_name ?? 'an anonymous reviewer'} on ${platformName}.`
+    })))
+
+  // Alerts are best effort; the reviews themselves are already stored
+  if (error) {
+    console.error('Error queueing new review alerts:', error)
+    return 0
+  }
+
+  return reviews.length
+}
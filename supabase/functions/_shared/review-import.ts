@@ -0,0 +1,240 @@
+import type { ReviewData } from './platforms/types.ts'
+
+export type ImportFormat = 'csv' | 'json'
+
+// Review columns an import can fill, in the order the mapping UI lists them
+export const IMPORT_FIELDS = [
+  'platform_review_id',
+  'reviewer_name',
+  'reviewer_avatar',
+  'rating',
+  'review_text',
+  'review_date',
+  'review_url',
+] as const
+
+export type ImportField = typeof IMPORT_FIELDS[number]
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['rating', 'review_date']
+
+// Review field -> column name in the uploaded file
+export type ColumnMapping = Partial<Record<ImportField, string>>
+
+export type ImportRecord = Record<string, unknown>
+
+export interface ParsedImportFile {
+  columns: string[]
+  records: ImportRecord[]
+}
+
+export interface ImportRowResult {
+  // 1-based data row, not counting a CSV header
+  row: number
+  review: ReviewData | null
+  errors: string[]
+}
+
+// Keeps one edge function call within memory and time limits
+export const MAX_IMPORT_ROWS = 5000
+
+// Reviews dated further ahead than this are rejected; covers timezone slop
+const FUTURE_DATE_TOLERANCE_MS = 24 * 60 * 60 * 1000
+
+export class ImportParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportParseError'
+  }
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new ImportParseError('CSV ends inside a quoted field')
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+// Accepts a CSV with a header row, or JSON holding an array of objects
+// (optionally wrapped as `{ "reviews": [...] }`)
+export function parseImportFile(content: string, format: ImportFormat): ParsedImportFile {
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(content)
+    if (!header) {
+      throw new ImportParseError('CSV file is empty')
+    }
+
+    const columns = header.map(column => column.trim())
+    const records = rows.map(cells =>
+      Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+    )
+    return { columns, records }
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    throw new ImportParseError('File is not valid JSON')
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { reviews?: unknown })?.reviews
+  if (!Array.isArray(list) || list.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+    throw new ImportParseError('JSON must be an array of review objects')
+  }
+
+  const columns = Array.from(new Set(list.flatMap(item => Object.keys(item))))
+  return { columns, records: list as ImportRecord[] }
+}
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  platform_review_id: ['platform_review_id', 'review_id', 'id', 'external_id'],
+  reviewer_name: ['reviewer_name', 'reviewer', 'author', 'author_name', 'name', 'user', 'user_name', 'customer'],
+  reviewer_avatar: ['reviewer_avatar', 'avatar', 'avatar_url', 'profile_photo_url', 'image_url'],
+  rating: ['rating', 'stars', 'star_rating', 'score'],
+  review_text: ['review_text', 'text', 'review', 'comment', 'content', 'body', 'message'],
+  review_date: ['review_date', 'date', 'created_at', 'created', 'time', 'published_at', 'submitted_at'],
+  review_url: ['review_url', 'url', 'link', 'permalink'],
+}
+
+const normalizeColumn = (column: string) => column.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+// Best guess at a mapping from header names; the user can correct it
+export function suggestColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of FIELD_ALIASES[field]) {
+      const column = columns.find(candidate => !used.has(candidate) && normalizeColumn(candidate) === alias)
+      if (column) {
+        mapping[field] = column
+        used.add(column)
+        break
+      }
+    }
+  }
+
+  return mapping
+}
+
+export function missingRequiredFields(mapping: ColumnMapping): ImportField[] {
+  return REQUIRED_IMPORT_FIELDS.filter(field => !mapping[field])
+}
+
+// Maps and checks every record. Rows without a mapped platform_review_id get
+// one derived from their content, so importing the same file twice dedups.
+export async function validateImportRecords(
+  records: ImportRecord[],
+  mapping: ColumnMapping,
+  now: number = Date.now()
+): Promise<ImportRowResult[]> {
+  return Promise.all(records.map((record, index) => validateImportRecord(record, index + 1, mapping, now)))
+}
+
+async function validateImportRecord(
+  record: ImportRecord,
+  row: number,
+  mapping: ColumnMapping,
+  now: number
+): Promise<ImportRowResult> {
+  const value = (field: ImportField): string => {
+    const column = mapping[field]
+    const raw = column === undefined ? undefined : record[column]
+    return raw === undefined || raw === null ? '' : String(raw).trim()
+  }
+  const errors: string[] = []
+
+  const ratingText = value('rating')
+  const rating = Number(ratingText.replace(/\s*(\/\s*5|stars?)$/i, ''))
+  if (ratingText === '') {
+    errors.push('Rating is required')
+  } else if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.push(`Rating must be a whole number from 1 to 5, got "${ratingText}"`)
+  }
+
+  const dateText = value('review_date')
+  const date = dateText === '' ? NaN : Date.parse(dateText)
+  if (dateText === '') {
+    errors.push('Review date is required')
+  } else if (Number.isNaN(date)) {
+    errors.push(`Review date "${dateText}" is not a recognizable date`)
+  } else if (date > now + FUTURE_DATE_TOLERANCE_MS) {
+    errors.push(`Review date "${dateText}" is in the future`)
+  }
+
+  for (const field of ['reviewer_avatar', 'review_url'] as const) {
+    const url = value(field)
+    if (url !== '' && !/^https?:\/\//i.test(url)) {
+      errors.push(`${field} must be an http(s) URL`)
+    }
+  }
+
+  if (errors.length > 0) {
+    return { row, review: null, errors }
+  }
+
+  const review: ReviewData = {
+    platform_review_id: value('platform_review_id'),
+    reviewer_name: value('reviewer_name') || 'Anonymous',
+    reviewer_avatar: value('reviewer_avatar') || undefined,
+    rating,
+    review_text: value('review_text'),
+    review_date: new Date(date).toISOString(),
+    review_url: value('review_url') || null,
+  }
+  review.platform_review_id ||= await importedReviewId(review)
+
+  return { row, review, errors }
+}
+
+async function importedReviewId(review: ReviewData): Promise<string> {
+  const content = [review.review_date, review.reviewer_name, review.rating, review.review_text].join('\n')
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+  return `import-${hex.slice(0, 32)}`
+}
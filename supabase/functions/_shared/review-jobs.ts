@@ -0,0 +1,73 @@
+import type { Database } from './database.ts'
+import type { DatabaseClient } from './supabase.ts'
+export type ReviewJobStatus = 'pending' | 'processing' | 'succeeded' | 'dead'
+
+export interface ReviewJob {
+  id: string
+  review_id: string
+  business_id: string
+  job_type: 'analyze_sentiment'
+  status: ReviewJobStatus
+  attempts: number
+  max_attempts: number
+  run_after: string | null
+  last_error: string | null
+}
+
+export type ReviewJobUpdate = Database['public']['Tables']['review_jobs']['Update']
+
+// A failure that retrying cannot fix, such as the pipeline rejecting the input
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
+
+// First retry waits about 30 seconds, doubling per attempt up to an hour
+export const REVIEW_JOB_BASE_DELAY_MS = 30 * 1000
+export const REVIEW_JOB_MAX_DELAY_MS = 60 * 60 * 1000
+
+// Exponential backoff with jitter: a random delay between half and all of the
+// exponential step, so jobs that failed together do not retry in lockstep.
+export function reviewJobRetryDelayMs(attempts: number, random: () => number = Math.random): number {
+  const exponential = REVIEW_JOB_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1)
+  const capped = Math.min(REVIEW_JOB_MAX_DELAY_MS, exponential)
+  return Math.round(capped / 2 + random() * (capped / 2))
+}
+
+// Update to apply after a failed attempt. Permanent failures, and jobs that
+// have used all their attempts, move to the dead-letter state.
+export function failedReviewJobUpdate(
+  job: Pick<ReviewJob, 'attempts' | 'max_attempts'>,
+  error: string,
+  options: { permanent?: boolean; now?: Date; random?: () => number } = {}
+): ReviewJobUpdate {
+  const { permanent = false, now = new Date(), random } = options
+
+  if (permanent || job.attempts >= job.max_attempts) {
+    return { status: 'dead', last_error: error, locked_at: null, locked_by: null }
+  }
+
+  return {
+    status: 'pending',
+    last_error: error,
+    locked_at: null,
+    locked_by: null,
+    run_after: new Date(now.getTime() + reviewJobRetryDelayMs(job.attempts, random)).toISOString()
+  }
+}
+
+export async function enqueueReviewJobs(supabase: DatabaseClient, reviewIds: string[]): Promise<number> {
+  if (reviewIds.length === 0) return 0
+
+  const { data, error } = await supabase.rpc('enqueue_review_jobs', { p_review_ids: reviewIds })
+
+  // Stored reviews stay pending, so the next enqueue or a manual retry picks them up
+  if (error) {
+    console.error('Error enqueueing review jobs:', error)
+    return 0
+  }
+
+  return data ?? 0
+}
@@ -0,0 +1,247 @@
+import type { ReviewData } from './platforms/types.ts'
+import type { Database } from './database.ts'
+import type { DatabaseClient } from './supabase.ts'
+
+export type StoredReview = Database['public']['Tables']['reviews']['Row']
+type ReviewInsert = Database['public']['Tables']['reviews']['Insert']
+
+// Imported reviews may come from sources without an adapter
+export type ReviewPlatform = StoredReview['platform']
+
+// Rows per upsert statement; keeps each request well under PostgREST's body limit
+export const REVIEW_UPSERT_CHUNK_SIZE = 500
+
+const REVIEW_CONFLICT_TARGET = 'business_id,platform,platform_review_id'
+
+export interface StoreResult {
+  // Rows created by this call, as returned by the database
+  inserted: StoredReview[]
+  // platform_review_ids that were already stored (or repeated within the batch)
+  existing: string[]
+  // Already stored rows whose text or rating changed, after the update
+  updated: StoredReview[]
+  failed: number
+}
+
+export interface StoreReviewsOptions {
+  chunkSize?: number
+  // Links created rows to a review_imports row so the import can be rolled back
+  importId?: string
+  // Compare already stored reviews for edits. Imports turn this off so they
+  // never modify reviews they did not create.
+  reconcile?: boolean
+}
+
+// Writes reviews with one `INSERT ... ON CONFLICT DO NOTHING` per chunk. Only
+// rows that were actually created come back from the upsert, which is how
+// new reviews are told apart from ones already stored. Stored reviews are
+// then compared by content hash so edits on the platform are picked up.
+export async function storeReviews(
+  supabase: DatabaseClient,
+  businessId: string,
+  platform: ReviewPlatform,
+  reviews: ReviewData[],
+  options: StoreReviewsOptions = {}
+): Promise<StoreResult> {
+  const { chunkSize = REVIEW_UPSERT_CHUNK_SIZE, importId, reconcile = true } = options
+  const result: StoreResult = { inserted: [], existing: [], updated: [], failed: 0 }
+  const seenAt = new Date().toISOString()
+
+  // Postgres rejects a single statement that touches the same key twice
+  const unique = new Map<string, ReviewData>()
+  for (const review of reviews) {
+    if (unique.has(review.platform_review_id)) {
+      result.existing.push(review.platform_review_id)
+    } else {
+      unique.set(review.platform_review_id, review)
+    }
+  }
+
+  const rows = await Promise.all(Array.from(unique.values()).map(async (review): Promise<ReviewInsert> => ({
+    business_id: businessId,
+    platform,
+    platform_review_id: review.platform_review_id,
+    reviewer_name: review.reviewer_name,
+    reviewer_avatar: review.reviewer_avatar,
+    rating: review.rating,
+    review_text: review.review_text,
+    review_date: review.review_date,
+    review_url: review.review_url,
+    content_hash: await reviewContentHash(review),
+    last_seen_at: seenAt,
+    is_processed: false,
+    processing_status: 'pending',
+    ...(importId ? { import_id: importId } : {})
+  })))
+
+  for (let start = 0; start < rows.length; start += chunkSize) {
+    const chunk = rows.slice(start, start + chunkSize)
+
+    const { data, error } = await supabase
+      .from('reviews')
+      .upsert(chunk, { onConflict: REVIEW_CONFLICT_TARGET, ignoreDuplicates: true })
+      .select()
+
+    if (error) {
+      console.error('Error upserting reviews:', error)
+      result.failed += chunk.length
+      continue
+    }
+
+    const created = new Set((data ?? []).map(row => row.platform_review_id))
+    const present = chunk.filter(row => !created.has(row.platform_review_id))
+    result.inserted.push(...(data ?? []))
+    result.existing.push(...present.map(row => row.platform_review_id))
+
+    if (reconcile && present.length > 0) {
+      try {
+        result.updated.push(...await reconcileStoredReviews(supabase, businessId, platform, present, seenAt))
+      } catch (reconcileError) {
+        // The reviews are stored; a later fetch retries the comparison
+        console.error('Error reconciling stored reviews:', reconcileError)
+      }
+    }
+  }
+
+  return result
+}
+
+// SHA-256 of the fields a reviewer can edit. Stored per review and compared
+// on every re-fetch, so unchanged reviews cost no extra writes beyond last_seen_at.
+export async function reviewContentHash(review: { rating: number; review_text: string | null }): Promise<string> {
+  const content = `${review.rating}\n${review.review_text ?? ''}`
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Flags reviews not seen since `syncStartedAt` as removed from the platform.
+// Only call this after a sync that walked the platform's complete history.
+// Imported reviews are left alone: the platform never returns them, so not
+// seeing them says nothing about whether they were taken down.
+export async function markMissingReviewsRemoved(
+  supabase: DatabaseClient,
+  businessId: string,
+  platform: ReviewPlatform,
+  syncStartedAt: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('reviews')
+    .update({ is_removed: true, removed_at: new Date().toISOString() })
+    .eq('business_id', businessId)
+    .eq('platform', platform)
+    .eq('is_removed', false)
+    .is('import_id', null)
+    .lt('last_seen_at', syncStartedAt)
+    .select('id')
+
+  if (error) {
+    throw error
+  }
+
+  return data?.length ?? 0
+}
+
+// Compares already stored reviews against the fetched copies. Changed ones get
+// their prior version saved to review_revisions and go back to pending so the
+// sentiment pipeline analyzes the new text; unchanged ones only have
+// last_seen_at moved forward.
+async function reconcileStoredReviews(
+  supabase: DatabaseClient,
+  businessId: string,
+  platform: ReviewPlatform,
+  rows: ReviewInsert[],
+  seenAt: string
+): Promise<StoredReview[]> {
+  const { data: stored, error } = await supabase
+    .from('reviews')
+    .select('id, platform_review_id, rating, review_text, content_hash, is_processed, processing_status, edited_at, is_removed')
+    .eq('business_id', businessId)
+    .eq('platform', platform)
+    .in('platform_review_id', rows.map(row => row.platform_review_id))
+
+  if (error) {
+    throw error
+  }
+
+  const storedById = new Map((stored ?? []).map(row => [row.platform_review_id, row]))
+  const revisions: Database['public']['Tables']['review_revisions']['Insert'][] = []
+  const changedIds = new Set<string>()
+  const rewritten: ReviewInsert[] = []
+  const seenIds: string[] = []
+
+  for (const row of rows) {
+    const current = storedById.get(row.platform_review_id)
+    if (!current) continue
+
+    // Rows stored before hashing existed are hashed on the fly
+    const previousHash = current.content_hash ?? await reviewContentHash(current)
+    const changed = previousHash !== row.content_hash
+
+    // Unchanged, hashed and still listed: nothing to write but the sighting
+    if (!changed && current.content_hash !== null && !current.is_removed) {
+      seenIds.push(current.id)
+      continue
+    }
+
+    if (changed) {
+      changedIds.add(current.id)
+      revisions.push({
+        review_id: current.id,
+        rating: current.rating,
+        review_text: current.review_text,
+        content_hash: previousHash
+      })
+    }
+
+    rewritten.push({
+      ...row,
+      is_processed: changed ? false : current.is_processed,
+      processing_status: changed ? 'pending' : current.processing_status,
+      edited_at: changed ? seenAt : current.edited_at,
+      is_removed: false,
+      removed_at: null
+    })
+  }
+
+  if (seenIds.length > 0) {
+    const { error: seenError } = await supabase.from('reviews').update({ last_seen_at: seenAt }).in('id', seenIds)
+    if (seenError) {
+      throw seenError
+    }
+  }
+
+  if (rewritten.length === 0) {
+    return []
+  }
+
+  if (changedIds.size > 0) {
+    // Analysis of the old text would otherwise sit next to the new one. It is
+    // cleared before the new text is written, so if this fails the stored
+    // review keeps its old hash and the next fetch tries again.
+    const ids = Array.from(changedIds)
+    for (const table of ['review_tags', 'sentiment_analysis'] as const) {
+      const { error: deleteError } = await supabase.from(table).delete().in('review_id', ids)
+      if (deleteError) {
+        throw deleteError
+      }
+    }
+  }
+
+  if (revisions.length > 0) {
+    const { error: revisionError } = await supabase.from('review_revisions').insert(revisions)
+    if (revisionError) {
+      throw revisionError
+    }
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('reviews')
+    .upsert(rewritten, { onConflict: REVIEW_CONFLICT_TARGET })
+    .select()
+
+  if (updateError) {
+    throw updateError
+  }
+
+  return (updated ?? []).filter(row => changedIds.has(row.id))
+}
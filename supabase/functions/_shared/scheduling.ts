@@ -0,0 +1,53 @@
+export type MonitoringFrequency = 'hourly' | 'daily' | 'weekly'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Mirrors the businesses.monitoring_frequency CHECK constraint
+export const MONITORING_INTERVAL_MS: Record<MonitoringFrequency, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+}
+
+export function monitoringIntervalMs(frequency: string | null | undefined): number {
+  return MONITORING_INTERVAL_MS[frequency as MonitoringFrequency] ?? MONITORING_INTERVAL_MS.daily
+}
+
+export function nextFetchDue(lastFetch: string | null, frequency: string | null | undefined): Date | null {
+  if (!lastFetch) return null
+  return new Date(new Date(lastFetch).getTime() + monitoringIntervalMs(frequency))
+}
+
+export function isFetchDue(
+  lastFetch: string | null,
+  frequency: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  const due = nextFetchDue(lastFetch, frequency)
+  return due === null || due.getTime() <= now.getTime()
+}
+
+// Runs `worker` over `items` with at most `limit` calls in flight at once.
+// Results keep the input order and failures never stop the other workers.
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length)
+  let next = 0
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index]) }
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason }
+      }
+    }
+  })
+
+  await Promise.all(runners)
+  return results
+}
@@ -0,0 +1,17 @@
+import { ExternalApiError } from '../errors.ts'
+
+// A sentiment provider could not analyze a review
+export class SentimentProviderError extends ExternalApiError {
+  provider: string
+
+  constructor(
+    provider: string,
+    code: string,
+    message: string,
+    options: { status?: number | null; retryable?: boolean } = {}
+  ) {
+    super(code, message, options)
+    this.name = 'SentimentProviderError'
+    this.provider = provider
+  }
+}
@@ -0,0 +1,82 @@
+import type { Database } from '../database.ts'
+import { de } from './lexicons/de.ts'
+import { en } from './lexicons/en.ts'
+import { es } from './lexicons/es.ts'
+import { fr } from './lexicons/fr.ts'
+
+// Mirrors reviews.language
+export type ReviewLanguage = NonNullable<Database['public']['Tables']['reviews']['Row']['language']>
+
+// The word lists the lexicon scores one language with
+export interface LanguageLexicon {
+  // Word valences on VADER's scale, roughly -4 (most negative) to 4 (most positive)
+  valences: Record<string, number>
+  // Two-word terms read as one token, like "cold brew" or "un poco"
+  compoundTerms: Set<string>
+  // Words that strengthen or soften the sentiment word after them
+  intensifiers: Set<string>
+  diminishers: Set<string>
+  negations: Set<string>
+  // Like "but": sentiment before it counts less than sentiment after it
+  contrasts: Set<string>
+  // Frequent words that give the language away; only used to detect it
+  stopwords: Set<string>
+  // Matches a token that negates by its ending, like English "n't"
+  negationSuffix?: RegExp
+  // Splits elided articles and pronouns off the next word, like French "l'" and "n'"
+  elision?: RegExp
+  // Keys are written without accents and tokens are folded to match, since
+  // reviewers often leave accents out
+  ignoreAccents?: boolean
+}
+
+export const LEXICONS: Record<ReviewLanguage, LanguageLexicon> = { en, es, fr, de }
+
+// Scores reviews whose language could not be detected
+export const DEFAULT_LANGUAGE: ReviewLanguage = 'en'
+
+// In the order ties are broken
+const LANGUAGES = Object.keys(LEXICONS) as ReviewLanguage[]
+
+// Letters that appear in one of the languages and rarely in the others
+const LETTER_HINTS: Partial<Record<ReviewLanguage, RegExp>> = {
+  es: /[ñ¿¡]/g,
+  fr: /[çèêëâîïôûùœ]/g,
+  de: /[ßäö]/g,
+}
+
+// Only a sentiment word's language counts for less than a stopword's, since
+// words like "excellent" and "terrible" are shared
+const VALENCE_WEIGHT = 0.5
+
+export const foldAccents = (word: string) => word.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+
+// The form of a lowercased word the lexicon's keys are written in
+export const lexiconKey = (word: string, lexicon: LanguageLexicon) =>
+  lexicon.ignoreAccents ? foldAccents(word) : word
+
+// Picks the language whose stopwords, sentiment words and letters the text
+// uses most. Returns null when nothing in the text points to any language.
+export function detectLanguage(text: string): ReviewLanguage | null {
+  const lower = text.toLowerCase()
+  const words = lower.split(/[^a-z0-9\u00C0-\u024F]+/).filter(Boolean)
+
+  const scores = LANGUAGES.map(language => {
+    const lexicon = LEXICONS[language]
+    const hints = LETTER_HINTS[language]
+    let score = hints ? (lower.match(hints) ?? []).length : 0
+
+    words.forEach(word => {
+      const key = lexiconKey(word, lexicon)
+      if (lexicon.stopwords.has(key)) {
+        score += 1
+      } else if (lexicon.valences[key] !== undefined) {
+        score += VALENCE_WEIGHT
+      }
+    })
+    return score
+  })
+
+  const best = Math.max(...scores)
+  return best > 0 ? LANGUAGES[scores.indexOf(best)] : null
+}
@@ -0,0 +1,222 @@
+import { DEFAULT_LANGUAGE, LEXICONS, lexiconKey, type LanguageLexicon, type ReviewLanguage } from './language.ts'
+import { extractKeyPhrases, extractKeyTopics, type TopicDefinition } from './topics.ts'
+import type { AspectSentiment, SentimentLabel, SentimentProvider } from './types.ts'
+
+const B_INCR = 0.293
+const B_DECR = -0.293
+
+// How far back a booster or negation reaches, and how much each step away weakens a booster
+const WINDOW = 3
+const BOOSTER_DAMPING = [1, 0.95, 0.9]
+
+const NEGATION_SCALAR = -0.74
+// Added for a sentiment word in capitals when the rest of the text is not shouting
+const CAPS_INCR = 0.733
+// Sentiment before "but" counts half; after it, one and a half
+const BUT_BEFORE = 0.5
+const BUT_AFTER = 1.5
+const EXCLAMATION_INCR = 0.292
+const MAX_EXCLAMATIONS = 4
+const QUESTION_INCR = 0.18
+const MAX_QUESTION_AMPLIFIER = 0.96
+// Normalizes the summed valence into -1..1 (VADER's alpha)
+const NORMALIZATION_ALPHA = 15
+
+// Compound scores further from zero than this are no longer neutral
+const LABEL_THRESHOLD = 0.05
+
+interface Token {
+  // As written, for detecting capitals
+  raw: string
+  // Lowercased, surrounding punctuation and apostrophes removed, in the form
+  // the language's lexicon keys are written in
+  word: string
+  // Followed by , ; : or sentence punctuation, which boosters and negations do not reach across
+  endsClause: boolean
+}
+
+export interface LexiconScore {
+  // -1 to 1
+  compound: number
+  // Tokens that ended up with a positive or negative valence
+  positiveCount: number
+  negativeCount: number
+  tokenCount: number
+}
+
+export function tokenize(text: string, language: ReviewLanguage = DEFAULT_LANGUAGE): Token[] {
+  const lexicon = LEXICONS[language]
+  const tokens: Token[] = []
+
+  const push = (raw: string, endsClause: boolean) => {
+    const word = lexiconKey(raw.toLowerCase().replace(/['’]/g, ''), lexicon)
+    if (!word) return
+
+    const previous = tokens[tokens.length - 1]
+    if (previous && !previous.endsClause && lexicon.compoundTerms.has(`${previous.word} ${word}`)) {
+      tokens[tokens.length - 1] = { raw: `${previous.raw} ${raw}`, word: `${previous.word} ${word}`, endsClause }
+    } else {
+      tokens.push({ raw, word, endsClause })
+    }
+  }
+
+  text.split(/\s+/).forEach(part => {
+    const raw = part.replace(/^[^A-Za-z0-9\u00C0-\u024F]+|[^A-Za-z0-9\u00C0-\u024F'’]+$/g, '')
+    const endsClause = /[,;:.!?]$/.test(part)
+
+    const elided = lexicon.elision ? raw.match(lexicon.elision) : null
+    if (elided) {
+      push(elided[0], false)
+      push(raw.slice(elided[0].length), endsClause)
+    } else {
+      push(raw, endsClause)
+    }
+  })
+  return tokens
+}
+
+const isShouted = (raw: string) => raw.length > 1 && raw !== raw.toLowerCase() && raw === raw.toUpperCase()
+const isNegation = (token: Token, lexicon: LanguageLexicon) =>
+  lexicon.negations.has(token.word) || !!lexicon.negationSuffix?.test(token.raw)
+
+function boostOf(word: string, lexicon: LanguageLexicon): number | undefined {
+  if (lexicon.intensifiers.has(word)) return B_INCR
+  if (lexicon.diminishers.has(word)) return B_DECR
+  return undefined
+}
+
+function punctuationAmplifier(text: string): number {
+  const exclamations = Math.min((text.match(/!/g) ?? []).length, MAX_EXCLAMATIONS)
+  const questions = (text.match(/\?/g) ?? []).length
+  const questionAmplifier = questions > 1 ? Math.min(questions * QUESTION_INCR, MAX_QUESTION_AMPLIFIER) : 0
+  return exclamations * EXCLAMATION_INCR + questionAmplifier
+}
+
+// VADER-style rule-based scoring: whole-word lexicon lookups, adjusted for
+// boosters, negations and capitals in the few words before each sentiment
+// word, weighted around "but", and amplified by ! and ?. Word lists come
+// from the lexicon of the given language.
+export function scoreSentiment(text: string, language: ReviewLanguage = DEFAULT_LANGUAGE): LexiconScore {
+  const lexicon = LEXICONS[language]
+  const tokens = tokenize(text, language)
+  const shouting = tokens.some(token => isShouted(token.raw)) && tokens.some(token => !isShouted(token.raw))
+
+  const valences = tokens.map((token, index) => {
+    let valence = lexicon.valences[token.word]
+    if (valence === undefined) return 0
+
+    if (shouting && isShouted(token.raw)) {
+      valence += Math.sign(valence) * CAPS_INCR
+    }
+
+    const window: Token[] = []
+    for (let previous = index - 1; previous >= 0 && window.length < WINDOW && !tokens[previous].endsClause; previous--) {
+      window.push(tokens[previous])
+    }
+    window.forEach((previous, distance) => {
+      const boost = boostOf(previous.word, lexicon)
+      if (boost === undefined) return
+      const emphasis = shouting && isShouted(previous.raw) ? CAPS_INCR * Math.sign(boost) : 0
+      valence += Math.sign(valence) * (boost + emphasis) * BOOSTER_DAMPING[distance]
+    })
+
+    if (window.some(previous => isNegation(previous, lexicon))) {
+      valence *= NEGATION_SCALAR
+    }
+    return valence
+  })
+
+  const butIndex = tokens.findIndex(token => lexicon.contrasts.has(token.word))
+  if (butIndex >= 0) {
+    valences.forEach((valence, index) => {
+      if (index < butIndex) valences[index] = valence * BUT_BEFORE
+      else if (index > butIndex) valences[index] = valence * BUT_AFTER
+    })
+  }
+
+  let sum = valences.reduce((total, valence) => total + valence, 0)
+  if (sum !== 0) {
+    sum += Math.sign(sum) * punctuationAmplifier(text)
+  }
+
+  const compound = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA)
+  return {
+    compound: Math.max(-1, Math.min(1, compound)),
+    positiveCount: valences.filter(valence => valence > 0).length,
+    negativeCount: valences.filter(valence => valence < 0).length,
+    tokenCount: tokens.length,
+  }
+}
+
+export function labelFor(compound: number): SentimentLabel {
+  if (compound > LABEL_THRESHOLD) return 'positive'
+  if (compound < -LABEL_THRESHOLD) return 'negative'
+  return 'neutral'
+}
+
+// Sentences, further cut at commas, semicolons and "but" (or the language's
+// word for it), so that "great food, rude staff" judges food and staff separately
+export function splitClauses(text: string, language: ReviewLanguage = DEFAULT_LANGUAGE): string[] {
+  const contrasts = Array.from(LEXICONS[language].contrasts).join('|')
+  return text
+    .split(new RegExp(`[.!?;,]+|\\s+(?:${contrasts})\\s+`, 'i'))
+    .map(clause => clause.trim())
+    .filter(clause => clause.length > 0)
+}
+
+// Scores each clause and credits the score to the topics it mentions. A topic
+// spoken of in several clauses takes the sign of their sum; topics whose
+// clauses carry no opinion are in neither list.
+export function analyzeAspects(
+  text: string,
+  topics: TopicDefinition[],
+  language: ReviewLanguage = DEFAULT_LANGUAGE
+): AspectSentiment {
+  const totals = new Map<string, number>()
+
+  splitClauses(text, language).forEach(clause => {
+    const mentioned = extractKeyTopics(clause, topics)
+    if (mentioned.length === 0) return
+
+    const { compound } = scoreSentiment(clause, language)
+    if (labelFor(compound) === 'neutral') return
+
+    mentioned.forEach(topic => totals.set(topic, (totals.get(topic) ?? 0) + compound))
+  })
+
+  const aspects: AspectSentiment = { positive_aspects: [], negative_aspects: [] }
+  totals.forEach((total, topic) => {
+    const label = labelFor(total)
+    if (label === 'positive') aspects.positive_aspects.push(topic)
+    if (label === 'negative') aspects.negative_aspects.push(topic)
+  })
+  return aspects
+}
+
+// Scores text with scoreSentiment, using the lexicon of the review's language.
+// Runs in-process with no network or randomness, so the same text always gets
+// the same result; it is the default provider and the fallback when a remote
+// one fails.
+export const lexiconProvider: SentimentProvider = {
+  name: 'lexicon',
+  displayName: 'Local lexicon',
+
+  analyze(text, _config, topics, language) {
+    const score = scoreSentiment(text, language)
+
+    return Promise.resolve({
+      overall_sentiment: labelFor(score.compound),
+      sentiment_score: score.compound,
+      confidence_score: Math.min(0.95, 0.5 + Math.abs(score.compound) * 0.45),
+      key_topics: extractKeyTopics(text, topics),
+      ...analyzeAspects(text, topics, language),
+      key_phrases: extractKeyPhrases(text),
+      analysis_metadata: {
+        model_version: 'lexicon-3',
+        positive_words_found: score.positiveCount,
+        negative_words_found: score.negativeCount,
+        total_words_analyzed: score.tokenCount
+      }
+    })
+  }
+}
@@ -0,0 +1,55 @@
+import type { LanguageLexicon } from '../language.ts'
+
+// Umlauts are kept: folding them would turn "schön" into "schon"
+export const de: LanguageLexicon = {
+  valences: {
+    // Positive
+    'angenehm': 2.3, 'angenehme': 2.3, 'angenehmen': 2.3, 'aufmerksam': 1.7, 'aufmerksame': 1.7,
+    'ausgezeichnet': 3.2, 'beste': 3.2, 'besten': 3.2, 'bestes': 3.2, 'besser': 1.5,
+    'danke': 1.9, 'empfehle': 1.5, 'empfehlen': 1.5, 'empfehlenswert': 1.5, 'empfehlung': 1.5,
+    'fantastisch': 2.6, 'freundlich': 2.2, 'freundliche': 2.2, 'freundlichen': 2.2, 'freundlicher': 2.2,
+    'frisch': 1.3, 'frische': 1.3, 'gemütlich': 1.8, 'gemütliche': 1.8, 'genial': 3.0,
+    'gern': 1.2, 'gerne': 1.2, 'großartig': 3.0, 'großartige': 3.0, 'gut': 1.9,
+    'gute': 1.9, 'guten': 1.9, 'guter': 1.9, 'gutes': 1.9, 'günstig': 1.0,
+    'herzlich': 2.0, 'herzliche': 2.0, 'hervorragend': 3.2, 'hervorragende': 3.2, 'hilfsbereit': 1.8,
+    'hilfsbereite': 1.8, 'klasse': 2.5, 'kompetent': 1.6, 'kompetente': 1.6, 'lecker': 2.5,
+    'leckere': 2.5, 'leckeren': 2.5, 'leckeres': 2.5, 'nett': 1.8, 'nette': 1.8,
+    'netten': 1.8, 'perfekt': 2.7, 'preiswert': 1.2, 'prima': 2.5, 'professionell': 1.6,
+    'sauber': 1.7, 'saubere': 1.7, 'schnell': 1.0, 'schön': 2.0, 'schöne': 2.0,
+    'schönen': 2.0, 'spitze': 2.6, 'super': 2.5, 'toll': 2.8, 'tolle': 2.8,
+    'tollen': 2.8, 'toller': 2.8, 'tolles': 2.8, 'top': 2.0, 'wunderbar': 2.7,
+    'wunderbare': 2.7, 'zufrieden': 1.8,
+    // Negative
+    'abzocke': -2.5, 'dreckig': -1.9, 'ekelhaft': -2.4, 'eklig': -2.4, 'enttäuscht': -1.9,
+    'enttäuschend': -2.2, 'enttäuschung': -2.3, 'fade': -1.4, 'frech': -1.8, 'furchtbar': -2.9,
+    'kalt': -0.8, 'kalte': -0.8, 'kalten': -0.8, 'katastrophal': -2.8, 'katastrophe': -2.5,
+    'langsam': -1.1, 'laut': -1.0, 'lauwarm': -1.0, 'leider': -1.4, 'mangelhaft': -2.0,
+    'mies': -2.2, 'miese': -2.2, 'nie wieder': -2.0, 'problem': -1.7, 'probleme': -1.7,
+    'schade': -1.4, 'schlecht': -2.5, 'schlechte': -2.5, 'schlechten': -2.5, 'schlechter': -2.5,
+    'schlechtes': -2.5, 'schlimm': -2.3, 'schmutzig': -1.9, 'schmutzige': -1.9, 'schrecklich': -2.8,
+    'schreckliche': -2.8, 'teuer': -0.9, 'unfreundlich': -1.8, 'unfreundliche': -1.8, 'unfreundlichen': -1.8,
+    'ungenießbar': -2.5, 'unhöflich': -2.0, 'unhöfliche': -2.0, 'unmöglich': -1.8, 'unzufrieden': -1.8,
+    'verbrannt': -1.4, 'versalzen': -1.4, 'zäh': -1.2, 'ärgerlich': -1.9, 'überteuert': -1.9,
+  },
+
+  compoundTerms: new Set(['ein bisschen', 'ein wenig', 'nie wieder']),
+
+  intensifiers: new Set([
+    'absolut', 'besonders', 'echt', 'extrem', 'richtig', 'sehr', 'so', 'total', 'unglaublich',
+    'voll', 'wahnsinnig', 'wirklich', 'zu', 'äußerst', 'überaus',
+  ]),
+  diminishers: new Set(['ein bisschen', 'ein wenig', 'eher', 'etwas', 'leicht', 'relativ', 'ziemlich']),
+
+  negations: new Set([
+    'kaum', 'kein', 'keine', 'keinem', 'keinen', 'keiner', 'keines', 'nicht', 'nichts', 'nie',
+    'niemals', 'nirgends', 'ohne', 'weder',
+  ]),
+
+  contrasts: new Set(['aber', 'jedoch']),
+
+  stopwords: new Set([
+    'der', 'die', 'das', 'und', 'ist', 'war', 'waren', 'sehr', 'nicht', 'ich', 'wir', 'es', 'ein',
+    'eine', 'einen', 'mit', 'für', 'auf', 'zu', 'den', 'dem', 'des', 'sich', 'auch', 'aber', 'noch',
+    'hier', 'wie', 'sind', 'hat', 'haben', 'wurde', 'uns', 'man', 'im', 'zum', 'immer',
+  ]),
+}
@@ -0,0 +1,62 @@
+import type { LanguageLexicon } from '../language.ts'
+
+export const en: LanguageLexicon = {
+  valences: {
+    // Positive
+    'affordable': 1.2, 'amazing': 2.8, 'attentive': 1.7, 'awesome': 3.1, 'beautiful': 2.9,
+    'best': 3.2, 'clean': 1.7, 'comfortable': 1.8, 'courteous': 1.9, 'cozy': 1.8,
+    'decent': 1.1, 'delicious': 2.7, 'delightful': 2.8, 'efficient': 1.6, 'enjoy': 2.2,
+    'enjoyed': 2.3, 'excellent': 3.2, 'fabulous': 2.8, 'fair': 1.3, 'fantastic': 2.6,
+    'fast': 1.0, 'favorite': 2.0, 'fine': 0.8, 'fresh': 1.3, 'friendly': 2.2,
+    'gem': 2.0, 'generous': 2.3, 'glad': 2.0, 'good': 1.9, 'great': 3.1,
+    'happy': 2.7, 'helpful': 1.8, 'impressed': 2.2, 'impressive': 2.3, 'incredible': 2.6,
+    'knowledgeable': 1.8, 'love': 3.2, 'loved': 2.9, 'lovely': 2.8, 'nice': 1.8,
+    'ok': 0.9, 'okay': 0.9, 'outstanding': 3.0, 'perfect': 2.7, 'pleasant': 2.3,
+    'pleased': 1.9, 'polite': 1.8, 'professional': 1.6, 'quick': 1.0, 'reasonable': 1.0,
+    'recommend': 1.5, 'recommended': 1.5, 'satisfied': 1.8, 'solid': 1.0, 'spotless': 2.0,
+    'superb': 3.1, 'tasty': 2.1, 'thank': 1.5, 'thanks': 1.9, 'welcoming': 1.9,
+    'wonderful': 2.7, 'worth': 1.0, 'yummy': 2.1,
+    // Negative
+    'angry': -2.3, 'annoyed': -1.9, 'avoid': -1.2, 'awful': -3.1, 'bad': -2.5,
+    'bland': -1.4, 'broken': -1.8, 'burnt': -1.4, 'careless': -1.7, 'cold': -0.8,
+    'complaint': -1.5, 'crowded': -0.8, 'dirty': -1.9, 'disappointed': -1.9, 'disappointing': -2.2,
+    'disappointment': -2.3, 'disgusting': -2.4, 'dismissive': -1.6, 'expensive': -0.9, 'filthy': -2.4,
+    'forgot': -1.0, 'frustrated': -2.0, 'frustrating': -1.9, 'greasy': -1.2, 'gross': -2.1,
+    'hate': -2.7, 'hated': -3.2, 'horrible': -2.8, 'ignored': -1.5, 'inedible': -2.5,
+    'issue': -1.0, 'lazy': -1.6, 'lukewarm': -1.0, 'mediocre': -1.4, 'meh': -0.8,
+    'nasty': -2.6, 'noisy': -1.0, 'overcooked': -1.4, 'overpriced': -1.9, 'poor': -2.1,
+    'problem': -1.7, 'problems': -1.7, 'ridiculous': -1.4, 'rude': -2.0, 'rushed': -1.1,
+    'sad': -2.1, 'sick': -1.9, 'sloppy': -1.6, 'slow': -1.1, 'soggy': -1.5,
+    'stale': -1.6, 'sucks': -1.5, 'terrible': -2.9, 'uncomfortable': -1.6, 'undercooked': -1.6,
+    'unacceptable': -2.4, 'unfortunately': -1.4, 'unfriendly': -1.8, 'unhelpful': -1.6, 'unprofessional': -1.9,
+    'waste': -1.8, 'worst': -3.1, 'wrong': -2.1,
+  },
+
+  // "cold brew" is a drink rather than a complaint, and "kind of" softens the word after it
+  compoundTerms: new Set(['a bit', 'a little', 'cold brew', 'fast food', 'kind of', 'sort of']),
+
+  intensifiers: new Set([
+    'absolutely', 'completely', 'especially', 'exceptionally', 'extremely', 'highly', 'incredibly',
+    'particularly', 'quite', 'really', 'remarkably', 'so', 'super', 'terribly', 'too', 'totally',
+    'truly', 'utterly', 'very',
+  ]),
+  diminishers: new Set([
+    'a bit', 'a little', 'barely', 'fairly', 'kind of', 'kinda', 'marginally', 'partly',
+    'slightly', 'somewhat', 'sort of',
+  ]),
+
+  negations: new Set([
+    'aint', 'cannot', 'cant', 'dont', 'doesnt', 'didnt', 'hardly', 'isnt', 'neither', 'never',
+    'no', 'nobody', 'none', 'nor', 'not', 'nothing', 'nowhere', 'wasnt', 'werent', 'wont',
+  ]),
+  // Any "n't" contraction negates, not just the listed ones
+  negationSuffix: /n['’]t$/i,
+
+  contrasts: new Set(['but']),
+
+  stopwords: new Set([
+    'the', 'and', 'was', 'were', 'is', 'are', 'it', 'this', 'that', 'with', 'for', 'of', 'to',
+    'we', 'i', 'my', 'our', 'they', 'you', 'had', 'have', 'be', 'would', 'will', 'there', 'their',
+    'from', 'what', 'just', 'been', 'here', 'again', 'back', 'about', 'when', 'got', 'me',
+  ]),
+}
@@ -0,0 +1,63 @@
+import type { LanguageLexicon } from '../language.ts'
+
+export const es: LanguageLexicon = {
+  valences: {
+    // Positive
+    'acogedor': 1.8, 'acogedora': 1.8, 'agradable': 2.3, 'agradables': 2.3, 'amable': 2.0,
+    'amables': 2.0, 'atenta': 1.7, 'atentas': 1.7, 'atento': 1.7, 'atentos': 1.7,
+    'bien': 1.5, 'bonita': 1.9, 'bonito': 1.9, 'buen': 1.9, 'buena': 1.9,
+    'buenas': 1.9, 'bueno': 1.9, 'buenos': 1.9, 'comoda': 1.8, 'comodo': 1.8,
+    'contenta': 1.8, 'contento': 1.8, 'contentos': 1.8, 'correcta': 0.8, 'correcto': 0.8,
+    'deliciosa': 2.7, 'deliciosas': 2.7, 'delicioso': 2.7, 'deliciosos': 2.7, 'economico': 1.0,
+    'encanta': 3.0, 'encantado': 2.5, 'encantados': 2.5, 'encanto': 2.9, 'encantaron': 2.9,
+    'espectacular': 2.8, 'estupenda': 2.8, 'estupendo': 2.8, 'excelente': 3.2, 'excelentes': 3.2,
+    'fantastica': 2.6, 'fantastico': 2.6, 'feliz': 2.7, 'fresca': 1.3, 'frescas': 1.3,
+    'fresco': 1.3, 'frescos': 1.3, 'genial': 3.0, 'gracias': 1.9, 'gusta': 1.8,
+    'gustaron': 1.8, 'gusto': 1.8, 'hermosa': 2.9, 'hermoso': 2.9, 'impecable': 2.5,
+    'increible': 2.6, 'limpia': 1.7, 'limpias': 1.7, 'limpio': 1.7, 'limpios': 1.7,
+    'maravillosa': 2.7, 'maravilloso': 2.7, 'mejor': 2.0, 'mejores': 2.0, 'perfecta': 2.7,
+    'perfecto': 2.7, 'profesional': 1.6, 'profesionales': 1.6, 'rapida': 1.0, 'rapido': 1.0,
+    'recomendable': 1.5, 'recomendado': 1.5, 'recomendamos': 1.5, 'recomiendo': 1.5, 'rica': 1.8,
+    'ricas': 1.8, 'rico': 1.8, 'ricos': 1.8, 'sabrosa': 2.1, 'sabroso': 2.1,
+    'satisfecha': 1.8, 'satisfecho': 1.8, 'satisfechos': 1.8, 'simpatica': 2.0, 'simpatico': 2.0,
+    'simpaticos': 2.0, 'volvere': 1.2, 'volveremos': 1.2,
+    // Negative
+    'asquerosa': -2.4, 'asqueroso': -2.4, 'cara': -0.9, 'caro': -0.9, 'caros': -0.9,
+    'carisimo': -1.9, 'cruda': -1.6, 'crudo': -1.6, 'decepcion': -2.3, 'decepcionada': -1.9,
+    'decepcionado': -1.9, 'decepcionante': -2.2, 'desagradable': -2.3, 'desastre': -2.5, 'error': -1.2,
+    'estafa': -2.5, 'evitar': -1.2, 'fatal': -2.5, 'fria': -0.8, 'frias': -0.8,
+    'frio': -0.8, 'frios': -0.8, 'grosera': -2.0, 'grosero': -2.0, 'groseros': -2.0,
+    'horrible': -2.8, 'horribles': -2.8, 'incomoda': -1.6, 'incomodo': -1.6, 'insipida': -1.4,
+    'insipido': -1.4, 'lamentable': -2.3, 'lenta': -1.1, 'lento': -1.1, 'lentos': -1.1,
+    'mal': -2.0, 'mala': -2.5, 'malas': -2.5, 'maleducada': -2.0, 'maleducado': -2.0,
+    'malo': -2.5, 'malos': -2.5, 'mediocre': -1.4, 'nefasta': -2.8, 'nefasto': -2.8,
+    'nunca mas': -2.0, 'peor': -2.5, 'peores': -2.5, 'pesima': -3.0, 'pesimo': -3.0,
+    'problema': -1.7, 'problemas': -1.7, 'queja': -1.5, 'quemada': -1.4, 'quemado': -1.4,
+    'robo': -2.0, 'ruidosa': -1.0, 'ruidoso': -1.0, 'sucia': -1.9, 'sucias': -1.9,
+    'sucio': -1.9, 'sucios': -1.9, 'terrible': -2.9, 'terribles': -2.9, 'triste': -2.1,
+  },
+
+  compoundTerms: new Set(['nunca mas', 'para nada', 'un poco', 'un tanto']),
+
+  intensifiers: new Set([
+    'absolutamente', 'bastante', 'demasiado', 'especialmente', 'extremadamente', 'increiblemente',
+    'muy', 'realmente', 'sumamente', 'super', 'tan', 'totalmente',
+  ]),
+  diminishers: new Set(['algo', 'ligeramente', 'relativamente', 'un poco', 'un tanto']),
+
+  // "poco amable" is unfriendly rather than a little friendly
+  negations: new Set([
+    'jamas', 'nada', 'nadie', 'ni', 'ningun', 'ninguna', 'ninguno', 'no', 'nunca', 'para nada',
+    'poco', 'sin', 'tampoco',
+  ]),
+
+  contrasts: new Set(['pero']),
+
+  stopwords: new Set([
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'un', 'una', 'es', 'fue', 'con',
+    'por', 'para', 'lo', 'se', 'me', 'mi', 'nos', 'como', 'esta', 'este', 'todo', 'son', 'fueron',
+    'al', 'su', 'sus', 'hay', 'estaba', 'era', 'ya', 'tambien', 'muy', 'mas', 'pero',
+  ]),
+
+  ignoreAccents: true,
+}
@@ -0,0 +1,59 @@
+import type { LanguageLexicon } from '../language.ts'
+
+export const fr: LanguageLexicon = {
+  valences: {
+    // Positive
+    'abordable': 1.2, 'accueillant': 1.9, 'accueillante': 1.9, 'accueillants': 1.9, 'adore': 3.0,
+    'agreable': 2.3, 'agreables': 2.3, 'aimable': 2.0, 'aimables': 2.0, 'aime': 2.2,
+    'attentionne': 1.7, 'attentionnee': 1.7, 'beau': 2.0, 'belle': 2.0, 'bien': 1.5,
+    'bon': 1.9, 'bonne': 1.9, 'bonnes': 1.9, 'bons': 1.9, 'chaleureuse': 2.0,
+    'chaleureux': 2.0, 'content': 1.8, 'contente': 1.8, 'contents': 1.8, 'copieuse': 1.5,
+    'copieux': 1.5, 'delicieuse': 2.7, 'delicieuses': 2.7, 'delicieux': 2.7, 'excellent': 3.2,
+    'excellente': 3.2, 'excellentes': 3.2, 'excellents': 3.2, 'fraiche': 1.3, 'frais': 1.3,
+    'formidable': 2.8, 'genial': 3.0, 'geniale': 3.0, 'impeccable': 2.5, 'incroyable': 2.6,
+    'jolie': 1.8, 'joli': 1.8, 'magnifique': 2.9, 'meilleur': 2.0, 'meilleure': 2.0,
+    'meilleurs': 2.0, 'merci': 1.9, 'merveilleuse': 2.7, 'merveilleux': 2.7, 'parfait': 2.7,
+    'parfaite': 2.7, 'professionnel': 1.6, 'professionnelle': 1.6, 'professionnels': 1.6, 'propre': 1.2,
+    'propres': 1.2, 'rapide': 1.0, 'raisonnable': 1.0, 'ravi': 2.5, 'ravie': 2.5,
+    'ravis': 2.5, 'recommande': 1.5, 'recommandons': 1.5, 'satisfait': 1.8, 'satisfaite': 1.8,
+    'satisfaits': 1.8, 'savoureuse': 2.1, 'savoureux': 2.1, 'serviable': 1.8, 'serviables': 1.8,
+    'super': 2.5, 'sympa': 2.0, 'sympathique': 2.0, 'top': 2.0,
+    // Negative
+    'arnaque': -2.5, 'brule': -1.4, 'brulee': -1.4, 'bruyant': -1.0, 'bruyante': -1.0,
+    'catastrophe': -2.5, 'catastrophique': -2.8, 'cher': -0.9, 'chere': -0.9, 'chers': -0.9,
+    'decevant': -2.2, 'decevante': -2.2, 'deception': -2.3, 'decu': -1.9, 'decue': -1.9,
+    'decus': -1.9, 'degoutant': -2.4, 'degoutante': -2.4, 'desagreable': -2.3, 'dommage': -1.4,
+    'eviter': -1.2, 'fade': -1.4, 'froid': -0.8, 'froide': -0.8, 'honteux': -2.4,
+    'horrible': -2.8, 'horribles': -2.8, 'impoli': -2.0, 'impolie': -2.0, 'inacceptable': -2.4,
+    'inadmissible': -2.4, 'infect': -2.6, 'infecte': -2.6, 'lent': -1.1, 'lente': -1.1,
+    'mal': -2.0, 'malheureusement': -1.4, 'mauvais': -2.5, 'mauvaise': -2.5, 'mauvaises': -2.5,
+    'mediocre': -1.4, 'moyen': -0.8, 'moyenne': -0.8, 'nul': -2.5, 'nulle': -2.5,
+    'pire': -3.0, 'plus jamais': -2.0, 'probleme': -1.7, 'problemes': -1.7, 'sale': -1.9,
+    'sales': -1.9, 'terrible': -2.9, 'triste': -2.1,
+  },
+
+  compoundTerms: new Set(['plus jamais', 'un peu']),
+
+  intensifiers: new Set([
+    'absolument', 'extremement', 'hyper', 'particulierement', 'si', 'tellement', 'totalement',
+    'tres', 'trop', 'vachement', 'vraiment',
+  ]),
+  diminishers: new Set(['assez', 'legerement', 'moyennement', 'plutot', 'un peu']),
+
+  // "ne" and "n'" wrap the verb ("je n'ai pas aimé"), so they negate what follows
+  // it as much as "pas" does. "peu aimable" is unfriendly.
+  negations: new Set([
+    'aucun', 'aucune', 'guere', 'jamais', 'n', 'ne', 'ni', 'pas', 'peu', 'rien', 'sans',
+  ]),
+
+  contrasts: new Set(['mais', 'cependant', 'pourtant']),
+
+  stopwords: new Set([
+    'le', 'la', 'les', 'des', 'du', 'de', 'et', 'est', 'un', 'une', 'que', 'qui', 'pour', 'dans',
+    'avec', 'sur', 'pas', 'ce', 'cette', 'c', 'j', 'l', 'd', 'n', 'il', 'elle', 'nous', 'vous',
+    'on', 'tres', 'tout', 'etait', 'ete', 'au', 'aux', 'mais', 'ont', 'sont', 'je', 'mon', 'ma',
+  ]),
+
+  elision: /^(?:c|d|j|l|m|n|qu|s|t)['’]/i,
+  ignoreAccents: true,
+}
@@ -0,0 +1,162 @@
+import { SentimentProviderError } from './errors.ts'
+import { resolveTopicName, type TopicDefinition } from './topics.ts'
+import type { SentimentLabel, SentimentProvider, SentimentResult } from './types.ts'
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_MODEL = 'gpt-4o-mini'
+// A hung endpoint must fail in time for the fallback provider to answer
+const DEFAULT_TIMEOUT_MS = 30_000
+
+const LABELS: SentimentLabel[] = ['positive', 'negative', 'neutral']
+
+// Names the business's topics, with their keywords as hints
+export function systemPrompt(topics: TopicDefinition[]): string {
+  const topicList = topics
+    .map(({ name, keywords }) => keywords.length > 0 ? `"${name}" (${keywords.join(', ')})` : `"${name}"`)
+    .join('; ')
+
+  return [
+    'You analyze the sentiment of customer reviews of local businesses. Reviews may be in any language;',
+    'always name topics exactly as listed below.',
+    'Reply with a JSON object with these fields:',
+    `"overall_sentiment": one of ${LABELS.map(label => `"${label}"`).join(', ')};`,
+    '"sentiment_score": a number from -1 (most negative) to 1 (most positive);',
+    '"confidence_score": a number from 0 to 1;',
+    `"key_topics": the topics the review mentions, chosen only from: ${topicList};`,
+    '"positive_aspects": the key_topics the review speaks well of, judging each topic on its own;',
+    '"negative_aspects": the key_topics the review speaks badly of, judging each topic on its own;',
+    '"key_phrases": up to 5 short phrases quoted from the review that carry its sentiment.',
+  ].join('\n')
+}
+
+interface ChatCompletion {
+  model?: string
+  choices?: Array<{ message?: { content?: string | null } }>
+  usage?: { prompt_tokens?: number; completion_tokens?: number }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+// Validates the model's JSON reply; anything unusable is an invalid_response
+// so the caller falls back instead of storing a made-up result. Topics are
+// mapped onto the taxonomy by name or synonym and dropped when unknown.
+export function parseSentimentReply(content: string, topics: TopicDefinition[]): Omit<SentimentResult, 'analysis_metadata'> {
+  let reply: Record<string, unknown>
+  try {
+    reply = JSON.parse(content)
+  } catch {
+    throw new SentimentProviderError('openai', 'invalid_response', 'Model reply is not valid JSON')
+  }
+
+  const label = reply.overall_sentiment
+  const score = reply.sentiment_score
+  if (typeof label !== 'string' || !LABELS.includes(label as SentimentLabel) || typeof score !== 'number') {
+    throw new SentimentProviderError('openai', 'invalid_response', 'Model reply is missing overall_sentiment or sentiment_score')
+  }
+
+  const strings = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+  const topicNames = (value: unknown) => Array.from(new Set(
+    strings(value)
+      .map(name => resolveTopicName(name, topics))
+      .filter((name): name is string => name !== null)
+  ))
+  const keyTopics = topicNames(reply.key_topics)
+  // An aspect must be one of the review's topics and cannot be both
+  const positiveAspects = topicNames(reply.positive_aspects).filter(topic => keyTopics.includes(topic))
+  const negativeAspects = topicNames(reply.negative_aspects)
+    .filter(topic => keyTopics.includes(topic) && !positiveAspects.includes(topic))
+
+  return {
+    overall_sentiment: label as SentimentLabel,
+    sentiment_score: clamp(score, -1, 1),
+    confidence_score: typeof reply.confidence_score === 'number' ? clamp(reply.confidence_score, 0, 1) : 0.5,
+    key_topics: keyTopics,
+    positive_aspects: positiveAspects,
+    negative_aspects: negativeAspects,
+    key_phrases: strings(reply.key_phrases).slice(0, 5),
+  }
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Azure
+// OpenAI, a self-hosted model or a local mock, chosen by OPENAI_BASE_URL.
+// The API key may be left unset for servers that do not check one.
+export const openAiProvider: SentimentProvider = {
+  name: 'openai',
+  displayName: 'OpenAI-compatible LLM',
+  env: {
+    apiKey: 'OPENAI_API_KEY',
+    baseUrl: 'OPENAI_BASE_URL',
+    model: 'OPENAI_SENTIMENT_MODEL',
+  },
+
+  async analyze(text, config, topics) {
+    if (!config.apiKey && !config.baseUrl) {
+      throw new SentimentProviderError('openai', 'not_configured', 'OPENAI_API_KEY or OPENAI_BASE_URL must be set')
+    }
+
+    const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '')
+    const model = config.model ?? DEFAULT_MODEL
+    const doFetch = config.fetch ?? fetch
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    const signal = AbortSignal.timeout(timeoutMs)
+    const timedOut = () =>
+      new SentimentProviderError('openai', 'timeout', `Request to ${baseUrl} timed out after ${timeoutMs} ms`, { retryable: true })
+    const startedAt = Date.now()
+
+    let response: Response
+    try {
+      response = await doFetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: systemPrompt(topics) },
+            { role: 'user', content: text },
+          ],
+        }),
+        signal,
+      })
+    } catch (error) {
+      if (signal.aborted) throw timedOut()
+      const message = error instanceof Error ? error.message : String(error)
+      throw new SentimentProviderError('openai', 'network_error', `Request to ${baseUrl} failed: ${message}`, { retryable: true })
+    }
+
+    if (!response.ok) {
+      const status = response.status
+      const detail = await response.text().catch(() => '')
+      const message = `Chat completions returned HTTP ${status}${detail ? `: ${detail.slice(0, 200)}` : ''}`
+      if (status === 401 || status === 403) {
+        throw new SentimentProviderError('openai', 'unauthorized', message, { status })
+      }
+      if (status === 429) {
+        throw new SentimentProviderError('openai', 'rate_limited', message, { status, retryable: true })
+      }
+      throw new SentimentProviderError('openai', 'http_error', message, { status, retryable: status >= 500 })
+    }
+
+    const completion: ChatCompletion = await response.json().catch(() => ({}))
+    // The timeout also covers reading the body
+    if (signal.aborted) throw timedOut()
+    const content = completion.choices?.[0]?.message?.content
+    if (!content) {
+      throw new SentimentProviderError('openai', 'invalid_response', 'Chat completions returned no message')
+    }
+
+    return {
+      ...parseSentimentReply(content, topics),
+      analysis_metadata: {
+        model_version: completion.model ?? model,
+        processing_time_ms: Date.now() - startedAt,
+        prompt_tokens: completion.usage?.prompt_tokens ?? null,
+        completion_tokens: completion.usage?.completion_tokens ?? null,
+      },
+    }
+  },
+}
@@ -0,0 +1,108 @@
+import { DEFAULT_LANGUAGE, type ReviewLanguage } from './language.ts'
+import { lexiconProvider } from './lexicon.ts'
+import { openAiProvider } from './openai.ts'
+import type { TopicDefinition } from './topics.ts'
+import type { SentimentProvider, SentimentProviderConfig, SentimentProviderName, SentimentResult } from './types.ts'
+
+// Used when neither the business nor SENTIMENT_PROVIDER names a provider,
+// and as the last fallback since it cannot fail
+export const DEFAULT_PROVIDER: SentimentProviderName = 'lexicon'
+
+// Environment variables that choose providers for every business without its own setting
+export const PROVIDER_ENV = {
+  primary: 'SENTIMENT_PROVIDER',
+  fallback: 'SENTIMENT_FALLBACK_PROVIDER',
+}
+
+const providers = new Map<SentimentProviderName, SentimentProvider>()
+
+export function registerProvider(provider: SentimentProvider): void {
+  providers.set(provider.name, provider)
+}
+
+export function getProvider(name: string): SentimentProvider | undefined {
+  return providers.get(name as SentimentProviderName)
+}
+
+export function listProviders(): SentimentProvider[] {
+  return Array.from(providers.values())
+}
+
+// Builds a provider's config from the environment variables it declares
+export function providerConfigFromEnv(
+  provider: SentimentProvider,
+  getEnv: (name: string) => string | undefined
+): SentimentProviderConfig {
+  if (!provider.env) {
+    return { apiKey: '' }
+  }
+
+  return {
+    apiKey: getEnv(provider.env.apiKey) ?? '',
+    baseUrl: getEnv(provider.env.baseUrl),
+    model: getEnv(provider.env.model),
+  }
+}
+
+// Providers to try for one review, in order: the business's own choice or
+// SENTIMENT_PROVIDER, then SENTIMENT_FALLBACK_PROVIDER, then the lexicon.
+// Unknown names are skipped rather than failing the analysis.
+export function selectProviders(
+  businessProvider: string | null | undefined,
+  getEnv: (name: string) => string | undefined
+): SentimentProvider[] {
+  const names = [
+    businessProvider || getEnv(PROVIDER_ENV.primary) || DEFAULT_PROVIDER,
+    getEnv(PROVIDER_ENV.fallback),
+    DEFAULT_PROVIDER,
+  ]
+
+  const chain: SentimentProvider[] = []
+  names.forEach(name => {
+    const provider = name ? getProvider(name.trim()) : undefined
+    if (provider && !chain.includes(provider)) {
+      chain.push(provider)
+    }
+  })
+  return chain
+}
+
+// Tries each provider in turn until one succeeds. The result's metadata
+// records the review's language, which provider answered and why any before
+// it were skipped. A review of undetected language is analyzed as English.
+// Throws the last error only when every provider failed.
+export async function analyzeWithFallback(
+  text: string,
+  chain: SentimentProvider[],
+  configFor: (provider: SentimentProvider) => SentimentProviderConfig,
+  topics: TopicDefinition[],
+  language: ReviewLanguage | null
+): Promise<SentimentResult> {
+  const failures: Array<{ provider: string; error: string }> = []
+  let lastError: unknown = new Error('No sentiment provider configured')
+
+  for (const provider of chain) {
+    try {
+      const result = await provider.analyze(text, configFor(provider), topics, language ?? DEFAULT_LANGUAGE)
+      return {
+        ...result,
+        analysis_metadata: {
+          ...result.analysis_metadata,
+          language,
+          provider: provider.name,
+          ...(failures.length > 0 ? { fallback_from: failures } : {}),
+        },
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`Sentiment provider ${provider.name} failed:`, message)
+      failures.push({ provider: provider.name, error: message })
+      lastError = error
+    }
+  }
+
+  throw lastError
+}
+
+registerProvider(lexiconProvider)
+registerProvider(openAiProvider)
@@ -0,0 +1,37 @@
+import type { Database } from '../database.ts'
+import type { TopicDefinition } from './topics.ts'
+import type { SentimentResult } from './types.ts'
+
+type ReviewTagInsert = Database['public']['Tables']['review_tags']['Insert']
+
+// One tag per topic, in the topic's tag_category. A topic takes its own
+// aspect's polarity, so "great food, rude staff" tags quality food and poor
+// service; a topic mentioned without an opinion, or whose definition has no tag
+// for that polarity, is tagged by name.
+export function buildReviewTags(
+  reviewId: string,
+  result: SentimentResult,
+  topics: TopicDefinition[]
+): ReviewTagInsert[] {
+  const tags = new Map<string, ReviewTagInsert>()
+
+  result.key_topics.forEach(name => {
+    const definition = topics.find(topic => topic.name === name)
+    let tagName = name
+    if (result.positive_aspects.includes(name)) {
+      tagName = definition?.positive_tag ?? name
+    } else if (result.negative_aspects.includes(name)) {
+      tagName = definition?.negative_tag ?? name
+    }
+
+    // Topics sharing a tag (food and coffee) store it once
+    tags.set(tagName, {
+      review_id: reviewId,
+      tag_name: tagName,
+      tag_category: definition?.tag_category ?? 'other',
+      confidence_score: result.confidence_score,
+    })
+  })
+
+  return Array.from(tags.values())
+}
@@ -0,0 +1,27 @@
+import type { DatabaseClient } from '../supabase.ts'
+import { DEFAULT_INDUSTRY, DEFAULT_TOPICS, type Industry, type TopicDefinition } from './topics.ts'
+
+const TOPIC_COLUMNS = 'business_id, industry, name, keywords, synonyms, tag_category, positive_tag, negative_tag'
+
+// The topics a business's reviews are analyzed with: its own definitions when
+// it has any, otherwise its industry's preset, otherwise DEFAULT_TOPICS
+export async function loadTopicDefinitions(
+  supabase: DatabaseClient,
+  business: { id: string; industry: Industry | null }
+): Promise<TopicDefinition[]> {
+  const industry = business.industry ?? DEFAULT_INDUSTRY
+
+  const { data, error } = await supabase
+    .from('topic_definitions')
+    .select(TOPIC_COLUMNS)
+    .or(`business_id.eq.${business.id},industry.eq.${industry}`)
+    .order('name')
+
+  if (error) {
+    throw error
+  }
+
+  const own = data.filter(topic => topic.business_id === business.id)
+  const taxonomy = own.length > 0 ? own : data.filter(topic => topic.industry === industry)
+  return taxonomy.length > 0 ? taxonomy : DEFAULT_TOPICS
+}
@@ -0,0 +1,120 @@
+import type { Database } from '../database.ts'
+import { foldAccents } from './language.ts'
+
+type TopicDefinitionRow = Database['public']['Tables']['topic_definitions']['Row']
+
+// One topic of a business's taxonomy, from the topic_definitions table
+export type TopicDefinition = Pick<
+  TopicDefinitionRow,
+  'name' | 'keywords' | 'synonyms' | 'tag_category' | 'positive_tag' | 'negative_tag'
+>
+
+export type Industry = NonNullable<TopicDefinitionRow['industry']>
+
+// Preset for businesses without an industry
+export const DEFAULT_INDUSTRY: Industry = 'restaurant'
+
+const topic = (
+  name: string,
+  keywords: string[],
+  synonyms: string[],
+  tag_category: TopicDefinition['tag_category'],
+  positive_tag: string | null = null,
+  negative_tag: string | null = null
+): TopicDefinition => ({ name, keywords, synonyms, tag_category, positive_tag, negative_tag })
+
+// The restaurant preset from the topic_definitions migration, with the Spanish,
+// French and German keywords of 20250825000000_multilingual_topic_keywords.sql,
+// for when the database has no taxonomy to offer. topic-taxonomy.test.ts
+// fails when this list and the migrations disagree.
+export const DEFAULT_TOPICS: TopicDefinition[] = [
+  topic('service', [
+    'service', 'server', 'waiter', 'waitress', 'cashier',
+    'servicio', 'camarero', 'camarera', 'mesero', 'mesera', 'atención', 'serveur', 'serveuse', 'accueil', 'personnel', 'bedienung', 'kellner', 'kellnerin',
+  ], ['staff', 'employee'], 'staff', 'friendly staff', 'poor service'),
+  topic('food', [
+    'food', 'meal', 'dish', 'cuisine', 'cooking', 'chef', 'kitchen',
+    'comida', 'plato', 'cocina', 'cocinero', 'nourriture', 'plat', 'repas', 'cuisinier', 'essen', 'gericht', 'gerichte', 'speisen', 'küche', 'koch',
+  ], [], 'product', 'quality food', 'poor food'),
+  topic('coffee', [
+    'coffee', 'espresso', 'latte', 'cappuccino', 'brew', 'bean',
+    'café', 'cortado', 'kaffee',
+  ], [], 'product', 'quality food', 'poor food'),
+  topic('atmosphere', [
+    'atmosphere', 'ambiance', 'environment', 'decor', 'music', 'lighting',
+    'ambiente', 'decoración', 'música', 'musique', 'atmosphäre', 'stimmung', 'einrichtung', 'musik',
+  ], [], 'ambiance', 'good atmosphere', 'poor atmosphere'),
+  topic('price', [
+    'price', 'cost', 'expensive', 'cheap', 'affordable', 'value', 'worth',
+    'precio', 'caro', 'barato', 'cuenta', 'prix', 'cher', 'chère', 'tarif', 'preis', 'preise', 'teuer', 'günstig', 'rechnung',
+  ], [], 'value', 'good value', 'overpriced'),
+  topic('location', [
+    'location', 'place', 'area', 'neighborhood', 'parking', 'access',
+    'ubicación', 'zona', 'barrio', 'aparcamiento', 'emplacement', 'quartier', 'endroit', 'lage', 'parkplatz', 'parkplätze', 'gegend',
+  ], [], 'other'),
+  topic('cleanliness', [
+    'clean', 'cleanliness', 'dirty', 'hygiene', 'sanitary', 'messy', 'tidy',
+    'limpio', 'limpia', 'limpieza', 'sucio', 'sucia', 'higiene', 'propre', 'propreté', 'saleté', 'hygiène', 'sauber', 'saubere', 'sauberkeit', 'schmutzig', 'dreckig',
+  ], [], 'other'),
+  topic('speed', [
+    'fast', 'slow', 'quick', 'wait', 'time', 'efficient', 'delayed',
+    'rápido', 'rápida', 'lento', 'lenta', 'espera', 'esperar', 'rapide', 'lente', 'attente', 'attendu', 'attendre', 'schnell', 'langsam', 'wartezeit', 'warten', 'gewartet',
+  ], [], 'service', 'fast service', 'slow service'),
+]
+
+const WORD_CHAR = 'a-z0-9\\u00C0-\\u024F'
+// Endings a keyword may take, so "wait" also finds "waited" and "waiting"
+const INFLECTIONS = '(?:s|es|d|ed|ing|ly)?'
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Text and terms are compared without accents, so "atencion" finds "atención"
+const normalize = (value: string) => foldAccents(value.toLowerCase())
+
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?:^|[^${WORD_CHAR}])${escapeRegExp(normalize(term))}${INFLECTIONS}(?![${WORD_CHAR}])`)
+}
+
+const patternCache = new Map<string, RegExp>()
+
+function mentions(normalizedText: string, term: string): boolean {
+  let pattern = patternCache.get(term)
+  if (!pattern) {
+    pattern = termPattern(term)
+    patternCache.set(term, pattern)
+  }
+  return pattern.test(normalizedText)
+}
+
+// Topics whose name, keywords or synonyms appear in the text as whole words
+export function extractKeyTopics(text: string, topics: TopicDefinition[]): string[] {
+  const normalizedText = normalize(text)
+
+  return topics
+    .filter(({ name, keywords, synonyms }) => [name, ...keywords, ...synonyms].some(term => mentions(normalizedText, term)))
+    .map(({ name }) => name)
+}
+
+// The taxonomy's name for a topic given by name or synonym, or null when it has none
+export function resolveTopicName(name: string, topics: TopicDefinition[]): string | null {
+  const lower = name.trim().toLowerCase()
+  const match = topics.find(topic =>
+    topic.name.toLowerCase() === lower || topic.synonyms.some(synonym => synonym.toLowerCase() === lower)
+  )
+  return match?.name ?? null
+}
+
+// Short sentences read well as highlights; long ones are left out
+export function extractKeyPhrases(text: string): string[] {
+  const phrases: string[] = []
+  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0)
+
+  sentences.forEach(sentence => {
+    const words = sentence.trim().split(' ')
+    if (words.length >= 3 && words.length <= 8) {
+      phrases.push(sentence.trim())
+    }
+  })
+
+  return phrases.slice(0, 5) // Return up to 5 key phrases
+}
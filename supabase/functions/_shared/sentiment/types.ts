@@ -0,0 +1,60 @@
+import type { Database, Json } from '../database.ts'
+import type { ReviewLanguage } from './language.ts'
+import type { TopicDefinition } from './topics.ts'
+
+// Mirrors businesses.sentiment_provider
+export type SentimentProviderName = NonNullable<Database['public']['Tables']['businesses']['Row']['sentiment_provider']>
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral'
+
+// What a provider returns for one review, in the shape sentiment_analysis stores
+export interface SentimentResult {
+  overall_sentiment: SentimentLabel
+  // -1 (most negative) to 1 (most positive)
+  sentiment_score: number
+  // 0 to 1
+  confidence_score: number
+  // Names from the business's topic taxonomy
+  key_topics: string[]
+  // Topics from key_topics spoken of favorably or unfavorably, each judged on
+  // its own; a review can praise one topic and criticize another
+  positive_aspects: string[]
+  negative_aspects: string[]
+  key_phrases: string[]
+  analysis_metadata: { [key: string]: Json }
+}
+
+export type AspectSentiment = Pick<SentimentResult, 'positive_aspects' | 'negative_aspects'>
+
+export interface SentimentProviderConfig {
+  apiKey: string
+  baseUrl?: string
+  model?: string
+  // How long to wait for an answer before giving up on the provider
+  timeoutMs?: number
+  fetch?: typeof fetch
+}
+
+// A sentiment backend: one module per provider, registered in registry.ts.
+// Providers throw SentimentProviderError when they cannot produce a result so
+// the caller can fall back to another one.
+export interface SentimentProvider {
+  name: SentimentProviderName
+  displayName: string
+  // Environment variables the edge functions read to build SentimentProviderConfig.
+  // Absent for providers that run in-process.
+  env?: {
+    apiKey: string
+    baseUrl: string
+    model: string
+  }
+  // `topics` is the taxonomy of the review's business; key_topics and the
+  // aspects only ever name topics from it. `language` is the review's, as
+  // detected by detectLanguage.
+  analyze(
+    text: string,
+    config: SentimentProviderConfig,
+    topics: TopicDefinition[],
+    language: ReviewLanguage
+  ): Promise<SentimentResult>
+}
@@ -0,0 +1,5 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { Database } from './database.ts'
+
+// A client typed against the generated schema. Functions create theirs with createClient<Database>().
+export type DatabaseClient = SupabaseClient<Database>
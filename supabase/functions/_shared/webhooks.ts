@@ -0,0 +1,80 @@
+import type { Platform, ReviewData } from './platforms/types.ts'
+
+// Mirrors `PlatformWebhookPayload` in database-types.ts
+export interface ReviewWebhookPayload {
+  platform: Platform
+  // The platform's own identifier for the business, as stored in the adapter's businessIdColumn
+  business_id: string
+  review_id: string
+  review_data: {
+    text: string
+    rating: number
+    date: string
+    user_name?: string
+    user_avatar?: string
+    url?: string
+  }
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-echopilot-signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-echopilot-timestamp'
+
+// Signed requests older (or newer) than this are rejected as replays
+export const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000
+
+// Hex HMAC-SHA256 of `<timestamp>.<raw body>`, keyed with the source's secret.
+// Senders put it in the signature header as `sha256=<hex>`.
+export async function signWebhookBody(secret: string, timestamp: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`))
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Checks the signature header against the raw body. `timestamp` is Unix seconds.
+export async function verifyWebhookSignature(
+  secret: string,
+  request: { signature: string | null; timestamp: string | null; body: string },
+  now: number = Date.now()
+): Promise<boolean> {
+  const { signature, timestamp, body } = request
+  if (!secret || !signature || !timestamp) return false
+
+  const sentAt = Number(timestamp) * 1000
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > WEBHOOK_TOLERANCE_MS) return false
+
+  const expected = await signWebhookBody(secret, timestamp, body)
+  return timingSafeEqual(signature.replace(/^sha256=/, ''), expected)
+}
+
+// Compares every character so the response time does not leak how much matched
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+// Maps a pushed review into the shape the adapters produce, so it goes
+// through the same storeReviews dedup and edit detection as polled reviews
+export function reviewDataFromWebhook(payload: ReviewWebhookPayload, platformName: string): ReviewData {
+  const review = payload.review_data
+
+  return {
+    platform_review_id: payload.review_id,
+    reviewer_name: review.user_name || `${platformName} user`,
+    reviewer_avatar: review.user_avatar,
+    rating: review.rating,
+    review_text: review.text,
+    review_date: new Date(review.date).toISOString(),
+    review_url: review.url ?? null,
+  }
+}
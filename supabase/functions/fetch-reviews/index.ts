@@ -1,5 +1,36 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  adapterConfigFromEnv,
+  fetchNormalizedReviews,
+  getAdapter,
+  iterateReviewPages,
+} from '../_shared/platforms/registry.ts'
+import { PlatformApiError, PlatformRateLimitError } from '../_shared/platforms/errors.ts'
+import { createPostgresRateLimiter } from '../_shared/platforms/rate-limiter.ts'
+import { advanceCursor, isNewerThanCursor, rewindCursor, type ReviewCursor } from '../_shared/platforms/cursor.ts'
+import type { AdapterConfig, Platform, ReviewData, ReviewSourceAdapter } from '../_shared/platforms/types.ts'
+import { isFetchDue, nextFetchDue } from '../_shared/scheduling.ts'
+import {
+  finishIngestionRun,
+  startIngestionRun,
+  type IngestionCounts,
+  type IngestionMode,
+  type IngestionTriggerSource,
+} from '../_shared/ingestion-runs.ts'
+import {
+  loadIngestionCursor,
+  reviewCursorOf,
+  reviewCursorPatch,
+  saveIngestionCursor,
+  type BackfillStatus,
+  type IngestionCursor,
+} from '../_shared/ingestion-cursors.ts'
+import { queueNewReviewAlerts } from '../_shared/review-alerts.ts'
+import { markMissingReviewsRemoved, storeReviews, type StoredReview, type StoreResult } from '../_shared/review-store.ts'
+import { enqueueReviewJobs } from '../_shared/review-jobs.ts'
+import type { Database } from '../_shared/database.ts'
+import type { DatabaseClient } from '../_shared/supabase.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,18 +39,21 @@ const corsHeaders = {
 
 interface FetchReviewsRequest {
   business_id: string
-  platform: 'google' | 'yelp'
+  platform: Platform
   force_refresh?: boolean
+  trigger_source?: IngestionTriggerSource
+  // 'backfill' pages through the full history from the stored checkpoint
+  mode?: IngestionMode
+  // Page budget for one backfill invocation
+  max_pages?: number
 }
 
-interface ReviewData {
-  platform_review_id: string
-  reviewer_name: string
-  reviewer_avatar?: string
-  rating: number
-  review_text: string
-  review_date: string
-  review_url: string
+interface BackfillResult {
+  counts: IngestionCounts
+  inserted: StoredReview[]
+  status: BackfillStatus
+  pages_fetched: number
+  analysis_queued: number
 }
 
 serve(async (req) => {
@@ -28,14 +62,22 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
-  try {
-    // Get Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+  // Get Supabase client
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey)
+  let runId: string | null = null
 
+  try {
     // Parse request body
-    const { business_id, platform, force_refresh = false }: FetchReviewsRequest = await req.json()
+    const {
+      business_id,
+      platform,
+      force_refresh = false,
+      trigger_source = 'manual',
+      mode = 'incremental',
+      max_pages
+    }: FetchReviewsRequest = await req.json()
 
     if (!business_id || !platform) {
       return new Response(
@@ -44,6 +86,21 @@ serve(async (req) => {
       )
     }
 
+    if (mode !== 'incremental' && mode !== 'backfill') {
+      return new Response(
+        JSON.stringify({ error: `Unsupported mode: ${mode}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const adapter = getAdapter(platform)
+    if (!adapter) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported platform: ${platform}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Get business details
     const { data: business, error: businessError } = await supabase
       .from('businesses')
@@ -58,34 +115,102 @@ serve(async (req) => {
       )
     }
 
-    // Check if we should skip fetching (if not forced and recently fetched)
-    if (!force_refresh && business.last_review_fetch) {
-      const lastFetch = new Date(business.last_review_fetch)
-      const now = new Date()
-      const hoursSinceLastFetch = (now.getTime() - lastFetch.getTime()) / (1000 * 60 * 60)
-      
-      if (hoursSinceLastFetch < 24) {
-        return new Response(
-          JSON.stringify({ 
-            message: 'Reviews recently fetched, skipping',
-            last_fetch: business.last_review_fetch 
-          }),
-          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
-      }
+    runId = await startIngestionRun(supabase, { business_id, platform, trigger_source, mode })
+
+    // Skip if the business was fetched within its monitoring_frequency window.
+    // Backfill pages are not routine fetches and always run.
+    if (mode === 'incremental' && !force_refresh && !isFetchDue(business.last_review_fetch, business.monitoring_frequency)) {
+      await finishIngestionRun(supabase, runId, { status: 'skipped' })
+      return new Response(
+        JSON.stringify({
+          message: 'Reviews recently fetched, skipping',
+          last_fetch: business.last_review_fetch,
+          next_fetch_due: nextFetchDue(business.last_review_fetch, business.monitoring_frequency)
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
     }
 
     // Fetch reviews from external platform
-    let reviews: ReviewData[] = []
-    
-    if (platform === 'google') {
-      reviews = await fetchGoogleReviews(business.google_place_id)
-    } else if (platform === 'yelp') {
-      reviews = await fetchYelpReviews(business.yelp_business_id)
+    const platformBusinessId = business[adapter.businessIdColumn]
+    if (!platformBusinessId) {
+      await finishIngestionRun(supabase, runId, {
+        status: 'failed',
+        error: new Error(`Business has no ${adapter.businessIdColumn}`)
+      })
+      return new Response(
+        JSON.stringify({ error: `Business has no ${adapter.businessIdColumn}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
     }
 
+    // Transient 429/5xx responses are retried inside the adapters; the shared
+    // token bucket keeps concurrent scheduler fetches within platform quotas
+    const config: AdapterConfig = {
+      ...adapterConfigFromEnv(adapter, (name) => Deno.env.get(name)),
+      http: { rateLimiter: createPostgresRateLimiter(supabase) },
+      language: business.review_language ?? undefined
+    }
+    const cursor = await loadIngestionCursor(supabase, business_id, platform)
+    // Only reviews newer than the cursor we started from are worth an alert.
+    // Without a cursor this is the first sync, which sets the baseline silently.
+    const alertCursor = reviewCursorOf(cursor)
+
+    if (mode === 'backfill') {
+      const pageBudget = max_pages ?? Number(Deno.env.get('BACKFILL_PAGES_PER_RUN') ?? 20)
+      const backfill = await runBackfill(supabase, adapter, business_id, platformBusinessId, config, cursor, pageBudget)
+      const alertsQueued = await queueNewReviewAlerts(
+        supabase,
+        business,
+        adapter.displayName,
+        reviewsNewerThan(backfill.inserted, alertCursor)
+      )
+
+      await finishIngestionRun(supabase, runId, { status: 'succeeded', counts: backfill.counts })
+
+      return new Response(
+        JSON.stringify({
+          message: backfill.status === 'completed' ? 'Backfill completed' : 'Backfill checkpoint saved',
+          ...backfill.counts,
+          alerts_queued: alertsQueued,
+          analysis_queued: backfill.analysis_queued,
+          backfill_status: backfill.status,
+          backfill_pages_fetched: backfill.pages_fetched,
+          run_id: runId,
+          platform,
+          business_id
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Routine runs pull reviews published after the stored cursor, plus a
+    // trailing window of stored ones so their edits are picked up too
+    const reconcileDays = Number(Deno.env.get('RECONCILE_WINDOW_DAYS') ?? 14)
+    const reviews: ReviewData[] = await fetchNormalizedReviews(adapter, platformBusinessId, config, {
+      since: rewindCursor(alertCursor, reconcileDays)
+    })
+
     // Process and store reviews
-    const processedReviews = await processAndStoreReviews(supabase, business_id, platform, reviews)
+    const stored = await storeReviews(supabase, business_id, platform, reviews)
+    const counts: IngestionCounts = {
+      reviews_fetched: reviews.length,
+      reviews_inserted: stored.inserted.length,
+      reviews_skipped: stored.existing.length - stored.updated.length,
+      reviews_failed: stored.failed,
+      reviews_updated: stored.updated.length,
+      reviews_removed: 0
+    }
+
+    await saveIngestionCursor(supabase, business_id, platform, reviewCursorPatch(advanceCursor(alertCursor, reviews)))
+    const analysisQueued = await enqueueAnalysis(supabase, stored)
+
+    const alertsQueued = await queueNewReviewAlerts(
+      supabase,
+      business,
+      adapter.displayName,
+      reviewsNewerThan(stored.inserted, alertCursor)
+    )
 
     // Update business last_fetch timestamp
     await supabase
@@ -93,10 +218,16 @@ serve(async (req) => {
       .update({ last_review_fetch: new Date().toISOString() })
       .eq('id', business_id)
 
+    await finishIngestionRun(supabase, runId, { status: 'succeeded', counts })
+
     return new Response(
       JSON.stringify({
         message: 'Reviews fetched successfully',
-        reviews_processed: processedReviews.length,
+        reviews_processed: stored.inserted.length,
+        ...counts,
+        alerts_queued: alertsQueued,
+        analysis_queued: analysisQueued,
+        run_id: runId,
         platform,
         business_id
       }),
@@ -104,6 +235,22 @@ serve(async (req) => {
     )
 
   } catch (error) {
+    await finishIngestionRun(supabase, runId, { status: 'failed', error })
+
+    if (error instanceof PlatformApiError) {
+      console.error(`${error.platform} API error (${error.code}):`, error.message)
+      const status = error instanceof PlatformRateLimitError ? 429 : 502
+      const headers: Record<string, string> = { ...corsHeaders, 'Content-Type': 'application/json' }
+      if (error instanceof PlatformRateLimitError && error.retryAfterMs !== null) {
+        headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000))
+      }
+
+      return new Response(
+        JSON.stringify({ error: error.message, code: error.code, retryable: error.retryable }),
+        { status, headers }
+      )
+    }
+
     console.error('Error fetching reviews:', error)
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
@@ -112,118 +259,114 @@ serve(async (req) => {
   }
 })
 
-async function fetchGoogleReviews(placeId: string): Promise<ReviewData[]> {
-  // This is a mock implementation
-  // In production, you would use the Google Places API
-  const mockReviews: ReviewData[] = [
-    {
-      platform_review_id: `google_${Date.now()}_1`,
-      reviewer_name: 'John Doe',
-      reviewer_avatar: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=150&h=150&fit=crop&crop=face',
-      rating: 5,
-      review_text: 'Great service and amazing food! Highly recommend this place.',
-      review_date: new Date().toISOString(),
-      review_url: `https://maps.google.com/place/${placeId}/review/1`
-    },
-    {
-      platform_review_id: `google_${Date.now()}_2`,
-      reviewer_name: 'Jane Smith',
-      reviewer_avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150&h=150&fit=crop&crop=face',
-      rating: 4,
-      review_text: 'Good experience overall. The staff was friendly and the food was delicious.',
-      review_date: new Date(Date.now() - 86400000).toISOString(), // 1 day ago
-      review_url: `https://maps.google.com/place/${placeId}/review/2`
-    }
-  ]
-
-  return mockReviews
-}
+// Pages through the platform's full history, resuming from the checkpoint of
+// an unfinished backfill. The checkpoint is saved after every page, so a
+// timeout or platform error loses at most the page in flight.
+async function runBackfill(
+  supabase: DatabaseClient,
+  adapter: ReviewSourceAdapter,
+  businessId: string,
+  platformBusinessId: string,
+  config: AdapterConfig,
+  cursor: IngestionCursor | null,
+  pageBudget: number
+): Promise<BackfillResult> {
+  const platform = adapter.platform
+  const resuming = Boolean(cursor?.backfill_page_cursor) && cursor?.backfill_status !== 'completed'
+  let pagesFetched = resuming ? cursor!.backfill_pages_fetched ?? 0 : 0
+  let reviewsFetched = resuming ? cursor!.backfill_reviews_fetched ?? 0 : 0
+  let latest = reviewCursorOf(cursor)
+  const startedAt = resuming && cursor?.backfill_started_at ? cursor.backfill_started_at : new Date().toISOString()
 
-async function fetchYelpReviews(businessId: string): Promise<ReviewData[]> {
-  // This is a mock implementation
-  // In production, you would use the Yelp Fusion API
-  const mockReviews: ReviewData[] = [
-    {
-      platform_review_id: `yelp_${Date.now()}_1`,
-      reviewer_name: 'Mike Johnson',
-      reviewer_avatar: 'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?w=150&h=150&fit=crop&crop=face',
-      rating: 5,
-      review_text: 'Excellent service and great atmosphere. Will definitely come back!',
-      review_date: new Date().toISOString(),
-      review_url: `https://www.yelp.com/biz/${businessId}/review/1`
+  const result: BackfillResult = {
+    counts: {
+      reviews_fetched: 0,
+      reviews_inserted: 0,
+      reviews_skipped: 0,
+      reviews_failed: 0,
+      reviews_updated: 0,
+      reviews_removed: 0
     },
-    {
-      platform_review_id: `yelp_${Date.now()}_2`,
-      reviewer_name: 'Lisa Brown',
-      reviewer_avatar: 'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=150&h=150&fit=crop&crop=face',
-      rating: 3,
-      review_text: 'The food was okay, but the service was a bit slow. Average experience.',
-      review_date: new Date(Date.now() - 172800000).toISOString(), // 2 days ago
-      review_url: `https://www.yelp.com/biz/${businessId}/review/2`
-    }
-  ]
+    inserted: [],
+    status: 'running',
+    pages_fetched: pagesFetched,
+    analysis_queued: 0
+  }
 
-  return mockReviews
-}
+  await saveIngestionCursor(supabase, businessId, platform, {
+    backfill_status: 'running',
+    backfill_completed_at: null,
+    ...(resuming ? {} : {
+      backfill_page_cursor: null,
+      backfill_pages_fetched: 0,
+      backfill_reviews_fetched: 0,
+      backfill_started_at: startedAt
+    })
+  })
 
-async function processAndStoreReviews(
-  supabase: any,
-  businessId: string,
-  platform: string,
-  reviews: ReviewData[]
-): Promise<any[]> {
-  const processedReviews = []
-
-  for (const review of reviews) {
-    // Check if review already exists
-    const { data: existingReview } = await supabase
-      .from('reviews')
-      .select('id')
-      .eq('business_id', businessId)
-      .eq('platform', platform)
-      .eq('platform_review_id', review.platform_review_id)
-      .single()
+  try {
+    let pagesThisRun = 0
+    const pages = iterateReviewPages(
+      adapter,
+      platformBusinessId,
+      config,
+      resuming ? cursor!.backfill_page_cursor : null
+    )
 
-    if (existingReview) {
-      continue // Skip if review already exists
-    }
+    for await (const page of pages) {
+      const stored = await storeReviews(supabase, businessId, platform, page.reviews)
+      result.counts.reviews_fetched += page.reviews.length
+      result.counts.reviews_inserted += stored.inserted.length
+      result.counts.reviews_skipped += stored.existing.length - stored.updated.length
+      result.counts.reviews_failed += stored.failed
+      result.counts.reviews_updated += stored.updated.length
+      result.inserted.push(...stored.inserted)
+      result.analysis_queued += await enqueueAnalysis(supabase, stored)
 
-    // Insert new review
-    const { data: newReview, error: insertError } = await supabase
-      .from('reviews')
-      .insert({
-        business_id: businessId,
-        platform,
-        platform_review_id: review.platform_review_id,
-        reviewer_name: review.reviewer_name,
-        reviewer_avatar: review.reviewer_avatar,
-        rating: review.rating,
-        review_text: review.review_text,
-        review_date: review.review_date,
-        review_url: review.review_url,
-        is_processed: false,
-        processing_status: 'pending'
+      pagesFetched++
+      reviewsFetched += page.reviews.length
+      latest = advanceCursor(latest, page.reviews)
+      if (!page.nextPageCursor) {
+        result.status = 'completed'
+      }
+
+      await saveIngestionCursor(supabase, businessId, platform, {
+        ...reviewCursorPatch(latest),
+        backfill_status: result.status,
+        backfill_page_cursor: page.nextPageCursor,
+        backfill_pages_fetched: pagesFetched,
+        backfill_reviews_fetched: reviewsFetched,
+        ...(result.status === 'completed' ? { backfill_completed_at: new Date().toISOString() } : {})
       })
-      .select()
-      .single()
 
-    if (insertError) {
-      console.error('Error inserting review:', insertError)
-      continue
+      pagesThisRun++
+      if (pagesThisRun >= pageBudget) {
+        break
+      }
     }
+  } catch (error) {
+    // Keep the checkpoint so a later call resumes from the failed page
+    await saveIngestionCursor(supabase, businessId, platform, { backfill_status: 'failed' })
+      .catch(saveError => console.error('Error saving backfill checkpoint:', saveError))
+    throw error
+  }
 
-    processedReviews.push(newReview)
-
-    // Trigger sentiment analysis (this would typically be done by another function)
-    // For now, we'll just mark it as processed
-    await supabase
-      .from('reviews')
-      .update({ 
-        is_processed: true, 
-        processing_status: 'completed' 
-      })
-      .eq('id', newReview.id)
+  // Every review still on the platform was seen since the backfill started.
+  // A failed write would leave its review looking unseen, so skip that case.
+  if (result.status === 'completed' && adapter.capabilities.completeHistory && result.counts.reviews_failed === 0) {
+    result.counts.reviews_removed = await markMissingReviewsRemoved(supabase, businessId, platform, startedAt)
   }
 
-  return processedReviews
-} 
\ No newline at end of file
+  result.pages_fetched = pagesFetched
+  return result
+}
+
+// New reviews and reviews whose content changed both need (re)analysis
+function enqueueAnalysis(supabase: DatabaseClient, stored: StoreResult): Promise<number> {
+  return enqueueReviewJobs(supabase, [...stored.inserted, ...stored.updated].map(review => review.id))
+}
+
+function reviewsNewerThan(reviews: StoredReview[], cursor: ReviewCursor | null): StoredReview[] {
+  if (!cursor) return []
+  return reviews.filter(review => isNewerThanCursor(review, cursor))
+}
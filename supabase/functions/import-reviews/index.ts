@@ -0,0 +1,237 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { storeReviews, type ReviewPlatform } from '../_shared/review-store.ts'
+import { enqueueReviewJobs } from '../_shared/review-jobs.ts'
+import {
+  ImportParseError,
+  MAX_IMPORT_ROWS,
+  missingRequiredFields,
+  parseImportFile,
+  suggestColumnMapping,
+  validateImportRecords,
+  type ColumnMapping,
+  type ImportFormat,
+  type ImportRowResult,
+} from '../_shared/review-import.ts'
+import type { Database } from '../_shared/database.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const IMPORT_PLATFORMS: ReviewPlatform[] = ['google', 'yelp', 'facebook', 'tripadvisor', 'other']
+
+const isImportPlatform = (platform: string): platform is ReviewPlatform =>
+  (IMPORT_PLATFORMS as string[]).includes(platform)
+
+// Rows echoed back in a preview, and rejected rows kept on the import record
+const PREVIEW_ROWS = 20
+const MAX_RECORDED_ERRORS = 500
+
+interface ImportReviewsRequest {
+  business_id: string
+  // 'preview' validates without writing; 'commit' stores the valid rows
+  action?: 'preview' | 'commit'
+  format: ImportFormat
+  content: string
+  file_name?: string
+  // Defaults to a mapping guessed from the column names
+  mapping?: ColumnMapping
+  platform?: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey)
+  let importId: string | null = null
+
+  try {
+    const {
+      business_id,
+      action = 'preview',
+      format,
+      content,
+      file_name,
+      mapping: requestedMapping,
+      platform = 'other'
+    }: ImportReviewsRequest = await req.json()
+
+    if (!business_id || !format || typeof content !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields: business_id, format and content' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (format !== 'csv' && format !== 'json') {
+      return new Response(
+        JSON.stringify({ error: `Unsupported format: ${format}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!isImportPlatform(platform)) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported platform: ${platform}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Look the business up as the caller, so RLS decides who may import into it
+    const userClient = createClient<Database>(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+    })
+    const { data: business } = await userClient
+      .from('businesses')
+      .select('id, user_id')
+      .eq('id', business_id)
+      .maybeSingle()
+
+    if (!business) {
+      return new Response(
+        JSON.stringify({ error: 'Business not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    let parsed
+    try {
+      parsed = parseImportFile(content, format)
+    } catch (error) {
+      if (error instanceof ImportParseError) {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      throw error
+    }
+
+    if (parsed.records.length > MAX_IMPORT_ROWS) {
+      return new Response(
+        JSON.stringify({ error: `Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and try again` }),
+        { status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const mapping = requestedMapping ?? suggestColumnMapping(parsed.columns)
+    const missing = missingRequiredFields(mapping)
+    const results = missing.length === 0 ? await validateImportRecords(parsed.records, mapping) : []
+    const valid = results.filter(result => result.review !== null)
+    const invalid = results.filter(result => result.review === null)
+
+    const summary = {
+      columns: parsed.columns,
+      mapping,
+      missing_fields: missing,
+      rows_total: parsed.records.length,
+      rows_valid: valid.length,
+      rows_invalid: invalid.length
+    }
+
+    if (action === 'preview') {
+      return new Response(
+        JSON.stringify({
+          ...summary,
+          preview: results.slice(0, PREVIEW_ROWS),
+          errors: rowErrors(invalid)
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (missing.length > 0 || valid.length === 0) {
+      return new Response(
+        JSON.stringify({
+          error: missing.length > 0 ? `Map a column to: ${missing.join(', ')}` : 'No valid rows to import',
+          ...summary
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: importRow, error: importError } = await supabase
+      .from('review_imports')
+      .insert({
+        business_id,
+        user_id: business.user_id,
+        file_name: file_name ?? null,
+        format,
+        platform,
+        column_mapping: mapping,
+        rows_total: parsed.records.length,
+        rows_invalid: invalid.length,
+        errors: rowErrors(invalid)
+      })
+      .select('id')
+      .single()
+
+    if (importError) {
+      throw importError
+    }
+    importId = importRow.id
+
+    // Rows already stored are counted as duplicates and left as they are, so a
+    // rollback only ever removes what this import created
+    const stored = await storeReviews(
+      supabase,
+      business_id,
+      platform,
+      valid.map(result => result.review!),
+      { importId: importRow.id, reconcile: false }
+    )
+    const analysisQueued = await enqueueReviewJobs(supabase, stored.inserted.map(review => review.id))
+
+    const counts = {
+      rows_inserted: stored.inserted.length,
+      rows_duplicate: stored.existing.length,
+      rows_failed: stored.failed
+    }
+    const status = invalid.length > 0 || stored.failed > 0 ? 'completed_with_errors' : 'completed'
+
+    await supabase
+      .from('review_imports')
+      .update({ ...counts, status, completed_at: new Date().toISOString() })
+      .eq('id', importRow.id)
+
+    return new Response(
+      JSON.stringify({
+        message: 'Reviews imported',
+        import_id: importRow.id,
+        status,
+        ...summary,
+        ...counts,
+        analysis_queued: analysisQueued
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error importing reviews:', error)
+
+    // Undo a half-finished import rather than leave some of its rows behind
+    if (importId) {
+      await supabase.from('reviews').delete().eq('import_id', importId)
+      await supabase
+        .from('review_imports')
+        .update({ status: 'failed', completed_at: new Date().toISOString() })
+        .eq('id', importId)
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+function rowErrors(invalid: ImportRowResult[]) {
+  return invalid.slice(0, MAX_RECORDED_ERRORS).map(({ row, errors }) => ({ row, errors }))
+}
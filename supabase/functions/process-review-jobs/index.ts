@@ -0,0 +1,164 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { runWithConcurrency } from '../_shared/scheduling.ts'
+import { failedReviewJobUpdate, PermanentJobError, type ReviewJob } from '../_shared/review-jobs.ts'
+import type { Database } from '../_shared/database.ts'
+import type { DatabaseClient } from '../_shared/supabase.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ProcessJobsRequest {
+  limit?: number
+}
+
+type JobOutcome = 'succeeded' | 'retrying' | 'dead'
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  // Only pg_cron (or an operator holding the service key) may run the worker
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey)
+
+  try {
+    const body: ProcessJobsRequest = await req.json().catch(() => ({}))
+    const batchSize = body.limit ?? Number(Deno.env.get('REVIEW_JOB_BATCH_SIZE') ?? 10)
+    const concurrency = Number(Deno.env.get('REVIEW_JOB_CONCURRENCY') ?? 4)
+    const workerId = `process-review-jobs:${crypto.randomUUID()}`
+
+    const { data: jobs, error: claimError } = await supabase
+      .rpc('claim_review_jobs', { p_worker: workerId, p_limit: batchSize })
+
+    if (claimError) {
+      throw claimError
+    }
+
+    const claimed: ReviewJob[] = jobs ?? []
+    const results = await runWithConcurrency(claimed, concurrency, (job) =>
+      processJob(supabase, supabaseUrl, supabaseServiceKey, job)
+    )
+
+    const outcomes = results.map(result => result.status === 'fulfilled' ? result.value : 'retrying')
+    const summary = {
+      jobs_claimed: claimed.length,
+      jobs_succeeded: outcomes.filter(outcome => outcome === 'succeeded').length,
+      jobs_retrying: outcomes.filter(outcome => outcome === 'retrying').length,
+      jobs_dead: outcomes.filter(outcome => outcome === 'dead').length
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Review jobs processed', worker_id: workerId, ...summary }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error processing review jobs:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+async function processJob(
+  supabase: DatabaseClient,
+  supabaseUrl: string,
+  serviceKey: string,
+  job: ReviewJob
+): Promise<JobOutcome> {
+  try {
+    const { data: review, error: reviewError } = await supabase
+      .from('reviews')
+      .select('id, review_text')
+      .eq('id', job.review_id)
+      .single()
+
+    if (reviewError) {
+      throw reviewError
+    }
+
+    if (review.review_text?.trim()) {
+      await invokeAnalyzeSentiment(supabaseUrl, serviceKey, { id: review.id, review_text: review.review_text })
+    } else {
+      // Rating-only reviews have no text for the pipeline to analyze
+      await supabase
+        .from('reviews')
+        .update({ is_processed: true, processing_status: 'completed' })
+        .eq('id', review.id)
+    }
+
+    await supabase
+      .from('review_jobs')
+      .update({
+        status: 'succeeded',
+        completed_at: new Date().toISOString(),
+        locked_at: null,
+        locked_by: null,
+        last_error: null
+      })
+      .eq('id', job.id)
+
+    return 'succeeded'
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    const update = failedReviewJobUpdate(job, message, { permanent: error instanceof PermanentJobError })
+    console.error(`Review job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, message)
+
+    await supabase
+      .from('review_jobs')
+      .update(update)
+      .eq('id', job.id)
+
+    if (update.status === 'dead') {
+      await supabase
+        .from('reviews')
+        .update({ is_processed: false, processing_status: 'failed' })
+        .eq('id', job.review_id)
+      return 'dead'
+    }
+
+    return 'retrying'
+  }
+}
+
+async function invokeAnalyzeSentiment(
+  supabaseUrl: string,
+  serviceKey: string,
+  review: { id: string; review_text: string }
+): Promise<void> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/analyze-sentiment`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${serviceKey}`
+    },
+    body: JSON.stringify({ review_id: review.id, review_text: review.review_text })
+  })
+
+  if (response.ok) return
+
+  const body = await response.json().catch(() => null)
+  const message = body?.error ?? `analyze-sentiment returned HTTP ${response.status}`
+
+  // A 4xx other than throttling means the request itself is bad; retrying won't help
+  if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+    throw new PermanentJobError(message)
+  }
+  throw new Error(message)
+}
@@ -0,0 +1,219 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts'
+import { getAdapter } from '../_shared/platforms/registry.ts'
+import { isNewerThanCursor } from '../_shared/platforms/cursor.ts'
+import type { Platform, ReviewData } from '../_shared/platforms/types.ts'
+import { finishIngestionRun, startIngestionRun, type IngestionCounts } from '../_shared/ingestion-runs.ts'
+import { loadIngestionCursor, reviewCursorOf } from '../_shared/ingestion-cursors.ts'
+import { queueNewReviewAlerts } from '../_shared/review-alerts.ts'
+import { storeReviews } from '../_shared/review-store.ts'
+import { enqueueReviewJobs } from '../_shared/review-jobs.ts'
+import {
+  reviewDataFromWebhook,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type ReviewWebhookPayload,
+} from '../_shared/webhooks.ts'
+import type { Database } from '../_shared/database.ts'
+import type { DatabaseClient } from '../_shared/supabase.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${WEBHOOK_SIGNATURE_HEADER}, ${WEBHOOK_TIMESTAMP_HEADER}`,
+}
+
+const webhookPayloadSchema = z.object({
+  platform: z.enum(['google', 'yelp', 'facebook', 'tripadvisor']),
+  business_id: z.string().min(1),
+  review_id: z.string().min(1),
+  review_data: z.object({
+    text: z.string(),
+    rating: z.number().int().min(1).max(5),
+    date: z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date'),
+    user_name: z.string().optional(),
+    user_avatar: z.string().url().optional(),
+    url: z.string().url().optional(),
+  }),
+})
+
+interface WebhookResult {
+  business_id: string
+  run_id: string | null
+  inserted: boolean
+  updated: boolean
+  analysis_queued: number
+  alerts_queued: number
+}
+
+// Accepts reviews pushed by a platform or partner. The sender is named by the
+// `source` query parameter and signs each request with that source's secret.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const source = new URL(req.url).searchParams.get('source') ?? ''
+  const adapter = getAdapter(source)
+  if (!adapter) {
+    return new Response(
+      JSON.stringify({ error: `Unknown webhook source: ${source}` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  // Verify against the raw body; re-serialized JSON would not match the signature
+  const body = await req.text()
+  const secret = Deno.env.get(adapter.env.webhookSecret) ?? ''
+  if (!secret) {
+    console.error(`${adapter.env.webhookSecret} is not set; rejecting ${source} webhook`)
+  }
+
+  const signed = await verifyWebhookSignature(secret, {
+    signature: req.headers.get(WEBHOOK_SIGNATURE_HEADER),
+    timestamp: req.headers.get(WEBHOOK_TIMESTAMP_HEADER),
+    body
+  })
+  if (!signed) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid signature' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(body)
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const parsed = webhookPayloadSchema.safeParse(json)
+  if (!parsed.success) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid webhook payload', details: parsed.error.flatten() }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const payload: ReviewWebhookPayload = parsed.data
+  // A source's secret only vouches for its own platform's reviews
+  if (payload.platform !== adapter.platform) {
+    return new Response(
+      JSON.stringify({ error: `Source ${source} cannot push ${payload.platform} reviews` }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const supabase = createClient<Database>(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+
+  try {
+    // Several accounts may monitor the same place; each gets its own copy
+    const { data: businesses, error: businessError } = await supabase
+      .from('businesses')
+      .select('id, user_id, name')
+      .eq(adapter.businessIdColumn, payload.business_id)
+      .eq('is_monitoring_enabled', true)
+
+    if (businessError) {
+      throw businessError
+    }
+
+    if (!businesses || businesses.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No monitored business for this platform business ID' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const review = reviewDataFromWebhook(payload, adapter.displayName)
+    const results: WebhookResult[] = []
+    for (const business of businesses) {
+      results.push(await storeWebhookReview(supabase, business, adapter.platform, adapter.displayName, review))
+    }
+
+    return new Response(
+      JSON.stringify({ message: 'Webhook processed', review_id: payload.review_id, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    // A 5xx tells the sender to retry; storeReviews makes redelivery harmless
+    console.error('Error processing review webhook:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+// Stores one pushed review with the same dedup and edit detection as
+// fetch-reviews. The ingestion cursor is left alone: a pushed review must not
+// make the next poll skip older reviews it has not seen yet.
+async function storeWebhookReview(
+  supabase: DatabaseClient,
+  business: { id: string; user_id: string | null; name: string },
+  platform: Platform,
+  platformName: string,
+  review: ReviewData
+): Promise<WebhookResult> {
+  const runId = await startIngestionRun(supabase, { business_id: business.id, platform, trigger_source: 'webhook' })
+
+  try {
+    const cursor = reviewCursorOf(await loadIngestionCursor(supabase, business.id, platform))
+    const stored = await storeReviews(supabase, business.id, platform, [review])
+    if (stored.failed > 0) {
+      throw new Error(`Failed to store ${platform} review ${review.platform_review_id}`)
+    }
+
+    const counts: IngestionCounts = {
+      reviews_fetched: 1,
+      reviews_inserted: stored.inserted.length,
+      reviews_skipped: stored.existing.length - stored.updated.length,
+      reviews_failed: stored.failed,
+      reviews_updated: stored.updated.length,
+      reviews_removed: 0
+    }
+
+    const analysisQueued = await enqueueReviewJobs(
+      supabase,
+      [...stored.inserted, ...stored.updated].map(row => row.id)
+    )
+
+    // Same rule as polling: no alerts until a first sync has set the baseline
+    const alertsQueued = cursor
+      ? await queueNewReviewAlerts(
+        supabase,
+        business,
+        platformName,
+        stored.inserted.filter(row => isNewerThanCursor(row, cursor))
+      )
+      : 0
+
+    await finishIngestionRun(supabase, runId, { status: 'succeeded', counts })
+
+    return {
+      business_id: business.id,
+      run_id: runId,
+      inserted: stored.inserted.length > 0,
+      updated: stored.updated.length > 0,
+      analysis_queued: analysisQueued,
+      alerts_queued: alertsQueued
+    }
+  } catch (error) {
+    await finishIngestionRun(supabase, runId, { status: 'failed', error })
+    throw error
+  }
+}
@@ -0,0 +1,166 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { listAdapters } from '../_shared/platforms/registry.ts'
+import { runWithConcurrency } from '../_shared/scheduling.ts'
+import type { IngestionMode } from '../_shared/ingestion-runs.ts'
+import type { Database } from '../_shared/database.ts'
+import type { DatabaseClient } from '../_shared/supabase.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ScheduleRequest {
+  trigger_source?: 'cron' | 'manual'
+  limit?: number
+}
+
+interface FetchJob {
+  business_id: string
+  platform: string
+  mode?: IngestionMode
+}
+
+// A backfill checkpoint untouched for this long is no longer being worked on
+const STALE_BACKFILL_MS = 5 * 60 * 1000
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  // Only pg_cron (or an operator holding the service key) may start a tick
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey)
+  let runId: string | null = null
+
+  try {
+    const body: ScheduleRequest = await req.json().catch(() => ({}))
+    const triggerSource = body.trigger_source === 'cron' ? 'cron' : 'manual'
+    const batchSize = body.limit ?? Number(Deno.env.get('SCHEDULER_BATCH_SIZE') ?? 50)
+    const concurrency = Number(Deno.env.get('SCHEDULER_CONCURRENCY') ?? 4)
+
+    const { data: run } = await supabase
+      .from('scheduler_runs')
+      .insert({ trigger_source: triggerSource })
+      .select('id')
+      .single()
+    runId = run?.id ?? null
+
+    // Pick businesses whose monitoring_frequency window has elapsed
+    const { data: businesses, error: dueError } = await supabase
+      .rpc('businesses_due_for_fetch', { p_limit: batchSize })
+
+    if (dueError) {
+      throw dueError
+    }
+
+    // One fetch per business and platform it has an identifier for
+    const jobs: FetchJob[] = []
+    for (const business of businesses ?? []) {
+      for (const adapter of listAdapters()) {
+        if (business[adapter.businessIdColumn]) {
+          jobs.push({ business_id: business.id, platform: adapter.platform })
+        }
+      }
+    }
+
+    // Continue unfinished backfills from their checkpoint, one page budget per tick
+    const { data: backfills, error: backfillError } = await supabase
+      .from('ingestion_cursors')
+      .select('business_id, platform')
+      .eq('backfill_status', 'running')
+      .lt('updated_at', new Date(Date.now() - STALE_BACKFILL_MS).toISOString())
+      .limit(batchSize)
+
+    if (backfillError) {
+      throw backfillError
+    }
+
+    for (const backfill of backfills ?? []) {
+      jobs.push({ business_id: backfill.business_id, platform: backfill.platform, mode: 'backfill' })
+    }
+
+    // Fetches are queued through pg_net rather than awaited, so the tick ends
+    // well within the edge function's wall-clock limit however slow they are
+    const results = await runWithConcurrency(jobs, concurrency, (job) => dispatchFetchReviews(supabase, job))
+
+    const failures = results
+      .map((result, index) => ({ result, job: jobs[index] }))
+      .filter(({ result }) => result.status === 'rejected')
+      .map(({ result, job }) => ({
+        ...job,
+        error: String((result as PromiseRejectedResult).reason?.message ?? (result as PromiseRejectedResult).reason)
+      }))
+
+    failures.forEach(failure => {
+      console.error(`Could not dispatch fetch for ${failure.business_id}/${failure.platform}:`, failure.error)
+    })
+
+    const summary = {
+      businesses_due: businesses?.length ?? 0,
+      fetches_started: jobs.length,
+      fetches_succeeded: jobs.length - failures.length,
+      fetches_failed: failures.length
+    }
+
+    if (runId) {
+      await supabase
+        .from('scheduler_runs')
+        .update({ ...summary, finished_at: new Date().toISOString() })
+        .eq('id', runId)
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: 'Scheduler tick completed',
+        run_id: runId,
+        ...summary,
+        backfills_resumed: backfills?.length ?? 0,
+        failures
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error running review scheduler:', error)
+
+    if (runId) {
+      await supabase
+        .from('scheduler_runs')
+        .update({ finished_at: new Date().toISOString(), error_message: error instanceof Error ? error.message : String(error) })
+        .eq('id', runId)
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
+
+// Queues one fetch-reviews call; its outcome lands in ingestion_runs
+async function dispatchFetchReviews(supabase: DatabaseClient, job: FetchJob): Promise<number> {
+  const { data, error } = await supabase.rpc('dispatch_review_fetch', {
+    p_business_id: job.business_id,
+    p_platform: job.platform,
+    p_mode: job.mode ?? 'incremental'
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data
+}
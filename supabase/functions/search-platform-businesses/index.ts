@@ -0,0 +1,105 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  adapterConfigFromEnv,
+  searchPlatformBusinesses,
+  validatePlatformBusinessIds,
+} from '../_shared/platforms/registry.ts'
+import { createPostgresRateLimiter } from '../_shared/platforms/rate-limiter.ts'
+import type { ReviewSourceAdapter } from '../_shared/platforms/types.ts'
+import type { Database } from '../_shared/database.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface SearchPlatformBusinessesRequest {
+  // 'search' finds candidate listings; 'validate' checks IDs the user picked or typed
+  action?: 'search' | 'validate'
+  name?: string
+  address?: string
+  // Platform -> platform business ID
+  ids?: Record<string, string>
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey)
+
+  try {
+    // Lookups spend the platforms' API quota, so only signed-in users may run them
+    const userClient = createClient<Database>(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+    })
+    const { data: { user } } = await userClient.auth.getUser()
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { action = 'search', name, address, ids }: SearchPlatformBusinessesRequest = await req.json()
+
+    const rateLimiter = createPostgresRateLimiter(supabase)
+    const configFor = (adapter: ReviewSourceAdapter) => ({
+      ...adapterConfigFromEnv(adapter, (variable) => Deno.env.get(variable)),
+      http: { rateLimiter }
+    })
+
+    if (action === 'validate') {
+      if (!ids || typeof ids !== 'object') {
+        return new Response(
+          JSON.stringify({ error: 'Missing required field: ids' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const validations = await validatePlatformBusinessIds(ids, configFor)
+      return new Response(
+        JSON.stringify({ validations, valid: validations.every(validation => validation.valid) }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (action !== 'search') {
+      return new Response(
+        JSON.stringify({ error: `Unsupported action: ${action}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!name?.trim()) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: name' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const results = await searchPlatformBusinesses(
+      { name: name.trim(), address: address?.trim() || undefined },
+      configFor
+    )
+
+    return new Response(
+      JSON.stringify({ results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error searching platform businesses:', error)
+
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
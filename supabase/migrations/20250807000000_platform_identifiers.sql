@@ -0,0 +1,9 @@
+-- Platform identifiers for the Facebook Pages and Tripadvisor review adapters
+ALTER TABLE public.businesses ADD COLUMN IF NOT EXISTS facebook_page_id TEXT;
+ALTER TABLE public.businesses ADD COLUMN IF NOT EXISTS tripadvisor_location_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_businesses_facebook_page_id ON public.businesses(facebook_page_id);
+CREATE INDEX IF NOT EXISTS idx_businesses_tripadvisor_location_id ON public.businesses(tripadvisor_location_id);
+
+COMMENT ON COLUMN public.businesses.facebook_page_id IS 'Facebook Page identifier for Graph API ratings';
+COMMENT ON COLUMN public.businesses.tripadvisor_location_id IS 'Tripadvisor Content API location identifier';
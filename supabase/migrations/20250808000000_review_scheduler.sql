@@ -0,0 +1,84 @@
+-- Scheduled review fetching driven by businesses.monitoring_frequency
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- One row per scheduler tick
+CREATE TABLE public.scheduler_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    trigger_source TEXT NOT NULL DEFAULT 'cron' CHECK (trigger_source IN ('cron', 'manual')),
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    businesses_due INTEGER DEFAULT 0,
+    fetches_started INTEGER DEFAULT 0,
+    fetches_succeeded INTEGER DEFAULT 0,
+    fetches_failed INTEGER DEFAULT 0,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_scheduler_runs_started_at ON public.scheduler_runs(started_at);
+CREATE INDEX idx_businesses_due_for_fetch ON public.businesses(is_monitoring_enabled, last_review_fetch);
+
+ALTER TABLE public.scheduler_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scheduler runs" ON public.scheduler_runs
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE auth_user_id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Businesses whose monitoring_frequency window has elapsed, oldest fetch first
+CREATE OR REPLACE FUNCTION public.businesses_due_for_fetch(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.businesses AS $$
+    SELECT b.*
+    FROM public.businesses b
+    WHERE b.is_monitoring_enabled = true
+      AND (
+        b.last_review_fetch IS NULL
+        OR b.last_review_fetch <= NOW() - CASE b.monitoring_frequency
+            WHEN 'hourly' THEN INTERVAL '1 hour'
+            WHEN 'weekly' THEN INTERVAL '7 days'
+            ELSE INTERVAL '1 day'
+        END
+      )
+    ORDER BY b.last_review_fetch NULLS FIRST
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.businesses_due_for_fetch(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Calls the schedule-review-fetches tick endpoint. The project URL and service
+-- role key are read from database settings so they never live in migrations:
+--   ALTER DATABASE postgres SET app.settings.functions_url = 'https://<ref>.supabase.co/functions/v1';
+--   ALTER DATABASE postgres SET app.settings.service_role_key = '<service role key>';
+CREATE OR REPLACE FUNCTION public.invoke_review_scheduler()
+RETURNS BIGINT AS $$
+DECLARE
+    functions_url TEXT := current_setting('app.settings.functions_url', true);
+    service_role_key TEXT := current_setting('app.settings.service_role_key', true);
+BEGIN
+    IF functions_url IS NULL OR service_role_key IS NULL THEN
+        RAISE WARNING 'Review scheduler settings are missing; skipping tick';
+        RETURN NULL;
+    END IF;
+
+    RETURN net.http_post(
+        url := functions_url || '/schedule-review-fetches',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || service_role_key
+        ),
+        body := jsonb_build_object('trigger_source', 'cron')
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Hourly is the shortest monitoring_frequency, so a 15 minute tick keeps
+-- every business within a quarter hour of its due time
+SELECT cron.schedule(
+    'review-scheduler-tick',
+    '*/15 * * * *',
+    $$SELECT public.invoke_review_scheduler()$$
+);
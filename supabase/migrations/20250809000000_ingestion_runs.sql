@@ -0,0 +1,28 @@
+-- Per business, per platform history of fetch-reviews invocations
+CREATE TABLE public.ingestion_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES public.businesses(id) ON DELETE CASCADE,
+    platform TEXT NOT NULL CHECK (platform IN ('google', 'yelp', 'facebook', 'tripadvisor')),
+    trigger_source TEXT NOT NULL DEFAULT 'manual' CHECK (trigger_source IN ('manual', 'scheduler', 'webhook', 'import')),
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed', 'skipped')),
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    reviews_fetched INTEGER DEFAULT 0,
+    reviews_inserted INTEGER DEFAULT 0,
+    reviews_skipped INTEGER DEFAULT 0,
+    reviews_failed INTEGER DEFAULT 0,
+    error JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_ingestion_runs_business_started ON public.ingestion_runs(business_id, started_at DESC);
+CREATE INDEX idx_ingestion_runs_status ON public.ingestion_runs(status);
+
+ALTER TABLE public.ingestion_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view ingestion runs for own businesses" ON public.ingestion_runs
+    FOR SELECT USING (business_id IN (
+        SELECT b.id FROM public.businesses b
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
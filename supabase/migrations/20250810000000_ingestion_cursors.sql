@@ -0,0 +1,36 @@
+-- Per business, per platform position for incremental fetches and historical backfill.
+-- last_review_* is the newest review seen so routine runs stop once they reach it;
+-- backfill_page_cursor is the adapter page token to resume a backfill from.
+CREATE TABLE public.ingestion_cursors (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES public.businesses(id) ON DELETE CASCADE NOT NULL,
+    platform TEXT NOT NULL CHECK (platform IN ('google', 'yelp', 'facebook', 'tripadvisor')),
+    last_review_date TIMESTAMP WITH TIME ZONE,
+    last_review_id TEXT,
+    backfill_status TEXT NOT NULL DEFAULT 'not_started' CHECK (backfill_status IN ('not_started', 'running', 'completed', 'failed')),
+    backfill_page_cursor TEXT,
+    backfill_pages_fetched INTEGER DEFAULT 0,
+    backfill_reviews_fetched INTEGER DEFAULT 0,
+    backfill_started_at TIMESTAMP WITH TIME ZONE,
+    backfill_completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(business_id, platform)
+);
+
+CREATE INDEX idx_ingestion_cursors_backfill_status ON public.ingestion_cursors(backfill_status);
+
+CREATE TRIGGER update_ingestion_cursors_updated_at BEFORE UPDATE ON public.ingestion_cursors FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.ingestion_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view ingestion cursors for own businesses" ON public.ingestion_cursors
+    FOR SELECT USING (business_id IN (
+        SELECT b.id FROM public.businesses b
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
+
+-- Distinguish routine runs from backfill pages in the ingestion history
+ALTER TABLE public.ingestion_runs
+    ADD COLUMN mode TEXT NOT NULL DEFAULT 'incremental' CHECK (mode IN ('incremental', 'backfill'));
@@ -0,0 +1,39 @@
+-- Change tracking for reviews that are edited or taken down on the platform
+ALTER TABLE public.reviews
+    ADD COLUMN content_hash TEXT,
+    ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    ADD COLUMN is_removed BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN removed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.reviews.content_hash IS 'SHA-256 of rating and review_text, compared on every re-fetch';
+COMMENT ON COLUMN public.reviews.last_seen_at IS 'Last time a fetch returned this review from the platform';
+COMMENT ON COLUMN public.reviews.is_removed IS 'Missing from the platform after a full history sync';
+
+CREATE INDEX idx_reviews_last_seen ON public.reviews(business_id, platform, last_seen_at) WHERE is_removed = false;
+
+-- Prior versions of a review, one row per detected edit
+CREATE TABLE public.review_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE NOT NULL,
+    rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 5),
+    review_text TEXT,
+    content_hash TEXT NOT NULL,
+    replaced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_review_revisions_review ON public.review_revisions(review_id, replaced_at DESC);
+
+ALTER TABLE public.review_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of reviews for own businesses" ON public.review_revisions
+    FOR SELECT USING (review_id IN (
+        SELECT r.id FROM public.reviews r
+        JOIN public.businesses b ON r.business_id = b.id
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
+
+ALTER TABLE public.ingestion_runs
+    ADD COLUMN reviews_updated INTEGER DEFAULT 0,
+    ADD COLUMN reviews_removed INTEGER DEFAULT 0;
@@ -0,0 +1,118 @@
+-- Work queue between review ingestion and the sentiment pipeline.
+-- fetch-reviews enqueues, process-review-jobs claims with SKIP LOCKED.
+CREATE TABLE public.review_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE NOT NULL,
+    business_id UUID REFERENCES public.businesses(id) ON DELETE CASCADE NOT NULL,
+    job_type TEXT NOT NULL DEFAULT 'analyze_sentiment' CHECK (job_type IN ('analyze_sentiment')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'succeeded', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_after TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    locked_by TEXT,
+    last_error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one open job per review, so re-enqueueing an edited review is a no-op
+CREATE UNIQUE INDEX idx_review_jobs_open ON public.review_jobs(review_id, job_type)
+    WHERE status IN ('pending', 'processing');
+CREATE INDEX idx_review_jobs_claimable ON public.review_jobs(run_after) WHERE status = 'pending';
+CREATE INDEX idx_review_jobs_business_status ON public.review_jobs(business_id, status);
+
+CREATE TRIGGER update_review_jobs_updated_at BEFORE UPDATE ON public.review_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.review_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view review jobs for own businesses" ON public.review_jobs
+    FOR SELECT USING (business_id IN (
+        SELECT b.id FROM public.businesses b
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
+
+-- Owners may send a dead job back to the queue, and nothing else
+CREATE POLICY "Users can retry dead review jobs for own businesses" ON public.review_jobs
+    FOR UPDATE USING (
+        status = 'dead' AND business_id IN (
+            SELECT b.id FROM public.businesses b
+            JOIN public.users u ON b.user_id = u.id
+            WHERE u.auth_user_id = auth.uid()
+        )
+    ) WITH CHECK (status = 'pending');
+
+CREATE OR REPLACE FUNCTION public.enqueue_review_jobs(p_review_ids UUID[], p_job_type TEXT DEFAULT 'analyze_sentiment')
+RETURNS INTEGER AS $$
+DECLARE
+    enqueued INTEGER;
+BEGIN
+    INSERT INTO public.review_jobs (review_id, business_id, job_type)
+    SELECT r.id, r.business_id, p_job_type
+    FROM public.reviews r
+    WHERE r.id = ANY(p_review_ids)
+    ON CONFLICT (review_id, job_type) WHERE status IN ('pending', 'processing') DO NOTHING;
+
+    GET DIAGNOSTICS enqueued = ROW_COUNT;
+    RETURN enqueued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claims up to p_limit due jobs for one worker. SKIP LOCKED lets several
+-- workers poll at once without handing out the same job twice; jobs whose
+-- worker died mid-run are reclaimed once their lock is older than p_lock_timeout.
+CREATE OR REPLACE FUNCTION public.claim_review_jobs(
+    p_worker TEXT,
+    p_limit INTEGER DEFAULT 10,
+    p_lock_timeout INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.review_jobs AS $$
+    UPDATE public.review_jobs j
+    SET status = 'processing',
+        locked_at = NOW(),
+        locked_by = p_worker,
+        attempts = j.attempts + 1
+    WHERE j.id IN (
+        SELECT id FROM public.review_jobs
+        WHERE (status = 'pending' AND run_after <= NOW())
+           OR (status = 'processing' AND locked_at < NOW() - p_lock_timeout)
+        ORDER BY run_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_review_jobs(UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_review_jobs(TEXT, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Same settings as invoke_review_scheduler
+CREATE OR REPLACE FUNCTION public.invoke_review_job_worker()
+RETURNS BIGINT AS $$
+DECLARE
+    functions_url TEXT := current_setting('app.settings.functions_url', true);
+    service_role_key TEXT := current_setting('app.settings.service_role_key', true);
+BEGIN
+    IF functions_url IS NULL OR service_role_key IS NULL THEN
+        RAISE WARNING 'Review job worker settings are missing; skipping run';
+        RETURN NULL;
+    END IF;
+
+    RETURN net.http_post(
+        url := functions_url || '/process-review-jobs',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || service_role_key
+        ),
+        body := '{}'::jsonb
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+SELECT cron.schedule(
+    'review-job-worker',
+    '* * * * *',
+    $$SELECT public.invoke_review_job_worker()$$
+);
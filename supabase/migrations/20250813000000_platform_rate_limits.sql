@@ -0,0 +1,75 @@
+-- Per-platform token buckets shared by every edge function instance.
+-- Defaults stay under each platform's published quota; tune with UPDATE.
+CREATE TABLE public.platform_rate_limits (
+    platform TEXT PRIMARY KEY CHECK (platform IN ('google', 'yelp', 'facebook', 'tripadvisor')),
+    capacity NUMERIC NOT NULL CHECK (capacity > 0),
+    refill_per_second NUMERIC NOT NULL CHECK (refill_per_second > 0),
+    tokens NUMERIC NOT NULL,
+    refilled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.platform_rate_limits.capacity IS 'Largest burst of requests allowed at once';
+COMMENT ON COLUMN public.platform_rate_limits.refill_per_second IS 'Sustained requests per second';
+
+INSERT INTO public.platform_rate_limits (platform, capacity, refill_per_second, tokens) VALUES
+    -- Places API allows 100 QPS per project
+    ('google', 50, 10, 50),
+    -- Fusion allows 5,000 calls per day: ~4,300 per day here
+    ('yelp', 25, 0.05, 25),
+    -- Graph API page tokens get about 200 calls per hour: ~180 per hour here
+    ('facebook', 25, 0.05, 25),
+    -- Content API is billed per call; keep bursts small
+    ('tripadvisor', 25, 1, 25);
+
+CREATE TRIGGER update_platform_rate_limits_updated_at BEFORE UPDATE ON public.platform_rate_limits FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.platform_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view platform rate limits" ON public.platform_rate_limits
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE auth_user_id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Takes p_cost tokens from a platform's bucket. Returns 0 when granted,
+-- otherwise the milliseconds until enough tokens will have refilled.
+-- The row lock serializes concurrent callers; platforms without a row are unlimited.
+CREATE OR REPLACE FUNCTION public.take_platform_token(p_platform TEXT, p_cost NUMERIC DEFAULT 1)
+RETURNS INTEGER AS $$
+DECLARE
+    bucket public.platform_rate_limits%ROWTYPE;
+    available NUMERIC;
+BEGIN
+    SELECT * INTO bucket
+    FROM public.platform_rate_limits
+    WHERE platform = p_platform
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    available := LEAST(
+        bucket.capacity,
+        bucket.tokens + EXTRACT(EPOCH FROM (clock_timestamp() - bucket.refilled_at)) * bucket.refill_per_second
+    );
+
+    IF available >= p_cost THEN
+        UPDATE public.platform_rate_limits
+        SET tokens = available - p_cost, refilled_at = clock_timestamp()
+        WHERE platform = p_platform;
+        RETURN 0;
+    END IF;
+
+    UPDATE public.platform_rate_limits
+    SET tokens = available, refilled_at = clock_timestamp()
+    WHERE platform = p_platform;
+
+    RETURN CEIL((p_cost - available) / bucket.refill_per_second * 1000)::INTEGER;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.take_platform_token(TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,83 @@
+-- Bulk imports of reviews from CSV or JSON exports, one row per committed file
+CREATE TABLE public.review_imports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES public.businesses(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    file_name TEXT,
+    format TEXT NOT NULL CHECK (format IN ('csv', 'json')),
+    platform TEXT NOT NULL CHECK (platform IN ('google', 'yelp', 'facebook', 'tripadvisor', 'other')),
+    column_mapping JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'completed_with_errors', 'failed', 'rolled_back')),
+    rows_total INTEGER DEFAULT 0,
+    rows_inserted INTEGER DEFAULT 0,
+    rows_duplicate INTEGER DEFAULT 0,
+    rows_invalid INTEGER DEFAULT 0,
+    rows_failed INTEGER DEFAULT 0,
+    rows_rolled_back INTEGER DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    rolled_back_at TIMESTAMP WITH TIME ZONE
+);
+
+COMMENT ON COLUMN public.review_imports.errors IS 'Rejected rows as [{row, errors}], capped by the import-reviews function';
+
+CREATE INDEX idx_review_imports_business ON public.review_imports(business_id, created_at DESC);
+
+-- Imported reviews point back at their import so it can be rolled back as a unit
+ALTER TABLE public.reviews
+    ADD COLUMN import_id UUID REFERENCES public.review_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_reviews_import ON public.reviews(import_id) WHERE import_id IS NOT NULL;
+
+-- Exports from sources without an adapter are stored as 'other'
+ALTER TABLE public.reviews DROP CONSTRAINT reviews_platform_check;
+ALTER TABLE public.reviews
+    ADD CONSTRAINT reviews_platform_check CHECK (platform IN ('google', 'yelp', 'facebook', 'tripadvisor', 'other'));
+
+ALTER TABLE public.review_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view imports for own businesses" ON public.review_imports
+    FOR SELECT USING (business_id IN (
+        SELECT b.id FROM public.businesses b
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
+
+-- Deletes every review an import created, along with their analysis, tags
+-- and jobs (all cascade), in one transaction. Reviews that were already
+-- stored before the import are never touched by it, so nothing else changes.
+CREATE OR REPLACE FUNCTION public.rollback_review_import(p_import_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    import_status TEXT;
+    removed INTEGER;
+BEGIN
+    SELECT i.status INTO import_status
+    FROM public.review_imports i
+    JOIN public.businesses b ON i.business_id = b.id
+    JOIN public.users u ON b.user_id = u.id
+    WHERE i.id = p_import_id AND u.auth_user_id = auth.uid()
+    FOR UPDATE OF i;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Import % not found', p_import_id;
+    END IF;
+
+    IF import_status IN ('running', 'rolled_back') THEN
+        RAISE EXCEPTION 'Import % cannot be rolled back while %', p_import_id, import_status;
+    END IF;
+
+    DELETE FROM public.reviews WHERE import_id = p_import_id;
+    GET DIAGNOSTICS removed = ROW_COUNT;
+
+    UPDATE public.review_imports
+    SET status = 'rolled_back', rows_rolled_back = removed, rolled_back_at = NOW()
+    WHERE id = p_import_id;
+
+    RETURN removed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.rollback_review_import(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rollback_review_import(UUID) TO authenticated;
@@ -0,0 +1,98 @@
+-- Brands that group several business locations, e.g. a franchise's stores
+CREATE TABLE public.business_groups (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+CREATE TRIGGER update_business_groups_updated_at BEFORE UPDATE ON public.business_groups FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A location belongs to at most one brand; deleting the brand ungroups its locations
+ALTER TABLE public.businesses
+    ADD COLUMN group_id UUID REFERENCES public.business_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_businesses_group ON public.businesses(group_id) WHERE group_id IS NOT NULL;
+
+-- RLS cannot compare the two rows, so keep locations and brands under one owner here
+CREATE OR REPLACE FUNCTION public.check_business_group_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.business_groups
+        WHERE id = NEW.group_id AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION 'Business group % belongs to another user', NEW.group_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_businesses_group_owner BEFORE INSERT OR UPDATE OF group_id, user_id ON public.businesses
+    FOR EACH ROW EXECUTE FUNCTION public.check_business_group_owner();
+
+ALTER TABLE public.business_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own business groups" ON public.business_groups
+    FOR SELECT USING (user_id IN (
+        SELECT id FROM public.users WHERE auth_user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users can insert own business groups" ON public.business_groups
+    FOR INSERT WITH CHECK (user_id IN (
+        SELECT id FROM public.users WHERE auth_user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users can update own business groups" ON public.business_groups
+    FOR UPDATE USING (user_id IN (
+        SELECT id FROM public.users WHERE auth_user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users can delete own business groups" ON public.business_groups
+    FOR DELETE USING (user_id IN (
+        SELECT id FROM public.users WHERE auth_user_id = auth.uid()
+    ));
+
+-- Per-location metrics. security_invoker keeps the underlying tables' RLS in force.
+-- Reviews taken down on the platform no longer count.
+CREATE OR REPLACE VIEW public.business_summary WITH (security_invoker = true) AS
+SELECT
+    b.id,
+    b.name,
+    b.user_id,
+    b.is_monitoring_enabled AS is_active,
+    b.group_id,
+    g.name AS group_name,
+    COUNT(r.id) AS total_reviews,
+    AVG(r.rating) AS average_rating,
+    COUNT(CASE WHEN r.rating <= 3 THEN 1 END) AS low_rating_count,
+    COUNT(CASE WHEN sa.overall_sentiment = 'negative' THEN 1 END) AS negative_sentiment_count,
+    MAX(r.review_date) AS latest_review_date
+FROM public.businesses b
+LEFT JOIN public.business_groups g ON b.group_id = g.id
+LEFT JOIN public.reviews r ON b.id = r.business_id AND r.is_removed = false
+LEFT JOIN public.sentiment_analysis sa ON r.id = sa.review_id
+GROUP BY b.id, b.name, b.user_id, b.is_monitoring_enabled, b.group_id, g.name;
+
+-- Brand-wide rollup over every location in the group. Averages are taken over
+-- all of the brand's reviews, so busy locations weigh more than quiet ones.
+CREATE OR REPLACE VIEW public.business_group_summary WITH (security_invoker = true) AS
+SELECT
+    g.id,
+    g.name,
+    g.user_id,
+    COUNT(DISTINCT b.id) AS location_count,
+    COUNT(DISTINCT b.id) FILTER (WHERE b.is_monitoring_enabled) AS active_location_count,
+    COUNT(r.id) AS total_reviews,
+    AVG(r.rating) AS average_rating,
+    COUNT(CASE WHEN r.rating <= 3 THEN 1 END) AS low_rating_count,
+    COUNT(CASE WHEN sa.overall_sentiment = 'negative' THEN 1 END) AS negative_sentiment_count,
+    MAX(r.review_date) AS latest_review_date
+FROM public.business_groups g
+LEFT JOIN public.businesses b ON b.group_id = g.id
+LEFT JOIN public.reviews r ON b.id = r.business_id AND r.is_removed = false
+LEFT JOIN public.sentiment_analysis sa ON r.id = sa.review_id
+GROUP BY g.id, g.name, g.user_id;
@@ -0,0 +1,31 @@
+-- Trigram index so name searches (ILIKE '%term%') on the businesses list stay fast
+CREATE INDEX IF NOT EXISTS idx_businesses_name_trgm ON public.businesses USING gin(name gin_trgm_ops);
+
+-- The businesses list also shows the address, linked platforms and last fetch.
+-- New columns go last so CREATE OR REPLACE keeps the existing ones in place.
+CREATE OR REPLACE VIEW public.business_summary WITH (security_invoker = true) AS
+SELECT
+    b.id,
+    b.name,
+    b.user_id,
+    b.is_monitoring_enabled AS is_active,
+    b.group_id,
+    g.name AS group_name,
+    COUNT(r.id) AS total_reviews,
+    AVG(r.rating) AS average_rating,
+    COUNT(CASE WHEN r.rating <= 3 THEN 1 END) AS low_rating_count,
+    COUNT(CASE WHEN sa.overall_sentiment = 'negative' THEN 1 END) AS negative_sentiment_count,
+    MAX(r.review_date) AS latest_review_date,
+    b.address,
+    b.last_review_fetch,
+    ARRAY_REMOVE(ARRAY[
+        CASE WHEN b.google_place_id IS NOT NULL THEN 'google' END,
+        CASE WHEN b.yelp_business_id IS NOT NULL THEN 'yelp' END,
+        CASE WHEN b.facebook_page_id IS NOT NULL THEN 'facebook' END,
+        CASE WHEN b.tripadvisor_location_id IS NOT NULL THEN 'tripadvisor' END
+    ], NULL) AS platforms
+FROM public.businesses b
+LEFT JOIN public.business_groups g ON b.group_id = g.id
+LEFT JOIN public.reviews r ON b.id = r.business_id AND r.is_removed = false
+LEFT JOIN public.sentiment_analysis sa ON r.id = sa.review_id
+GROUP BY b.id, b.name, b.user_id, b.is_monitoring_enabled, b.group_id, g.name;
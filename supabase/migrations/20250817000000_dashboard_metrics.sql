@@ -0,0 +1,75 @@
+-- Dashboard activity feed: every review that is still up on its platform, with
+-- its business and latest sentiment analysis (null until the queue gets to it).
+-- Reviews can be analyzed more than once, so only the newest analysis is joined.
+CREATE OR REPLACE VIEW public.recent_reviews_with_sentiment WITH (security_invoker = true) AS
+SELECT
+    r.id,
+    r.business_id,
+    b.name AS business_name,
+    r.review_text,
+    r.rating,
+    r.review_date,
+    r.platform,
+    sa.overall_sentiment,
+    sa.sentiment_score,
+    sa.confidence_score
+FROM public.reviews r
+JOIN public.businesses b ON r.business_id = b.id
+LEFT JOIN LATERAL (
+    SELECT s.overall_sentiment, s.sentiment_score, s.confidence_score
+    FROM public.sentiment_analysis s
+    WHERE s.review_id = r.id
+    ORDER BY s.created_at DESC
+    LIMIT 1
+) sa ON true
+WHERE r.is_removed = false;
+
+-- Headline numbers for the dashboard in one round trip. Runs as the caller, so
+-- RLS limits every count to the caller's own businesses. Sentiment counts use
+-- each review's latest analysis; unanalyzed reviews are in none of them.
+CREATE OR REPLACE FUNCTION public.get_dashboard_metrics(p_recent_days INTEGER DEFAULT 7)
+RETURNS TABLE (
+    total_businesses BIGINT,
+    total_reviews BIGINT,
+    average_rating NUMERIC,
+    recent_reviews_count BIGINT,
+    positive_count BIGINT,
+    neutral_count BIGINT,
+    negative_count BIGINT,
+    platform_counts JSONB
+) AS $$
+    WITH latest AS (
+        SELECT r.platform, r.rating, r.review_date, sa.overall_sentiment
+        FROM public.reviews r
+        LEFT JOIN LATERAL (
+            SELECT s.overall_sentiment
+            FROM public.sentiment_analysis s
+            WHERE s.review_id = r.id
+            ORDER BY s.created_at DESC
+            LIMIT 1
+        ) sa ON true
+        WHERE r.is_removed = false
+    ),
+    platforms AS (
+        SELECT platform, COUNT(*) AS review_count
+        FROM latest
+        GROUP BY platform
+    )
+    SELECT
+        (SELECT COUNT(*) FROM public.businesses),
+        COUNT(*),
+        ROUND(AVG(rating), 2),
+        COUNT(*) FILTER (WHERE review_date >= NOW() - make_interval(days => p_recent_days)),
+        COUNT(*) FILTER (WHERE overall_sentiment = 'positive'),
+        COUNT(*) FILTER (WHERE overall_sentiment = 'neutral'),
+        COUNT(*) FILTER (WHERE overall_sentiment = 'negative'),
+        COALESCE((SELECT jsonb_object_agg(platform, review_count) FROM platforms), '{}'::jsonb)
+    FROM latest;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.get_dashboard_metrics(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_dashboard_metrics(INTEGER) TO authenticated;
+
+-- Serves the "latest analysis per review" lookups above
+CREATE INDEX IF NOT EXISTS idx_sentiment_analysis_review_created
+    ON public.sentiment_analysis(review_id, created_at DESC);
@@ -0,0 +1,151 @@
+-- Aggregations behind the analytics page. Every function runs as the caller,
+-- so RLS limits them to the caller's own businesses. Date ranges are inclusive
+-- and, like the buckets, measured in UTC.
+
+-- The reviews an analytics query covers, each with its latest sentiment analysis.
+-- Reviews taken down on the platform are left out.
+CREATE OR REPLACE FUNCTION public.analytics_reviews(
+    p_date_from DATE,
+    p_date_to DATE,
+    p_business_id UUID DEFAULT NULL,
+    p_group_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    review_id UUID,
+    platform TEXT,
+    rating INTEGER,
+    review_date TIMESTAMP WITH TIME ZONE,
+    overall_sentiment TEXT,
+    key_topics TEXT[]
+) AS $$
+    SELECT r.id, r.platform, r.rating, r.review_date, sa.overall_sentiment, sa.key_topics
+    FROM public.reviews r
+    JOIN public.businesses b ON r.business_id = b.id
+    LEFT JOIN LATERAL (
+        SELECT s.overall_sentiment, s.key_topics
+        FROM public.sentiment_analysis s
+        WHERE s.review_id = r.id
+        ORDER BY s.created_at DESC
+        LIMIT 1
+    ) sa ON true
+    WHERE r.is_removed = false
+      AND r.review_date >= p_date_from::timestamp AT TIME ZONE 'UTC'
+      AND r.review_date < (p_date_to + 1)::timestamp AT TIME ZONE 'UTC'
+      AND (p_business_id IS NULL OR r.business_id = p_business_id)
+      AND (p_group_id IS NULL OR b.group_id = p_group_id);
+$$ LANGUAGE sql STABLE;
+
+-- Every bucket start in the range, so quiet periods show up as gaps in the charts
+-- instead of being skipped. Weeks start on Monday.
+CREATE OR REPLACE FUNCTION public.analytics_buckets(p_bucket TEXT, p_date_from DATE, p_date_to DATE)
+RETURNS TABLE (bucket DATE) AS $$
+BEGIN
+    IF p_bucket NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'Unsupported bucket %', p_bucket;
+    END IF;
+
+    RETURN QUERY
+    SELECT series::date
+    FROM generate_series(
+        date_trunc(p_bucket, p_date_from::timestamp),
+        p_date_to::timestamp,
+        ('1 ' || p_bucket)::interval
+    ) AS series;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.review_rating_trend(
+    p_bucket TEXT,
+    p_date_from DATE,
+    p_date_to DATE,
+    p_business_id UUID DEFAULT NULL,
+    p_group_id UUID DEFAULT NULL
+)
+RETURNS TABLE (bucket DATE, review_count BIGINT, average_rating NUMERIC) AS $$
+    SELECT bk.bucket, COUNT(ar.review_id), ROUND(AVG(ar.rating), 2)
+    FROM public.analytics_buckets(p_bucket, p_date_from, p_date_to) bk
+    LEFT JOIN public.analytics_reviews(p_date_from, p_date_to, p_business_id, p_group_id) ar
+        ON date_trunc(p_bucket, ar.review_date AT TIME ZONE 'UTC')::date = bk.bucket
+    GROUP BY bk.bucket
+    ORDER BY bk.bucket;
+$$ LANGUAGE sql STABLE;
+
+-- One row per bucket and platform. Buckets without reviews come back once with a null platform.
+CREATE OR REPLACE FUNCTION public.review_platform_volume(
+    p_bucket TEXT,
+    p_date_from DATE,
+    p_date_to DATE,
+    p_business_id UUID DEFAULT NULL,
+    p_group_id UUID DEFAULT NULL
+)
+RETURNS TABLE (bucket DATE, platform TEXT, review_count BIGINT) AS $$
+    SELECT bk.bucket, ar.platform, COUNT(ar.review_id)
+    FROM public.analytics_buckets(p_bucket, p_date_from, p_date_to) bk
+    LEFT JOIN public.analytics_reviews(p_date_from, p_date_to, p_business_id, p_group_id) ar
+        ON date_trunc(p_bucket, ar.review_date AT TIME ZONE 'UTC')::date = bk.bucket
+    GROUP BY bk.bucket, ar.platform
+    ORDER BY bk.bucket, ar.platform;
+$$ LANGUAGE sql STABLE;
+
+-- Unanalyzed reviews count towards none of the three
+CREATE OR REPLACE FUNCTION public.review_sentiment_trend(
+    p_bucket TEXT,
+    p_date_from DATE,
+    p_date_to DATE,
+    p_business_id UUID DEFAULT NULL,
+    p_group_id UUID DEFAULT NULL
+)
+RETURNS TABLE (bucket DATE, positive_count BIGINT, neutral_count BIGINT, negative_count BIGINT) AS $$
+    SELECT
+        bk.bucket,
+        COUNT(ar.review_id) FILTER (WHERE ar.overall_sentiment = 'positive'),
+        COUNT(ar.review_id) FILTER (WHERE ar.overall_sentiment = 'neutral'),
+        COUNT(ar.review_id) FILTER (WHERE ar.overall_sentiment = 'negative')
+    FROM public.analytics_buckets(p_bucket, p_date_from, p_date_to) bk
+    LEFT JOIN public.analytics_reviews(p_date_from, p_date_to, p_business_id, p_group_id) ar
+        ON date_trunc(p_bucket, ar.review_date AT TIME ZONE 'UTC')::date = bk.bucket
+    GROUP BY bk.bucket
+    ORDER BY bk.bucket;
+$$ LANGUAGE sql STABLE;
+
+-- The p_limit topics mentioned most by positive reviews, and by negative ones.
+-- Topics are compared case-insensitively.
+CREATE OR REPLACE FUNCTION public.review_top_topics(
+    p_date_from DATE,
+    p_date_to DATE,
+    p_business_id UUID DEFAULT NULL,
+    p_group_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (sentiment TEXT, topic TEXT, mention_count BIGINT) AS $$
+    SELECT ranked.overall_sentiment, ranked.topic, ranked.mention_count
+    FROM (
+        SELECT
+            ar.overall_sentiment,
+            lower(t.topic) AS topic,
+            COUNT(*) AS mention_count,
+            ROW_NUMBER() OVER (
+                PARTITION BY ar.overall_sentiment
+                ORDER BY COUNT(*) DESC, lower(t.topic)
+            ) AS topic_rank
+        FROM public.analytics_reviews(p_date_from, p_date_to, p_business_id, p_group_id) ar
+        CROSS JOIN LATERAL unnest(ar.key_topics) AS t(topic)
+        WHERE ar.overall_sentiment IN ('positive', 'negative')
+        GROUP BY ar.overall_sentiment, lower(t.topic)
+    ) ranked
+    WHERE ranked.topic_rank <= p_limit
+    ORDER BY ranked.overall_sentiment, ranked.mention_count DESC, ranked.topic;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.analytics_reviews(DATE, DATE, UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.analytics_buckets(TEXT, DATE, DATE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.review_rating_trend(TEXT, DATE, DATE, UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.review_platform_volume(TEXT, DATE, DATE, UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.review_sentiment_trend(TEXT, DATE, DATE, UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.review_top_topics(DATE, DATE, UUID, UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.analytics_reviews(DATE, DATE, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_buckets(TEXT, DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_rating_trend(TEXT, DATE, DATE, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_platform_volume(TEXT, DATE, DATE, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_sentiment_trend(TEXT, DATE, DATE, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_top_topics(DATE, DATE, UUID, UUID, INTEGER) TO authenticated;
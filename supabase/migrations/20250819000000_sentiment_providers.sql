@@ -0,0 +1,4 @@
+-- Which sentiment provider analyzes a business's reviews. NULL follows the
+-- SENTIMENT_PROVIDER setting of the analyze-sentiment function.
+ALTER TABLE public.businesses
+    ADD COLUMN sentiment_provider TEXT CHECK (sentiment_provider IN ('lexicon', 'openai'));
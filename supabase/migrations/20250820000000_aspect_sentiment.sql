@@ -0,0 +1,6 @@
+-- Topics the review speaks well or badly of, each judged on its own clauses
+-- rather than the review's overall sentiment. Topics mentioned without an
+-- opinion appear only in key_topics.
+ALTER TABLE public.sentiment_analysis
+    ADD COLUMN positive_aspects TEXT[],
+    ADD COLUMN negative_aspects TEXT[];
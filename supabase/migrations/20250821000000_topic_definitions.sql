@@ -0,0 +1,106 @@
+-- The kind of business. Picks the topic preset its reviews are analyzed with
+-- until the owner defines topics of their own; NULL uses the restaurant preset.
+ALTER TABLE public.businesses
+    ADD COLUMN industry TEXT CHECK (industry IN ('restaurant', 'hotel', 'dental', 'auto_repair', 'retail'));
+
+-- Topics the sentiment analyzer looks for in reviews. A row belongs either to
+-- one business or to an industry preset. A business with any topics of its own
+-- uses only those; otherwise it uses its industry's preset.
+CREATE TABLE public.topic_definitions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID REFERENCES public.businesses(id) ON DELETE CASCADE,
+    industry TEXT CHECK (industry IN ('restaurant', 'hotel', 'dental', 'auto_repair', 'retail')),
+    -- Stored in sentiment_analysis.key_topics and the aspect columns
+    name TEXT NOT NULL,
+    -- Words that show a review is about the topic; plurals and -ed/-ing forms match too
+    keywords TEXT[] NOT NULL DEFAULT '{}',
+    -- Other names for the topic itself, also accepted when an LLM provider names it
+    synonyms TEXT[] NOT NULL DEFAULT '{}',
+    tag_category TEXT NOT NULL DEFAULT 'other' CHECK (tag_category IN ('service', 'product', 'ambiance', 'staff', 'value', 'other')),
+    -- Tag names for reviews that praise or criticize the topic; NULL tags it by name
+    positive_tag TEXT,
+    negative_tag TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT topic_definitions_scope CHECK ((business_id IS NULL) <> (industry IS NULL)),
+    UNIQUE(business_id, name),
+    UNIQUE(industry, name)
+);
+
+CREATE INDEX idx_topic_definitions_business ON public.topic_definitions(business_id) WHERE business_id IS NOT NULL;
+
+CREATE TRIGGER update_topic_definitions_updated_at BEFORE UPDATE ON public.topic_definitions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.topic_definitions ENABLE ROW LEVEL SECURITY;
+
+-- Presets are shared and read-only; only migrations change them
+CREATE POLICY "Users can view topic presets and own business topics" ON public.topic_definitions
+    FOR SELECT USING (industry IS NOT NULL OR business_id IN (
+        SELECT b.id FROM public.businesses b
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users can insert topics for own businesses" ON public.topic_definitions
+    FOR INSERT WITH CHECK (business_id IN (
+        SELECT b.id FROM public.businesses b
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users can update topics for own businesses" ON public.topic_definitions
+    FOR UPDATE USING (business_id IN (
+        SELECT b.id FROM public.businesses b
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users can delete topics for own businesses" ON public.topic_definitions
+    FOR DELETE USING (business_id IN (
+        SELECT b.id FROM public.businesses b
+        JOIN public.users u ON b.user_id = u.id
+        WHERE u.auth_user_id = auth.uid()
+    ));
+
+-- Industry presets. The restaurant preset is the analyzer's original topic
+-- list and is mirrored by DEFAULT_TOPICS in _shared/sentiment/topics.ts.
+INSERT INTO public.topic_definitions (industry, name, keywords, synonyms, tag_category, positive_tag, negative_tag) VALUES
+    ('restaurant', 'service', '{service,server,waiter,waitress,cashier}', '{staff,employee}', 'staff', 'friendly staff', 'poor service'),
+    ('restaurant', 'food', '{food,meal,dish,cuisine,cooking,chef,kitchen}', '{}', 'product', 'quality food', 'poor food'),
+    ('restaurant', 'coffee', '{coffee,espresso,latte,cappuccino,brew,bean}', '{}', 'product', 'quality food', 'poor food'),
+    ('restaurant', 'atmosphere', '{atmosphere,ambiance,environment,decor,music,lighting}', '{}', 'ambiance', 'good atmosphere', 'poor atmosphere'),
+    ('restaurant', 'price', '{price,cost,expensive,cheap,affordable,value,worth}', '{}', 'value', 'good value', 'overpriced'),
+    ('restaurant', 'location', '{location,place,area,neighborhood,parking,access}', '{}', 'other', NULL, NULL),
+    ('restaurant', 'cleanliness', '{clean,cleanliness,dirty,hygiene,sanitary,messy,tidy}', '{}', 'other', NULL, NULL),
+    ('restaurant', 'speed', '{fast,slow,quick,wait,time,efficient,delayed}', '{}', 'service', 'fast service', 'slow service'),
+
+    ('hotel', 'room', '{room,bed,bathroom,shower,suite,pillow,towel}', '{}', 'product', 'comfortable room', 'poor room'),
+    ('hotel', 'front desk', '{front desk,reception,receptionist,check-in,checkout,concierge}', '{staff}', 'staff', 'helpful front desk', 'unhelpful front desk'),
+    ('hotel', 'cleanliness', '{clean,cleanliness,dirty,housekeeping,stain,smell,spotless}', '{}', 'service', 'clean rooms', 'dirty rooms'),
+    ('hotel', 'location', '{location,area,neighborhood,walk,downtown,beach,view}', '{}', 'other', NULL, NULL),
+    ('hotel', 'breakfast', '{breakfast,buffet,coffee,restaurant}', '{food}', 'product', 'good breakfast', 'poor breakfast'),
+    ('hotel', 'amenities', '{pool,gym,spa,wifi,parking,elevator}', '{}', 'ambiance', 'good amenities', 'poor amenities'),
+    ('hotel', 'noise', '{noise,noisy,loud,quiet,walls}', '{}', 'ambiance', 'quiet rooms', 'noisy rooms'),
+    ('hotel', 'price', '{price,rate,cost,value,expensive,worth,fee}', '{}', 'value', 'good value', 'overpriced'),
+
+    ('dental', 'staff', '{staff,receptionist,hygienist,assistant,team}', '{service}', 'staff', 'friendly staff', 'unfriendly staff'),
+    ('dental', 'dentist', '{dentist,doctor,orthodontist,surgeon}', '{}', 'staff', 'skilled dentist', 'poor dentist'),
+    ('dental', 'comfort', '{pain,painless,gentle,hurt,numb,anxiety,nervous}', '{}', 'service', 'gentle care', 'painful treatment'),
+    ('dental', 'wait time', '{wait,late,on time,appointment,schedule}', '{speed}', 'service', 'on time', 'long waits'),
+    ('dental', 'billing', '{bill,billing,insurance,price,cost,charge,payment}', '{price}', 'value', 'fair billing', 'billing issues'),
+    ('dental', 'treatment', '{cleaning,filling,crown,implant,whitening,braces,root canal,extraction}', '{}', 'product', 'good treatment', 'poor treatment'),
+    ('dental', 'office', '{office,clinic,waiting room,clean,sterile,hygiene}', '{cleanliness}', 'ambiance', 'clean office', 'poor office'),
+
+    ('auto_repair', 'repair quality', '{repair,fix,diagnosis,diagnose,problem,issue,work}', '{}', 'product', 'quality repair', 'poor repair'),
+    ('auto_repair', 'honesty', '{honest,trust,upsell,scam,transparent,explain}', '{}', 'staff', 'honest shop', 'dishonest shop'),
+    ('auto_repair', 'price', '{price,quote,estimate,cost,charge,bill,labor}', '{}', 'value', 'fair price', 'overpriced'),
+    ('auto_repair', 'turnaround', '{fast,slow,quick,wait,same day,ready,took}', '{speed}', 'service', 'quick turnaround', 'slow turnaround'),
+    ('auto_repair', 'staff', '{staff,mechanic,technician,advisor,front desk}', '{service}', 'staff', 'helpful staff', 'unhelpful staff'),
+    ('auto_repair', 'parts', '{part,tire,brake,oil,battery}', '{}', 'product', NULL, NULL),
+
+    ('retail', 'staff', '{staff,employee,cashier,associate,clerk}', '{service}', 'staff', 'friendly staff', 'unhelpful staff'),
+    ('retail', 'selection', '{selection,variety,stock,inventory,option,size}', '{}', 'product', 'good selection', 'poor selection'),
+    ('retail', 'price', '{price,cost,expensive,cheap,sale,deal,value}', '{}', 'value', 'good value', 'overpriced'),
+    ('retail', 'checkout', '{checkout,line,register,queue}', '{}', 'service', 'quick checkout', 'slow checkout'),
+    ('retail', 'returns', '{return,refund,exchange,receipt}', '{}', 'service', 'easy returns', 'difficult returns'),
+    ('retail', 'store', '{store,shop,layout,organized,messy,parking}', '{atmosphere}', 'ambiance', 'pleasant store', 'messy store');
@@ -0,0 +1,86 @@
+-- review_top_topics ranked the topics of positive and negative reviews, so a
+-- topic criticized in an otherwise positive review counted as praise. It now
+-- ranks the topics each review praises and criticizes, from the aspects
+-- added in 20250820000000_aspect_sentiment.sql.
+
+-- analytics_reviews gains the aspect columns. Its return type changes, so it
+-- is dropped and re-created; the functions that call it look it up by name
+-- and need no change.
+DROP FUNCTION IF EXISTS public.analytics_reviews(DATE, DATE, UUID, UUID, TEXT);
+
+-- The reviews an analytics query covers, each with its latest sentiment analysis.
+-- Reviews taken down on the platform are left out.
+CREATE OR REPLACE FUNCTION public.analytics_reviews(
+    p_date_from DATE,
+    p_date_to DATE,
+    p_business_id UUID DEFAULT NULL,
+    p_group_id UUID DEFAULT NULL,
+    p_language TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    review_id UUID,
+    platform TEXT,
+    rating INTEGER,
+    review_date TIMESTAMP WITH TIME ZONE,
+    overall_sentiment TEXT,
+    key_topics TEXT[],
+    positive_aspects TEXT[],
+    negative_aspects TEXT[]
+) AS $$
+    SELECT
+        r.id, r.platform, r.rating, r.review_date,
+        sa.overall_sentiment, sa.key_topics, sa.positive_aspects, sa.negative_aspects
+    FROM public.reviews r
+    JOIN public.businesses b ON r.business_id = b.id
+    LEFT JOIN LATERAL (
+        SELECT s.overall_sentiment, s.key_topics, s.positive_aspects, s.negative_aspects
+        FROM public.sentiment_analysis s
+        WHERE s.review_id = r.id
+        ORDER BY s.created_at DESC
+        LIMIT 1
+    ) sa ON true
+    WHERE r.is_removed = false
+      AND r.review_date >= p_date_from::timestamp AT TIME ZONE 'UTC'
+      AND r.review_date < (p_date_to + 1)::timestamp AT TIME ZONE 'UTC'
+      AND (p_business_id IS NULL OR r.business_id = p_business_id)
+      AND (p_group_id IS NULL OR b.group_id = p_group_id)
+      AND (p_language IS NULL OR r.language = p_language);
+$$ LANGUAGE sql STABLE;
+
+-- The p_limit topics reviews praise most ('positive') and criticize most
+-- ('negative'), whatever the review's overall sentiment. Analyses from before
+-- aspects were recorded have none and count towards neither until re-analyzed.
+-- Topics are compared case-insensitively.
+CREATE OR REPLACE FUNCTION public.review_top_topics(
+    p_date_from DATE,
+    p_date_to DATE,
+    p_business_id UUID DEFAULT NULL,
+    p_group_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 10,
+    p_language TEXT DEFAULT NULL
+)
+RETURNS TABLE (sentiment TEXT, topic TEXT, mention_count BIGINT) AS $$
+    SELECT ranked.sentiment, ranked.topic, ranked.mention_count
+    FROM (
+        SELECT
+            aspects.sentiment,
+            lower(aspects.topic) AS topic,
+            COUNT(*) AS mention_count,
+            ROW_NUMBER() OVER (
+                PARTITION BY aspects.sentiment
+                ORDER BY COUNT(*) DESC, lower(aspects.topic)
+            ) AS topic_rank
+        FROM public.analytics_reviews(p_date_from, p_date_to, p_business_id, p_group_id, p_language) ar
+        CROSS JOIN LATERAL (
+            SELECT 'positive' AS sentiment, t.topic FROM unnest(ar.positive_aspects) AS t(topic)
+            UNION ALL
+            SELECT 'negative' AS sentiment, t.topic FROM unnest(ar.negative_aspects) AS t(topic)
+        ) aspects
+        GROUP BY aspects.sentiment, lower(aspects.topic)
+    ) ranked
+    WHERE ranked.topic_rank <= p_limit
+    ORDER BY ranked.sentiment, ranked.mention_count DESC, ranked.topic;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.analytics_reviews(DATE, DATE, UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.analytics_reviews(DATE, DATE, UUID, UUID, TEXT) TO authenticated;
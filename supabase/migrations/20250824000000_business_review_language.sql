@@ -0,0 +1,4 @@
+-- The language to ask for reviews in, on platforms that return one language
+-- per request (Tripadvisor). NULL leaves the platform's default, English.
+ALTER TABLE public.businesses
+    ADD COLUMN review_language TEXT CHECK (review_language IN ('en', 'es', 'fr', 'de'));
@@ -0,0 +1,50 @@
+-- Spanish, French and German keywords for the industry presets, so reviews in
+-- those languages get topics and aspects too. Keywords match in any language
+-- and regardless of accents, so each word is listed once. Words that are also
+-- common English words with another meaning ("sale", "lent", "laden",
+-- "rayon") are left out. German plurals are listed where they do not just
+-- add -s or -es.
+UPDATE public.topic_definitions td
+SET keywords = td.keywords || v.keywords
+FROM (VALUES
+    ('restaurant', 'service', '{servicio,camarero,camarera,mesero,mesera,atención,serveur,serveuse,accueil,personnel,bedienung,kellner,kellnerin}'::TEXT[]),
+    ('restaurant', 'food', '{comida,plato,cocina,cocinero,nourriture,plat,repas,cuisinier,essen,gericht,gerichte,speisen,küche,koch}'::TEXT[]),
+    ('restaurant', 'coffee', '{café,cortado,kaffee}'::TEXT[]),
+    ('restaurant', 'atmosphere', '{ambiente,decoración,música,musique,atmosphäre,stimmung,einrichtung,musik}'::TEXT[]),
+    ('restaurant', 'price', '{precio,caro,barato,cuenta,prix,cher,chère,tarif,preis,preise,teuer,günstig,rechnung}'::TEXT[]),
+    ('restaurant', 'location', '{ubicación,zona,barrio,aparcamiento,emplacement,quartier,endroit,lage,parkplatz,parkplätze,gegend}'::TEXT[]),
+    ('restaurant', 'cleanliness', '{limpio,limpia,limpieza,sucio,sucia,higiene,propre,propreté,saleté,hygiène,sauber,saubere,sauberkeit,schmutzig,dreckig}'::TEXT[]),
+    ('restaurant', 'speed', '{rápido,rápida,lento,lenta,espera,esperar,rapide,lente,attente,attendu,attendre,schnell,langsam,wartezeit,warten,gewartet}'::TEXT[]),
+
+    ('hotel', 'room', '{habitación,habitaciones,cama,baño,ducha,almohada,toalla,chambre,salle de bain,douche,oreiller,serviette,zimmer,bett,betten,badezimmer,dusche,kissen,handtuch,handtücher}'::TEXT[]),
+    ('hotel', 'front desk', '{recepción,recepcionista,réceptionniste,accueil,rezeption,empfang}'::TEXT[]),
+    ('hotel', 'cleanliness', '{limpio,limpia,limpieza,sucio,sucia,mancha,propre,propreté,ménage,odeur,sauber,saubere,sauberkeit,schmutzig,dreckig,geruch}'::TEXT[]),
+    ('hotel', 'location', '{ubicación,zona,barrio,playa,vistas,céntrico,emplacement,quartier,plage,vue,lage,strand,aussicht,zentral}'::TEXT[]),
+    ('hotel', 'breakfast', '{desayuno,bufé,petit déjeuner,petit-déjeuner,frühstück,frühstücksbuffet}'::TEXT[]),
+    ('hotel', 'amenities', '{piscina,gimnasio,aparcamiento,piscine,salle de sport,ascenseur,schwimmbad,fitnessraum,aufzug,parkplatz}'::TEXT[]),
+    ('hotel', 'noise', '{ruido,ruidoso,ruidosa,tranquilo,tranquila,bruit,bruyant,bruyante,calme,lärm,laut,ruhig,ruhige,hellhörig}'::TEXT[]),
+    ('hotel', 'price', '{precio,tarifa,caro,barato,prix,tarif,cher,chère,preis,teuer,günstig,gebühr}'::TEXT[]),
+
+    ('dental', 'staff', '{recepcionista,higienista,asistente,equipo,personnel,réceptionniste,assistante,équipe,praxisteam,mitarbeiter,helferin,helferinnen}'::TEXT[]),
+    ('dental', 'dentist', '{dentista,doctora,ortodoncista,dentiste,docteur,orthodontiste,zahnarzt,zahnärztin,arzt,ärztin,kieferorthopäde}'::TEXT[]),
+    ('dental', 'comfort', '{dolor,indoloro,suave,anestesia,miedo,nervioso,douleur,indolore,doux,douce,anesthésie,peur,schmerz,schmerzen,schmerzfrei,sanft,betäubung,angst}'::TEXT[]),
+    ('dental', 'wait time', '{espera,cita,puntual,retraso,attente,rendez-vous,ponctuel,wartezeit,termin,pünktlich,verspätung}'::TEXT[]),
+    ('dental', 'billing', '{factura,seguro,precio,costo,pago,facture,assurance,mutuelle,prix,paiement,rechnung,versicherung,krankenkasse,preis,kosten,zahlung}'::TEXT[]),
+    ('dental', 'treatment', '{empaste,corona,implante,blanqueamiento,endodoncia,extracción,détartrage,plombage,couronne,blanchiment,dévitalisation,zahnreinigung,füllung,krone,implantat,bleaching,zahnspange,wurzelbehandlung}'::TEXT[]),
+    ('dental', 'office', '{consultorio,clínica,sala de espera,clinique,praxis,klinik,wartezimmer}'::TEXT[]),
+
+    ('auto_repair', 'repair quality', '{reparación,reparar,arreglo,diagnóstico,avería,problema,réparation,réparer,diagnostic,panne,problème,reparatur,reparieren,diagnose,fehler,arbeit}'::TEXT[]),
+    ('auto_repair', 'honesty', '{honesto,honesta,confianza,estafa,transparente,honnête,confiance,arnaque,ehrlich,vertrauen,abzocke}'::TEXT[]),
+    ('auto_repair', 'price', '{precio,presupuesto,costo,factura,prix,devis,facture,preis,kostenvoranschlag,kosten,rechnung}'::TEXT[]),
+    ('auto_repair', 'turnaround', '{rápido,lento,espera,listo,mismo día,rapide,attente,prêt,même jour,schnell,langsam,wartezeit,fertig}'::TEXT[]),
+    ('auto_repair', 'staff', '{mecánico,técnico,asesor,mécanicien,technicien,conseiller,personnel,mechaniker,mitarbeiter,berater}'::TEXT[]),
+    ('auto_repair', 'parts', '{pieza,neumático,freno,aceite,batería,pièce,pneu,frein,huile,batterie,ersatzteil,ersatzteile,reifen,bremse,bremsen,öl}'::TEXT[]),
+
+    ('retail', 'staff', '{dependiente,dependienta,vendedor,vendedora,cajero,cajera,vendeur,vendeuse,caissier,caissière,personnel,verkäufer,verkäuferin,kassierer,kassiererin,mitarbeiter}'::TEXT[]),
+    ('retail', 'selection', '{selección,variedad,surtido,talla,choix,variété,taille,auswahl,sortiment,größe,größen,vielfalt}'::TEXT[]),
+    ('retail', 'price', '{precio,caro,barato,oferta,rebajas,prix,cher,soldes,promo,preis,preise,teuer,günstig,angebot,rabatt}'::TEXT[]),
+    ('retail', 'checkout', '{caja,fila,caisse,attente,kasse,schlange,warteschlange}'::TEXT[]),
+    ('retail', 'returns', '{devolución,reembolso,cambio,retour,remboursement,échange,rückgabe,umtausch,erstattung,kassenbon}'::TEXT[]),
+    ('retail', 'store', '{tienda,establecimiento,magasin,boutique,geschäft,filiale}'::TEXT[])
+) AS v(industry, name, keywords)
+WHERE td.industry = v.industry AND td.name = v.name;
@@ -0,0 +1,53 @@
+-- claim_review_jobs reclaimed stale jobs however many attempts they had used,
+-- so a job whose worker kept dying mid-run (a timeout on one oversized review,
+-- say) was retried forever. Stale jobs that have used all their attempts now
+-- move to the dead-letter state instead of being claimed again, and their
+-- reviews are marked failed, as the worker does for jobs it gives up on.
+
+-- Claims up to p_limit due jobs for one worker. SKIP LOCKED lets several
+-- workers poll at once without handing out the same job twice; jobs whose
+-- worker died mid-run are reclaimed once their lock is older than p_lock_timeout,
+-- or marked dead along with their review's processing_status when they have
+-- no attempts left.
+CREATE OR REPLACE FUNCTION public.claim_review_jobs(
+    p_worker TEXT,
+    p_limit INTEGER DEFAULT 10,
+    p_lock_timeout INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.review_jobs AS $$
+BEGIN
+    WITH dead AS (
+        UPDATE public.review_jobs
+        SET status = 'dead',
+            locked_at = NULL,
+            locked_by = NULL,
+            last_error = 'Worker stopped responding on the last attempt'
+        WHERE status = 'processing'
+          AND locked_at < NOW() - p_lock_timeout
+          AND attempts >= max_attempts
+        RETURNING review_id
+    )
+    UPDATE public.reviews
+    SET is_processed = false,
+        processing_status = 'failed'
+    WHERE id IN (SELECT review_id FROM dead);
+
+    RETURN QUERY
+    UPDATE public.review_jobs j
+    SET status = 'processing',
+        locked_at = NOW(),
+        locked_by = p_worker,
+        attempts = j.attempts + 1
+    WHERE j.id IN (
+        SELECT id FROM public.review_jobs
+        WHERE (status = 'pending' AND run_after <= NOW())
+           OR (status = 'processing' AND locked_at < NOW() - p_lock_timeout AND attempts < max_attempts)
+        ORDER BY run_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.claim_review_jobs(TEXT, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
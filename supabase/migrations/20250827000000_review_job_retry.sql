@@ -0,0 +1,30 @@
+-- Owners retried dead jobs through an UPDATE policy whose only check was the
+-- new status, so they could also rewrite a job's review, business or
+-- max_attempts. Retrying now goes through retry_review_job, which changes
+-- nothing but the fields a retry resets.
+DROP POLICY IF EXISTS "Users can retry dead review jobs for own businesses" ON public.review_jobs;
+
+-- Sends a dead job of one of the caller's businesses back to the queue with
+-- a fresh set of attempts, due now
+CREATE OR REPLACE FUNCTION public.retry_review_job(p_job_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.review_jobs j
+    SET status = 'pending',
+        attempts = 0,
+        run_after = NOW()
+    FROM public.businesses b
+    JOIN public.users u ON b.user_id = u.id
+    WHERE j.id = p_job_id
+      AND j.status = 'dead'
+      AND j.business_id = b.id
+      AND u.auth_user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Dead review job % not found', p_job_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.retry_review_job(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retry_review_job(UUID) TO authenticated;
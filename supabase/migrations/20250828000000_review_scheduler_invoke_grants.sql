@@ -0,0 +1,4 @@
+-- invoke_review_scheduler runs with the owner's rights and posts the service
+-- role key, so any client could start a scheduler tick through PostgREST.
+-- Only pg_cron, which runs as the owner, and the service role may call it.
+REVOKE EXECUTE ON FUNCTION public.invoke_review_scheduler() FROM PUBLIC, anon, authenticated;
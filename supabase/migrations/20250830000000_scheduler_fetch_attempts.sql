@@ -0,0 +1,76 @@
+-- last_review_fetch only moves after a successful fetch, so businesses whose
+-- fetches kept failing stayed due, topped every tick's batch and crowded out
+-- the rest. businesses_due_for_fetch now stamps the businesses it hands out
+-- with last_fetch_attempt_at, and a business is due again one
+-- monitoring_frequency window after whichever of the two is later.
+ALTER TABLE public.businesses
+    ADD COLUMN last_fetch_attempt_at TIMESTAMP WITH TIME ZONE;
+
+-- Claims up to p_limit businesses whose monitoring_frequency window has
+-- elapsed since their last fetch or attempt, least recently tried first.
+-- SKIP LOCKED keeps overlapping ticks from claiming the same business.
+CREATE OR REPLACE FUNCTION public.businesses_due_for_fetch(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.businesses AS $$
+    UPDATE public.businesses b
+    SET last_fetch_attempt_at = NOW()
+    WHERE b.id IN (
+        SELECT d.id
+        FROM public.businesses d
+        WHERE d.is_monitoring_enabled = true
+          AND (
+            GREATEST(d.last_review_fetch, d.last_fetch_attempt_at) IS NULL
+            OR GREATEST(d.last_review_fetch, d.last_fetch_attempt_at) <= NOW() - CASE d.monitoring_frequency
+                WHEN 'hourly' THEN INTERVAL '1 hour'
+                WHEN 'weekly' THEN INTERVAL '7 days'
+                ELSE INTERVAL '1 day'
+            END
+          )
+        ORDER BY GREATEST(d.last_review_fetch, d.last_fetch_attempt_at) NULLS FIRST
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING b.*;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.businesses_due_for_fetch(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Queues one fetch-reviews call through pg_net and returns its request id.
+-- A scheduler tick dispatches its fetches this way instead of awaiting them,
+-- so a batch of slow platforms cannot hold the tick past the edge function's
+-- wall-clock limit. Each fetch records its own outcome in ingestion_runs.
+-- Same settings as invoke_review_scheduler.
+CREATE OR REPLACE FUNCTION public.dispatch_review_fetch(
+    p_business_id UUID,
+    p_platform TEXT,
+    p_mode TEXT DEFAULT 'incremental'
+)
+RETURNS BIGINT AS $$
+DECLARE
+    functions_url TEXT := current_setting('app.settings.functions_url', true);
+    service_role_key TEXT := current_setting('app.settings.service_role_key', true);
+BEGIN
+    IF functions_url IS NULL OR service_role_key IS NULL THEN
+        RAISE EXCEPTION 'Review scheduler settings are missing';
+    END IF;
+
+    RETURN net.http_post(
+        url := functions_url || '/fetch-reviews',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || service_role_key
+        ),
+        -- The scheduler already decided the business is due, so bypass the skip window
+        body := jsonb_build_object(
+            'business_id', p_business_id,
+            'platform', p_platform,
+            'mode', p_mode,
+            'force_refresh', true,
+            'trigger_source', 'scheduler'
+        ),
+        -- Long enough for a full fetch, so pg_net does not hang up on it
+        timeout_milliseconds := 150000
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_review_fetch(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,61 @@
+-- A review re-analyzed after an edit or a provider change has several
+-- sentiment_analysis rows, and joining all of them counted the review once per
+-- analysis in total_reviews, average_rating and the low-rating and negative
+-- counts. Both summaries now join only each review's latest analysis.
+
+CREATE OR REPLACE VIEW public.business_summary WITH (security_invoker = true) AS
+SELECT
+    b.id,
+    b.name,
+    b.user_id,
+    b.is_monitoring_enabled AS is_active,
+    b.group_id,
+    g.name AS group_name,
+    COUNT(r.id) AS total_reviews,
+    AVG(r.rating) AS average_rating,
+    COUNT(CASE WHEN r.rating <= 3 THEN 1 END) AS low_rating_count,
+    COUNT(CASE WHEN sa.overall_sentiment = 'negative' THEN 1 END) AS negative_sentiment_count,
+    MAX(r.review_date) AS latest_review_date,
+    b.address,
+    b.last_review_fetch,
+    ARRAY_REMOVE(ARRAY[
+        CASE WHEN b.google_place_id IS NOT NULL THEN 'google' END,
+        CASE WHEN b.yelp_business_id IS NOT NULL THEN 'yelp' END,
+        CASE WHEN b.facebook_page_id IS NOT NULL THEN 'facebook' END,
+        CASE WHEN b.tripadvisor_location_id IS NOT NULL THEN 'tripadvisor' END
+    ], NULL) AS platforms
+FROM public.businesses b
+LEFT JOIN public.business_groups g ON b.group_id = g.id
+LEFT JOIN public.reviews r ON b.id = r.business_id AND r.is_removed = false
+LEFT JOIN LATERAL (
+    SELECT s.overall_sentiment
+    FROM public.sentiment_analysis s
+    WHERE s.review_id = r.id
+    ORDER BY s.created_at DESC
+    LIMIT 1
+) sa ON true
+GROUP BY b.id, b.name, b.user_id, b.is_monitoring_enabled, b.group_id, g.name;
+
+CREATE OR REPLACE VIEW public.business_group_summary WITH (security_invoker = true) AS
+SELECT
+    g.id,
+    g.name,
+    g.user_id,
+    COUNT(DISTINCT b.id) AS location_count,
+    COUNT(DISTINCT b.id) FILTER (WHERE b.is_monitoring_enabled) AS active_location_count,
+    COUNT(r.id) AS total_reviews,
+    AVG(r.rating) AS average_rating,
+    COUNT(CASE WHEN r.rating <= 3 THEN 1 END) AS low_rating_count,
+    COUNT(CASE WHEN sa.overall_sentiment = 'negative' THEN 1 END) AS negative_sentiment_count,
+    MAX(r.review_date) AS latest_review_date
+FROM public.business_groups g
+LEFT JOIN public.businesses b ON b.group_id = g.id
+LEFT JOIN public.reviews r ON b.id = r.business_id AND r.is_removed = false
+LEFT JOIN LATERAL (
+    SELECT s.overall_sentiment
+    FROM public.sentiment_analysis s
+    WHERE s.review_id = r.id
+    ORDER BY s.created_at DESC
+    LIMIT 1
+) sa ON true
+GROUP BY g.id, g.name, g.user_id;